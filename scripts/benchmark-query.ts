@@ -0,0 +1,186 @@
+/**
+ * 列表查询性能基准测试
+ * 生成大批量数据（默认 5,000 个款号、50,000 条配料），对比两种 getList 实现：
+ * - 旧实现：table.toArray() 读取整表后在内存中筛选、排序、分页
+ * - 新实现：queryList()，能走索引时用 where() / orderBy() + offset() / limit() 只读取当前页
+ *
+ * 使用方法：npm run bench:query [-- <款号数> <配料数>]
+ * 运行在 Node.js 中，使用 fake-indexeddb 模拟浏览器的 IndexedDB
+ */
+
+import "fake-indexeddb/auto";
+import type { CrudFilters, CrudSorting, Pagination } from "@refinedev/core";
+import { db } from "../src/providers/database";
+import { queryList } from "../src/providers/query";
+import { matchesFilters } from "../src/providers/filtering";
+import { sortRecords } from "../src/providers/sorting";
+import type { IStyle, IColorVariant, IBOMItem, ICustomer } from "../src/types/models";
+
+const STYLE_COUNT = Number(process.argv[2]) || 5000;
+const BOM_ITEM_COUNT = Number(process.argv[3]) || 50000;
+const CUSTOMER_COUNT = 50;
+const VARIANTS_PER_STYLE = 2;
+const RUNS = 20;
+
+interface IBenchmarkCase {
+  name: string;
+  resource: "styles" | "bom_items";
+  filters?: CrudFilters;
+  sorters?: CrudSorting;
+  pagination?: Pagination;
+}
+
+// ========== 生成测试数据 ==========
+
+async function seed(): Promise<void> {
+  const customers: ICustomer[] = Array.from({ length: CUSTOMER_COUNT }, (_, i) => ({
+    id: i + 1,
+    customer_name: `客户${i + 1}`,
+    create_date: "2022-01-01",
+  }));
+
+  // 款号创建日期分布在三年内
+  const start = new Date("2022-01-01").getTime();
+  const day = 24 * 60 * 60 * 1000;
+  const styles: IStyle[] = Array.from({ length: STYLE_COUNT }, (_, i) => {
+    const customerId = (i % CUSTOMER_COUNT) + 1;
+    return {
+      id: i + 1,
+      style_no: String(10000 + i),
+      style_name: `款式${i + 1}`,
+      customer_id: customerId,
+      customer_name: `客户${customerId}`,
+      create_date: new Date(start + ((i * 7919) % 1095) * day).toISOString().slice(0, 10),
+    };
+  });
+
+  const variants: IColorVariant[] = styles.flatMap((style, i) =>
+    Array.from({ length: VARIANTS_PER_STYLE }, (_, j) => ({
+      id: i * VARIANTS_PER_STYLE + j + 1,
+      style_id: style.id,
+      color_name: j === 0 ? "黑色" : "白色",
+      sample_image_url: "",
+    }))
+  );
+
+  const bomItems: IBOMItem[] = Array.from({ length: BOM_ITEM_COUNT }, (_, i) => ({
+    id: i + 1,
+    variant_id: (i % variants.length) + 1,
+    material_name: `辅料${i % 200}`,
+    material_image_url: "",
+    usage: 1 + (i % 5),
+    unit: "米",
+    specDetails: [{ id: 1, size: "M", spec_value: 10, spec_unit: "cm" }],
+  }));
+
+  await db.transaction("rw", [db.customers, db.styles, db.variants, db.bom_items], async () => {
+    await db.customers.bulkAdd(customers);
+    await db.styles.bulkAdd(styles);
+    await db.variants.bulkAdd(variants);
+    await db.bom_items.bulkAdd(bomItems);
+  });
+}
+
+// ========== 两种实现 ==========
+
+/**
+ * 旧实现：读取整表后在内存中处理
+ */
+async function legacyGetList(query: IBenchmarkCase) {
+  const table = db.table(query.resource);
+  const records = (await table.toArray()).filter((r) => matchesFilters(r, query.filters));
+  const sorted = sortRecords(query.resource, records, query.sorters);
+  const { current = 1, pageSize = 10 } = query.pagination || {};
+  const start = (current - 1) * pageSize;
+  return { data: sorted.slice(start, start + pageSize), total: sorted.length };
+}
+
+async function indexedGetList(query: IBenchmarkCase) {
+  return queryList(query.resource, db.table(query.resource), query);
+}
+
+/**
+ * 多次运行取中位数（毫秒）
+ */
+async function measure(run: () => Promise<unknown>): Promise<number> {
+  const times: number[] = [];
+  for (let i = 0; i < RUNS; i++) {
+    const begin = performance.now();
+    await run();
+    times.push(performance.now() - begin);
+  }
+  times.sort((a, b) => a - b);
+  return times[Math.floor(times.length / 2)];
+}
+
+// ========== 测试用例 ==========
+
+const CASES: IBenchmarkCase[] = [
+  { name: "款号列表首页", resource: "styles", pagination: { current: 1, pageSize: 10 } },
+  { name: "款号列表第 200 页", resource: "styles", pagination: { current: 200, pageSize: 10 } },
+  {
+    name: "款号按创建日期倒序",
+    resource: "styles",
+    sorters: [{ field: "create_date", order: "desc" }],
+    pagination: { current: 1, pageSize: 10 },
+  },
+  {
+    name: "客户的款号按日期倒序",
+    resource: "styles",
+    filters: [{ field: "customer_id", operator: "eq", value: 7 }],
+    sorters: [{ field: "create_date", order: "desc" }],
+    pagination: { current: 1, pageSize: 100 },
+  },
+  {
+    name: "款号按名称排序（内存排序）",
+    resource: "styles",
+    sorters: [{ field: "style_name", order: "asc" }],
+    pagination: { current: 1, pageSize: 10 },
+  },
+  {
+    name: "颜色版本的配料",
+    resource: "bom_items",
+    filters: [{ field: "variant_id", operator: "eq", value: 42 }],
+    pagination: { current: 1, pageSize: 100 },
+  },
+  { name: "配料列表第 1000 页", resource: "bom_items", pagination: { current: 1000, pageSize: 10 } },
+];
+
+async function main(): Promise<void> {
+  await db.open();
+
+  console.log(`生成测试数据：${STYLE_COUNT} 个款号、${STYLE_COUNT * VARIANTS_PER_STYLE} 个颜色版本、${BOM_ITEM_COUNT} 条配料...`);
+  const seedStart = performance.now();
+  await seed();
+  console.log(`数据生成完成（${Math.round(performance.now() - seedStart)} ms）\n`);
+
+  const rows = [];
+  for (const query of CASES) {
+    // 先确认两种实现结果一致
+    const [legacy, indexed] = await Promise.all([legacyGetList(query), indexedGetList(query)]);
+    const same =
+      legacy.total === indexed.total &&
+      JSON.stringify(legacy.data.map((r: any) => r.id)) === JSON.stringify(indexed.data.map((r: any) => r.id));
+    if (!same) {
+      throw new Error(`查询结果不一致：${query.name}`);
+    }
+
+    const legacyMs = await measure(() => legacyGetList(query));
+    const indexedMs = await measure(() => indexedGetList(query));
+    rows.push({
+      用例: query.name,
+      总数: indexed.total,
+      "旧实现 (ms)": legacyMs.toFixed(1),
+      "新实现 (ms)": indexedMs.toFixed(1),
+      提升: `${(legacyMs / indexedMs).toFixed(1)}x`,
+    });
+  }
+
+  console.table(rows);
+  db.close();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
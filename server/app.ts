@@ -0,0 +1,207 @@
+/**
+ * SpecMaster 参考后端的 HTTP 处理（路由见 server/index.ts）
+ * 与启动脚本分开，测试中可以用内存数据库启动一个服务器
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "http";
+import { ApiError, RESOURCES, type SpecMasterStore } from "./store";
+
+/**
+ * 读取 JSON 请求体
+ */
+async function readBody(req: IncomingMessage): Promise<any> {
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk);
+  }
+  if (chunks.length === 0) return {};
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new ApiError(400, "请求体不是有效的 JSON");
+  }
+}
+
+/**
+ * 读取 JSON 格式的查询参数
+ */
+function parseJsonParam(params: URLSearchParams, name: string): any {
+  const value = params.get(name);
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new ApiError(400, `查询参数 ${name} 不是有效的 JSON`);
+  }
+}
+
+function parseId(value: string): number {
+  const id = Number(value);
+  if (!Number.isInteger(id)) {
+    throw new ApiError(400, `无效的记录 ID：${value}`);
+  }
+  return id;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json; charset=utf-8" });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * 处理一个 API 请求，返回响应数据
+ */
+async function handle(store: SpecMasterStore, req: IncomingMessage): Promise<unknown> {
+  const url = new URL(req.url || "/", "http://localhost");
+  const segments = url.pathname.replace(/^\/api\/?/, "").split("/").filter(Boolean);
+  const method = req.method || "GET";
+
+  // ========== 自定义操作 ==========
+  const cloneMatch = url.pathname.match(/^\/api\/styles\/(\d+)\/variants\/(\d+)\/clone$/);
+  if (cloneMatch && method === "POST") {
+    const { new_color_name } = await readBody(req);
+    if (!new_color_name) {
+      throw new ApiError(400, "缺少必填参数：new_color_name");
+    }
+    return { data: store.cloneVariant(Number(cloneMatch[2]), new_color_name) };
+  }
+
+  if (url.pathname === "/api/styles/style-no-check" && method === "GET") {
+    const excludeId = url.searchParams.get("exclude_id");
+    return {
+      data: store.styleNoCheck(url.searchParams.get("style_no") || "", excludeId ? parseId(excludeId) : undefined),
+    };
+  }
+
+  if (url.pathname === "/api/styles/merge" && method === "POST") {
+    const { target_id, source_ids } = await readBody(req);
+    if (!target_id || !Array.isArray(source_ids) || source_ids.length === 0) {
+      throw new ApiError(400, "缺少必填参数：target_id、source_ids");
+    }
+    return { data: store.mergeStyles(Number(target_id), source_ids.map(Number)) };
+  }
+
+  // ========== 回收站 ==========
+  if (url.pathname === "/api/recycle-bin" && method === "GET") {
+    return { data: store.listRecycleBin() };
+  }
+
+  if (url.pathname === "/api/recycle-bin/restore" && method === "POST") {
+    const { batch } = await readBody(req);
+    if (!batch) {
+      throw new ApiError(400, "缺少必填参数：batch");
+    }
+    return { data: store.restoreBatch(batch) };
+  }
+
+  if (url.pathname === "/api/recycle-bin/purge" && method === "POST") {
+    const { batch } = await readBody(req);
+    if (!batch) {
+      throw new ApiError(400, "缺少必填参数：batch");
+    }
+    return { data: store.purgeBatch(batch) };
+  }
+
+  if (url.pathname === "/api/recycle-bin/empty" && method === "POST") {
+    return { data: { count: store.emptyRecycleBin() } };
+  }
+
+  const referencesMatch = url.pathname.match(/^\/api\/references\/(\w+)\/(\d+)$/);
+  if (referencesMatch && method === "GET") {
+    return { data: store.references(referencesMatch[1], parseId(referencesMatch[2])) };
+  }
+
+  // ========== 离线同步 ==========
+  if (url.pathname === "/api/sync/push" && method === "POST") {
+    const { changes = [], max_ids } = await readBody(req);
+    return { results: store.pushChanges(changes, max_ids) };
+  }
+
+  if (url.pathname === "/api/sync/pull" && method === "GET") {
+    const since = Number(url.searchParams.get("since")) || 0;
+    const limit = Math.min(Number(url.searchParams.get("limit")) || 500, 1000);
+    return store.pullChanges(since, limit);
+  }
+
+  // ========== 资源 CRUD ==========
+  const [resource, rawId, ...rest] = segments;
+  if (!RESOURCES.includes(resource) || rest.length > 0) {
+    throw new ApiError(404, `未实现的 API: ${method} ${url.pathname}`);
+  }
+
+  if (rawId === undefined) {
+    switch (method) {
+      case "GET": {
+        const ids = url.searchParams.get("ids");
+        if (ids !== null) {
+          return { data: store.getMany(resource, ids.split(",").filter(Boolean).map(parseId)) };
+        }
+        return store.list(resource, {
+          filters: parseJsonParam(url.searchParams, "filters"),
+          sorters: parseJsonParam(url.searchParams, "sorters"),
+          pagination: {
+            current: Number(url.searchParams.get("current")) || undefined,
+            pageSize: Number(url.searchParams.get("pageSize")) || undefined,
+            mode: (url.searchParams.get("mode") as "server" | "client" | "off" | null) || undefined,
+          },
+        });
+      }
+      case "POST":
+        return { data: store.create(resource, await readBody(req)) };
+      case "PATCH": {
+        const { ids = [], variables = {}, base_updated_at } = await readBody(req);
+        return { data: store.updateMany(resource, ids.map(Number), variables, base_updated_at) };
+      }
+      case "DELETE": {
+        const { ids = [] } = await readBody(req);
+        const numericIds: number[] = ids.map(Number);
+        return { data: numericIds, summaries: store.deleteMany(resource, numericIds) };
+      }
+    }
+  } else {
+    const id = parseId(rawId);
+    switch (method) {
+      case "GET":
+        return { data: store.getOne(resource, id) };
+      case "PATCH":
+        return {
+          data: store.update(resource, id, await readBody(req), parseJsonParam(url.searchParams, "base_updated_at")),
+        };
+      case "DELETE": {
+        const { record, summary } = store.deleteOne(resource, id);
+        return { data: record, summary };
+      }
+    }
+  }
+
+  throw new ApiError(405, `不支持的请求方法: ${method} ${url.pathname}`);
+}
+
+/**
+ * 创建 HTTP 服务器（不监听端口）
+ */
+export function createApiServer(store: SpecMasterStore): Server {
+  return createServer(async (req, res) => {
+    // 设置 CORS 头
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, PATCH, DELETE, OPTIONS");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+
+    // 处理 OPTIONS 预检请求
+    if (req.method === "OPTIONS") {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    try {
+      sendJson(res, 200, await handle(store, req));
+    } catch (error) {
+      const status = error instanceof ApiError ? error.status : 500;
+      if (status === 500) {
+        console.error("❌ 请求处理失败:", error);
+      }
+      sendJson(res, status, { message: (error as Error).message, ...(error instanceof ApiError ? error.details : {}) });
+    }
+  });
+}
@@ -0,0 +1,64 @@
+/**
+ * SpecMaster 参考后端（REST API + SQLite）
+ * 与前端 restDataProvider 配合使用，实现与 IndexedDB Data Provider 相同的资源和操作
+ * 使用方法：npm run dev:api
+ *
+ * 回收站中超过保留天数的条目在启动时和之后每天清除一次
+ *
+ * 环境变量：
+ * - SPECMASTER_API_PORT：监听端口（默认 3002）
+ * - SPECMASTER_DB：SQLite 数据库文件（默认 server/data/specmaster.db）
+ *
+ * 路由：
+ * - GET    /api/:resource                        列表（filters、sorters 为 JSON，current、pageSize、mode 为分页参数；传 ids 时批量获取）
+ * - GET    /api/:resource/:id                    单条记录
+ * - POST   /api/:resource                        新建
+ * - PATCH  /api/:resource/:id                    修改（base_updated_at 为 JSON：开始编辑时的修改时间，记录已被修改时返回 409）
+ * - DELETE /api/:resource/:id                    删除（款号、颜色版本、配料移入回收站）
+ * - PATCH  /api/:resource                        批量修改 { ids, variables, base_updated_at: { 记录ID: 修改时间 } }
+ * - DELETE /api/:resource                        批量删除 { ids }
+ * - POST   /api/styles/:id/variants/:id/clone    深度克隆颜色版本 { new_color_name }
+ * - GET    /api/recycle-bin                      回收站条目（每次删除操作一条）
+ * - POST   /api/recycle-bin/restore              从回收站恢复 { batch }
+ * - POST   /api/recycle-bin/purge                彻底删除回收站中的一条 { batch }
+ * - POST   /api/recycle-bin/empty                清空回收站
+ * - GET    /api/styles/style-no-check            检查款号是否可用（style_no、exclude_id）
+ * - POST   /api/styles/merge                     合并重复款号 { target_id, source_ids }
+ * - GET    /api/references/:resource/:id         基础数据（客户、尺码、单位）被款号、配料使用的情况
+ * - POST   /api/sync/push                        离线同步：推送本机变更 { changes, max_ids }
+ * - GET    /api/sync/pull                        离线同步：拉取游标之后的变更（since、limit）
+ */
+
+import { mkdirSync } from "fs";
+import { dirname, resolve } from "path";
+import { createStore } from "./store";
+import { createApiServer } from "./app";
+
+const PORT = Number(process.env.SPECMASTER_API_PORT) || 3002;
+const DB_FILE = resolve(process.env.SPECMASTER_DB || "server/data/specmaster.db");
+
+mkdirSync(dirname(DB_FILE), { recursive: true });
+const store = createStore(DB_FILE);
+
+const server = createApiServer(store);
+
+// 清除回收站中的过期条目
+const purgeExpiredRecycleBin = () => {
+  const count = store.emptyRecycleBin(true);
+  if (count > 0) console.log(`🗑️  已清除回收站中 ${count} 条过期记录`);
+};
+purgeExpiredRecycleBin();
+const purgeTimer = setInterval(purgeExpiredRecycleBin, 24 * 60 * 60 * 1000);
+
+server.listen(PORT, () => {
+  console.log(`🚀 SpecMaster API 已启动: http://localhost:${PORT}/api`);
+  console.log(`🗄️  数据库文件: ${DB_FILE}`);
+});
+
+// 退出时关闭数据库
+process.on("SIGINT", () => {
+  clearInterval(purgeTimer);
+  server.close();
+  store.close();
+  process.exit(0);
+});
@@ -0,0 +1,909 @@
+/**
+ * SpecMaster 参考后端：SQLite 数据存储
+ * 与前端 IndexedDB Data Provider 保持相同的数据约定：
+ * - 每个资源一张表，记录整体以 JSON 保存，常用查询字段单独成列并建索引
+ * - 筛选、排序规则与前端共用 src/providers/filtering.ts、sorting.ts
+ * - 款号、颜色版本、配料为软删除（回收站），可按删除批次恢复或彻底删除，超过保留天数的批次由启动脚本定期清除
+ * - 每张表（以及 L4 规格明细）各自维护持久化的 ID 序列
+ * - 每次写入记录时修订号加一，并登记到 sync_log，供离线同步的客户端按游标拉取
+ * - 通过 REST 接口新建、修改的记录更新 updated_at，修改时可按客户端传入的 base_updated_at 检测过期写入
+ * - 删除客户、尺码、单位时按 src/providers/references.ts 的引用关系处理引用方，客户改名时同步款号中的客户名称
+ * - 款号为唯一索引，重复时返回 409；启动时和同步推送时的重复款号按 src/providers/styleNo.ts 让出款号
+ *
+ * 所有写操作都在 SQLite 事务中完成
+ */
+
+import Database from "better-sqlite3";
+import type { LogicalFilter } from "@refinedev/core";
+import { equalityKeys, isActive, matchesFilters } from "../src/providers/filtering";
+import { sortRecords } from "../src/providers/sorting";
+import type { IListQuery } from "../src/providers/query";
+import {
+  DENORMALIZED_FIELDS,
+  detachReference,
+  isReferencing,
+  referenceParentLabel,
+  referenceRulesFor,
+  ReferenceInUseError,
+  renameReference,
+  toReferenceUsage,
+} from "../src/providers/references";
+import {
+  displacedStyleNo,
+  DuplicateStyleNoError,
+  mergedColorName,
+  normalizeStyleNo,
+  styleNoKey,
+  withUniqueStyleNos,
+} from "../src/providers/styleNo";
+import { isLegacyOrder, remapOrderVariants, toMultiColorOrder } from "../src/providers/orders";
+import {
+  parseRecycleBatch,
+  recycleBinVariantIds,
+  toRecycleBinEntries,
+  RECYCLE_BIN_RETENTION_DAYS,
+} from "../src/providers/recycleBinEntries";
+import type {
+  IBOMItem,
+  ICascadeDeleteSummary,
+  ICloneVariantResponse,
+  IColorVariant,
+  IMergeStylesResponse,
+  IRecycleBinEntry,
+  IStyleNoCheckResult,
+  ISpecDetail,
+  IStyle,
+  ISyncChange,
+  ISyncPushResult,
+} from "../src/types/models";
+
+/**
+ * 带 HTTP 状态码的错误（由路由层转换为响应）
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly details?: Record<string, unknown>; // 随错误信息一起返回的内容
+
+  constructor(status: number, message: string, details?: Record<string, unknown>) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.details = details;
+  }
+}
+
+/**
+ * 检查记录是否在客户端开始编辑后被修改过（baseUpdatedAt 为 undefined 时不检查）
+ * 冲突时返回 409，响应中的 current 为服务器上的最新记录
+ */
+function assertNotStale(resource: string, existing: any, baseUpdatedAt: string | null | undefined): void {
+  if (baseUpdatedAt === undefined) return;
+  if ((existing.updated_at ?? null) !== baseUpdatedAt) {
+    throw new ApiError(409, `记录已在其他页面被修改：${resource}#${existing.id}`, { current: existing });
+  }
+}
+
+/**
+ * 各资源单独成列的字段（与前端 Dexie 索引一致）
+ */
+const RESOURCE_COLUMNS: Record<string, string[]> = {
+  styles: ["style_no", "customer_id", "create_date", "deleted_at", "deleted_batch"],
+  variants: ["style_id", "color_name", "deleted_at", "deleted_batch"],
+  bom_items: ["variant_id", "material_name", "deleted_at", "deleted_batch"],
+  customers: ["customer_name", "create_date"],
+  sizes: ["size_code", "sort_order"],
+  units: ["unit_code"],
+  orders: ["style_id", "order_date", "create_date"],
+  wastage_rules: ["scope", "match_value"],
+};
+
+// 支持软删除（回收站）的资源
+const SOFT_DELETE_RESOURCES = ["styles", "variants", "bom_items"];
+
+// 同步推送的处理顺序：上级资源在前，下级记录的外键可以按上级记录的新 ID 改写
+const SYNC_ORDER = ["customers", "sizes", "units", "styles", "variants", "bom_items", "orders", "wastage_rules"];
+
+// 指向上级记录的外键（字段 → 上级资源）
+const FOREIGN_KEYS: Record<string, Record<string, string>> = {
+  styles: { customer_id: "customers" },
+  variants: { style_id: "styles" },
+  bom_items: { variant_id: "variants" },
+  orders: { style_id: "styles" },
+};
+
+export const RESOURCES = Object.keys(RESOURCE_COLUMNS);
+
+/**
+ * 转换为 SQLite 可保存的列值
+ */
+function toColumnValue(value: unknown): string | number | null {
+  if (typeof value === "number" || typeof value === "string") return value;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  return null;
+}
+
+/**
+ * 打开（或创建）数据库并返回数据操作接口
+ */
+export function createStore(filename: string) {
+  const db = new Database(filename);
+  db.pragma("journal_mode = WAL");
+
+  // ========== 建表 ==========
+  Object.entries(RESOURCE_COLUMNS).forEach(([resource, columns]) => {
+    db.exec(
+      `CREATE TABLE IF NOT EXISTS ${resource} (id INTEGER PRIMARY KEY, ${columns.join(", ")}, data TEXT NOT NULL)`
+    );
+    columns.forEach((column) => {
+      db.exec(`CREATE INDEX IF NOT EXISTS idx_${resource}_${column} ON ${resource} (${column})`);
+    });
+  });
+  db.exec("CREATE TABLE IF NOT EXISTS id_counters (sequence TEXT PRIMARY KEY, next INTEGER NOT NULL)");
+  db.exec(
+    "CREATE TABLE IF NOT EXISTS sync_log (seq INTEGER PRIMARY KEY AUTOINCREMENT, resource TEXT NOT NULL, record_id INTEGER NOT NULL)"
+  );
+
+  const assertResource = (resource: string) => {
+    if (!RESOURCE_COLUMNS[resource]) {
+      throw new ApiError(404, `Unknown resource: ${resource}`);
+    }
+  };
+
+  // ========== 读写单条记录 ==========
+
+  const read = (resource: string, id: number): any | undefined => {
+    const row = db.prepare(`SELECT data FROM ${resource} WHERE id = ?`).get(id) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : undefined;
+  };
+
+  const readWhere = (resource: string, where: string, params: unknown[]): any[] =>
+    (db.prepare(`SELECT data FROM ${resource} WHERE ${where}`).all(...params) as { data: string }[]).map((row) =>
+      JSON.parse(row.data)
+    );
+
+  const logChange = (resource: string, id: number): void => {
+    db.prepare("INSERT INTO sync_log (resource, record_id) VALUES (?, ?)").run(resource, id);
+  };
+
+  /**
+   * 写入记录（修订号在服务器当前值上加一），返回写入后的记录
+   * 只按 id 覆盖已有记录，违反其他唯一索引（款号）时报错而不是替换掉另一条记录
+   */
+  const write = (resource: string, record: any): any => {
+    const columns = RESOURCE_COLUMNS[resource];
+    const saved = { ...record, revision: (read(resource, record.id)?.revision ?? 0) + 1 };
+    db.prepare(
+      `INSERT INTO ${resource} (id, ${columns.join(", ")}, data) VALUES (?, ${columns.map(() => "?").join(", ")}, ?) ` +
+        `ON CONFLICT(id) DO UPDATE SET ${[...columns, "data"].map((c) => `${c} = excluded.${c}`).join(", ")}`
+    ).run(saved.id, ...columns.map((c) => toColumnValue(saved[c])), JSON.stringify(saved));
+    logChange(resource, saved.id);
+    return saved;
+  };
+
+  const remove = (resource: string, ids: number[]): void => {
+    const statement = db.prepare(`DELETE FROM ${resource} WHERE id = ?`);
+    ids.forEach((id) => {
+      statement.run(id);
+      logChange(resource, id);
+    });
+  };
+
+  const isVisible = (record: any) => record && !record.deleted_at;
+
+  const findVisible = (resource: string, id: number): any => {
+    const record = read(resource, id);
+    if (!isVisible(record)) {
+      throw new ApiError(404, `Record not found: ${resource}#${id}`);
+    }
+    return record;
+  };
+
+  // ========== ID 分配 ==========
+
+  /**
+   * 分配一组连续的 ID（需在事务中调用）
+   * @param floor 分配的 ID 需大于该值（同步时避开推送方本机已用的 ID）
+   */
+  const allocateIds = (sequence: string, count: number, floor = 0): number[] => {
+    if (count <= 0) return [];
+
+    const counter = db.prepare("SELECT next FROM id_counters WHERE sequence = ?").get(sequence) as
+      | { next: number }
+      | undefined;
+
+    let minimum = 1;
+    if (sequence === "spec_details") {
+      if (!counter) {
+        readWhere("bom_items", "1 = 1", []).forEach((item: IBOMItem) => {
+          (item.specDetails || []).forEach((spec) => {
+            if (typeof spec.id === "number") minimum = Math.max(minimum, Math.floor(spec.id) + 1);
+          });
+        });
+      }
+    } else {
+      const row = db.prepare(`SELECT MAX(id) AS max FROM ${sequence}`).get() as { max: number | null };
+      minimum = (row.max ?? 0) + 1;
+    }
+
+    const start = Math.max(counter?.next ?? 1, minimum, floor + 1);
+    db.prepare("INSERT OR REPLACE INTO id_counters (sequence, next) VALUES (?, ?)").run(sequence, start + count);
+    return Array.from({ length: count }, (_, i) => start + i);
+  };
+
+  const assignSpecDetailIds = (specDetails: ISpecDetail[] = []): ISpecDetail[] => {
+    const ids = allocateIds("spec_details", specDetails.filter((s) => typeof s.id !== "number").length);
+    let next = 0;
+    return specDetails.map((spec) => (typeof spec.id === "number" ? spec : { ...spec, id: ids[next++] }));
+  };
+
+  // ========== 级联删除 ==========
+
+  /**
+   * 删除记录及其下级数据：款号、颜色版本、配料移入回收站，其余资源直接删除
+   */
+  const cascadeDelete = (resource: string, id: number): ICascadeDeleteSummary => {
+    const record = findVisible(resource, id);
+    const summary: ICascadeDeleteSummary = {
+      resource,
+      id,
+      style_ids: [],
+      variant_ids: [],
+      bom_item_ids: [],
+      spec_count: 0,
+    };
+
+    if (!SOFT_DELETE_RESOURCES.includes(resource)) {
+      remove(resource, [id]);
+      return summary;
+    }
+
+    const deletedAt = new Date().toISOString();
+    const marker = { deleted_at: deletedAt, deleted_batch: `${resource}:${id}:${deletedAt}` };
+    summary.batch = marker.deleted_batch;
+
+    if (resource === "styles") {
+      summary.style_ids = [id];
+      summary.variant_ids = readWhere("variants", "style_id = ? AND deleted_at IS NULL", [id]).map((v) => v.id);
+    } else if (resource === "variants") {
+      summary.variant_ids = [id];
+    } else {
+      summary.bom_item_ids = [id];
+      summary.spec_count = record.specDetails?.length || 0;
+    }
+
+    if (summary.variant_ids.length > 0) {
+      const bomItems = summary.variant_ids.flatMap((variantId) =>
+        readWhere("bom_items", "variant_id = ? AND deleted_at IS NULL", [variantId])
+      );
+      summary.bom_item_ids = bomItems.map((item) => item.id);
+      summary.spec_count = bomItems.reduce((sum, item) => sum + (item.specDetails?.length || 0), 0);
+    }
+
+    write(resource, { ...record, ...marker });
+    const mark = (table: string, ids: number[]) =>
+      ids.forEach((childId) => {
+        const child = read(table, childId);
+        if (child && !(table === resource && childId === id)) write(table, { ...child, ...marker });
+      });
+    mark("variants", summary.variant_ids);
+    mark("bom_items", summary.bom_item_ids);
+
+    return summary;
+  };
+
+  /**
+   * 彻底删除回收站中的批次，连同其下级数据（包括之前单独删除的下级记录）
+   */
+  const purgeBatches = (batches: string[]): void => {
+    batches.forEach((batch) => {
+      const styleIds = readWhere("styles", "deleted_batch = ?", [batch]).map((style) => style.id);
+      const variantIds = [
+        ...styleIds.flatMap((styleId) => readWhere("variants", "style_id = ?", [styleId])),
+        ...readWhere("variants", "deleted_batch = ?", [batch]),
+      ].map((variant) => variant.id);
+      const bomItemIds = [
+        ...variantIds.flatMap((variantId) => readWhere("bom_items", "variant_id = ?", [variantId])),
+        ...readWhere("bom_items", "deleted_batch = ?", [batch]),
+      ].map((item) => item.id);
+
+      remove("bom_items", Array.from(new Set(bomItemIds)));
+      remove("variants", Array.from(new Set(variantIds)));
+      remove("styles", styleIds);
+    });
+  };
+
+  /**
+   * 列出回收站条目（与本地回收站相同的整理方式）
+   */
+  const listRecycleBin = (retentionDays: number): IRecycleBinEntry[] => {
+    const deleted = {
+      styles: readWhere("styles", "deleted_at IS NOT NULL", []),
+      variants: readWhere("variants", "deleted_at IS NOT NULL", []),
+      bom_items: readWhere("bom_items", "deleted_at IS NOT NULL", []),
+    };
+    const variants = new Map<number, IColorVariant>();
+    recycleBinVariantIds(deleted).forEach((id) => {
+      const variant = read("variants", id);
+      if (variant) variants.set(id, variant);
+    });
+    const styles = new Map<number, IStyle>();
+    [...deleted.styles.map((style) => style.id), ...Array.from(variants.values()).map((v) => v.style_id)].forEach(
+      (id) => {
+        const style = read("styles", id);
+        if (style) styles.set(id, style);
+      }
+    );
+    return toRecycleBinEntries(deleted, { styles, variants }, retentionDays);
+  };
+
+  // ========== 款号唯一性 ==========
+
+  /**
+   * 检查款号是否可用
+   * @param excludeId 正在修改的款号ID（不与自身比较）
+   */
+  const checkStyleNo = (value: unknown, excludeId?: number): IStyleNoCheckResult => {
+    const styleNo = normalizeStyleNo(value);
+    const existing = readWhere("styles", "style_no = ?", [styleNo])[0];
+    const key = styleNoKey(styleNo);
+    const similar = readWhere("styles", "deleted_at IS NULL", []).filter(
+      (style) => style.id !== excludeId && style.style_no !== styleNo && styleNoKey(style.style_no) === key
+    );
+
+    const taken = existing && existing.id !== excludeId;
+    return {
+      style_no: styleNo,
+      available: !taken,
+      existing_id: taken ? existing.id : undefined,
+      in_recycle_bin: taken ? !isVisible(existing) : undefined,
+      similar: similar.map((style) => style.style_no),
+    };
+  };
+
+  /**
+   * 保存款号前去除首尾空格并检查是否重复（重复时返回 409，duplicate_style_no 为重复信息）
+   * 改用新款号后清除 duplicate_of
+   */
+  const prepareStyleNo = (resource: string, variables: Record<string, any>, existing?: any): Record<string, any> => {
+    if (resource !== "styles" || variables.style_no === undefined) return variables;
+
+    const styleNo = normalizeStyleNo(variables.style_no);
+    if (existing?.style_no === styleNo) {
+      return { ...variables, style_no: styleNo };
+    }
+
+    const check = checkStyleNo(styleNo, existing?.id);
+    if (!check.available) {
+      const error = new DuplicateStyleNoError(styleNo, check.existing_id!, !!check.in_recycle_bin);
+      throw new ApiError(409, error.message, {
+        duplicate_style_no: { style_no: styleNo, existing_id: check.existing_id, in_recycle_bin: check.in_recycle_bin },
+      });
+    }
+    return existing?.duplicate_of
+      ? { ...variables, style_no: styleNo, duplicate_of: undefined }
+      : { ...variables, style_no: styleNo };
+  };
+
+  /**
+   * 同步推送的款号已被其他记录使用时，推送的记录让出款号
+   */
+  const releaseIncomingStyleNo = (record: any, id: number): any => {
+    const holder = readWhere("styles", "style_no = ?", [record.style_no])[0];
+    if (!holder || holder.id === id) return record;
+    return { ...record, style_no: displacedStyleNo(record.style_no, id), duplicate_of: record.style_no };
+  };
+
+  // 建立款号唯一索引前为已有的重复款号让出款号
+  db.transaction(() => {
+    const styles = readWhere("styles", "1 = 1", []);
+    const original = new Map(styles.map((style) => [style.id, style.style_no]));
+    withUniqueStyleNos(styles)
+      .filter((style) => style.style_no !== original.get(style.id))
+      .forEach((style) => write("styles", style));
+  })();
+  db.exec("CREATE UNIQUE INDEX IF NOT EXISTS idx_styles_style_no_unique ON styles (style_no)");
+
+  // 早期的单颜色订单转为多颜色订单
+  db.transaction(() => {
+    readWhere("orders", "1 = 1", [])
+      .filter(isLegacyOrder)
+      .forEach((order) => write("orders", toMultiColorOrder(order)));
+  })();
+
+  // ========== 引用关系 ==========
+
+  /**
+   * 读取引用了某条基础数据的记录（回收站中的记录不计入）
+   */
+  const readReferences = (resource: string, parent: any) =>
+    referenceRulesFor(resource).map((rule) => ({
+      rule,
+      children: readWhere(rule.child, "deleted_at IS NULL", []).filter((child) => isReferencing(rule, parent, child)),
+    }));
+
+  /**
+   * 删除基础数据前处理引用方：block 关系仍被使用时返回 409（usages 为使用情况），
+   * cascade / nullify 关系逐条删除或清空引用字段
+   */
+  const enforceReferences = (resource: string, id: number): void => {
+    const parent = read(resource, id);
+    const references = readReferences(resource, parent);
+    const blocking = references.filter(({ rule, children }) => rule.action === "block" && children.length > 0);
+    if (blocking.length > 0) {
+      const usages = blocking.map(({ rule, children }) => toReferenceUsage(rule, children.length));
+      const message = new ReferenceInUseError(referenceParentLabel(resource, parent), usages).message;
+      throw new ApiError(409, message, { usages });
+    }
+
+    const updatedAt = new Date().toISOString();
+    references.forEach(({ rule, children }) =>
+      children.forEach((child) => {
+        // 同一条记录可能已被前一条关系处理过，重新读取
+        const current = read(rule.child, child.id);
+        if (!isVisible(current)) return;
+        const { remove, record } = detachReference(rule, parent, current);
+        if (remove) {
+          cascadeDelete(rule.child, current.id);
+        } else {
+          write(rule.child, { ...record, updated_at: updatedAt });
+        }
+      })
+    );
+  };
+
+  /**
+   * 同步引用方中的冗余字段（如客户改名后更新款号中的客户名称，含回收站中的款号）
+   */
+  const syncDenormalizedFields = (resource: string, before: any, after: any): void => {
+    DENORMALIZED_FIELDS.forEach((relation) => {
+      const value = after[relation.parentField];
+      if (relation.parent !== resource || before[relation.parentField] === value) return;
+      readWhere(relation.child, `${relation.foreignKey} = ?`, [after.id])
+        .filter((child) => child[relation.field] !== value)
+        .forEach((child) => write(relation.child, { ...child, [relation.field]: value, updated_at: after.updated_at }));
+    });
+  };
+
+  /**
+   * 尺码代码、单位代码或单位名称改变后改写引用方中的值（含回收站中的配料）
+   */
+  const renameReferences = (resource: string, before: any, after: any): void => {
+    referenceRulesFor(resource).forEach((rule) =>
+      readWhere(rule.child, "1 = 1", []).forEach((child) => {
+        // 同一条记录可能已被前一条关系改写过，重新读取
+        const record = renameReference(rule, before, after, read(rule.child, child.id));
+        if (record) write(rule.child, { ...record, updated_at: after.updated_at });
+      })
+    );
+  };
+
+  return {
+    /**
+     * 列表查询（索引列上的等值条件在 SQL 中筛选，其余条件与排序复用前端规则）
+     */
+    list(resource: string, { filters, sorters, pagination }: IListQuery) {
+      assertResource(resource);
+      const columns = RESOURCE_COLUMNS[resource];
+      const where: string[] = [];
+      const params: unknown[] = [];
+
+      if (SOFT_DELETE_RESOURCES.includes(resource)) {
+        where.push("deleted_at IS NULL");
+      }
+      (filters || []).filter(isActive).forEach((filter) => {
+        const logical = filter as LogicalFilter;
+        if (logical.operator !== "eq" || !columns.includes(logical.field)) return;
+        const keys = equalityKeys(logical.value);
+        if (keys.length === 0) return;
+        where.push(`${logical.field} IN (${keys.map(() => "?").join(", ")})`);
+        params.push(...keys);
+      });
+
+      const records = readWhere(resource, where.join(" AND ") || "1 = 1", params).filter((record) =>
+        matchesFilters(record, filters)
+      );
+      const sorted = sortRecords(resource, records, sorters);
+
+      if (pagination?.mode === "off" || pagination?.mode === "client") {
+        return { data: sorted, total: sorted.length };
+      }
+      const { current = 1, pageSize = 10 } = pagination || {};
+      const offset = (current - 1) * pageSize;
+      return { data: sorted.slice(offset, offset + pageSize), total: sorted.length };
+    },
+
+    getOne(resource: string, id: number) {
+      assertResource(resource);
+      return findVisible(resource, id);
+    },
+
+    getMany(resource: string, ids: number[]) {
+      assertResource(resource);
+      return ids.map((id) => read(resource, id)).filter(isVisible);
+    },
+
+    create(resource: string, variables: Record<string, any>) {
+      assertResource(resource);
+      return db.transaction(() => {
+        // 调用方传入的 id 一律忽略
+        const record: any = {
+          ...prepareStyleNo(resource, variables),
+          id: allocateIds(resource, 1)[0],
+          updated_at: new Date().toISOString(),
+        };
+        if (resource === "bom_items") {
+          record.specDetails = assignSpecDetailIds(record.specDetails);
+        }
+        return write(resource, record);
+      })();
+    },
+
+    update(resource: string, id: number, variables: Record<string, any>, baseUpdatedAt?: string | null) {
+      assertResource(resource);
+      return db.transaction(() => {
+        const existing = findVisible(resource, id);
+        assertNotStale(resource, existing, baseUpdatedAt);
+        const record: any = {
+          ...existing,
+          ...prepareStyleNo(resource, variables, existing),
+          id,
+          updated_at: new Date().toISOString(),
+        };
+        if (resource === "bom_items") {
+          record.specDetails = assignSpecDetailIds(record.specDetails);
+        }
+        const saved = write(resource, record);
+        syncDenormalizedFields(resource, existing, saved);
+        renameReferences(resource, existing, saved);
+        return saved;
+      })();
+    },
+
+    updateMany(
+      resource: string,
+      ids: number[],
+      variables: Record<string, any>,
+      baseUpdatedAt: Record<string, string | null> = {}
+    ) {
+      assertResource(resource);
+      const updatedAt = new Date().toISOString();
+      // 任一记录已被修改时整批回滚
+      return db.transaction(() =>
+        ids.filter((id) => {
+          const existing = read(resource, id);
+          if (!isVisible(existing)) return false;
+          assertNotStale(resource, existing, baseUpdatedAt[String(id)]);
+          const saved = write(resource, {
+            ...existing,
+            ...prepareStyleNo(resource, variables, existing),
+            updated_at: updatedAt,
+          });
+          syncDenormalizedFields(resource, existing, saved);
+          renameReferences(resource, existing, saved);
+          return true;
+        })
+      )();
+    },
+
+    deleteOne(resource: string, id: number) {
+      assertResource(resource);
+      return db.transaction(() => {
+        const record = findVisible(resource, id);
+        enforceReferences(resource, id);
+        return { record, summary: cascadeDelete(resource, id) };
+      })();
+    },
+
+    deleteMany(resource: string, ids: number[]) {
+      assertResource(resource);
+      return db.transaction(() =>
+        ids
+          .filter((id) => isVisible(read(resource, id)))
+          .map((id) => {
+            enforceReferences(resource, id);
+            return cascadeDelete(resource, id);
+          })
+      )();
+    },
+
+    /**
+     * 基础数据（客户、尺码、单位）的使用情况，只返回仍被使用的引用关系
+     */
+    references(resource: string, id: number) {
+      assertResource(resource);
+      return readReferences(resource, findVisible(resource, id))
+        .map(({ rule, children }) => toReferenceUsage(rule, children.length))
+        .filter((usage) => usage.count > 0);
+    },
+
+    /**
+     * 检查款号是否可用（新建、修改款号时的异步校验）
+     */
+    styleNoCheck(styleNo: string, excludeId?: number): IStyleNoCheckResult {
+      return checkStyleNo(styleNo, excludeId);
+    },
+
+    /**
+     * 合并重复款号：来源款号的颜色版本移到保留款号下（颜色重名时改名），来源款号让出款号后移入回收站
+     * 保留款号若是让出过款号的记录且原款号已空出，改回原款号
+     */
+    mergeStyles(targetId: number, sourceIds: number[]): IMergeStylesResponse {
+      return db.transaction(() => {
+        const target = findVisible("styles", targetId);
+        const updatedAt = new Date().toISOString();
+        const liveVariants = (styleId: number): IColorVariant[] =>
+          readWhere("variants", "style_id = ? AND deleted_at IS NULL", [styleId]);
+        const colorNames = new Set(liveVariants(targetId).map((variant) => variant.color_name));
+        const response: IMergeStylesResponse = {
+          target_id: targetId,
+          style_no: target.style_no,
+          merged_style_ids: [],
+          moved_variant_ids: [],
+          renamed_color_count: 0,
+        };
+
+        sourceIds
+          .filter((id) => id !== targetId)
+          .forEach((sourceId) => {
+            const source = findVisible("styles", sourceId);
+            const sourceStyleNo = source.duplicate_of || source.style_no;
+
+            liveVariants(sourceId).forEach((variant) => {
+              const colorName = colorNames.has(variant.color_name)
+                ? mergedColorName(variant.color_name, sourceStyleNo, colorNames)
+                : variant.color_name;
+              colorNames.add(colorName);
+              if (colorName !== variant.color_name) response.renamed_color_count++;
+              write("variants", { ...variant, style_id: targetId, color_name: colorName, updated_at: updatedAt });
+              response.moved_variant_ids.push(variant.id);
+            });
+
+            if (!source.duplicate_of) {
+              write("styles", {
+                ...source,
+                style_no: displacedStyleNo(source.style_no, source.id),
+                duplicate_of: source.style_no,
+                updated_at: updatedAt,
+              });
+            }
+            cascadeDelete("styles", sourceId);
+            response.merged_style_ids.push(sourceId);
+          });
+
+        if (target.duplicate_of && checkStyleNo(target.duplicate_of, targetId).available) {
+          write("styles", { ...target, style_no: target.duplicate_of, duplicate_of: undefined, updated_at: updatedAt });
+          response.style_no = target.duplicate_of;
+        }
+
+        return response;
+      })();
+    },
+
+    /**
+     * 深度克隆颜色版本（L2 → L3 → L4 三层复制）
+     */
+    cloneVariant(sourceVariantId: number, newColorName: string): ICloneVariantResponse {
+      return db.transaction(() => {
+        const sourceVariant: IColorVariant | undefined = read("variants", sourceVariantId);
+        if (!isVisible(sourceVariant)) {
+          throw new ApiError(404, `源颜色版本不存在：${sourceVariantId}`);
+        }
+
+        const newVariantId = allocateIds("variants", 1)[0];
+        const updatedAt = new Date().toISOString();
+        write("variants", { ...sourceVariant, id: newVariantId, color_name: newColorName, updated_at: updatedAt });
+
+        const sourceBomItems: IBOMItem[] = readWhere("bom_items", "variant_id = ? AND deleted_at IS NULL", [
+          sourceVariantId,
+        ]);
+        const bomIds = allocateIds("bom_items", sourceBomItems.length);
+        const specCount = sourceBomItems.reduce((sum, item) => sum + (item.specDetails?.length || 0), 0);
+        const specIds = allocateIds("spec_details", specCount);
+        let specIndex = 0;
+
+        sourceBomItems.forEach((item, index) => {
+          write("bom_items", {
+            ...item,
+            id: bomIds[index],
+            variant_id: newVariantId,
+            updated_at: updatedAt,
+            specDetails: (item.specDetails || []).map((spec) => ({ ...spec, id: specIds[specIndex++] })),
+          });
+        });
+
+        return {
+          id: newVariantId,
+          color_name: newColorName,
+          source_variant_id: sourceVariantId,
+          bom_item_ids: bomIds,
+          cloned_bom_count: sourceBomItems.length,
+          cloned_spec_count: specCount,
+        };
+      })();
+    },
+
+    /**
+     * 恢复一个回收站删除批次（上级记录仍在回收站中时不允许恢复）
+     */
+    restoreBatch(batch: string) {
+      return db.transaction(() => {
+        const [resource, rawId] = batch.split(":");
+        const id = Number(rawId);
+        const groups = SOFT_DELETE_RESOURCES.map(
+          (table) => [table, readWhere(table, "deleted_batch = ?", [batch])] as const
+        );
+        if (groups.every(([, records]) => records.length === 0)) {
+          throw new ApiError(404, "回收站中没有这条记录");
+        }
+
+        const root = groups.find(([table]) => table === resource)?.[1].find((r) => r.id === id);
+        if (resource === "variants" && root && read("styles", root.style_id)?.deleted_at) {
+          throw new ApiError(409, "所属款号在回收站中，请先恢复款号");
+        }
+        if (resource === "bom_items" && root && read("variants", root.variant_id)?.deleted_at) {
+          throw new ApiError(409, "所属颜色版本在回收站中，请先恢复颜色版本");
+        }
+
+        groups.forEach(([table, records]) =>
+          records.forEach((record) => {
+            delete record.deleted_at;
+            delete record.deleted_batch;
+            write(table, record);
+          })
+        );
+        return { batch };
+      })();
+    },
+
+    /**
+     * 列出回收站条目（每次删除操作一个条目，最近删除的在前）
+     */
+    listRecycleBin(retentionDays: number = RECYCLE_BIN_RETENTION_DAYS): IRecycleBinEntry[] {
+      return listRecycleBin(retentionDays);
+    },
+
+    /**
+     * 彻底删除回收站中的一个批次（款号随之空出）
+     */
+    purgeBatch(batch: string) {
+      return db.transaction(() => {
+        const { resource, id } = parseRecycleBatch(batch);
+        if (!SOFT_DELETE_RESOURCES.includes(resource) || read(resource, id)?.deleted_batch !== batch) {
+          throw new ApiError(404, "回收站中没有这条记录");
+        }
+        purgeBatches([batch]);
+        return { batch };
+      })();
+    },
+
+    /**
+     * 清空回收站
+     * @param expiredOnly 只清除超过保留天数的条目
+     * @returns 清除的条目数
+     */
+    emptyRecycleBin(expiredOnly = false, retentionDays: number = RECYCLE_BIN_RETENTION_DAYS): number {
+      return db.transaction(() => {
+        const now = Date.now();
+        const batches = listRecycleBin(retentionDays)
+          .filter((entry) => !expiredOnly || new Date(entry.expires_at).getTime() <= now)
+          .map((entry) => entry.batch);
+        purgeBatches(batches);
+        return batches.length;
+      })();
+    },
+
+    // ========== 离线同步 ==========
+
+    /**
+     * 接收客户端推送的变更（整体在一个事务中处理）
+     * - 修订号与服务器一致时写入，否则返回冲突及服务器上的当前记录
+     * - 客户端新建的记录 ID 已被占用时分配新 ID，同一批中下级记录的外键随之改写
+     * @param maxIds 推送方本机各表的最大 ID
+     */
+    pushChanges(changes: ISyncChange[], maxIds: Record<string, number> = {}): ISyncPushResult[] {
+      return db.transaction(() => {
+        const idMaps: Record<string, Map<number, number>> = {};
+        const results: ISyncPushResult[] = new Array(changes.length);
+        const order = changes
+          .map((_, index) => index)
+          .sort((a, b) => SYNC_ORDER.indexOf(changes[a].resource) - SYNC_ORDER.indexOf(changes[b].resource));
+
+        for (const index of order) {
+          const { resource, id, base_revision, data } = changes[index];
+          assertResource(resource);
+          const current = read(resource, id);
+          const conflict = (): ISyncPushResult => ({
+            resource,
+            id,
+            status: "conflict",
+            server_record: current ?? null,
+            server_revision: current?.revision,
+          });
+
+          // 删除：客户端新建后又删除的记录服务器上没有，无需处理
+          if (data === null) {
+            if (base_revision === undefined || !current) {
+              results[index] = { resource, id, status: "applied" };
+            } else if (current.revision !== base_revision) {
+              results[index] = conflict();
+            } else {
+              remove(resource, [id]);
+              results[index] = { resource, id, status: "applied" };
+            }
+            continue;
+          }
+
+          let record = resource === "orders" ? toMultiColorOrder({ ...data }) : { ...data };
+          Object.entries(FOREIGN_KEYS[resource] || {}).forEach(([field, parent]) => {
+            const mapped = idMaps[parent]?.get(record[field]);
+            if (mapped !== undefined) record[field] = mapped;
+          });
+          // 订单按颜色分行保存颜色版本ID
+          if (resource === "orders" && idMaps.variants) {
+            record = remapOrderVariants(record, idMaps.variants);
+          }
+
+          // 客户端新建的记录
+          if (base_revision === undefined) {
+            let targetId = id;
+            if (current) {
+              targetId = allocateIds(resource, 1, maxIds[resource])[0];
+              (idMaps[resource] ||= new Map()).set(id, targetId);
+            }
+            const saved = write(resource, {
+              ...(resource === "styles" ? releaseIncomingStyleNo(record, targetId) : record),
+              id: targetId,
+              revision: undefined,
+            });
+            results[index] = {
+              resource,
+              id,
+              status: "applied",
+              revision: saved.revision,
+              new_id: targetId !== id ? targetId : undefined,
+            };
+            continue;
+          }
+
+          if (!current || current.revision !== base_revision) {
+            results[index] = conflict();
+            continue;
+          }
+          const saved = write(resource, { ...(resource === "styles" ? releaseIncomingStyleNo(record, id) : record), id });
+          results[index] = { resource, id, status: "applied", revision: saved.revision };
+        }
+
+        return results;
+      })();
+    },
+
+    /**
+     * 返回游标之后有变化的记录（每条记录只返回最新内容，已删除的记录 data 为 null）
+     */
+    pullChanges(since: number, limit: number) {
+      const rows = db
+        .prepare(
+          "SELECT resource, record_id, MAX(seq) AS seq FROM sync_log WHERE seq > ? GROUP BY resource, record_id ORDER BY seq LIMIT ?"
+        )
+        .all(since, limit + 1) as { resource: string; record_id: number; seq: number }[];
+      const page = rows.slice(0, limit);
+
+      const changes: ISyncChange[] = page.map(({ resource, record_id }) => {
+        const data = read(resource, record_id);
+        return { resource, id: record_id, revision: data?.revision, data: data ?? null };
+      });
+
+      return {
+        changes,
+        cursor: page.length > 0 ? page[page.length - 1].seq : since,
+        has_more: rows.length > limit,
+      };
+    },
+
+    close() {
+      db.close();
+    },
+  };
+}
+
+export type SpecMasterStore = ReturnType<typeof createStore>;
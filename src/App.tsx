@@ -10,7 +10,7 @@ import routerBindings, {
   UnsavedChangesNotifier,
 } from "@refinedev/react-router-v6";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
-import { ConfigProvider, App as AntApp, Spin } from "antd";
+import { ConfigProvider, App as AntApp, Spin, Progress, Button } from "antd";
 import zhCN from "antd/locale/zh_CN";
 import dayjs from "dayjs";
 import "dayjs/locale/zh-cn";
@@ -19,8 +19,17 @@ import "dayjs/locale/zh-cn";
 dayjs.locale("zh-cn");
 
 // 导入数据提供者和数据库初始化
-import { mockDataProvider } from "./providers/mockDataProvider";
-import { initializeDatabase } from "./providers/database";
+import { dataProvider, isLocalDataMode } from "./providers/dataProvider";
+import {
+  initializeDatabase,
+  restorePreMigrationSnapshot,
+  MigrationError,
+  type IInitProgress,
+} from "./providers/database";
+import { startSnapshotScheduler } from "./providers/snapshotScheduler";
+import { purgeExpiredRecycleBin } from "./providers/recycleBin";
+import { startSyncScheduler } from "./providers/sync";
+import { isSyncEnabled } from "./providers/syncOutbox";
 
 // 导入布局组件
 import { Layout } from "./components/layouts/Layout";
@@ -32,30 +41,93 @@ import { CustomerList } from "./pages/customers/list";
 import { CustomerDetailPage } from "./pages/customers/detail";
 import { SizeList } from "./pages/sizes/list";
 import { UnitList } from "./pages/units/list";
+import { WastageRuleList } from "./pages/wastage-rules/list";
+import { RecycleBinList } from "./pages/recycle-bin/list";
+import { OrderList } from "./pages/orders/list";
+import { OrderDetailPage } from "./pages/orders/detail";
+import { PurchasePlanPage } from "./pages/purchase-plan/list";
 
 function App() {
-  const [dbReady, setDbReady] = useState(false);
+  // REST 模式下数据保存在后端，无需初始化本地数据库
+  const [dbReady, setDbReady] = useState(!isLocalDataMode);
   const [dbError, setDbError] = useState<string | null>(null);
+  const [initProgress, setInitProgress] = useState<IInitProgress | null>(null);
+  // 迁移失败时可用于恢复的快照 ID
+  const [restorableSnapshotId, setRestorableSnapshotId] = useState<number | null>(null);
+  const [restoring, setRestoring] = useState(false);
 
   // 初始化数据库
   useEffect(() => {
-    initializeDatabase()
+    if (!isLocalDataMode) return;
+    initializeDatabase(setInitProgress)
       .then(() => {
         setDbReady(true);
       })
       .catch((error) => {
         console.error("数据库初始化失败:", error);
         setDbError(error.message);
+        if (error instanceof MigrationError) {
+          setRestorableSnapshotId(error.snapshotId);
+        }
       });
   }, []);
 
+  // 数据库就绪后启动定时快照
+  useEffect(() => {
+    if (!dbReady || !isLocalDataMode) return;
+    return startSnapshotScheduler();
+  }, [dbReady]);
+
+  // 数据库就绪后启动离线同步（配置了同步服务器时）
+  useEffect(() => {
+    if (!dbReady || !isLocalDataMode || !isSyncEnabled) return;
+    return startSyncScheduler();
+  }, [dbReady]);
+
+  // 数据库就绪后清除回收站中的过期记录（REST 模式下由后端清除）
+  useEffect(() => {
+    if (!dbReady || !isLocalDataMode) return;
+    purgeExpiredRecycleBin()
+      .then((count) => {
+        if (count > 0) console.log(`[回收站] 已清除 ${count} 条过期记录`);
+      })
+      .catch((error) => console.error("回收站清理失败:", error));
+  }, [dbReady]);
+
+  /**
+   * 从迁移前快照恢复数据，然后刷新页面
+   */
+  const handleRestoreSnapshot = async () => {
+    if (restorableSnapshotId === null) return;
+
+    setRestoring(true);
+    try {
+      await restorePreMigrationSnapshot(restorableSnapshotId);
+      window.location.reload();
+    } catch (error) {
+      console.error("快照恢复失败:", error);
+      setDbError(`快照恢复失败：${(error as Error).message}`);
+      setRestoring(false);
+    }
+  };
+
   // 数据库初始化中
   if (!dbReady && !dbError) {
     return (
       <div className="flex items-center justify-center min-h-screen bg-gray-50">
         <div className="text-center">
           <Spin size="large" />
-          <div className="mt-4 text-gray-600">正在初始化数据库...</div>
+          <div className="mt-4 text-gray-600">
+            {initProgress?.message || "正在初始化数据库..."}
+          </div>
+          {initProgress?.stage === "migrating" && !!initProgress.total && (
+            <Progress
+              className="mt-2"
+              style={{ width: 320 }}
+              percent={Math.round(((initProgress.current || 0) / initProgress.total) * 100)}
+              format={() => `${initProgress.current || 0}/${initProgress.total}`}
+            />
+          )}
         </div>
       </div>
     );
@@ -68,6 +140,16 @@ function App() {
         <div className="text-center text-red-500">
           <div className="text-xl mb-2">数据库初始化失败</div>
           <div>{dbError}</div>
+          {restorableSnapshotId !== null && (
+            <div className="mt-4">
+              <div className="text-gray-600 mb-2">
+                升级前已自动保存数据快照 #{restorableSnapshotId}，可恢复到升级前的状态
+              </div>
+              <Button type="primary" loading={restoring} onClick={handleRestoreSnapshot}>
+                恢复升级前数据
+              </Button>
+            </div>
+          )}
         </div>
       </div>
     );
@@ -88,7 +170,7 @@ function App() {
         <AntApp>
           {/* Refine 核心配置 */}
           <Refine
-            dataProvider={mockDataProvider}
+            dataProvider={dataProvider}
             routerProvider={routerBindings}
               resources={[
                 {
@@ -100,6 +182,15 @@ function App() {
                     icon: "📋",
                   },
                 },
+                {
+                  name: "orders",
+                  list: "/orders",
+                  show: "/orders/:id",
+                  meta: {
+                    label: "生产订单",
+                    icon: "🧾",
+                  },
+                },
                 {
                   name: "customers",
                   list: "/customers",
@@ -125,6 +216,14 @@ function App() {
                     icon: "⚖️",
                   },
                 },
+                {
+                  name: "wastage_rules",
+                  list: "/wastage-rules",
+                  meta: {
+                    label: "损耗规则",
+                    icon: "📐",
+                  },
+                },
               ]}
             options={{
               syncWithLocation: true,
@@ -146,6 +245,13 @@ function App() {
                   <Route path="/styles" element={<StyleList />} />
                   <Route path="/styles/:id" element={<StyleDetailPage />} />
 
+                  {/* 生产订单 */}
+                  <Route path="/orders" element={<OrderList />} />
+                  <Route path="/orders/:id" element={<OrderDetailPage />} />
+
+                  {/* 采购计划 */}
+                  <Route path="/purchase-plan" element={<PurchasePlanPage />} />
+
                   {/* 客户管理 */}
                   <Route path="/customers" element={<CustomerList />} />
                   <Route path="/customers/:id" element={<CustomerDetailPage />} />
@@ -155,6 +261,12 @@ function App() {
 
                   {/* 单位管理 */}
                   <Route path="/units" element={<UnitList />} />
+
+                  {/* 损耗规则 */}
+                  <Route path="/wastage-rules" element={<WastageRuleList />} />
+
+                  {/* 回收站 */}
+                  <Route path="/recycle-bin" element={<RecycleBinList />} />
                 </Route>
 
               {/* 404 页面 */}
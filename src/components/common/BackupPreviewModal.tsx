@@ -0,0 +1,177 @@
+/**
+ * 备份导入预览弹窗（dry-run）
+ * 功能：
+ * 1. 展示备份文件中各表的记录数
+ * 2. 列出校验错误和孤立记录（外键指向不存在的父记录）
+ * 3. ZIP 归档额外展示图片数量
+ * 4. 校验通过后才允许继续导入
+ */
+
+import React from "react";
+import { Modal, Table, Tag, Alert, Button, Descriptions, List, Typography } from "antd";
+import {
+  BACKUP_TABLES,
+  BACKUP_TABLE_LABELS,
+  type BackupTable,
+  type IBackupValidationReport,
+} from "../../providers/backupValidation";
+import type { IArchiveManifest } from "../../providers/backupArchive";
+
+const { Text } = Typography;
+
+interface BackupPreviewModalProps {
+  open: boolean;
+  fileName?: string;
+  mode: "replace" | "merge";
+  report: IBackupValidationReport | null;
+  archiveManifest?: IArchiveManifest;  // ZIP 归档导入时的图片清单
+  confirming?: boolean;
+  onConfirm: () => void;
+  onClose: () => void;
+}
+
+export const BackupPreviewModal: React.FC<BackupPreviewModalProps> = ({
+  open,
+  fileName,
+  mode,
+  report,
+  archiveManifest,
+  confirming,
+  onConfirm,
+  onClose,
+}) => {
+  // 按表统计孤立记录数量
+  const orphanCounts = (report?.orphans || []).reduce<Partial<Record<BackupTable, number>>>(
+    (acc, orphan) => ({ ...acc, [orphan.table]: (acc[orphan.table] || 0) + 1 }),
+    {}
+  );
+
+  const countRows = BACKUP_TABLES.map((table) => ({
+    table,
+    count: report?.counts[table] || 0,
+    orphans: orphanCounts[table] || 0,
+  }));
+
+  return (
+    <Modal
+      title={mode === "merge" ? "合并导入预览" : "覆盖导入预览"}
+      open={open}
+      onCancel={onClose}
+      width={720}
+      footer={[
+        <Button key="cancel" onClick={onClose} disabled={confirming}>
+          取消
+        </Button>,
+        <Button
+          key="confirm"
+          type="primary"
+          danger={mode === "replace"}
+          disabled={!report?.valid}
+          loading={confirming}
+          onClick={onConfirm}
+        >
+          {mode === "merge" ? "下一步：处理冲突" : "确认覆盖导入"}
+        </Button>,
+      ]}
+      destroyOnClose
+    >
+      {report && (
+        <div className="space-y-4">
+          <Descriptions size="small" column={2} bordered>
+            <Descriptions.Item label="文件" span={2}>
+              {fileName || "-"}
+            </Descriptions.Item>
+            <Descriptions.Item label="格式版本">{report.version || "-"}</Descriptions.Item>
+            <Descriptions.Item label="导出时间">{report.exportDate || "-"}</Descriptions.Item>
+            {archiveManifest && (
+              <Descriptions.Item label="归档图片" span={2}>
+                {archiveManifest.images.length} 张
+                {archiveManifest.missing.length > 0 && (
+                  <Text type="warning" className="ml-2">
+                    （导出时有 {archiveManifest.missing.length} 张图片下载失败，未包含在归档中）
+                  </Text>
+                )}
+              </Descriptions.Item>
+            )}
+          </Descriptions>
+
+          {report.valid ? (
+            <Alert
+              type={mode === "replace" ? "warning" : "success"}
+              showIcon
+              message="校验通过"
+              description={
+                mode === "replace"
+                  ? "导入将覆盖所有现有数据，此操作不可撤销！"
+                  : "下一步将对比本地数据并处理冲突。"
+              }
+            />
+          ) : (
+            <Alert
+              type="error"
+              showIcon
+              message="校验未通过，无法导入"
+              description={`发现 ${report.errors.length} 个错误、${report.orphans.length} 条孤立记录`}
+            />
+          )}
+
+          <Table
+            dataSource={countRows}
+            rowKey="table"
+            size="small"
+            pagination={false}
+            columns={[
+              {
+                title: "数据",
+                dataIndex: "table",
+                render: (table: BackupTable) => BACKUP_TABLE_LABELS[table],
+              },
+              { title: "记录数", dataIndex: "count" },
+              {
+                title: "孤立记录",
+                dataIndex: "orphans",
+                render: (count: number) =>
+                  count > 0 ? <Tag color="red">{count}</Tag> : <span>0</span>,
+              },
+            ]}
+          />
+
+          {report.orphans.length > 0 && (
+            <List
+              size="small"
+              bordered
+              header={<Text strong>孤立记录</Text>}
+              dataSource={report.orphans.slice(0, 50)}
+              renderItem={(orphan) => (
+                <List.Item>
+                  {BACKUP_TABLE_LABELS[orphan.table]} #{orphan.id}：{orphan.field} 指向不存在的记录 #
+                  {orphan.missingId}
+                </List.Item>
+              )}
+              footer={
+                report.orphans.length > 50 && (
+                  <Text type="secondary">仅显示前 50 条，共 {report.orphans.length} 条</Text>
+                )
+              }
+            />
+          )}
+
+          {report.errors.length > 0 && (
+            <List
+              size="small"
+              bordered
+              header={<Text strong>校验错误</Text>}
+              dataSource={report.errors.slice(0, 50)}
+              renderItem={(issue) => <List.Item>{issue.message}</List.Item>}
+              footer={
+                report.errors.length > 50 && (
+                  <Text type="secondary">仅显示前 50 条，共 {report.errors.length} 条</Text>
+                )
+              }
+            />
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+};
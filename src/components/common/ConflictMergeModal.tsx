@@ -0,0 +1,176 @@
+/**
+ * 写入冲突合并弹窗
+ * 功能：
+ * 1. 保存时发现记录在编辑期间已被其他页面修改，逐字段对比本次修改与最新版本
+ * 2. 标出每个字段由哪一方修改，只有一方修改的字段默认采用修改方的值
+ * 3. 逐字段（规格明细逐条）选择保留哪个版本，确认后以最新版本为基准保存合并结果
+ */
+
+import React, { useEffect, useMemo, useState } from "react";
+import { Modal, Table, Radio, Tag, Space, Button, Typography, Alert, Empty } from "antd";
+import dayjs from "dayjs";
+import {
+  AUDIT_RESOURCE_LABELS,
+  auditFieldLabel,
+  formatAuditValue,
+  recordLabel,
+} from "../../providers/audit";
+import {
+  defaultMergeChoice,
+  listMergeFields,
+  mergeRecords,
+  type IMergeField,
+  type IWriteConflict,
+  type MergeChoice,
+} from "../../providers/concurrency";
+
+const { Text } = Typography;
+
+interface ConflictMergeModalProps {
+  conflict: IWriteConflict | null;
+  saving?: boolean;
+  onMerge: (merged: any, theirs: any) => void;  // 保存合并结果（以 theirs.updated_at 为基准）
+  onDiscard: () => void;                        // 放弃本次修改，采用最新版本
+  onClose: () => void;                          // 关闭弹窗，回到编辑
+}
+
+/**
+ * 字段由哪一方修改
+ */
+function renderChangedBy(field: IMergeField) {
+  if (field.changedByMine && field.changedByTheirs) return <Tag color="red">双方都修改</Tag>;
+  if (field.changedByMine) return <Tag color="blue">本次修改</Tag>;
+  return <Tag color="orange">其他页面修改</Tag>;
+}
+
+/**
+ * 规格明细的一侧没有这条规格时的说明
+ */
+function formatMergeValue(field: IMergeField, value: unknown): string {
+  if (value === undefined && field.field.startsWith("specDetails.")) return "（无此规格）";
+  return formatAuditValue(field.field, value);
+}
+
+export const ConflictMergeModal: React.FC<ConflictMergeModalProps> = ({
+  conflict,
+  saving,
+  onMerge,
+  onDiscard,
+  onClose,
+}) => {
+  const [choices, setChoices] = useState<Record<string, MergeChoice>>({});
+
+  const fields = useMemo(
+    () => (conflict ? listMergeFields(conflict.mine, conflict.theirs, conflict.base) : []),
+    [conflict]
+  );
+
+  // 每次出现新的冲突时，按修改方设置默认选择
+  useEffect(() => {
+    setChoices(Object.fromEntries(fields.map((field) => [field.field, defaultMergeChoice(field)])));
+  }, [fields]);
+
+  /**
+   * 批量设置所有字段的选择
+   */
+  const setAllChoices = (choice: MergeChoice) => {
+    setChoices(Object.fromEntries(fields.map((field) => [field.field, choice])));
+  };
+
+  /**
+   * 保存合并结果
+   */
+  const handleMerge = () => {
+    if (!conflict) return;
+    onMerge(mergeRecords(conflict.theirs, fields, choices), conflict.theirs);
+  };
+
+  const renderChoice = (field: IMergeField, choice: MergeChoice) => (
+    <Radio
+      checked={choices[field.field] === choice}
+      onChange={() => setChoices((prev) => ({ ...prev, [field.field]: choice }))}
+    >
+      {formatMergeValue(field, choice === "mine" ? field.mine : field.theirs)}
+    </Radio>
+  );
+
+  const columns = [
+    {
+      title: "字段",
+      dataIndex: "field",
+      width: 100,
+      render: (field: string) => auditFieldLabel(field),
+    },
+    {
+      title: "修改方",
+      key: "changedBy",
+      width: 120,
+      render: (_: unknown, field: IMergeField) => renderChangedBy(field),
+    },
+    {
+      title: "本次修改",
+      key: "mine",
+      render: (_: unknown, field: IMergeField) => renderChoice(field, "mine"),
+    },
+    {
+      title: "最新版本",
+      key: "theirs",
+      render: (_: unknown, field: IMergeField) => renderChoice(field, "theirs"),
+    },
+  ];
+
+  const label = conflict
+    ? `${AUDIT_RESOURCE_LABELS[conflict.resource] || conflict.resource}"${recordLabel(conflict.resource, conflict.theirs)}"`
+    : "";
+
+  return (
+    <Modal
+      title="合并修改"
+      open={!!conflict}
+      onCancel={onClose}
+      width={800}
+      maskClosable={false}
+      footer={[
+        <Button key="discard" onClick={onDiscard} disabled={saving}>
+          放弃我的修改
+        </Button>,
+        <Button key="merge" type="primary" loading={saving} onClick={handleMerge}>
+          保存合并结果
+        </Button>,
+      ]}
+      destroyOnClose
+    >
+      <div className="space-y-4">
+        <Alert
+          type="warning"
+          showIcon
+          message={`${label}在您编辑期间已被其他页面修改`}
+          description={
+            conflict?.theirs.updated_at
+              ? `最新版本保存于 ${dayjs(conflict.theirs.updated_at).format("YYYY-MM-DD HH:mm:ss")}，请逐项选择要保留的内容，未列出的字段双方一致。`
+              : "请逐项选择要保留的内容，未列出的字段双方一致。"
+          }
+        />
+
+        {fields.length > 0 ? (
+          <>
+            <div className="flex items-center justify-between">
+              <Text strong>差异字段（{fields.length} 项）</Text>
+              <Space>
+                <Button size="small" onClick={() => setAllChoices("mine")}>
+                  全部用本次修改
+                </Button>
+                <Button size="small" onClick={() => setAllChoices("theirs")}>
+                  全部用最新版本
+                </Button>
+              </Space>
+            </div>
+            <Table dataSource={fields} columns={columns} rowKey="field" size="small" pagination={false} />
+          </>
+        ) : (
+          <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="本次修改与最新版本内容一致" />
+        )}
+      </div>
+    </Modal>
+  );
+};
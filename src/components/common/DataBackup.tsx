@@ -1,17 +1,47 @@
 /**
  * 数据备份与恢复组件
- * 功能：导出数据为 JSON、从 JSON 导入数据、重置数据库
+ * 功能：导出数据为 JSON 或含图片的 ZIP 归档、导入数据（先校验预览，再覆盖或合并）、
+ *       浏览与恢复本地快照、重置数据库
  */
 
 import React, { useState, useRef } from "react";
-import { Button, Modal, message, Popconfirm, Card, Typography } from "antd";
+import { Button, Modal, message, Popconfirm, Card, Typography, Space } from "antd";
 import {
   DownloadOutlined,
   UploadOutlined,
   ReloadOutlined,
   DatabaseOutlined,
+  MergeCellsOutlined,
+  FileZipOutlined,
+  HistoryOutlined,
 } from "@ant-design/icons";
 import { exportAllData, importAllData, resetDatabase } from "../../providers/database";
+import { analyzeMergeImport, type IMergePlan, type IMergeResult } from "../../providers/mergeImport";
+import {
+  validateBackupJson,
+  type IBackupValidationReport,
+} from "../../providers/backupValidation";
+import {
+  exportBackupArchive,
+  readBackupArchive,
+  rehostArchiveImages,
+  type IBackupArchive,
+} from "../../providers/backupArchive";
+import type { IBackupData } from "../../types/models";
+import { MergeImportModal } from "./MergeImportModal";
+import { BackupPreviewModal } from "./BackupPreviewModal";
+import { SnapshotBrowserModal } from "./SnapshotBrowserModal";
+
+/**
+ * 待确认的导入（预览阶段）
+ */
+interface IImportPreview {
+  mode: "replace" | "merge";
+  fileName: string;
+  text: string;
+  report: IBackupValidationReport;
+  archive?: IBackupArchive;   // ZIP 归档导入时存在，确认后需先处理图片
+}
 
 const { Text } = Typography;
 
@@ -22,9 +52,15 @@ interface DataBackupProps {
 export const DataBackup: React.FC<DataBackupProps> = ({ onDataChange: _onDataChange }) => {
   const [modalOpen, setModalOpen] = useState(false);
   const [exporting, setExporting] = useState(false);
+  const [archiving, setArchiving] = useState(false);
   const [importing, setImporting] = useState(false);
   const [resetting, setResetting] = useState(false);
+  const [mergePlan, setMergePlan] = useState<IMergePlan | null>(null);
+  const [preview, setPreview] = useState<IImportPreview | null>(null);
+  const [snapshotsOpen, setSnapshotsOpen] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // 当前选择文件的用途：覆盖导入或合并导入
+  const importModeRef = useRef<"replace" | "merge">("replace");
 
   /**
    * 导出数据为 JSON 文件
@@ -52,14 +88,80 @@ export const DataBackup: React.FC<DataBackupProps> = ({ onDataChange: _onDataCha
   };
 
   /**
-   * 从 JSON 文件导入数据
+   * 导出含图片的 ZIP 归档
+   */
+  const handleExportArchive = async () => {
+    setArchiving(true);
+    try {
+      const blob = await exportBackupArchive((done, total) => {
+        message.loading({ content: `正在打包图片 ${done}/${total}...`, key: "archive", duration: 0 });
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `specmaster_backup_${new Date().toISOString().split("T")[0]}.zip`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      message.success("完整备份导出成功！");
+    } catch (error) {
+      console.error("导出失败:", error);
+      message.error("完整备份导出失败");
+    } finally {
+      message.destroy("archive");
+      setArchiving(false);
+    }
+  };
+
+  /**
+   * 读取并校验备份文件（JSON 或 ZIP 归档），打开导入预览
    */
-  const handleImport = async (file: File) => {
+  const handlePreview = async (file: File, mode: "replace" | "merge") => {
+    try {
+      if (file.name.endsWith(".zip")) {
+        const archive = await readBackupArchive(file);
+        setPreview({
+          mode,
+          fileName: file.name,
+          text: archive.text,
+          report: validateBackupJson(archive.text),
+          archive,
+        });
+      } else {
+        const text = await file.text();
+        setPreview({ mode, fileName: file.name, text, report: validateBackupJson(text) });
+      }
+    } catch (error) {
+      console.error("读取文件失败:", error);
+      message.error(`无法读取文件：${(error as Error).message}`);
+    }
+  };
+
+  /**
+   * 归档导入：按当前上传配置处理图片，返回改写 URL 后的 JSON
+   */
+  const resolvePreviewText = async (current: IImportPreview): Promise<string> => {
+    if (!current.archive) return current.text;
+
+    try {
+      return await rehostArchiveImages(current.archive, (done, total) => {
+        message.loading({ content: `正在处理图片 ${done}/${total}...`, key: "rehost", duration: 0 });
+      });
+    } finally {
+      message.destroy("rehost");
+    }
+  };
+
+  /**
+   * 从 JSON 文本覆盖导入数据
+   */
+  const handleImport = async (text: string) => {
     setImporting(true);
     try {
-      const text = await file.text();
       await importAllData(text);
       message.success("数据导入成功！页面将刷新...");
+      setPreview(null);
       setModalOpen(false);
       // 刷新页面以加载新数据
       setTimeout(() => {
@@ -73,6 +175,69 @@ export const DataBackup: React.FC<DataBackupProps> = ({ onDataChange: _onDataCha
     }
   };
 
+  /**
+   * 分析待合并的数据，打开冲突处理弹窗
+   */
+  const handleMergeAnalyze = async (data: IBackupData) => {
+    setImporting(true);
+    try {
+      const plan = await analyzeMergeImport(data);
+      setPreview(null);
+      setMergePlan(plan);
+    } catch (error) {
+      console.error("合并分析失败:", error);
+      message.error("合并分析失败");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  /**
+   * 合并完成后提示结果并刷新页面
+   */
+  const handleMerged = (result: IMergeResult) => {
+    const added = Object.values(result.added).reduce((sum, n) => sum + n, 0);
+    const updated = Object.values(result.updated).reduce((sum, n) => sum + n, 0);
+    message.success(`合并完成：新增 ${added} 条，覆盖 ${updated} 条。页面将刷新...`);
+    setMergePlan(null);
+    setModalOpen(false);
+    setTimeout(() => {
+      window.location.reload();
+    }, 1000);
+  };
+
+  /**
+   * 预览确认后继续导入
+   */
+  const handlePreviewConfirm = async () => {
+    if (!preview?.report.valid) return;
+
+    setImporting(true);
+    let text: string;
+    try {
+      text = await resolvePreviewText(preview);
+    } catch (error) {
+      console.error("图片处理失败:", error);
+      message.error("归档中的图片处理失败");
+      setImporting(false);
+      return;
+    }
+
+    if (preview.mode === "merge") {
+      handleMergeAnalyze(preview.archive ? JSON.parse(text) : preview.report.data!);
+    } else {
+      handleImport(text);
+    }
+  };
+
+  /**
+   * 选择文件并指定导入方式
+   */
+  const openFilePicker = (mode: "replace" | "merge") => {
+    importModeRef.current = mode;
+    fileInputRef.current?.click();
+  };
+
   /**
    * 重置数据库为初始状态
    */
@@ -100,11 +265,15 @@ export const DataBackup: React.FC<DataBackupProps> = ({ onDataChange: _onDataCha
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
-      if (file.type !== "application/json" && !file.name.endsWith(".json")) {
-        message.error("请选择 JSON 格式的文件");
+      if (
+        file.type !== "application/json" &&
+        !file.name.endsWith(".json") &&
+        !file.name.endsWith(".zip")
+      ) {
+        message.error("请选择 JSON 或 ZIP 格式的备份文件");
         return;
       }
-      handleImport(file);
+      handlePreview(file, importModeRef.current);
     }
     // 清空 input 以便可以再次选择同一文件
     if (fileInputRef.current) {
@@ -156,36 +325,55 @@ export const DataBackup: React.FC<DataBackupProps> = ({ onDataChange: _onDataCha
                 导出数据
               </Button>
             </div>
+            <div className="flex items-center justify-between mt-3">
+              <Text type="secondary">连同样衣、辅料、色卡图片打包为 ZIP</Text>
+              <Button
+                icon={<FileZipOutlined />}
+                onClick={handleExportArchive}
+                loading={archiving}
+              >
+                完整备份
+              </Button>
+            </div>
           </Card>
 
           {/* 导入数据 */}
           <Card size="small" title="导入备份">
             <div className="flex items-center justify-between">
-              <Text type="secondary">从 JSON 备份文件恢复数据</Text>
-              <div>
+              <Text type="secondary">从 JSON 或 ZIP 备份恢复或合并数据（导入前先校验预览）</Text>
+              <Space>
                 <input
                   type="file"
                   ref={fileInputRef}
                   onChange={handleFileChange}
-                  accept=".json,application/json"
+                  accept=".json,.zip,application/json,application/zip"
                   style={{ display: "none" }}
                 />
-                <Popconfirm
-                  title="确认导入？"
-                  description="导入将覆盖所有现有数据，此操作不可撤销！"
-                  onConfirm={() => fileInputRef.current?.click()}
-                  okText="确认导入"
-                  cancelText="取消"
-                  okButtonProps={{ danger: true }}
+                <Button
+                  icon={<MergeCellsOutlined />}
+                  loading={importing}
+                  onClick={() => openFilePicker("merge")}
                 >
-                  <Button
-                    icon={<UploadOutlined />}
-                    loading={importing}
-                  >
-                    导入数据
-                  </Button>
-                </Popconfirm>
-              </div>
+                  合并导入
+                </Button>
+                <Button
+                  icon={<UploadOutlined />}
+                  loading={importing}
+                  onClick={() => openFilePicker("replace")}
+                >
+                  覆盖导入
+                </Button>
+              </Space>
+            </div>
+          </Card>
+
+          {/* 本地快照 */}
+          <Card size="small" title="本地快照">
+            <div className="flex items-center justify-between">
+              <Text type="secondary">定时及删除、导入、重置前自动保存的数据副本</Text>
+              <Button icon={<HistoryOutlined />} onClick={() => setSnapshotsOpen(true)}>
+                浏览快照
+              </Button>
             </div>
           </Card>
 
@@ -213,6 +401,28 @@ export const DataBackup: React.FC<DataBackupProps> = ({ onDataChange: _onDataCha
           </Card>
         </div>
       </Modal>
+
+      {/* 导入预览弹窗（校验结果） */}
+      <BackupPreviewModal
+        open={!!preview}
+        fileName={preview?.fileName}
+        mode={preview?.mode || "replace"}
+        report={preview?.report || null}
+        archiveManifest={preview?.archive?.manifest}
+        confirming={importing}
+        onConfirm={handlePreviewConfirm}
+        onClose={() => setPreview(null)}
+      />
+
+      {/* 本地快照浏览弹窗 */}
+      <SnapshotBrowserModal open={snapshotsOpen} onClose={() => setSnapshotsOpen(false)} />
+
+      {/* 合并导入冲突处理弹窗 */}
+      <MergeImportModal
+        plan={mergePlan}
+        onClose={() => setMergePlan(null)}
+        onMerged={handleMerged}
+      />
     </>
   );
 };
@@ -0,0 +1,254 @@
+/**
+ * 合并导入弹窗
+ * 功能：
+ * 1. 展示导入文件与本地数据的对比结果（新增/相同/冲突/无法导入）
+ * 2. 逐条选择冲突的处理方式（保留我的/采用对方/两者都保留）
+ * 3. 确认后一次性提交合并
+ */
+
+import React, { useEffect, useMemo, useState } from "react";
+import { Modal, Table, Radio, Tag, Space, Button, Typography, Alert, Descriptions } from "antd";
+import {
+  applyMergeImport,
+  MERGE_TABLE_LABELS,
+  type IMergeConflict,
+  type IMergePlan,
+  type IMergeResult,
+  type MergeResolution,
+  type MergeSummaryTable,
+  type MergeTable,
+} from "../../providers/mergeImport";
+
+const { Text } = Typography;
+
+interface MergeImportModalProps {
+  plan: IMergePlan | null;
+  onClose: () => void;
+  onMerged: (result: IMergeResult) => void;
+}
+
+export const MergeImportModal: React.FC<MergeImportModalProps> = ({
+  plan,
+  onClose,
+  onMerged,
+}) => {
+  const [resolutions, setResolutions] = useState<Record<string, MergeResolution>>({});
+  const [merging, setMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 每次打开新的合并计划时，默认全部保留本地记录
+  useEffect(() => {
+    if (plan) {
+      setResolutions(Object.fromEntries(plan.conflicts.map((c) => [c.key, "mine"])));
+      setError(null);
+    }
+  }, [plan]);
+
+  /**
+   * 批量设置所有冲突的处理方式
+   */
+  const setAllResolutions = (resolution: MergeResolution) => {
+    if (!plan) return;
+    setResolutions(Object.fromEntries(plan.conflicts.map((c) => [c.key, resolution])));
+  };
+
+  /**
+   * 执行合并
+   */
+  const handleMerge = async () => {
+    if (!plan) return;
+
+    setMerging(true);
+    setError(null);
+    try {
+      const result = await applyMergeImport(plan, resolutions);
+      onMerged(result);
+    } catch (err) {
+      console.error("合并导入失败:", err);
+      setError((err as Error).message);
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  // 各表的合并预估
+  const summaryRows = useMemo(() => {
+    if (!plan) return [];
+    return (Object.keys(plan.summary) as MergeSummaryTable[]).map((table) => ({
+      table,
+      ...plan.summary[table],
+    }));
+  }, [plan]);
+
+  /**
+   * 颜色版本冲突在所属款号选择"两者都保留"时不再生效
+   */
+  const isConflictInactive = (conflict: IMergeConflict) =>
+    !!conflict.parentKey && resolutions[conflict.parentKey] === "both";
+
+  const conflictColumns = [
+    {
+      title: "类型",
+      dataIndex: "table",
+      width: 90,
+      render: (table: MergeTable) => <Tag>{MERGE_TABLE_LABELS[table]}</Tag>,
+    },
+    {
+      title: "记录",
+      dataIndex: "naturalKey",
+      width: 160,
+      render: (text: string) => <span className="font-medium">{text}</span>,
+    },
+    {
+      title: "差异字段",
+      dataIndex: "changedFields",
+      render: (fields: string[]) => (
+        <Space size={[4, 4]} wrap>
+          {fields.map((field) => (
+            <Tag key={field} color="orange">
+              {field}
+            </Tag>
+          ))}
+        </Space>
+      ),
+    },
+    {
+      title: "处理方式",
+      key: "resolution",
+      width: 280,
+      render: (_: unknown, conflict: IMergeConflict) =>
+        isConflictInactive(conflict) ? (
+          <Text type="secondary">随款号作为新记录导入</Text>
+        ) : (
+          <Radio.Group
+            size="small"
+            value={resolutions[conflict.key]}
+            onChange={(e) =>
+              setResolutions((prev) => ({ ...prev, [conflict.key]: e.target.value }))
+            }
+          >
+            <Radio.Button value="mine">保留我的</Radio.Button>
+            <Radio.Button value="theirs">采用对方</Radio.Button>
+            <Radio.Button
+              value="both"
+              title={conflict.table === "wastage_rules" ? "导入的规则以停用状态保存" : undefined}
+            >
+              两者都保留
+            </Radio.Button>
+          </Radio.Group>
+        ),
+    },
+  ];
+
+  /**
+   * 展开行：对比本地与导入的差异字段
+   */
+  const renderConflictDetail = (conflict: IMergeConflict) => (
+    <Descriptions size="small" column={1} bordered>
+      {conflict.changedFields.map((field) => {
+        const localValue = field === "bom_items" ? `${conflict.local.bom_count} 条配料` : conflict.local[field];
+        const incomingValue =
+          field === "bom_items" ? `${conflict.incoming.bom_count} 条配料` : conflict.incoming[field];
+        return (
+          <Descriptions.Item key={field} label={field}>
+            <div>
+              <Text type="secondary">我的：</Text>
+              {JSON.stringify(localValue) ?? "-"}
+            </div>
+            <div>
+              <Text type="secondary">对方：</Text>
+              {JSON.stringify(incomingValue) ?? "-"}
+            </div>
+          </Descriptions.Item>
+        );
+      })}
+    </Descriptions>
+  );
+
+  return (
+    <Modal
+      title="合并导入"
+      open={!!plan}
+      onCancel={onClose}
+      width={900}
+      footer={[
+        <Button key="cancel" onClick={onClose} disabled={merging}>
+          取消
+        </Button>,
+        <Button key="merge" type="primary" loading={merging} onClick={handleMerge}>
+          确认合并
+        </Button>,
+      ]}
+      destroyOnClose
+    >
+      <div className="space-y-4">
+        <Table
+          dataSource={summaryRows}
+          rowKey="table"
+          size="small"
+          pagination={false}
+          columns={[
+            {
+              title: "数据",
+              dataIndex: "table",
+              render: (table: MergeSummaryTable) => MERGE_TABLE_LABELS[table],
+            },
+            { title: "新增", dataIndex: "added" },
+            { title: "相同（跳过）", dataIndex: "identical" },
+            {
+              title: "冲突",
+              dataIndex: "conflicts",
+              render: (count: number) =>
+                count > 0 ? <Tag color="red">{count}</Tag> : <span>0</span>,
+            },
+            {
+              title: "无法导入",
+              dataIndex: "unmatched",
+              render: (count: number) =>
+                count > 0 ? <Tag color="orange">{count}</Tag> : <span>0</span>,
+            },
+          ]}
+        />
+
+        {plan && plan.summary.orders.unmatched > 0 && (
+          <Alert
+            type="warning"
+            showIcon
+            message={`${plan.summary.orders.unmatched} 张生产订单的款号或颜色版本不在导入文件中，这些订单不会导入`}
+          />
+        )}
+
+        {plan && plan.conflicts.length > 0 ? (
+          <>
+            <div className="flex items-center justify-between">
+              <Text strong>冲突处理（{plan.conflicts.length} 条）</Text>
+              <Space>
+                <Button size="small" onClick={() => setAllResolutions("mine")}>
+                  全部保留我的
+                </Button>
+                <Button size="small" onClick={() => setAllResolutions("theirs")}>
+                  全部采用对方
+                </Button>
+                <Button size="small" onClick={() => setAllResolutions("both")}>
+                  全部两者都保留
+                </Button>
+              </Space>
+            </div>
+            <Table
+              dataSource={plan.conflicts}
+              columns={conflictColumns}
+              rowKey="key"
+              size="small"
+              pagination={{ pageSize: 8 }}
+              expandable={{ expandedRowRender: renderConflictDetail }}
+            />
+          </>
+        ) : (
+          <Alert type="success" showIcon message="没有冲突，可直接合并" />
+        )}
+
+        {error && <Alert type="error" showIcon message="合并失败" description={error} />}
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,230 @@
+/**
+ * 本地快照浏览弹窗
+ * 功能：
+ * 1. 列出所有本地快照（定时、手动、删除前、导入前等）
+ * 2. 从任一快照恢复数据（恢复前会自动再保存一份当前数据）
+ * 3. 将快照下载为 JSON 备份文件
+ * 4. 手动创建、删除快照
+ */
+
+import React, { useState, useEffect, useCallback } from "react";
+import { Modal, Table, Tag, Button, Popconfirm, Space, Typography, message } from "antd";
+import { CameraOutlined, DownloadOutlined, RollbackOutlined, DeleteOutlined } from "@ant-design/icons";
+import dayjs from "dayjs";
+import { takeSnapshot, restoreSnapshot, exportSnapshotData } from "../../providers/database";
+import {
+  listSnapshots,
+  deleteSnapshot,
+  SNAPSHOT_REASON_LABELS,
+} from "../../providers/snapshots";
+import type { ISnapshot, SnapshotReason } from "../../types/models";
+
+const { Text } = Typography;
+
+type SnapshotMeta = Omit<ISnapshot, "tables">;
+
+const REASON_COLORS: Record<SnapshotReason, string> = {
+  "pre-migration": "purple",
+  scheduled: "default",
+  manual: "blue",
+  "before-reset": "red",
+  "before-import": "orange",
+  "before-delete": "volcano",
+  "before-restore": "cyan",
+};
+
+interface SnapshotBrowserModalProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export const SnapshotBrowserModal: React.FC<SnapshotBrowserModalProps> = ({ open, onClose }) => {
+  const [snapshots, setSnapshots] = useState<SnapshotMeta[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [restoringId, setRestoringId] = useState<number | null>(null);
+
+  /**
+   * 加载快照列表
+   */
+  const loadSnapshots = useCallback(async () => {
+    setLoading(true);
+    try {
+      setSnapshots(await listSnapshots());
+    } catch (error) {
+      console.error("读取快照失败:", error);
+      message.error("读取快照失败");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) loadSnapshots();
+  }, [open, loadSnapshots]);
+
+  /**
+   * 手动创建快照
+   */
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      await takeSnapshot("manual");
+      message.success("快照已创建");
+      await loadSnapshots();
+    } catch (error) {
+      console.error("创建快照失败:", error);
+      message.error("创建快照失败");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  /**
+   * 从快照恢复数据后刷新页面
+   */
+  const handleRestore = async (id: number) => {
+    setRestoringId(id);
+    try {
+      await restoreSnapshot(id);
+      message.success("数据已恢复！页面将刷新...");
+      setTimeout(() => {
+        window.location.reload();
+      }, 1000);
+    } catch (error) {
+      console.error("恢复失败:", error);
+      message.error(`恢复失败：${(error as Error).message}`);
+      setRestoringId(null);
+    }
+  };
+
+  /**
+   * 下载快照为 JSON 备份
+   */
+  const handleDownload = async (snapshot: SnapshotMeta) => {
+    try {
+      const jsonData = await exportSnapshotData(snapshot.id!);
+      const blob = new Blob([jsonData], { type: "application/json" });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `specmaster_snapshot_${dayjs(snapshot.created_at).format("YYYYMMDD_HHmmss")}.json`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("下载失败:", error);
+      message.error("快照下载失败");
+    }
+  };
+
+  /**
+   * 删除快照
+   */
+  const handleDelete = async (id: number) => {
+    try {
+      await deleteSnapshot(id);
+      await loadSnapshots();
+    } catch (error) {
+      console.error("删除失败:", error);
+      message.error("快照删除失败");
+    }
+  };
+
+  return (
+    <Modal
+      title="本地快照"
+      open={open}
+      onCancel={onClose}
+      width={820}
+      footer={null}
+      destroyOnClose
+    >
+      <div className="flex items-center justify-between mb-3">
+        <Text type="secondary">
+          应用每 30 分钟自动保存一次快照，彻底删除回收站数据、导入、重置前也会自动保存。
+        </Text>
+        <Button icon={<CameraOutlined />} loading={creating} onClick={handleCreate}>
+          立即创建快照
+        </Button>
+      </div>
+
+      <Table<SnapshotMeta>
+        dataSource={snapshots}
+        rowKey="id"
+        size="small"
+        loading={loading}
+        pagination={{ pageSize: 10, size: "small" }}
+        columns={[
+          {
+            title: "时间",
+            dataIndex: "created_at",
+            width: 170,
+            render: (value: string) => dayjs(value).format("YYYY-MM-DD HH:mm:ss"),
+          },
+          {
+            title: "类型",
+            dataIndex: "reason",
+            width: 90,
+            render: (reason: SnapshotReason) => (
+              <Tag color={REASON_COLORS[reason]}>{SNAPSHOT_REASON_LABELS[reason]}</Tag>
+            ),
+          },
+          { title: "记录数", dataIndex: "record_count", width: 80 },
+          {
+            title: "说明",
+            dataIndex: "note",
+            ellipsis: true,
+            render: (note?: string) => note || "-",
+          },
+          {
+            title: "操作",
+            key: "actions",
+            width: 200,
+            render: (_, snapshot) => (
+              <Space size="small">
+                <Popconfirm
+                  title="从此快照恢复？"
+                  description="当前数据将被替换（恢复前会自动保存一份快照）"
+                  onConfirm={() => handleRestore(snapshot.id!)}
+                  okText="确认恢复"
+                  cancelText="取消"
+                >
+                  <Button
+                    type="link"
+                    size="small"
+                    icon={<RollbackOutlined />}
+                    loading={restoringId === snapshot.id}
+                    disabled={restoringId !== null}
+                  >
+                    恢复
+                  </Button>
+                </Popconfirm>
+                <Button
+                  type="link"
+                  size="small"
+                  icon={<DownloadOutlined />}
+                  onClick={() => handleDownload(snapshot)}
+                >
+                  下载
+                </Button>
+                <Popconfirm
+                  title="删除此快照？"
+                  onConfirm={() => handleDelete(snapshot.id!)}
+                  okText="删除"
+                  cancelText="取消"
+                  okButtonProps={{ danger: true }}
+                >
+                  <Button type="link" size="small" danger icon={<DeleteOutlined />}>
+                    删除
+                  </Button>
+                </Popconfirm>
+              </Space>
+            ),
+          },
+        ]}
+      />
+    </Modal>
+  );
+};
@@ -0,0 +1,276 @@
+/**
+ * 同步状态指示器（顶部导航栏）
+ * 功能：
+ * 1. 显示离线同步状态：已同步 / 同步中 / 离线 / 待同步条数 / 冲突数
+ * 2. 点击打开同步面板：立即同步、查看上次同步时间
+ * 3. 逐条处理冲突：对比本机与服务器版本的字段差异，选择保留哪一个
+ * 4. 同步写入本机数据后自动刷新相关列表
+ */
+
+import React, { useEffect, useState, useSyncExternalStore } from "react";
+import { Alert, Button, Card, Empty, List, Modal, Space, Table, Tag, Typography, message } from "antd";
+import {
+  CloudOutlined,
+  CloudSyncOutlined,
+  CloudUploadOutlined,
+  DisconnectOutlined,
+  ExclamationCircleOutlined,
+  SyncOutlined,
+  WarningOutlined,
+} from "@ant-design/icons";
+import { useInvalidate } from "@refinedev/core";
+import { liveQuery } from "dexie";
+import dayjs from "dayjs";
+import { db } from "../../providers/database";
+import {
+  getSyncStatus,
+  resolveSyncConflict,
+  subscribeSyncApplied,
+  subscribeSyncStatus,
+  syncNow,
+} from "../../providers/sync";
+import { SYNC_API_URL } from "../../providers/syncOutbox";
+import {
+  AUDIT_RESOURCE_LABELS,
+  auditFieldLabel,
+  diffRecords,
+  formatAuditValue,
+  recordLabel,
+} from "../../providers/audit";
+import type { ISyncOutboxEntry } from "../../types/models";
+
+const { Text } = Typography;
+
+/**
+ * 变更队列条目及冲突记录的本机版本
+ */
+interface IOutboxItem extends ISyncOutboxEntry {
+  local?: any;
+}
+
+/**
+ * 单条冲突：字段对比 + 处理按钮
+ */
+const ConflictItem: React.FC<{
+  item: IOutboxItem;
+  onResolve: (item: IOutboxItem, choice: "local" | "server") => void;
+  resolving: boolean;
+}> = ({ item, onResolve, resolving }) => {
+  const server = item.conflict!.server_record;
+  const local = item.local;
+  const changes = local && server ? diffRecords(server, local) : [];
+  const label = recordLabel(item.resource, local || server || { id: item.record_id });
+
+  return (
+    <List.Item
+      actions={[
+        <Button key="local" size="small" loading={resolving} onClick={() => onResolve(item, "local")}>
+          保留本机
+        </Button>,
+        <Button key="server" size="small" loading={resolving} onClick={() => onResolve(item, "server")}>
+          使用服务器版本
+        </Button>,
+      ]}
+    >
+      <div className="w-full">
+        <div className="font-medium mb-1">
+          {AUDIT_RESOURCE_LABELS[item.resource] || item.resource}"{label}"
+        </div>
+        {!server && <Text type="secondary">服务器上的记录已被删除，本机做了修改</Text>}
+        {server && !local && <Text type="secondary">本机已删除该记录，服务器上的记录有新的修改</Text>}
+        {local?.deleted_at && server && !server.deleted_at && (
+          <div>
+            <Text type="secondary">本机已将该记录移入回收站</Text>
+          </div>
+        )}
+        {server?.deleted_at && local && !local.deleted_at && (
+          <div>
+            <Text type="secondary">服务器上已将该记录移入回收站</Text>
+          </div>
+        )}
+        {changes.length > 0 && (
+          <Table
+            size="small"
+            pagination={false}
+            rowKey="field"
+            dataSource={changes}
+            columns={[
+              { title: "字段", dataIndex: "field", width: 100, render: (field: string) => auditFieldLabel(field) },
+              {
+                title: "本机",
+                dataIndex: "after",
+                render: (value, change) => formatAuditValue(change.field, value),
+              },
+              {
+                title: "服务器",
+                dataIndex: "before",
+                render: (value, change) => formatAuditValue(change.field, value),
+              },
+            ]}
+          />
+        )}
+      </div>
+    </List.Item>
+  );
+};
+
+export const SyncStatus: React.FC = () => {
+  const invalidate = useInvalidate();
+  const status = useSyncExternalStore(subscribeSyncStatus, getSyncStatus);
+  const [items, setItems] = useState<IOutboxItem[]>([]);
+  const [modalOpen, setModalOpen] = useState(false);
+  const [resolvingId, setResolvingId] = useState<number | null>(null);
+
+  // 变更队列（冲突条目附带本机记录）
+  useEffect(() => {
+    const subscription = liveQuery(async () => {
+      const entries = await db.sync_outbox.toArray();
+      return Promise.all(
+        entries.map(async (entry) => ({
+          ...entry,
+          local: entry.conflict ? await db.table(entry.resource).get(entry.record_id) : undefined,
+        }))
+      );
+    }).subscribe({
+      next: setItems,
+      error: (error) => console.error("读取同步队列失败:", error),
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
+  // 同步写入本机数据后刷新列表
+  useEffect(
+    () =>
+      subscribeSyncApplied((resources) =>
+        resources.forEach((resource) => invalidate({ resource, invalidates: ["list", "many", "detail"] }))
+      ),
+    [invalidate]
+  );
+
+  const conflicts = items.filter((item) => item.conflict);
+  const pendingCount = items.length - conflicts.length;
+
+  /**
+   * 立即同步
+   */
+  const handleSync = async () => {
+    try {
+      const result = await syncNow();
+      if (result.conflicts > 0) {
+        message.warning(`同步完成，发现 ${result.conflicts} 个冲突，请逐条处理`);
+      } else {
+        message.success(`同步完成：上传 ${result.pushed} 条，更新 ${result.pulled} 条`);
+      }
+    } catch (error) {
+      message.error(`同步失败：${(error as Error).message}`);
+    }
+  };
+
+  /**
+   * 处理冲突，完成后立即同步一次
+   */
+  const handleResolve = async (item: IOutboxItem, choice: "local" | "server") => {
+    setResolvingId(item.id!);
+    try {
+      await resolveSyncConflict(item.id!, choice);
+      message.success(choice === "local" ? "已保留本机版本，将在同步时覆盖服务器" : "已采用服务器版本");
+      syncNow().catch((error) => console.warn("[同步] 同步失败:", error.message));
+    } catch (error) {
+      message.error(`处理失败：${(error as Error).message}`);
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  // ========== 状态按钮 ==========
+  let icon = <CloudOutlined />;
+  let label = "已同步";
+  let danger = false;
+  if (conflicts.length > 0) {
+    icon = <WarningOutlined />;
+    label = `${conflicts.length} 个冲突`;
+    danger = true;
+  } else if (status.phase === "syncing") {
+    icon = <SyncOutlined spin />;
+    label = "同步中";
+  } else if (status.phase === "offline") {
+    icon = <DisconnectOutlined />;
+    label = pendingCount > 0 ? `离线 · ${pendingCount} 条待同步` : "离线";
+  } else if (status.phase === "error") {
+    icon = <ExclamationCircleOutlined />;
+    label = "同步失败";
+    danger = true;
+  } else if (pendingCount > 0) {
+    icon = <CloudUploadOutlined />;
+    label = `${pendingCount} 条待同步`;
+  }
+
+  return (
+    <>
+      <Button icon={icon} danger={danger} size="small" onClick={() => setModalOpen(true)}>
+        {label}
+      </Button>
+
+      <Modal
+        title={
+          <div className="flex items-center gap-2">
+            <CloudSyncOutlined />
+            <span>数据同步</span>
+          </div>
+        }
+        open={modalOpen}
+        onCancel={() => setModalOpen(false)}
+        footer={null}
+        width={640}
+      >
+        <div className="space-y-4 py-4">
+          <Card size="small" className="bg-blue-50">
+            <Text type="secondary">
+              数据保存在本机，联网时自动与同步服务器交换修改；离线期间的修改会在恢复联网后上传。
+            </Text>
+          </Card>
+
+          {status.error && status.phase !== "syncing" && (
+            <Alert type={status.phase === "offline" ? "warning" : "error"} showIcon message={status.error} />
+          )}
+
+          <Card size="small" title="同步状态">
+            <div className="flex items-center justify-between">
+              <Space direction="vertical" size={0}>
+                <Text type="secondary">服务器：{SYNC_API_URL}</Text>
+                <Text type="secondary">
+                  上次同步：
+                  {status.last_synced_at ? dayjs(status.last_synced_at).format("YYYY-MM-DD HH:mm:ss") : "尚未同步"}
+                </Text>
+                <Text type="secondary">
+                  待上传：<Tag>{pendingCount} 条</Tag>
+                </Text>
+              </Space>
+              <Button
+                type="primary"
+                icon={<SyncOutlined />}
+                loading={status.phase === "syncing"}
+                onClick={handleSync}
+              >
+                立即同步
+              </Button>
+            </div>
+          </Card>
+
+          <Card size="small" title={`冲突（${conflicts.length}）`}>
+            {conflicts.length === 0 ? (
+              <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="没有需要处理的冲突" />
+            ) : (
+              <List
+                dataSource={conflicts}
+                renderItem={(item) => (
+                  <ConflictItem item={item} onResolve={handleResolve} resolving={resolvingId === item.id} />
+                )}
+              />
+            )}
+          </Card>
+        </div>
+      </Modal>
+    </>
+  );
+};
@@ -0,0 +1,87 @@
+/**
+ * 基础数据删除确认
+ * 功能：
+ * 1. 删除客户、尺码、单位前查询被款号、配料使用的情况
+ * 2. 存在禁止删除（block）的引用时提示无法删除，列出使用情况
+ * 3. 其余情况在确认框中说明删除后引用方如何处理（一并删除或清空引用）
+ */
+
+import { useCallback } from "react";
+import { Modal, message } from "antd";
+import { useDataProvider, useDelete } from "@refinedev/core";
+import { describeReferenceUsages, type IReferenceUsage } from "../../providers/references";
+
+/**
+ * 使用情况列表（每条引用关系一行）
+ */
+const renderUsageList = (usages: IReferenceUsage[]) => (
+  <ul className="mt-2 mb-0 pl-5 text-gray-600">
+    {usages.map((usage) => (
+      <li key={usage.key}>{describeReferenceUsages([usage])}</li>
+    ))}
+  </ul>
+);
+
+/**
+ * 返回删除函数：先查询使用情况，再弹出确认框
+ * @param resource 基础数据资源
+ * @param resourceLabel 资源名称（如"客户"）
+ */
+export function useReferenceDeleteConfirm(resource: "customers" | "sizes" | "units", resourceLabel: string) {
+  const getDataProvider = useDataProvider();
+  const { mutate: deleteRecord } = useDelete();
+
+  return useCallback(
+    async (id: number, label: string) => {
+      let usages: IReferenceUsage[] = [];
+      try {
+        const result = await getDataProvider().custom?.({
+          url: `/api/references/${resource}/${id}`,
+          method: "get",
+        });
+        usages = (result?.data as IReferenceUsage[] | undefined) || [];
+      } catch (error) {
+        message.error(`查询使用情况失败：${(error as Error).message}`);
+        return;
+      }
+
+      const blocking = usages.filter((usage) => usage.action === "block");
+      if (blocking.length > 0) {
+        Modal.warning({
+          title: "无法删除",
+          content: (
+            <div>
+              {resourceLabel}"{label}"仍被使用，请先修改以下记录：
+              {renderUsageList(blocking)}
+            </div>
+          ),
+        });
+        return;
+      }
+
+      Modal.confirm({
+        title: "确认删除",
+        content: (
+          <div>
+            确定要删除{resourceLabel}"{label}"吗？
+            {usages.length > 0 && renderUsageList(usages)}
+          </div>
+        ),
+        okText: "确认删除",
+        okType: "danger",
+        cancelText: "取消",
+        onOk: () => {
+          deleteRecord({
+            resource,
+            id,
+            successNotification: {
+              message: "删除成功",
+              type: "success",
+            },
+          });
+        },
+      });
+    },
+    [getDataProvider, deleteRecord, resource, resourceLabel]
+  );
+}
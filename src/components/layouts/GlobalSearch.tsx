@@ -0,0 +1,126 @@
+/**
+ * 顶部导航栏的全局搜索框
+ * 功能：
+ * 1. 搜索款号、款式名称、颜色、辅料名称、辅料颜色、供应商、客户名称，中文支持全拼和首字母
+ * 2. 结果按款号、颜色版本、配料、客户分组显示，注明命中的字段
+ * 3. 选择结果后跳转到款号详情页（颜色版本、配料定位到对应的颜色 Tab 和配料行）或客户详情页
+ *
+ * 首次聚焦搜索框时才加载数据并建立索引（见 utils/searchIndex.ts），数据变化后随列表查询刷新
+ */
+
+import React, { useMemo, useState } from "react";
+import { AutoComplete, Input, Tag, Typography } from "antd";
+import { SearchOutlined } from "@ant-design/icons";
+import { useList } from "@refinedev/core";
+import { useNavigate } from "react-router-dom";
+import type { IBOMItem, IColorVariant, ICustomer, IStyle } from "../../types/models";
+import { buildSearchIndex, searchIndex, type ISearchResult } from "../../utils/searchIndex";
+
+const { Text } = Typography;
+
+/**
+ * 加载全部记录（聚焦搜索框后才开始）
+ */
+function useAllRecords<T extends Record<string, any>>(resource: string, enabled: boolean): T[] | undefined {
+  const { data } = useList<T>({
+    resource,
+    pagination: { mode: "off" },
+    queryOptions: { enabled },
+  });
+  return data?.data;
+}
+
+function renderResult(result: ISearchResult) {
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <div className="min-w-0">
+        <div className="truncate">
+          <Text strong>{result.title}</Text>
+        </div>
+        {result.description && (
+          <div className="truncate">
+            <Text type="secondary" className="text-xs">
+              {result.description}
+            </Text>
+          </div>
+        )}
+      </div>
+      {result.matchedValue !== result.title && (
+        <Tag className="shrink-0 m-0">
+          {result.matchedLabel}：{result.matchedValue}
+        </Tag>
+      )}
+    </div>
+  );
+}
+
+export const GlobalSearch: React.FC = () => {
+  const navigate = useNavigate();
+  const [activated, setActivated] = useState(false);
+  const [keyword, setKeyword] = useState("");
+
+  const styles = useAllRecords<IStyle>("styles", activated);
+  const variants = useAllRecords<IColorVariant>("variants", activated);
+  const bomItems = useAllRecords<IBOMItem>("bom_items", activated);
+  const customers = useAllRecords<ICustomer>("customers", activated);
+  const loading = activated && (!styles || !variants || !bomItems || !customers);
+
+  const index = useMemo(
+    () =>
+      buildSearchIndex({
+        styles: styles || [],
+        variants: variants || [],
+        bomItems: bomItems || [],
+        customers: customers || [],
+      }),
+    [styles, variants, bomItems, customers]
+  );
+
+  const groups = useMemo(() => searchIndex(index, keyword), [index, keyword]);
+
+  const options = groups.map((group) => ({
+    label: (
+      <div className="flex items-center justify-between">
+        <span>{group.label}</span>
+        {group.total > group.results.length && (
+          <Text type="secondary" className="text-xs">
+            共 {group.total} 条，显示前 {group.results.length} 条
+          </Text>
+        )}
+      </div>
+    ),
+    // 跳转地址各不相同，直接作为选项的值
+    options: group.results.map((result) => ({
+      value: result.path,
+      label: renderResult(result),
+    })),
+  }));
+
+  return (
+    <AutoComplete
+      value={keyword}
+      options={options}
+      onSearch={setKeyword}
+      onClear={() => setKeyword("")}
+      onFocus={() => setActivated(true)}
+      onSelect={(path: string) => {
+        setKeyword("");
+        navigate(path);
+      }}
+      notFoundContent={
+        keyword.trim() ? (
+          <Text type="secondary">{loading ? "正在建立索引..." : "没有找到匹配的内容"}</Text>
+        ) : null
+      }
+      filterOption={false}
+      allowClear
+      popupMatchSelectWidth={420}
+      style={{ width: 280 }}
+    >
+      <Input
+        prefix={<SearchOutlined className="text-gray-400" />}
+        placeholder="搜索款号、颜色、辅料、供应商、客户"
+      />
+    </AutoComplete>
+  );
+};
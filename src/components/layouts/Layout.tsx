@@ -1,17 +1,33 @@
 /**
  * 主布局组件
- * 提供应用的整体框架：顶部导航栏 + 内容区域
+ * 提供应用的整体框架：顶部导航栏（含全局搜索）+ 内容区域
  */
 
+import { useEffect } from "react";
 import { Layout as AntLayout, Menu } from "antd";
 import { Outlet, useNavigate, useLocation } from "react-router-dom";
+import { useInvalidate } from "@refinedev/core";
 import { DataBackup } from "../common/DataBackup";
+import { SyncStatus } from "../common/SyncStatus";
+import { GlobalSearch } from "./GlobalSearch";
+import { isLocalDataMode } from "../../providers/dataProvider";
+import { isSyncEnabled } from "../../providers/syncOutbox";
+import { subscribeOtherTabs } from "../../providers/tabChannel";
 
 const { Header, Content } = AntLayout;
 
 export const Layout: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
+  const invalidate = useInvalidate();
+
+  // 其他标签页修改了本地数据库时，刷新本页缓存的查询
+  useEffect(() => {
+    if (!isLocalDataMode) return;
+    return subscribeOtherTabs((resources) =>
+      resources.forEach((resource) => invalidate({ resource, invalidates: ["list", "many", "detail"] }))
+    );
+  }, [invalidate]);
 
   // 根据当前路径确定选中的菜单项
   const currentPath = location.pathname.split('/')[1] || 'styles';
@@ -21,6 +37,14 @@ export const Layout: React.FC = () => {
       key: 'styles',
       label: '📋 款号管理',
     },
+    {
+      key: 'orders',
+      label: '🧾 生产订单',
+    },
+    {
+      key: 'purchase-plan',
+      label: '🛒 采购计划',
+    },
     {
       key: 'customers',
       label: '👥 客户管理',
@@ -33,6 +57,14 @@ export const Layout: React.FC = () => {
       key: 'units',
       label: '⚖️ 单位管理',
     },
+    {
+      key: 'wastage-rules',
+      label: '📐 损耗规则',
+    },
+    {
+      key: 'recycle-bin',
+      label: '🗑️ 回收站',
+    },
   ];
 
   const handleMenuClick = ({ key }: { key: string }) => {
@@ -61,13 +93,15 @@ export const Layout: React.FC = () => {
               selectedKeys={[currentPath]}
               items={menuItems}
               onClick={handleMenuClick}
-              style={{ border: 'none', background: 'transparent', minWidth: 500 }}
+              style={{ border: 'none', background: 'transparent', minWidth: 980 }}
             />
           </div>
 
-          {/* 右侧：数据管理 */}
+          {/* 右侧：全局搜索、同步状态与数据管理（仅本地模式） */}
           <div className="flex items-center gap-4">
-            <DataBackup />
+            <GlobalSearch />
+            {isLocalDataMode && isSyncEnabled && <SyncStatus />}
+            {isLocalDataMode && <DataBackup />}
           </div>
         </div>
       </Header>
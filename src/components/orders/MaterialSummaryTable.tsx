@@ -0,0 +1,142 @@
+/**
+ * 多颜色订单的配料汇总表格
+ * 各颜色中相同的配料合并为一行，便于按汇总数量采购
+ */
+
+import React, { useMemo } from "react";
+import { Table, Tag, Image } from "antd";
+import type { IOrderLine } from "../../types/models";
+import { summarizeOrderMaterials, type IMaterialSummaryRow } from "../../utils/orderSummary";
+
+interface MaterialSummaryTableProps {
+  lines: IOrderLine[];
+}
+
+export const MaterialSummaryTable: React.FC<MaterialSummaryTableProps> = ({ lines }) => {
+  const summary = useMemo(() => summarizeOrderMaterials(lines), [lines]);
+
+  const columns = [
+    {
+      title: "辅料名称",
+      dataIndex: "materialName",
+      key: "materialName",
+      width: 150,
+      fixed: "left" as const,
+      render: (name: string, record: IMaterialSummaryRow) => (
+        <div>
+          <div className="font-medium">{name}</div>
+          {record.type === "sized" ? (
+            <Tag color="blue" className="mt-1">{record.size}</Tag>
+          ) : (
+            <Tag color="green" className="mt-1">通码</Tag>
+          )}
+        </div>
+      ),
+    },
+    {
+      title: "辅料图片",
+      dataIndex: "materialImageUrl",
+      key: "materialImageUrl",
+      width: 80,
+      render: (url: string) => (
+        <Image src={url} width={50} height={50} style={{ objectFit: "cover" }} />
+      ),
+    },
+    {
+      title: "规格",
+      key: "spec",
+      width: 100,
+      render: (_: unknown, record: IMaterialSummaryRow) => (
+        <span>{record.specValue}{record.specUnit}</span>
+      ),
+    },
+    {
+      title: "辅料颜色",
+      dataIndex: "materialColor",
+      key: "materialColor",
+      width: 100,
+    },
+    {
+      title: "用到的颜色",
+      dataIndex: "colorNames",
+      key: "colorNames",
+      width: 160,
+      render: (colorNames: string[]) => colorNames.map((name) => <Tag key={name}>{name}</Tag>),
+    },
+    {
+      title: "下单数量",
+      dataIndex: "orderQty",
+      key: "orderQty",
+      width: 100,
+      render: (qty: number) => <span className="font-medium">{qty} 件</span>,
+    },
+    {
+      title: "基础用量",
+      dataIndex: "baseUsage",
+      key: "baseUsage",
+      width: 100,
+      render: (val: number, record: IMaterialSummaryRow) => (
+        <span>{val.toFixed(2)} {record.unit}</span>
+      ),
+    },
+    {
+      title: "损耗",
+      dataIndex: "wastageQty",
+      key: "wastageQty",
+      width: 100,
+      render: (val: number, record: IMaterialSummaryRow) =>
+        val > 0 ? (
+          <span className="text-orange-500">+{val.toFixed(2)} {record.unit}</span>
+        ) : (
+          <span className="text-gray-400">{val.toFixed(2)}</span>
+        ),
+    },
+    {
+      title: "实际用量",
+      dataIndex: "actualUsage",
+      key: "actualUsage",
+      width: 100,
+      render: (val: number, record: IMaterialSummaryRow) => (
+        <span className="font-medium">{val.toFixed(2)} {record.unit}</span>
+      ),
+    },
+    {
+      title: "交货数量",
+      dataIndex: "deliveryQty",
+      key: "deliveryQty",
+      width: 100,
+      render: (val: number, record: IMaterialSummaryRow) => (
+        <span className="font-medium">{val} {record.unit}</span>
+      ),
+    },
+    {
+      title: "差数",
+      dataIndex: "difference",
+      key: "difference",
+      width: 80,
+      render: (val: number) => (
+        <span className={val < 0 ? "text-red-500" : "text-gray-600"}>
+          {val.toFixed(2)}
+        </span>
+      ),
+    },
+    {
+      title: "供应商",
+      dataIndex: "supplier",
+      key: "supplier",
+      width: 120,
+    },
+  ];
+
+  return (
+    <Table
+      dataSource={summary}
+      columns={columns}
+      rowKey="key"
+      pagination={false}
+      scroll={{ x: 1300 }}
+      bordered
+      size="small"
+    />
+  );
+};
@@ -0,0 +1,41 @@
+/**
+ * 订单配料计算结果（按颜色分页签）
+ * 下单弹窗的预览、订单详情页共用
+ * 多个颜色时增加"配料汇总"页签；传入 onDeliveryQtyChange 时各颜色的"交货数量"可编辑
+ */
+
+import React from "react";
+import { Tabs } from "antd";
+import type { IOrderLine } from "../../types/models";
+import { OrderRowsTable } from "./OrderRowsTable";
+import { MaterialSummaryTable } from "./MaterialSummaryTable";
+
+interface OrderLinesViewProps {
+  lines: IOrderLine[];
+  onDeliveryQtyChange?: (lineIndex: number, rowIndex: number, value: number) => void;
+}
+
+export const OrderLinesView: React.FC<OrderLinesViewProps> = ({ lines, onDeliveryQtyChange }) => {
+  const items = lines.map((line, lineIndex) => ({
+    key: String(line.variant_id),
+    label: `${line.color_name}（${line.total_qty} 件）`,
+    children: (
+      <OrderRowsTable
+        rows={line.rows}
+        onDeliveryQtyChange={
+          onDeliveryQtyChange && ((rowIndex, value) => onDeliveryQtyChange(lineIndex, rowIndex, value))
+        }
+      />
+    ),
+  }));
+
+  if (lines.length > 1) {
+    items.push({
+      key: "summary",
+      label: "配料汇总",
+      children: <MaterialSummaryTable lines={lines} />,
+    });
+  }
+
+  return <Tabs items={items} />;
+};
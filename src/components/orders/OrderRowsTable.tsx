@@ -0,0 +1,159 @@
+/**
+ * 配料计算结果表格
+ * 一个颜色的配料计算结果（OrderLinesView 中按颜色分页签显示）
+ * 传入 onDeliveryQtyChange 时"交货数量"列可编辑
+ */
+
+import React from "react";
+import { Table, Tag, Image, InputNumber, Space, Tooltip } from "antd";
+import type { IMaterialRow } from "../../types/models";
+
+interface OrderRowsTableProps {
+  rows: IMaterialRow[];
+  onDeliveryQtyChange?: (index: number, value: number) => void;
+}
+
+export const OrderRowsTable: React.FC<OrderRowsTableProps> = ({ rows, onDeliveryQtyChange }) => {
+  const columns = [
+    {
+      title: "辅料名称",
+      dataIndex: "materialName",
+      key: "materialName",
+      width: 150,
+      fixed: "left" as const,
+      render: (name: string, record: IMaterialRow) => (
+        <div>
+          <div className="font-medium">{name}</div>
+          {record.type === "sized" && (
+            <Tag color="blue" className="mt-1">{record.size}</Tag>
+          )}
+          {record.type === "universal" && (
+            <Tag color="green" className="mt-1">通码</Tag>
+          )}
+        </div>
+      ),
+    },
+    {
+      title: "辅料图片",
+      dataIndex: "materialImageUrl",
+      key: "materialImageUrl",
+      width: 80,
+      render: (url: string) => (
+        <Image src={url} width={50} height={50} style={{ objectFit: "cover" }} />
+      ),
+    },
+    {
+      title: "规格",
+      key: "spec",
+      width: 100,
+      render: (_: unknown, record: IMaterialRow) => (
+        <span>{record.specValue}{record.specUnit}</span>
+      ),
+    },
+    {
+      title: "辅料颜色",
+      dataIndex: "materialColor",
+      key: "materialColor",
+      width: 100,
+    },
+    {
+      title: "下单数量",
+      key: "orderQty",
+      width: 100,
+      render: (_: unknown, record: IMaterialRow) => (
+        <span className="font-medium">
+          {record.type === "sized" ? record.orderQty : record.totalOrderQty} 件
+        </span>
+      ),
+    },
+    {
+      title: "单耗",
+      dataIndex: "usage",
+      key: "usage",
+      width: 80,
+      render: (usage: number, record: IMaterialRow) => (
+        <span>{usage} {record.unit}</span>
+      ),
+    },
+    {
+      title: "基础用量",
+      key: "baseUsage",
+      width: 100,
+      // 早期订单没有单独保存基础用量，实际用量即基础用量
+      render: (_: unknown, record: IMaterialRow) => (
+        <span>{(record.baseUsage ?? record.actualUsage).toFixed(2)} {record.unit}</span>
+      ),
+    },
+    {
+      title: "损耗",
+      key: "wastageQty",
+      width: 100,
+      render: (_: unknown, record: IMaterialRow) =>
+        record.wastageRule ? (
+          <Tooltip title={record.wastageRule}>
+            <span className="text-orange-500">+{(record.wastageQty ?? 0).toFixed(2)} {record.unit}</span>
+          </Tooltip>
+        ) : (
+          <span className="text-gray-400">{(record.wastageQty ?? 0).toFixed(2)}</span>
+        ),
+    },
+    {
+      title: "实际用量",
+      dataIndex: "actualUsage",
+      key: "actualUsage",
+      width: 100,
+      render: (val: number, record: IMaterialRow) => (
+        <span className="font-medium">{val.toFixed(2)} {record.unit}</span>
+      ),
+    },
+    {
+      title: "交货数量",
+      key: "deliveryQty",
+      width: 140,
+      render: (_: unknown, record: IMaterialRow, index: number) =>
+        onDeliveryQtyChange ? (
+          <Space size={4}>
+            <InputNumber
+              min={0}
+              value={record.deliveryQty}
+              onChange={(val) => onDeliveryQtyChange(index, val || 0)}
+              size="small"
+              style={{ width: 80 }}
+            />
+            <span className="text-gray-500">{record.unit}</span>
+          </Space>
+        ) : (
+          <span>{record.deliveryQty} {record.unit}</span>
+        ),
+    },
+    {
+      title: "差数",
+      dataIndex: "difference",
+      key: "difference",
+      width: 80,
+      render: (val: number) => (
+        <span className={val < 0 ? "text-red-500" : "text-gray-600"}>
+          {val.toFixed(2)}
+        </span>
+      ),
+    },
+    {
+      title: "供应商",
+      dataIndex: "supplier",
+      key: "supplier",
+      width: 120,
+    },
+  ];
+
+  return (
+    <Table
+      dataSource={rows}
+      columns={columns}
+      rowKey={(_, index) => String(index)}
+      pagination={false}
+      scroll={{ x: 1300 }}
+      bordered
+      size="small"
+    />
+  );
+};
@@ -0,0 +1,99 @@
+/**
+ * 颜色 × 尺码下单数量矩阵
+ * 每行一个颜色，每列一个尺码（所选颜色配料中出现过的所有尺码）；
+ * 某颜色的配料没有该尺码的规格时不可输入
+ */
+
+import React from "react";
+import { Table, InputNumber, Tag } from "antd";
+
+export interface ISizeMatrixVariant {
+  id: number;
+  color_name: string;
+  sizes: string[];          // 该颜色配料规格明细中的尺码
+}
+
+interface SizeMatrixProps {
+  variants: ISizeMatrixVariant[];
+  sizes: string[];
+  quantities: Record<number, Record<string, number>>;  // 颜色版本ID → 尺码 → 数量
+  onChange: (variantId: number, size: string, quantity: number) => void;
+}
+
+export const SizeMatrix: React.FC<SizeMatrixProps> = ({ variants, sizes, quantities, onChange }) => {
+  const qtyOf = (variantId: number, size: string) => quantities[variantId]?.[size] || 0;
+  const rowTotal = (variant: ISizeMatrixVariant) =>
+    variant.sizes.reduce((sum, size) => sum + qtyOf(variant.id, size), 0);
+
+  const columns = [
+    {
+      title: "颜色",
+      key: "color_name",
+      width: 120,
+      fixed: "left" as const,
+      render: (_: unknown, variant: ISizeMatrixVariant) => (
+        <div>
+          <div className="font-medium">{variant.color_name}</div>
+          {variant.sizes.length === 0 && <div className="text-xs text-gray-400">暂无带尺码的配料规格</div>}
+        </div>
+      ),
+    },
+    ...sizes.map((size) => ({
+      title: <Tag color="blue">{size}</Tag>,
+      key: size,
+      width: 100,
+      align: "center" as const,
+      render: (_: unknown, variant: ISizeMatrixVariant) =>
+        variant.sizes.includes(size) ? (
+          <InputNumber
+            min={0}
+            max={99999}
+            value={qtyOf(variant.id, size)}
+            onChange={(val) => onChange(variant.id, size, val || 0)}
+            style={{ width: 80 }}
+          />
+        ) : (
+          <span className="text-gray-300">-</span>
+        ),
+    })),
+    {
+      title: "合计",
+      key: "total",
+      width: 80,
+      fixed: "right" as const,
+      align: "center" as const,
+      render: (_: unknown, variant: ISizeMatrixVariant) => (
+        <span className="font-medium text-blue-600">{rowTotal(variant)}</span>
+      ),
+    },
+  ];
+
+  return (
+    <Table
+      dataSource={variants}
+      columns={columns}
+      rowKey="id"
+      pagination={false}
+      scroll={{ x: 200 + sizes.length * 100 }}
+      bordered
+      size="small"
+      summary={() => (
+        <Table.Summary.Row>
+          <Table.Summary.Cell index={0}>
+            <span className="font-medium">合计</span>
+          </Table.Summary.Cell>
+          {sizes.map((size, index) => (
+            <Table.Summary.Cell key={size} index={index + 1} align="center">
+              {variants.reduce((sum, variant) => sum + (variant.sizes.includes(size) ? qtyOf(variant.id, size) : 0), 0)}
+            </Table.Summary.Cell>
+          ))}
+          <Table.Summary.Cell index={sizes.length + 1} align="center">
+            <span className="font-medium text-blue-600">
+              {variants.reduce((sum, variant) => sum + rowTotal(variant), 0)}
+            </span>
+          </Table.Summary.Cell>
+        </Table.Summary.Row>
+      )}
+    />
+  );
+};
@@ -0,0 +1,86 @@
+/**
+ * 订单操作（订单列表页、详情页共用）
+ * - 复制：以今天为下单日期新建一份相同内容的订单，并打开新订单
+ * - 导出：按保存的计算结果（含调整后的交货数量）导出 Excel
+ * - 删除：确认后删除订单
+ */
+
+import { useState } from "react";
+import { Modal, message } from "antd";
+import { useCreate, useDelete } from "@refinedev/core";
+import { useNavigate } from "react-router-dom";
+import dayjs from "dayjs";
+import type { IOrder } from "../../types/models";
+import { exportOrderExcel } from "../../utils/orderExport";
+import { orderColorNames } from "../../providers/orders";
+
+export function useOrderActions() {
+  const navigate = useNavigate();
+  const { mutate: createOrder } = useCreate<IOrder>();
+  const { mutate: deleteOrder } = useDelete();
+  // 正在导出的订单ID
+  const [exportingId, setExportingId] = useState<number | null>(null);
+
+  const duplicateOrder = (order: IOrder) => {
+    const today = dayjs().format("YYYY-MM-DD");
+
+    createOrder(
+      {
+        resource: "orders",
+        values: {
+          ...order,
+          id: undefined,
+          revision: undefined,
+          updated_at: undefined,
+          order_date: today,
+          create_date: today,
+        },
+      },
+      {
+        onSuccess: ({ data }) => {
+          message.success(`已复制订单，下单日期改为 ${today}`);
+          navigate(`/orders/${data.id}`);
+        },
+      }
+    );
+  };
+
+  const exportOrder = async (order: IOrder) => {
+    setExportingId(order.id);
+    try {
+      await exportOrderExcel(order);
+      message.success("Excel 导出成功！");
+    } catch (error) {
+      console.error("导出失败:", error);
+      message.error("导出失败，请重试");
+    } finally {
+      setExportingId(null);
+    }
+  };
+
+  const confirmDeleteOrder = (order: IOrder, onDeleted?: () => void) => {
+    Modal.confirm({
+      title: "确认删除订单",
+      content: `确定要删除 ${order.order_date} 下单的"${order.style_no} ${orderColorNames(order)}"订单吗？删除后无法恢复。`,
+      okText: "删除",
+      okType: "danger",
+      cancelText: "取消",
+      onOk: () =>
+        new Promise<void>((resolve, reject) => {
+          deleteOrder(
+            { resource: "orders", id: order.id },
+            {
+              onSuccess: () => {
+                message.success("订单已删除");
+                onDeleted?.();
+                resolve();
+              },
+              onError: reject,
+            }
+          );
+        }),
+    });
+  };
+
+  return { duplicateOrder, exportOrder, exportingId, confirmDeleteOrder };
+}
@@ -0,0 +1,172 @@
+/**
+ * 变更历史抽屉
+ * 功能：
+ * 1. 款号详情页：显示款号及其颜色版本、配料的全部变更（可按类型筛选）
+ * 2. 配料行：显示单条配料的变更（含规格明细的新增、修改、删除）
+ * 3. 设置本机操作人名称（写入之后的审计日志）
+ */
+
+import React, { useState, useEffect, useCallback } from "react";
+import { Drawer, Timeline, Tag, Empty, Spin, Segmented, Typography } from "antd";
+import dayjs from "dayjs";
+import {
+  listStyleHistory,
+  listRecordHistory,
+  getAuditActor,
+  setAuditActor,
+  AUDIT_ACTION_LABELS,
+  AUDIT_RESOURCE_LABELS,
+  AUDIT_FIELD_LABELS,
+  formatAuditValue,
+} from "../../providers/audit";
+import type { AuditAction, IAuditChange, IAuditLog } from "../../types/models";
+
+const { Text } = Typography;
+
+const ACTION_COLORS: Record<AuditAction, string> = {
+  create: "green",
+  update: "blue",
+  delete: "orange",
+  restore: "cyan",
+  purge: "red",
+  replace: "purple",
+};
+
+type ResourceFilter = "all" | "styles" | "variants" | "bom_items";
+
+interface AuditHistoryDrawerProps {
+  open: boolean;
+  onClose: () => void;
+  title: string;
+  styleId?: number;                              // 显示整个款号的变更
+  record?: { resource: string; id: number };     // 只显示单条记录的变更
+}
+
+/**
+ * 生成字段变更说明
+ */
+function describeChange(change: IAuditChange): string {
+  const { field, before, after } = change;
+  if (field.startsWith("specDetails.")) {
+    if (before && after) return `规格：${formatAuditValue(field, before)} → ${formatAuditValue(field, after)}`;
+    if (after) return `新增规格：${formatAuditValue(field, after)}`;
+    return `删除规格：${formatAuditValue(field, before)}`;
+  }
+
+  const label = AUDIT_FIELD_LABELS[field] || field;
+  if (before === undefined) return `${label}：${formatAuditValue(field, after)}`;
+  if (after === undefined) return `${label}：${formatAuditValue(field, before)}`;
+  return `${label}：${formatAuditValue(field, before)} → ${formatAuditValue(field, after)}`;
+}
+
+export const AuditHistoryDrawer: React.FC<AuditHistoryDrawerProps> = ({
+  open,
+  onClose,
+  title,
+  styleId,
+  record,
+}) => {
+  const [logs, setLogs] = useState<IAuditLog[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [resourceFilter, setResourceFilter] = useState<ResourceFilter>("all");
+  const [actor, setActor] = useState(getAuditActor());
+
+  const recordResource = record?.resource;
+  const recordId = record?.id;
+
+  /**
+   * 加载变更历史
+   */
+  const loadLogs = useCallback(async () => {
+    setLoading(true);
+    try {
+      if (recordResource && recordId !== undefined) {
+        setLogs(await listRecordHistory(recordResource, recordId));
+      } else if (styleId !== undefined) {
+        setLogs(await listStyleHistory(styleId));
+      } else {
+        setLogs([]);
+      }
+    } catch (error) {
+      console.error("读取变更历史失败:", error);
+      setLogs([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [styleId, recordResource, recordId]);
+
+  useEffect(() => {
+    if (open) loadLogs();
+  }, [open, loadLogs]);
+
+  /**
+   * 修改操作人
+   */
+  const handleActorChange = (value: string) => {
+    setAuditActor(value);
+    setActor(getAuditActor());
+  };
+
+  const visibleLogs =
+    resourceFilter === "all" ? logs : logs.filter((log) => log.resource === resourceFilter);
+
+  return (
+    <Drawer title={title} open={open} onClose={onClose} width={560} destroyOnClose>
+      <div className="flex items-center justify-between mb-4">
+        {!record ? (
+          <Segmented
+            value={resourceFilter}
+            onChange={(value) => setResourceFilter(value as ResourceFilter)}
+            options={[
+              { label: "全部", value: "all" },
+              { label: "款号", value: "styles" },
+              { label: "颜色版本", value: "variants" },
+              { label: "配料", value: "bom_items" },
+            ]}
+          />
+        ) : (
+          <span />
+        )}
+        <Text type="secondary">
+          操作人：
+          <Text editable={{ onChange: handleActorChange, tooltip: "修改本机操作人" }}>{actor}</Text>
+        </Text>
+      </div>
+
+      <Spin spinning={loading}>
+        {visibleLogs.length === 0 ? (
+          <Empty description="暂无变更记录" />
+        ) : (
+          <Timeline
+            items={visibleLogs.map((log) => ({
+              color: ACTION_COLORS[log.action],
+              children: (
+                <div key={log.id}>
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <Tag color={ACTION_COLORS[log.action]}>{AUDIT_ACTION_LABELS[log.action]}</Tag>
+                    {!record && (
+                      <span className="font-medium">
+                        {AUDIT_RESOURCE_LABELS[log.resource] || log.resource}"{log.record_label}"
+                      </span>
+                    )}
+                    <Text type="secondary" className="text-xs">
+                      {dayjs(log.created_at).format("YYYY-MM-DD HH:mm:ss")} · {log.actor}
+                    </Text>
+                  </div>
+                  {log.note && <div className="text-gray-500 text-sm mt-1">{log.note}</div>}
+                  {log.action === "update" && log.changes.length > 0 && (
+                    <ul className="text-sm text-gray-700 mt-1 mb-0 pl-5">
+                      {log.changes.map((change) => (
+                        <li key={change.field}>{describeChange(change)}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ),
+            }))}
+          />
+        )}
+      </Spin>
+    </Drawer>
+  );
+};
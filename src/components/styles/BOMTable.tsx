@@ -6,22 +6,37 @@
  * 3. L4 规格明细聚合展示（多条规格记录显示为堆叠文本）
  * 4. 点击"编辑规格"按钮打开 L4 编辑弹窗
  * 5. 支持添加、删除配料
+ * 6. 查看单条配料的变更历史
+ * 7. 地址带有 bom 参数时（来自全局搜索）滚动到该配料并高亮
  */
 
-import React, { useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { EditableProTable } from "@ant-design/pro-components";
 import { Image, Button, Tag, Upload, message } from "antd";
 import { EditOutlined, PlusOutlined, DeleteOutlined } from "@ant-design/icons";
-import { useList, useCreate, useUpdate, useDelete } from "@refinedev/core";
-import type { IBOMItem, ISpecDetail } from "../../types/models";
+import { useList, useCreate, useUpdate, useDelete, useInvalidate } from "@refinedev/core";
+import { useSearchParams } from "react-router-dom";
+import type { IBOMItem, ISpecDetail, ICascadeDeleteSummary } from "../../types/models";
 import { SpecDetailModalForm } from "./SpecDetailModalForm";
+import { AuditHistoryDrawer } from "./AuditHistoryDrawer";
+import { useUndoRedo } from "./undoRedoContext";
 import { MaterialColorEditor, MaterialColorDisplay } from "./MaterialColorEditor";
 import { uploadToQiniu } from "../../utils/qiniuUpload";
+import { isLocalDataMode } from "../../providers/dataProvider";
+import {
+  conflictAwareErrorNotification,
+  isRecordConflict,
+  type IWriteConflict,
+} from "../../providers/concurrency";
+import { ConflictMergeModal } from "../common/ConflictMergeModal";
 
 interface BOMTableProps {
   variantId: number;
 }
 
+// 新增行的临时 ID（负数，仅用作表格行 key；保存时由数据层分配正式 ID）
+let tempRowId = 0;
+
 /**
  * 辅料图片上传组件
  */
@@ -103,6 +118,8 @@ const MaterialImageUploader: React.FC<MaterialImageUploaderProps> = ({ value, on
 export const BOMTable: React.FC<BOMTableProps> = ({ variantId }) => {
   // 当前正在编辑规格的配料记录
   const [editingRecord, setEditingRecord] = useState<IBOMItem | null>(null);
+  // 正在查看变更历史的配料记录
+  const [historyRecord, setHistoryRecord] = useState<IBOMItem | null>(null);
 
   // 加载 L3 配料数据（按 variant_id 筛选）
   const { data: bomData, isLoading } = useList<IBOMItem>({
@@ -113,47 +130,110 @@ export const BOMTable: React.FC<BOMTableProps> = ({ variantId }) => {
 
   const dataSource = bomData?.data || [];
 
+  // 全局搜索定位的配料
+  const [searchParams] = useSearchParams();
+  const highlightId = Number(searchParams.get("bom")) || undefined;
+  const highlightLoaded = dataSource.some((item) => item.id === highlightId);
+
+  useEffect(() => {
+    if (!highlightId || !highlightLoaded) return;
+    document
+      .querySelector(`[data-row-key="${highlightId}"]`)
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [highlightId, highlightLoaded]);
+
   // 创建配料的 Hook
   const { mutate: createBomItem } = useCreate();
 
   // 更新配料的 Hook
-  const { mutate: updateBomItem } = useUpdate();
+  const { mutate: updateBomItem, isLoading: isUpdating } = useUpdate();
 
   // 删除配料的 Hook
   const { mutate: deleteBomItem } = useDelete();
 
+  // 用于刷新数据的钩子
+  const invalidate = useInvalidate();
+
+  // 开始编辑时的行数据（其他页面修改后列表会自动刷新，合并时据此判断哪一方修改了字段）
+  const editBaseRows = useRef(new Map<number, IBOMItem>());
+
+  // 保存时发现的写入冲突
+  const [conflict, setConflict] = useState<IWriteConflict | null>(null);
+
+  // 详情页的撤销 / 重做记录
+  const { commands, record: recordUndo } = useUndoRedo();
+
   /**
-   * 处理行内编辑保存
-   * 智能判断：新记录调用 CREATE，已存在记录调用 UPDATE
+   * 保存已存在的配料
+   * 以开始编辑时记录的修改时间为基准，记录已在其他页面被修改时打开合并弹窗
    */
-  const handleSave = async (_key: React.Key, record: IBOMItem) => {
-    // 检查记录是否已存在于数据库中
-    const existingRecord = dataSource.find((item) => item.id === record.id);
-
-    if (existingRecord) {
-      // 已存在 -> 更新
-      updateBomItem({
+  const saveBomItem = (record: IBOMItem, before: IBOMItem, baseUpdatedAt?: string, base?: IBOMItem) => {
+    updateBomItem(
+      {
         resource: "bom_items",
         id: record.id,
         values: record,
+        meta: { baseUpdatedAt },
         successNotification: {
           message: "保存成功",
           type: "success",
         },
-      });
+        errorNotification: conflictAwareErrorNotification(),
+      },
+      {
+        onSuccess: ({ data }) => {
+          setConflict(null);
+          if (commands) {
+            recordUndo(commands.updated("bom_items", before, data, `修改配料"${before.material_name}"`));
+          }
+        },
+        onError: (error) => {
+          if (!isRecordConflict(error)) return;
+          setConflict({
+            resource: "bom_items",
+            mine: record,
+            theirs: error.current,
+            base,
+          });
+        },
+      }
+    );
+  };
+
+  /**
+   * 处理行内编辑保存
+   * 智能判断：新记录调用 CREATE，已存在记录调用 UPDATE
+   */
+  const handleSave = async (_key: React.Key, record: IBOMItem) => {
+    // 检查记录是否已存在于数据库中
+    const existingRecord = dataSource.find((item) => item.id === record.id);
+
+    if (existingRecord) {
+      // 已存在 -> 更新（以开始编辑时的行数据为基准，编辑中途列表刷新后行数据的 updated_at 已是新值）
+      const base = editBaseRows.current.get(record.id);
+      saveBomItem(record, existingRecord, base?.updated_at ?? record.updated_at, base);
     } else {
       // 不存在 -> 创建新记录
-      createBomItem({
-        resource: "bom_items",
-        values: {
-          ...record,
-          variant_id: variantId, // 确保关联正确的颜色版本
+      createBomItem(
+        {
+          resource: "bom_items",
+          values: {
+            ...record,
+            variant_id: variantId, // 确保关联正确的颜色版本
+          },
+          successNotification: {
+            message: "添加成功",
+            type: "success",
+          },
         },
-        successNotification: {
-          message: "添加成功",
-          type: "success",
-        },
-      });
+        {
+          onSuccess: ({ data }) => {
+            if (commands && data.id !== undefined) {
+              recordUndo(commands.created("bom_items", Number(data.id), `添加配料"${record.material_name}"`));
+            }
+          },
+        }
+      );
     }
   };
 
@@ -167,8 +247,19 @@ export const BOMTable: React.FC<BOMTableProps> = ({ variantId }) => {
         id: record.id,
         successNotification: {
           message: "删除成功",
+          description: `配料"${record.material_name}"已移入回收站`,
           type: "success",
         },
+      },
+      {
+        onSuccess: (data) => {
+          if (commands) {
+            const summary: ICascadeDeleteSummary | undefined = (data as any)?.summary;
+            recordUndo(
+              commands.deleted("bom_items", record.id, summary?.batch, `删除配料"${record.material_name}"`)
+            );
+          }
+        },
       }
     );
   };
@@ -244,6 +335,7 @@ export const BOMTable: React.FC<BOMTableProps> = ({ variantId }) => {
 
         <EditableProTable<IBOMItem>
           rowKey="id"
+          rowClassName={(record) => (record.id === highlightId ? "search-highlight-row" : "")}
           loading={isLoading}
           value={dataSource}
           columns={[
@@ -378,7 +470,7 @@ export const BOMTable: React.FC<BOMTableProps> = ({ variantId }) => {
             {
               title: "操作",
               valueType: "option",
-              width: 120,
+              width: 160,
               render: (_, record, __, action) => [
                 <a
                   key="edit"
@@ -388,6 +480,13 @@ export const BOMTable: React.FC<BOMTableProps> = ({ variantId }) => {
                 >
                   编辑
                 </a>,
+                ...(isLocalDataMode
+                  ? [
+                      <a key="history" onClick={() => setHistoryRecord(record)}>
+                        历史
+                      </a>,
+                    ]
+                  : []),
                 <a
                   key="delete"
                   onClick={() => handleDelete(record)}
@@ -401,7 +500,7 @@ export const BOMTable: React.FC<BOMTableProps> = ({ variantId }) => {
           recordCreatorProps={{
             creatorButtonText: "添加配料",
             record: () => ({
-              id: Date.now(), // 临时ID
+              id: --tempRowId, // 临时ID
               variant_id: variantId,
               material_name: "",
               material_image_url: "", // 让用户自己上传
@@ -415,18 +514,45 @@ export const BOMTable: React.FC<BOMTableProps> = ({ variantId }) => {
             onSave: async (key, record) => {
               await handleSave(key as React.Key, record as IBOMItem);
             },
+            // 记录每行开始编辑时的数据，编辑中途列表刷新不覆盖
+            onChange: (_keys, rows) => {
+              const previous = editBaseRows.current;
+              editBaseRows.current = new Map(
+                ([] as IBOMItem[]).concat(rows).map((row) => [row.id, previous.get(row.id) ?? row])
+              );
+            },
           }}
           pagination={false}
           scroll={{ x: 1200 }}
         />
       </div>
 
+      {/* 写入冲突合并弹窗 */}
+      <ConflictMergeModal
+        conflict={conflict}
+        saving={isUpdating}
+        onMerge={(merged, theirs) => saveBomItem(merged, theirs, theirs.updated_at, conflict?.base)}
+        onDiscard={() => {
+          setConflict(null);
+          invalidate({ resource: "bom_items", invalidates: ["list"] });
+        }}
+        onClose={() => setConflict(null)}
+      />
+
       {/* L4 规格编辑弹窗 */}
       <SpecDetailModalForm
         open={!!editingRecord}
         bomItem={editingRecord}
         onClose={() => setEditingRecord(null)}
       />
+
+      {/* 单条配料的变更历史 */}
+      <AuditHistoryDrawer
+        open={!!historyRecord}
+        onClose={() => setHistoryRecord(null)}
+        title={`变更历史 - ${historyRecord?.material_name || ""}`}
+        record={historyRecord ? { resource: "bom_items", id: historyRecord.id } : undefined}
+      />
     </>
   );
 };
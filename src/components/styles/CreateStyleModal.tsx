@@ -3,7 +3,8 @@
  * 功能：
  * 1. 表单收集款号基础信息（款号、款式名称、公共备注）
  * 2. 创建日期自动生成
- * 3. 提交后创建新款号
+ * 3. 款号实时检查是否已被使用（见 useStyleNoRules）
+ * 4. 提交后创建新款号
  */
 
 import React from "react";
@@ -11,6 +12,8 @@ import { Modal, Form, Input, Select, message } from "antd";
 import { useCreate, useInvalidate, useList } from "@refinedev/core";
 import type { IStyle, ICustomer } from "../../types/models";
 import dayjs from "dayjs";
+import { isDuplicateStyleNo } from "../../providers/styleNo";
+import { useStyleNoRules } from "./useStyleNoRules";
 
 interface CreateStyleModalProps {
   open: boolean;
@@ -29,6 +32,9 @@ export const CreateStyleModal: React.FC<CreateStyleModalProps> = ({
   // 用于刷新数据的钩子
   const invalidate = useInvalidate();
 
+  // 款号校验规则（含唯一性检查）
+  const styleNoRules = useStyleNoRules();
+
   // 加载客户列表
   const { data: customersData } = useList<ICustomer>({
     resource: "customers",
@@ -69,11 +75,11 @@ export const CreateStyleModal: React.FC<CreateStyleModalProps> = ({
               description: `款号"${values.style_no}"已创建`,
               type: "success",
             },
-            errorNotification: {
+            errorNotification: (error) => ({
               message: "创建失败",
-              description: "请稍后重试",
+              description: isDuplicateStyleNo(error) ? error.message : "请稍后重试",
               type: "error",
-            },
+            }),
           },
           {
             onSuccess: (_data) => {
@@ -92,6 +98,12 @@ export const CreateStyleModal: React.FC<CreateStyleModalProps> = ({
                 duration: 2,
               });
             },
+            onError: (error) => {
+              // 校验之后款号被其他页面占用
+              if (isDuplicateStyleNo(error)) {
+                form.setFields([{ name: "style_no", errors: [error.message] }]);
+              }
+            },
           }
         );
       })
@@ -160,14 +172,9 @@ export const CreateStyleModal: React.FC<CreateStyleModalProps> = ({
           <Form.Item
             label="款号"
             name="style_no"
-            rules={[
-              { required: true, message: "请输入款号" },
-              { max: 20, message: "款号不能超过 20 个字符" },
-              {
-                pattern: /^[a-zA-Z0-9]+$/,
-                message: "款号只能包含字母和数字",
-              },
-            ]}
+            rules={styleNoRules}
+            validateDebounce={300}
+            hasFeedback
             tooltip="唯一标识，建议使用字母数字组合，如：9128, ST001"
           >
             <Input
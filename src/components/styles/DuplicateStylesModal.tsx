@@ -0,0 +1,236 @@
+/**
+ * 款号查重弹窗
+ * 功能：
+ * 1. 列出重复的款号：升级到款号唯一索引前已存在的重复款号、导入或同步时让出款号的记录（临时款号带"~"），
+ *    以及只差大小写或空白的疑似重复款号
+ * 2. 每组选择保留的款号后合并：其余款号的颜色版本移到保留的款号下（颜色重名时加原款号后缀），其余款号移入回收站
+ * 3. 不是同一款的记录可打开详情页改用新款号
+ */
+
+import React, { useEffect, useMemo, useState } from "react";
+import { Modal, Table, Tag, Button, Radio, Popconfirm, Space, Typography, Empty, Alert } from "antd";
+import { MergeCellsOutlined, EyeOutlined } from "@ant-design/icons";
+import { useCustomMutation, useInvalidate, useList } from "@refinedev/core";
+import { useNavigate } from "react-router-dom";
+import { findDuplicateStyleGroups, type IDuplicateStyleGroup } from "../../providers/styleNo";
+import type { IColorVariant, IMergeStylesResponse, IStyle } from "../../types/models";
+
+const { Text } = Typography;
+
+interface DuplicateStylesModalProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * 默认保留的款号：优先没有让出过款号的记录，其次 ID 最小的
+ */
+function defaultTarget(group: IDuplicateStyleGroup): number {
+  return (group.styles.find((style) => !style.duplicate_of) || group.styles[0]).id;
+}
+
+export const DuplicateStylesModal: React.FC<DuplicateStylesModalProps> = ({ open, onClose }) => {
+  const navigate = useNavigate();
+  const invalidate = useInvalidate();
+  const { mutate: mergeStyles } = useCustomMutation();
+  // 各组选择保留的款号ID（按组的查重款号）
+  const [targets, setTargets] = useState<Record<string, number>>({});
+  const [mergingKey, setMergingKey] = useState<string | null>(null);
+
+  const { data: stylesData, isLoading } = useList<IStyle>({
+    resource: "styles",
+    pagination: { mode: "off" },
+    queryOptions: { enabled: open },
+  });
+
+  const groups = useMemo(() => findDuplicateStyleGroups(stylesData?.data || []), [stylesData]);
+  const styleIds = useMemo(() => groups.flatMap((group) => group.styles.map((style) => style.id)), [groups]);
+
+  // 组内各款号的颜色数量
+  const { data: variantsData } = useList<IColorVariant>({
+    resource: "variants",
+    pagination: { mode: "off" },
+    filters: [{ field: "style_id", operator: "in", value: styleIds }],
+    queryOptions: { enabled: open && styleIds.length > 0 },
+  });
+
+  const variantCounts = useMemo(() => {
+    const counts = new Map<number, number>();
+    (variantsData?.data || []).forEach((variant) => {
+      counts.set(variant.style_id, (counts.get(variant.style_id) || 0) + 1);
+    });
+    return counts;
+  }, [variantsData]);
+
+  // 分组变化时补上默认选择
+  useEffect(() => {
+    setTargets((prev) =>
+      Object.fromEntries(
+        groups.map((group) => {
+          const selected = prev[group.key];
+          return [
+            group.key,
+            group.styles.some((style) => style.id === selected) ? selected : defaultTarget(group),
+          ];
+        })
+      )
+    );
+  }, [groups]);
+
+  /**
+   * 合并一组款号
+   */
+  const handleMerge = (group: IDuplicateStyleGroup) => {
+    const targetId = targets[group.key];
+    setMergingKey(group.key);
+    mergeStyles(
+      {
+        url: "/api/styles/merge",
+        method: "post",
+        values: {
+          target_id: targetId,
+          source_ids: group.styles.map((style) => style.id).filter((id) => id !== targetId),
+        },
+        successNotification: (data) => {
+          const result = data?.data as IMergeStylesResponse | undefined;
+          return {
+            message: "合并成功",
+            description: result
+              ? `已合并为款号"${result.style_no}"，移入 ${result.moved_variant_ids.length} 个颜色版本` +
+                (result.renamed_color_count > 0 ? `（其中 ${result.renamed_color_count} 个重名颜色已加后缀）` : "") +
+                `，${result.merged_style_ids.length} 个款号已移入回收站`
+              : "重复款号已合并",
+            type: "success",
+          };
+        },
+        errorNotification: (error) => ({
+          message: "合并失败",
+          description: error?.message || "请稍后重试",
+          type: "error",
+        }),
+      },
+      {
+        onSuccess: () => {
+          invalidate({ resource: "styles", invalidates: ["all"] });
+          invalidate({ resource: "variants", invalidates: ["all"] });
+        },
+        onSettled: () => setMergingKey(null),
+      }
+    );
+  };
+
+  const renderGroup = (group: IDuplicateStyleGroup) => {
+    const targetId = targets[group.key];
+    const target = group.styles.find((style) => style.id === targetId);
+
+    const columns = [
+      {
+        title: "保留",
+        key: "target",
+        width: 60,
+        render: (_: unknown, style: IStyle) => (
+          <Radio
+            checked={style.id === targetId}
+            onChange={() => setTargets((prev) => ({ ...prev, [group.key]: style.id }))}
+          />
+        ),
+      },
+      {
+        title: "款号",
+        dataIndex: "style_no",
+        render: (styleNo: string, style: IStyle) => (
+          <Space size={4}>
+            <Text strong>{styleNo}</Text>
+            {style.duplicate_of && <Tag color="orange">临时款号</Tag>}
+          </Space>
+        ),
+      },
+      {
+        title: "款式名称",
+        dataIndex: "style_name",
+        render: (text?: string) => text || "-",
+      },
+      {
+        title: "客户",
+        dataIndex: "customer_name",
+        render: (text?: string) => text || "-",
+      },
+      {
+        title: "颜色",
+        key: "variants",
+        width: 70,
+        render: (_: unknown, style: IStyle) => variantCounts.get(style.id) || 0,
+      },
+      {
+        title: "创建日期",
+        dataIndex: "create_date",
+        width: 110,
+      },
+      {
+        title: "操作",
+        key: "action",
+        width: 90,
+        render: (_: unknown, style: IStyle) => (
+          <Button
+            type="link"
+            size="small"
+            icon={<EyeOutlined />}
+            onClick={() => {
+              onClose();
+              navigate(`/styles/${style.id}`);
+            }}
+          >
+            改号
+          </Button>
+        ),
+      },
+    ];
+
+    return (
+      <div key={group.key} className="border border-gray-200 rounded p-3">
+        <div className="flex items-center justify-between mb-2">
+          <Space>
+            <Text strong>{group.styles[0].duplicate_of || group.styles[0].style_no}</Text>
+            <Tag>{group.styles.length} 条</Tag>
+          </Space>
+          <Popconfirm
+            title="合并重复款号"
+            description={`其余款号的颜色版本将移到"${target?.style_no}"下，其余款号移入回收站`}
+            okText="合并"
+            cancelText="取消"
+            disabled={group.styles.length < 2}
+            onConfirm={() => handleMerge(group)}
+          >
+            <Button
+              size="small"
+              type="primary"
+              icon={<MergeCellsOutlined />}
+              disabled={group.styles.length < 2}
+              loading={mergingKey === group.key}
+            >
+              合并到所选款号
+            </Button>
+          </Popconfirm>
+        </div>
+        <Table dataSource={group.styles} columns={columns} rowKey="id" size="small" pagination={false} />
+      </div>
+    );
+  };
+
+  return (
+    <Modal title="款号查重" open={open} onCancel={onClose} footer={null} width={900} destroyOnClose>
+      <div className="space-y-4">
+        <Alert
+          type="info"
+          showIcon
+          message="款号不能重复。启用唯一检查前已存在、或导入与同步时发现的重复款号已改为临时款号（原款号~ID），请合并或改用新款号。"
+        />
+        {groups.length > 0 ? (
+          groups.map(renderGroup)
+        ) : (
+          <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description={isLoading ? "正在查找..." : "没有发现重复款号"} />
+        )}
+      </div>
+    </Modal>
+  );
+};
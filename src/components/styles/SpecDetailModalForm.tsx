@@ -7,7 +7,7 @@
  * 4. 保存时更新父级 L3 配料记录的 specDetails 字段
  */
 
-import React, { useEffect } from "react";
+import React, { useEffect, useState } from "react";
 import {
   Modal,
   Form,
@@ -21,6 +21,13 @@ import {
 import { MinusCircleOutlined, PlusOutlined } from "@ant-design/icons";
 import { useUpdate, useInvalidate } from "@refinedev/core";
 import type { IBOMItem, ISpecDetail } from "../../types/models";
+import { useUndoRedo } from "./undoRedoContext";
+import {
+  conflictAwareErrorNotification,
+  isRecordConflict,
+  type IWriteConflict,
+} from "../../providers/concurrency";
+import { ConflictMergeModal } from "../common/ConflictMergeModal";
 
 interface SpecDetailModalFormProps {
   open: boolean;
@@ -41,24 +48,67 @@ export const SpecDetailModalForm: React.FC<SpecDetailModalFormProps> = ({
   // 用于刷新数据的钩子
   const invalidate = useInvalidate();
 
+  // 详情页的撤销 / 重做记录
+  const { commands, record: recordUndo } = useUndoRedo();
+
+  // 保存时发现的写入冲突
+  const [conflict, setConflict] = useState<IWriteConflict | null>(null);
+
   /**
    * 当弹窗打开或 bomItem 变化时，初始化表单数据
-   * 确保每个规格都有唯一的 id，避免 key 冲突
+   * 规格的 id 随表单一起保留，新增行没有 id，保存时由数据层统一分配
    */
   useEffect(() => {
     if (open && bomItem) {
-      // 确保每个规格都有唯一的 id
-      const specDetailsWithId = (bomItem.specDetails || []).map((spec, index) => ({
-        ...spec,
-        id: spec.id || Date.now() + index * 1000 + Math.random(),
-      }));
-
       form.setFieldsValue({
-        specDetails: specDetailsWithId,
+        specDetails: bomItem.specDetails || [],
       });
     }
   }, [open, bomItem, form]);
 
+  /**
+   * 保存配料记录
+   * 以 before 的修改时间为基准，配料已在其他页面被修改时打开合并弹窗
+   * @param before 保存所基于的记录（首次保存为打开弹窗时的配料，合并后为最新版本）
+   */
+  const saveBomItem = (values: IBOMItem, before: IBOMItem) => {
+    updateBomItem(
+      {
+        resource: "bom_items",
+        id: before.id,
+        values,
+        meta: { baseUpdatedAt: before.updated_at },
+        successNotification: {
+          message: "规格明细已更新",
+          description: `已保存 ${values.specDetails.length} 条规格记录`,
+          type: "success",
+        },
+        errorNotification: conflictAwareErrorNotification(),
+      },
+      {
+        onSuccess: ({ data }) => {
+          setConflict(null);
+          if (commands) {
+            recordUndo(commands.updated("bom_items", before, data, `修改"${before.material_name}"的规格明细`));
+          }
+
+          // 刷新配料列表数据
+          invalidate({
+            resource: "bom_items",
+            invalidates: ["list"],
+          });
+
+          // 关闭弹窗
+          handleClose();
+        },
+        onError: (error) => {
+          if (!isRecordConflict(error)) return;
+          setConflict({ resource: "bom_items", mine: values, theirs: error.current, base: bomItem });
+        },
+      }
+    );
+  };
+
   /**
    * 处理保存操作
    * 提取表单中的 L4 数组数据，更新父级 L3 记录
@@ -67,44 +117,9 @@ export const SpecDetailModalForm: React.FC<SpecDetailModalFormProps> = ({
     form
       .validateFields()
       .then((values) => {
+        // 新增的规格没有 id，由数据层在保存时分配
         const updatedSpecDetails: ISpecDetail[] = values.specDetails || [];
-
-        // 为新增的规格生成唯一 ID
-        // 使用基础时间戳 + 毫秒数偏移，确保每条记录ID唯一
-        const baseTimestamp = Date.now();
-        const specDetailsWithId = updatedSpecDetails.map((spec, index) => ({
-          ...spec,
-          id: spec.id || baseTimestamp + index * 1000, // 每条记录间隔1000毫秒
-        }));
-
-        // 调用更新 API
-        updateBomItem(
-          {
-            resource: "bom_items",
-            id: bomItem!.id,
-            values: {
-              ...bomItem,
-              specDetails: specDetailsWithId,
-            },
-            successNotification: {
-              message: "规格明细已更新",
-              description: `已保存 ${specDetailsWithId.length} 条规格记录`,
-              type: "success",
-            },
-          },
-          {
-            onSuccess: () => {
-              // 刷新配料列表数据
-              invalidate({
-                resource: "bom_items",
-                invalidates: ["list"],
-              });
-
-              // 关闭弹窗
-              handleClose();
-            },
-          }
-        );
+        saveBomItem({ ...bomItem!, specDetails: updatedSpecDetails }, bomItem!);
       })
       .catch((errorInfo) => {
         console.error("表单验证失败:", errorInfo);
@@ -116,6 +131,7 @@ export const SpecDetailModalForm: React.FC<SpecDetailModalFormProps> = ({
    */
   const handleClose = () => {
     form.resetFields();
+    setConflict(null);
     onClose();
   };
 
@@ -253,6 +269,18 @@ export const SpecDetailModalForm: React.FC<SpecDetailModalFormProps> = ({
           <li>• 纽扣：通码 10mm（所有尺码通用）</li>
         </ul>
       </div>
+
+      {/* 写入冲突合并弹窗 */}
+      <ConflictMergeModal
+        conflict={conflict}
+        saving={isLoading}
+        onMerge={(merged, theirs) => saveBomItem(merged, theirs)}
+        onDiscard={() => {
+          invalidate({ resource: "bom_items", invalidates: ["list"] });
+          handleClose();
+        }}
+        onClose={() => setConflict(null)}
+      />
     </Modal>
   );
 };
@@ -10,6 +10,14 @@ import { EditOutlined, ShoppingCartOutlined } from "@ant-design/icons";
 import { useUpdate, useInvalidate, useList } from "@refinedev/core";
 import type { IStyle, ICustomer } from "../../types/models";
 import { OrderModal } from "./OrderModal";
+import {
+  conflictAwareErrorNotification,
+  isRecordConflict,
+  type IWriteConflict,
+} from "../../providers/concurrency";
+import { ConflictMergeModal } from "../common/ConflictMergeModal";
+import { isDuplicateStyleNo } from "../../providers/styleNo";
+import { useStyleNoRules } from "./useStyleNoRules";
 
 interface StyleHeaderInfoProps {
   style?: IStyle;
@@ -17,6 +25,10 @@ interface StyleHeaderInfoProps {
 
 export const StyleHeaderInfo: React.FC<StyleHeaderInfoProps> = ({ style }) => {
   const [editModalOpen, setEditModalOpen] = useState(false);
+  // 打开编辑弹窗时的款号信息（其他页面修改后 style 会自动刷新，表单和冲突检测仍以此为准）
+  const [editingStyle, setEditingStyle] = useState<IStyle>();
+  // 保存时发现的写入冲突
+  const [conflict, setConflict] = useState<IWriteConflict | null>(null);
   const [orderModalOpen, setOrderModalOpen] = useState(false);
   const [form] = Form.useForm();
 
@@ -26,6 +38,9 @@ export const StyleHeaderInfo: React.FC<StyleHeaderInfoProps> = ({ style }) => {
   // 用于刷新数据的钩子
   const invalidate = useInvalidate();
 
+  // 款号校验规则（含唯一性检查，不与正在编辑的款号自身比较）
+  const styleNoRules = useStyleNoRules(editingStyle);
+
   // 加载客户列表
   const { data: customersData } = useList<ICustomer>({
     resource: "customers",
@@ -36,18 +51,76 @@ export const StyleHeaderInfo: React.FC<StyleHeaderInfoProps> = ({ style }) => {
 
   // 当弹窗打开时，填充表单数据
   useEffect(() => {
-    if (editModalOpen && style) {
+    if (editModalOpen && editingStyle) {
       form.setFieldsValue({
-        style_no: style.style_no,
-        style_name: style.style_name,
-        customer_id: style.customer_id,
-        public_note: style.public_note,
+        style_no: editingStyle.style_no,
+        style_name: editingStyle.style_name,
+        customer_id: editingStyle.customer_id,
+        public_note: editingStyle.public_note,
       });
     }
-  }, [editModalOpen, style, form]);
+  }, [editModalOpen, editingStyle, form]);
 
   if (!style) return null;
 
+  /**
+   * 保存款号信息
+   * 以打开弹窗时记录的修改时间为基准，款号已在其他页面被修改时打开合并弹窗
+   */
+  const saveStyle = (updatedStyle: Partial<IStyle>, baseUpdatedAt?: string) => {
+    updateStyle(
+      {
+        resource: "styles",
+        id: style.id,
+        values: updatedStyle,
+        meta: { baseUpdatedAt },
+        successNotification: {
+          message: "更新成功",
+          description: `款号"${updatedStyle.style_no}"已更新`,
+          type: "success",
+        },
+        errorNotification: (error) =>
+          isDuplicateStyleNo(error)
+            ? { message: "更新失败", description: error.message, type: "error" }
+            : conflictAwareErrorNotification({
+                message: "更新失败",
+                description: "请稍后重试",
+                type: "error",
+              })(error),
+      },
+      {
+        onSuccess: () => {
+          setConflict(null);
+
+          // 刷新款号数据
+          invalidate({
+            resource: "styles",
+            invalidates: ["all"],
+          });
+
+          // 关闭弹窗
+          setEditModalOpen(false);
+
+          message.success("款号信息已更新！");
+        },
+        onError: (error) => {
+          // 校验之后款号被其他页面占用
+          if (isDuplicateStyleNo(error)) {
+            form.setFields([{ name: "style_no", errors: [error.message] }]);
+            return;
+          }
+          if (!isRecordConflict(error)) return;
+          setConflict({
+            resource: "styles",
+            mine: { ...editingStyle, ...updatedStyle },
+            theirs: error.current,
+            base: editingStyle,
+          });
+        },
+      }
+    );
+  };
+
   /**
    * 处理表单提交
    */
@@ -70,37 +143,7 @@ export const StyleHeaderInfo: React.FC<StyleHeaderInfoProps> = ({ style }) => {
         };
 
         // 调用更新 API
-        updateStyle(
-          {
-            resource: "styles",
-            id: style.id,
-            values: updatedStyle,
-            successNotification: {
-              message: "更新成功",
-              description: `款号"${values.style_no}"已更新`,
-              type: "success",
-            },
-            errorNotification: {
-              message: "更新失败",
-              description: "请稍后重试",
-              type: "error",
-            },
-          },
-          {
-            onSuccess: () => {
-              // 刷新款号数据
-              invalidate({
-                resource: "styles",
-                invalidates: ["all"],
-              });
-
-              // 关闭弹窗
-              setEditModalOpen(false);
-
-              message.success("款号信息已更新！");
-            },
-          }
-        );
+        saveStyle(updatedStyle, editingStyle?.updated_at);
       })
       .catch((errorInfo) => {
         console.error("表单验证失败:", errorInfo);
@@ -127,7 +170,10 @@ export const StyleHeaderInfo: React.FC<StyleHeaderInfoProps> = ({ style }) => {
             </Button>
             <Button
               icon={<EditOutlined />}
-              onClick={() => setEditModalOpen(true)}
+              onClick={() => {
+                setEditingStyle(style);
+                setEditModalOpen(true);
+              }}
             >
               编辑
             </Button>
@@ -208,14 +254,9 @@ export const StyleHeaderInfo: React.FC<StyleHeaderInfoProps> = ({ style }) => {
             <Form.Item
               label="款号"
               name="style_no"
-              rules={[
-                { required: true, message: "请输入款号" },
-                { max: 20, message: "款号不能超过 20 个字符" },
-                {
-                  pattern: /^[a-zA-Z0-9]+$/,
-                  message: "款号只能包含字母和数字",
-                },
-              ]}
+              rules={styleNoRules}
+              validateDebounce={300}
+              hasFeedback
               tooltip="唯一标识，建议使用字母数字组合"
             >
               <Input placeholder="如：9128, ST001" maxLength={20} size="large" />
@@ -258,6 +299,18 @@ export const StyleHeaderInfo: React.FC<StyleHeaderInfoProps> = ({ style }) => {
         </div>
       </Modal>
 
+      {/* 写入冲突合并弹窗 */}
+      <ConflictMergeModal
+        conflict={conflict}
+        saving={isLoading}
+        onMerge={(merged, theirs) => saveStyle(merged, theirs.updated_at)}
+        onDiscard={() => {
+          setConflict(null);
+          setEditModalOpen(false);
+        }}
+        onClose={() => setConflict(null)}
+      />
+
       {/* 下单弹窗 */}
       <OrderModal
         open={orderModalOpen}
@@ -0,0 +1,137 @@
+/**
+ * 款号详情页的撤销 / 重做
+ * 功能：
+ * 1. 记录详情页内的配料增删改、规格修改、颜色版本克隆与删除
+ * 2. Ctrl+Z 撤销，Ctrl+Shift+Z（或 Ctrl+Y）重做；焦点在输入框中时保留输入框自身的撤销
+ * 3. 撤销 / 重做通过 Data Provider 真实修改 IndexedDB，完成后刷新相关列表
+ *
+ * 离开详情页后记录清空
+ */
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Button, Space, Tooltip, message } from "antd";
+import { UndoOutlined, RedoOutlined } from "@ant-design/icons";
+import { useDataProvider, useInvalidate } from "@refinedev/core";
+import { createUndoCommands, type IUndoCommand } from "../../providers/undo";
+import { UndoRedoContext, useUndoRedo, type IUndoRedoContext } from "./undoRedoContext";
+
+// 最多保留的撤销步数
+const MAX_UNDO_STEPS = 50;
+
+/**
+ * 焦点是否在可编辑元素中（此时快捷键交给输入框处理）
+ */
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+  );
+}
+
+export const UndoRedoProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const getDataProvider = useDataProvider();
+  const invalidate = useInvalidate();
+  const undoStack = useRef<IUndoCommand[]>([]);
+  const redoStack = useRef<IUndoCommand[]>([]);
+  const busyRef = useRef(false);
+  const [busy, setBusy] = useState(false);
+  // 栈内容变化时触发重新渲染
+  const [, setVersion] = useState(0);
+
+  const commands = useMemo(() => createUndoCommands(getDataProvider()), [getDataProvider]);
+
+  const record = useCallback((command: IUndoCommand) => {
+    undoStack.current = [...undoStack.current, command].slice(-MAX_UNDO_STEPS);
+    redoStack.current = [];
+    setVersion((v) => v + 1);
+  }, []);
+
+  /**
+   * 执行栈顶命令并移到另一个栈；失败时丢弃该命令（数据已被其他操作改变）
+   */
+  const run = useCallback(
+    async (direction: "undo" | "redo") => {
+      if (busyRef.current) return;
+      const from = direction === "undo" ? undoStack : redoStack;
+      const to = direction === "undo" ? redoStack : undoStack;
+      const command = from.current[from.current.length - 1];
+      if (!command) return;
+
+      busyRef.current = true;
+      setBusy(true);
+      try {
+        await command[direction]();
+        from.current = from.current.slice(0, -1);
+        to.current = [...to.current, command];
+        message.success(`${direction === "undo" ? "已撤销" : "已重做"}：${command.label}`);
+      } catch (error) {
+        console.error(`${direction === "undo" ? "撤销" : "重做"}失败:`, error);
+        from.current = from.current.slice(0, -1);
+        message.error(`${direction === "undo" ? "撤销" : "重做"}失败：${(error as Error).message}`);
+      } finally {
+        command.resources.forEach((resource) =>
+          invalidate({ resource, invalidates: ["list", "many", "detail"] })
+        );
+        busyRef.current = false;
+        setBusy(false);
+        setVersion((v) => v + 1);
+      }
+    },
+    [invalidate]
+  );
+
+  const undo = useCallback(() => run("undo"), [run]);
+  const redo = useCallback(() => run("redo"), [run]);
+
+  // ========== 快捷键 ==========
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isEditableTarget(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
+  const value: IUndoRedoContext = {
+    commands,
+    record,
+    undo,
+    redo,
+    undoLabel: undoStack.current[undoStack.current.length - 1]?.label,
+    redoLabel: redoStack.current[redoStack.current.length - 1]?.label,
+    busy,
+  };
+
+  return <UndoRedoContext.Provider value={value}>{children}</UndoRedoContext.Provider>;
+};
+
+/**
+ * 撤销 / 重做按钮
+ */
+export const UndoRedoButtons: React.FC = () => {
+  const { undo, redo, undoLabel, redoLabel, busy } = useUndoRedo();
+
+  return (
+    <Space.Compact>
+      <Tooltip title={undoLabel ? `撤销：${undoLabel}（Ctrl+Z）` : "没有可撤销的操作"}>
+        <Button icon={<UndoOutlined />} disabled={!undoLabel || busy} onClick={undo}>
+          撤销
+        </Button>
+      </Tooltip>
+      <Tooltip title={redoLabel ? `重做：${redoLabel}（Ctrl+Shift+Z）` : "没有可重做的操作"}>
+        <Button icon={<RedoOutlined />} disabled={!redoLabel || busy} onClick={redo}>
+          重做
+        </Button>
+      </Tooltip>
+    </Space.Compact>
+  );
+};
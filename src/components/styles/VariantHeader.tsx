@@ -22,7 +22,14 @@ import {
 import { CopyOutlined, PrinterOutlined, DeleteOutlined } from "@ant-design/icons";
 import { useCustomMutation, useInvalidate, useDelete } from "@refinedev/core";
 import { useNavigate } from "react-router-dom";
-import type { IColorVariant } from "../../types/models";
+import type {
+  IColorVariant,
+  ICascadeDeleteSummary,
+  ICloneVariantResponse,
+} from "../../types/models";
+import { describeCascadeSummary } from "../../providers/cascade";
+import { RECYCLE_BIN_RETENTION_DAYS } from "../../providers/recycleBin";
+import { useUndoRedo } from "./undoRedoContext";
 
 interface VariantHeaderProps {
   variant: IColorVariant;
@@ -42,6 +49,9 @@ export const VariantHeader: React.FC<VariantHeaderProps> = ({ variant }) => {
   // 用于刷新数据的钩子
   const invalidate = useInvalidate();
 
+  // 详情页的撤销 / 重做记录
+  const { commands, record: recordUndo } = useUndoRedo();
+
   /**
    * 处理深度克隆操作
    * 调用后端特定 API，完成 L2 → L3 → L4 三层级联复制
@@ -57,10 +67,15 @@ export const VariantHeader: React.FC<VariantHeaderProps> = ({ variant }) => {
         url: `/api/styles/${variant.style_id}/variants/${variant.id}/clone`,
         method: "post",
         values: { new_color_name: newColorName },
-        successNotification: {
-          message: "克隆成功",
-          description: `新颜色"${newColorName}"已创建，包括所有配料和规格数据`,
-          type: "success",
+        successNotification: (data) => {
+          const result = data?.data as ICloneVariantResponse | undefined;
+          return {
+            message: "克隆成功",
+            description: result
+              ? `新颜色"${result.color_name}"已创建，复制了 ${result.cloned_bom_count} 条配料、${result.cloned_spec_count} 条规格`
+              : `新颜色"${newColorName}"已创建，包括所有配料和规格数据`,
+            type: "success",
+          };
         },
         errorNotification: {
           message: "克隆失败",
@@ -69,7 +84,14 @@ export const VariantHeader: React.FC<VariantHeaderProps> = ({ variant }) => {
         },
       },
       {
-        onSuccess: () => {
+        onSuccess: (data) => {
+          const result = data?.data as ICloneVariantResponse | undefined;
+          if (commands && result) {
+            recordUndo(
+              commands.created("variants", result.id, `克隆颜色"${variant.color_name}"为"${result.color_name}"`)
+            );
+          }
+
           setCloneModalOpen(false);
           setNewColorName("");
           
@@ -102,7 +124,7 @@ export const VariantHeader: React.FC<VariantHeaderProps> = ({ variant }) => {
         <div>
           <p>确定要删除颜色版本 <strong>{variant.color_name}</strong> 吗？</p>
           <p className="text-red-500 text-sm">
-            ⚠️ 此操作将同时删除该颜色下的所有配料明细和规格数据，且无法恢复！
+            该颜色下的所有配料明细和规格数据将一起移入回收站，{RECYCLE_BIN_RETENTION_DAYS} 天内可在回收站中恢复
           </p>
         </div>
       ),
@@ -114,14 +136,26 @@ export const VariantHeader: React.FC<VariantHeaderProps> = ({ variant }) => {
           {
             resource: "variants",
             id: variant.id,
-            successNotification: {
-              message: "删除成功",
-              description: `颜色版本"${variant.color_name}"已删除`,
-              type: "success",
+            successNotification: (data) => {
+              // 数据层返回级联删除汇总
+              const summary: ICascadeDeleteSummary | undefined = (data as any)?.summary;
+              const detail = summary ? describeCascadeSummary(summary) : "";
+              return {
+                message: "删除成功",
+                description: `颜色版本"${variant.color_name}"已移入回收站${detail ? `（包含 ${detail}）` : ""}`,
+                type: "success",
+              };
             },
           },
           {
-            onSuccess: () => {
+            onSuccess: (data) => {
+              if (commands) {
+                const summary: ICascadeDeleteSummary | undefined = (data as any)?.summary;
+                recordUndo(
+                  commands.deleted("variants", variant.id, summary?.batch, `删除颜色版本"${variant.color_name}"`)
+                );
+              }
+
               message.success("删除成功，即将返回款号列表");
               // 删除后返回款号列表页
               setTimeout(() => {
@@ -6,12 +6,14 @@
  * 3. 每个 Tab 渲染一个 VariantTabContent 组件
  * 4. 提供"新建颜色版本"功能
  * 5. 支持删除颜色版本
+ * 6. 当前颜色记在地址的 variant 参数中（全局搜索按此定位颜色 Tab）
  */
 
 import React, { useState } from "react";
 import { Tabs, Button, Empty, Spin } from "antd";
 import { PlusOutlined } from "@ant-design/icons";
 import { useList } from "@refinedev/core";
+import { useSearchParams } from "react-router-dom";
 import type { IColorVariant } from "../../types/models";
 import { VariantTabContent } from "./VariantTabContent";
 import { CreateVariantModal } from "./CreateVariantModal";
@@ -23,6 +25,7 @@ interface VariantTabsProps {
 export const VariantTabs: React.FC<VariantTabsProps> = ({ styleId }) => {
   // 控制新建颜色版本弹窗的显示状态
   const [createModalOpen, setCreateModalOpen] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
 
   // 加载当前款号下的所有 L2 颜色版本（使用 filters 筛选）
   const { data, isLoading } = useList<IColorVariant>({
@@ -32,6 +35,26 @@ export const VariantTabs: React.FC<VariantTabsProps> = ({ styleId }) => {
 
   const variants = data?.data || [];
 
+  // 地址中指定的颜色不存在时显示第一个颜色
+  const requestedKey = searchParams.get("variant");
+  const activeKey = variants.some((variant) => String(variant.id) === requestedKey)
+    ? requestedKey!
+    : variants[0] && String(variants[0].id);
+
+  /**
+   * 切换颜色 Tab（替换当前地址，不产生新的历史记录；同时清除配料定位）
+   */
+  const handleTabChange = (key: string) => {
+    setSearchParams(
+      (params) => {
+        params.set("variant", key);
+        params.delete("bom");
+        return params;
+      },
+      { replace: true }
+    );
+  };
+
   // 加载状态
   if (isLoading) {
     return (
@@ -73,6 +96,8 @@ export const VariantTabs: React.FC<VariantTabsProps> = ({ styleId }) => {
       <Tabs
         type="card"
         size="large"
+        activeKey={activeKey}
+        onChange={handleTabChange}
         items={variants.map((variant) => ({
           key: String(variant.id),
           label: (
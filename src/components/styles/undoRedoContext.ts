@@ -0,0 +1,33 @@
+/**
+ * 款号详情页撤销 / 重做的上下文（由 UndoRedoProvider 提供）
+ */
+
+import { createContext, useContext } from "react";
+import type { createUndoCommands, IUndoCommand } from "../../providers/undo";
+
+export interface IUndoRedoContext {
+  commands: ReturnType<typeof createUndoCommands> | null;
+  record: (command: IUndoCommand) => void;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  undoLabel?: string;
+  redoLabel?: string;
+  busy: boolean;
+}
+
+export const UndoRedoContext = createContext<IUndoRedoContext | null>(null);
+
+/**
+ * 读取撤销 / 重做上下文（不在详情页中使用时 commands 为 null，record 不做任何事）
+ */
+export function useUndoRedo(): IUndoRedoContext {
+  return (
+    useContext(UndoRedoContext) || {
+      commands: null,
+      record: () => undefined,
+      undo: async () => undefined,
+      redo: async () => undefined,
+      busy: false,
+    }
+  );
+}
@@ -0,0 +1,64 @@
+/**
+ * 款号输入框的校验规则（新建款号、编辑款号共用）
+ * 1. 格式：必填、不超过 20 个字符、只能包含字母和数字
+ *    （编辑时未修改的原款号不检查格式：让出款号后的临时款号带有"~"）
+ * 2. 唯一：向数据层查询，款号已被使用（含回收站中的款号）时报错
+ * 3. 疑似重复：与已有款号只差大小写或空白时给出警告，不阻止保存
+ */
+
+import { useMemo } from "react";
+import type { FormRule } from "antd";
+import { useDataProvider } from "@refinedev/core";
+import { DuplicateStyleNoError, normalizeStyleNo } from "../../providers/styleNo";
+import type { IStyle, IStyleNoCheckResult } from "../../types/models";
+
+const STYLE_NO_PATTERN = /^[a-zA-Z0-9]+$/;
+
+/**
+ * @param current 正在编辑的款号（新建时不传）
+ */
+export function useStyleNoRules(current?: IStyle): FormRule[] {
+  const getDataProvider = useDataProvider();
+
+  return useMemo(() => {
+    const unchanged = (value: unknown) => !!current && normalizeStyleNo(value) === current.style_no;
+
+    const check = async (value: unknown): Promise<IStyleNoCheckResult | undefined> => {
+      const result = await getDataProvider().custom?.({
+        url: "/api/styles/style-no-check",
+        method: "get",
+        query: { style_no: normalizeStyleNo(value), exclude_id: current?.id },
+      });
+      return result?.data as IStyleNoCheckResult | undefined;
+    };
+
+    return [
+      { required: true, whitespace: true, message: "请输入款号" },
+      { max: 20, message: "款号不能超过 20 个字符" },
+      {
+        validator: async (_, value) => {
+          if (!value || unchanged(value)) return;
+          if (!STYLE_NO_PATTERN.test(normalizeStyleNo(value))) {
+            throw new Error("款号只能包含字母和数字");
+          }
+          const result = await check(value);
+          if (result && !result.available) {
+            throw new Error(
+              new DuplicateStyleNoError(result.style_no, result.existing_id!, !!result.in_recycle_bin).message
+            );
+          }
+        },
+      },
+      {
+        warningOnly: true,
+        validator: async (_, value) => {
+          if (!value) return;
+          const result = await check(value);
+          if (result && result.similar.length > 0) {
+            throw new Error(`与已有款号"${result.similar.join("、")}"只差大小写或空格，请确认不是同一款`);
+          }
+        },
+      },
+    ];
+  }, [getDataProvider, current]);
+}
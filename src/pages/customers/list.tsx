@@ -4,13 +4,14 @@
  */
 
 import React, { useState } from "react";
-import { useTable, useModalForm } from "@refinedev/antd";
+import { useTable, useModalForm, getDefaultSortOrder } from "@refinedev/antd";
 import { ProTable } from "@ant-design/pro-components";
 import { Button, Modal, Form, Input, message, Space } from "antd";
 import { PlusOutlined, EditOutlined, DeleteOutlined, EyeOutlined } from "@ant-design/icons";
-import { useDelete, useCreate, useInvalidate } from "@refinedev/core";
+import { useCreate, useInvalidate } from "@refinedev/core";
 import { useNavigate } from "react-router-dom";
 import type { ICustomer } from "../../types/models";
+import { useReferenceDeleteConfirm } from "../../components/common/useReferenceDeleteConfirm";
 import dayjs from "dayjs";
 
 export const CustomerList: React.FC = () => {
@@ -18,7 +19,7 @@ export const CustomerList: React.FC = () => {
   const navigate = useNavigate();
   
   // 表格数据
-  const { tableProps } = useTable<ICustomer>({
+  const { tableProps, sorters } = useTable<ICustomer>({
     resource: "customers",
     pagination: { pageSize: 10 },
   });
@@ -34,27 +35,11 @@ export const CustomerList: React.FC = () => {
     redirect: false,
   });
 
-  // 删除
-  const { mutate: deleteCustomer } = useDelete();
+  // 删除（先查询被款号、配料使用的情况）
+  const confirmDelete = useReferenceDeleteConfirm("customers", "客户");
 
   const handleDelete = (record: ICustomer) => {
-    Modal.confirm({
-      title: "确认删除",
-      content: `确定要删除客户"${record.customer_name}"吗？`,
-      okText: "确认删除",
-      okType: "danger",
-      cancelText: "取消",
-      onOk: () => {
-        deleteCustomer({
-          resource: "customers",
-          id: record.id,
-          successNotification: {
-            message: "删除成功",
-            type: "success",
-          },
-        });
-      },
-    });
+    confirmDelete(record.id, record.customer_name);
   };
 
   return (
@@ -79,6 +64,8 @@ export const CustomerList: React.FC = () => {
           {
             title: "客户名称",
             dataIndex: "customer_name",
+            sorter: { multiple: 1 },
+            defaultSortOrder: getDefaultSortOrder("customer_name", sorters),
             width: 250,
             render: (text, record) => (
               <a
@@ -92,6 +79,8 @@ export const CustomerList: React.FC = () => {
           {
             title: "联系人",
             dataIndex: "contact_person",
+            sorter: { multiple: 2 },
+            defaultSortOrder: getDefaultSortOrder("contact_person", sorters),
             width: 120,
           },
           {
@@ -112,6 +101,8 @@ export const CustomerList: React.FC = () => {
           {
             title: "创建日期",
             dataIndex: "create_date",
+            sorter: { multiple: 3 },
+            defaultSortOrder: getDefaultSortOrder("create_date", sorters),
             width: 120,
           },
           {
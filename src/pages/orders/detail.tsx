@@ -0,0 +1,228 @@
+/**
+ * 生产订单详情页
+ * 展示订单的下单内容和保存的配料计算结果
+ * 功能：
+ * 1. 按颜色查看配料计算结果（多个颜色时附配料汇总），调整交货数量并保存
+ * 2. 修改订单：在下单弹窗中重新打开（可改日期、尺码数量后重新计算；款号已删除时不可修改）
+ * 3. 复制订单、再次导出 Excel、删除订单
+ */
+
+import React, { useEffect, useState } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { useOne, useUpdate } from "@refinedev/core";
+import { Button, Spin, Alert, Card, Descriptions, Space, Tag, Tooltip, message } from "antd";
+import {
+  ArrowLeftOutlined,
+  EditOutlined,
+  CopyOutlined,
+  DownloadOutlined,
+  DeleteOutlined,
+  SaveOutlined,
+} from "@ant-design/icons";
+import type { IOrder, IOrderLine, IStyle } from "../../types/models";
+import { OrderLinesView } from "../../components/orders/OrderLinesView";
+import { useOrderActions } from "../../components/orders/useOrderActions";
+import { OrderModal } from "../../components/styles/OrderModal";
+import { orderColorNames } from "../../providers/orders";
+
+export const OrderDetailPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [editModalOpen, setEditModalOpen] = useState(false);
+  // 页面上调整过交货数量的计算结果（未保存）
+  const [lines, setLines] = useState<IOrderLine[]>([]);
+  const [linesChanged, setLinesChanged] = useState(false);
+
+  const { duplicateOrder, exportOrder, exportingId, confirmDeleteOrder } = useOrderActions();
+  const { mutate: updateOrder, isLoading: saving } = useUpdate<IOrder>();
+
+  // 加载订单
+  const { data, isLoading, isError } = useOne<IOrder>({
+    resource: "orders",
+    id: id!,
+  });
+
+  const order = data?.data;
+
+  // 加载订单的款号（修改订单时使用；款号已删除时不可修改）
+  const { data: styleData } = useOne<IStyle>({
+    resource: "styles",
+    id: order?.style_id,
+    queryOptions: { enabled: !!order, retry: false },
+    errorNotification: false,
+  });
+
+  const style = styleData?.data;
+
+  // 订单加载或更新后，重置页面上的交货数量
+  useEffect(() => {
+    if (order) {
+      setLines(order.lines);
+      setLinesChanged(false);
+    }
+  }, [order]);
+
+  // 加载状态
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[500px]">
+        <Spin size="large" tip="加载中..." />
+      </div>
+    );
+  }
+
+  // 错误状态
+  if (isError || !order) {
+    return (
+      <div className="p-6">
+        <Alert
+          message="加载失败"
+          description="无法加载订单信息，订单可能已被删除。"
+          type="error"
+          showIcon
+        />
+      </div>
+    );
+  }
+
+  // 更新交货数量
+  const handleDeliveryQtyChange = (lineIndex: number, rowIndex: number, value: number) => {
+    setLines((prev) =>
+      prev.map((line, i) =>
+        i === lineIndex
+          ? {
+              ...line,
+              rows: line.rows.map((row, j) =>
+                j === rowIndex
+                  ? { ...row, deliveryQty: value, difference: row.actualUsage - value } // 差数 = 实际用量 - 交货数量
+                  : row
+              ),
+            }
+          : line
+      )
+    );
+    setLinesChanged(true);
+  };
+
+  // 保存调整后的交货数量
+  const handleSaveLines = () => {
+    updateOrder(
+      { resource: "orders", id: order.id, values: { lines } },
+      {
+        onSuccess: () => {
+          message.success("交货数量已保存");
+          setLinesChanged(false);
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* 返回按钮 + 订单操作 */}
+      <div className="flex items-center justify-between">
+        <Button icon={<ArrowLeftOutlined />} onClick={() => navigate("/orders")}>
+          返回订单列表
+        </Button>
+        <Space>
+          <Tooltip title={style ? undefined : "款号已删除，订单只能查看和导出"}>
+            <Button icon={<EditOutlined />} disabled={!style} onClick={() => setEditModalOpen(true)}>
+              修改订单
+            </Button>
+          </Tooltip>
+          <Button icon={<CopyOutlined />} onClick={() => duplicateOrder(order)}>
+            复制订单
+          </Button>
+          <Button
+            type="primary"
+            icon={<DownloadOutlined />}
+            loading={exportingId === order.id}
+            disabled={linesChanged}
+            onClick={() => exportOrder(order)}
+          >
+            导出 Excel
+          </Button>
+          <Button
+            danger
+            icon={<DeleteOutlined />}
+            onClick={() => confirmDeleteOrder(order, () => navigate("/orders"))}
+          >
+            删除
+          </Button>
+        </Space>
+      </div>
+
+      {/* 订单基本信息 */}
+      <Card title="订单信息" className="shadow-sm">
+        <Descriptions column={3} bordered size="small">
+          <Descriptions.Item label="款号">
+            <Tag color="blue" className="cursor-pointer" onClick={() => navigate(`/styles/${order.style_id}`)}>
+              {order.style_no}
+            </Tag>
+          </Descriptions.Item>
+          <Descriptions.Item label="颜色">{orderColorNames(order)}</Descriptions.Item>
+          <Descriptions.Item label="客户">{order.customer_name || "-"}</Descriptions.Item>
+          <Descriptions.Item label="下单日期">{order.order_date}</Descriptions.Item>
+          <Descriptions.Item label="总件数">{order.total_qty} 件</Descriptions.Item>
+          <Descriptions.Item label="创建日期">{order.create_date}</Descriptions.Item>
+          <Descriptions.Item label="各颜色尺码数量" span={3}>
+            <div className="space-y-2">
+              {order.lines.map((line) => (
+                <Space key={line.variant_id} wrap>
+                  <span className="font-medium">{line.color_name}（{line.total_qty} 件）</span>
+                  {line.size_orders.map((item) => (
+                    <Tag key={item.size} color="blue">
+                      {item.size} × {item.quantity}
+                    </Tag>
+                  ))}
+                </Space>
+              ))}
+            </div>
+          </Descriptions.Item>
+          {order.note && (
+            <Descriptions.Item label="备注" span={3}>
+              {order.note}
+            </Descriptions.Item>
+          )}
+        </Descriptions>
+      </Card>
+
+      {/* 配料计算结果 */}
+      <Card
+        title={
+          <Space>
+            <span>配料需求</span>
+            <Tag color="green">配料行数: {lines.reduce((sum, line) => sum + line.rows.length, 0)}</Tag>
+          </Space>
+        }
+        extra={
+          <Button
+            type="primary"
+            icon={<SaveOutlined />}
+            disabled={!linesChanged}
+            loading={saving}
+            onClick={handleSaveLines}
+          >
+            保存交货数量
+          </Button>
+        }
+        className="shadow-sm"
+      >
+        <div className="mb-3 text-gray-500 text-sm">
+          提示：计算结果为下单时的配料，之后修改配料不会影响已保存的订单；需要按最新配料计算时请点击"修改订单"重新计算。
+        </div>
+        <OrderLinesView lines={lines} onDeliveryQtyChange={handleDeliveryQtyChange} />
+      </Card>
+
+      {/* 修改订单弹窗 */}
+      {style && (
+        <OrderModal
+          open={editModalOpen}
+          onClose={() => setEditModalOpen(false)}
+          style={style}
+          order={order}
+        />
+      )}
+    </div>
+  );
+};
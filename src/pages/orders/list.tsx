@@ -0,0 +1,145 @@
+/**
+ * 生产订单列表页
+ * 功能：展示保存的下单记录（按下单日期倒序），支持查看、复制、再次导出、删除
+ * 订单在款号详情页的"下单"弹窗中计算后保存，一张订单可包含多个颜色
+ */
+
+import React from "react";
+import { useTable, getDefaultSortOrder } from "@refinedev/antd";
+import { ProTable } from "@ant-design/pro-components";
+import { Button, Space, Tag } from "antd";
+import { EyeOutlined, CopyOutlined, DownloadOutlined, DeleteOutlined } from "@ant-design/icons";
+import { useNavigate } from "react-router-dom";
+import type { IOrder } from "../../types/models";
+import { useOrderActions } from "../../components/orders/useOrderActions";
+import { orderColorNames } from "../../providers/orders";
+
+export const OrderList: React.FC = () => {
+  const navigate = useNavigate();
+  const { duplicateOrder, exportOrder, exportingId, confirmDeleteOrder } = useOrderActions();
+
+  // 表格数据
+  const { tableProps, sorters } = useTable<IOrder>({
+    resource: "orders",
+    pagination: { pageSize: 10 },
+    sorters: {
+      initial: [{ field: "order_date", order: "desc" }],
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-gray-800 m-0">🧾 生产订单</h2>
+        <span className="text-gray-500">在款号详情页点击"下单"计算配料后，可保存为订单</span>
+      </div>
+
+      <ProTable<IOrder>
+        {...tableProps}
+        rowKey="id"
+        search={false}
+        columns={[
+          {
+            title: "下单日期",
+            dataIndex: "order_date",
+            sorter: { multiple: 1 },
+            defaultSortOrder: getDefaultSortOrder("order_date", sorters),
+            width: 120,
+            render: (text, record) => (
+              <a
+                className="font-medium text-blue-600 hover:text-blue-800 cursor-pointer"
+                onClick={() => navigate(`/orders/${record.id}`)}
+              >
+                {text}
+              </a>
+            ),
+          },
+          {
+            title: "款号",
+            dataIndex: "style_no",
+            width: 120,
+            render: (text, record) => (
+              <Tag color="blue" className="cursor-pointer" onClick={() => navigate(`/styles/${record.style_id}`)}>
+                {text}
+              </Tag>
+            ),
+          },
+          {
+            title: "客户",
+            dataIndex: "customer_name",
+            width: 150,
+          },
+          {
+            title: "颜色",
+            key: "colors",
+            width: 160,
+            render: (_, record) => orderColorNames(record),
+          },
+          {
+            title: "总件数",
+            dataIndex: "total_qty",
+            width: 90,
+          },
+          {
+            title: "配料行数",
+            key: "rows",
+            width: 90,
+            render: (_, record) => record.lines.reduce((sum, line) => sum + line.rows.length, 0),
+          },
+          {
+            title: "备注",
+            dataIndex: "note",
+            ellipsis: true,
+          },
+          {
+            title: "创建日期",
+            dataIndex: "create_date",
+            sorter: { multiple: 2 },
+            defaultSortOrder: getDefaultSortOrder("create_date", sorters),
+            width: 120,
+          },
+          {
+            title: "操作",
+            width: 320,
+            fixed: "right",
+            render: (_, record) => (
+              <Space>
+                <Button
+                  type="link"
+                  icon={<EyeOutlined />}
+                  onClick={() => navigate(`/orders/${record.id}`)}
+                >
+                  查看
+                </Button>
+                <Button type="link" icon={<CopyOutlined />} onClick={() => duplicateOrder(record)}>
+                  复制
+                </Button>
+                <Button
+                  type="link"
+                  icon={<DownloadOutlined />}
+                  loading={exportingId === record.id}
+                  onClick={() => exportOrder(record)}
+                >
+                  导出
+                </Button>
+                <Button
+                  type="link"
+                  danger
+                  icon={<DeleteOutlined />}
+                  onClick={() => confirmDeleteOrder(record)}
+                >
+                  删除
+                </Button>
+              </Space>
+            ),
+          },
+        ]}
+        pagination={{
+          ...tableProps.pagination,
+          showSizeChanger: true,
+          showTotal: (total) => `共 ${total} 条记录`,
+        }}
+      />
+    </div>
+  );
+};
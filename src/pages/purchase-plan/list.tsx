@@ -0,0 +1,321 @@
+/**
+ * 采购计划页（物料需求计划 MRP）
+ * 功能：
+ * 1. 按下单日期范围选取已保存的订单（默认本周，可取消勾选），也可添加不保存的临时订单
+ * 2. 合并所选订单的配料：辅料名称 + 辅料颜色 + 规格 + 供应商相同的合并为一行，长度、重量单位自动换算
+ * 3. 调整采购数量（默认为实际用量向上取整）后导出采购单 Excel
+ */
+
+import React, { useEffect, useMemo, useState } from "react";
+import { useList } from "@refinedev/core";
+import { Button, Card, DatePicker, InputNumber, Select, Space, Table, Tag, message } from "antd";
+import { DeleteOutlined, DownloadOutlined } from "@ant-design/icons";
+import { useNavigate } from "react-router-dom";
+import dayjs, { Dayjs } from "dayjs";
+import type { IOrder, IStyle } from "../../types/models";
+import { OrderModal } from "../../components/styles/OrderModal";
+import { orderColorNames } from "../../providers/orders";
+import { planMaterialPurchases, type IPlanOrder, type IPurchaseRow } from "../../utils/materialPlan";
+import { exportPurchaseExcel } from "../../utils/purchaseExport";
+import { defaultDeliveryQty } from "../../utils/orderCalculation";
+
+// 临时订单（只在本页使用，不保存）
+type IAdHocOrder = IPlanOrder & { key: string };
+
+export const PurchasePlanPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [range, setRange] = useState<[Dayjs, Dayjs]>([dayjs().startOf("week"), dayjs().endOf("week")]);
+  // 取消勾选的已保存订单
+  const [excludedIds, setExcludedIds] = useState<number[]>([]);
+  const [adHocOrders, setAdHocOrders] = useState<IAdHocOrder[]>([]);
+  // 正在添加临时订单的款号
+  const [adHocStyle, setAdHocStyle] = useState<IStyle | null>(null);
+  // 手动调整过的采购数量：采购清单行 key → 数量
+  const [purchaseQtys, setPurchaseQtys] = useState<Record<string, number>>({});
+  const [exporting, setExporting] = useState(false);
+
+  // 加载日期范围内的订单
+  const { data: ordersData, isLoading } = useList<IOrder>({
+    resource: "orders",
+    filters: [
+      { field: "order_date", operator: "gte", value: range[0].format("YYYY-MM-DD") },
+      { field: "order_date", operator: "lte", value: range[1].format("YYYY-MM-DD") },
+    ],
+    sorters: [{ field: "order_date", order: "asc" }],
+    pagination: { mode: "off" },
+  });
+
+  const savedOrders = useMemo(() => ordersData?.data || [], [ordersData]);
+
+  // 加载款号（添加临时订单时选择）
+  const { data: stylesData } = useList<IStyle>({
+    resource: "styles",
+    pagination: { mode: "off" },
+  });
+
+  const styles = stylesData?.data || [];
+
+  // 参与计划的订单
+  const planOrders = useMemo<IPlanOrder[]>(
+    () => [...savedOrders.filter((order) => !excludedIds.includes(order.id)), ...adHocOrders],
+    [savedOrders, excludedIds, adHocOrders]
+  );
+
+  const purchaseRows = useMemo(() => planMaterialPurchases(planOrders), [planOrders]);
+
+  // 订单变化后采购数量按新的用量重新取整
+  useEffect(() => {
+    setPurchaseQtys({});
+  }, [planOrders]);
+
+  const purchaseQtyOf = (row: IPurchaseRow) =>
+    purchaseQtys[row.key] ?? defaultDeliveryQty(row.requiredQty);
+
+  // 导出采购单
+  const handleExport = async () => {
+    if (purchaseRows.length === 0) {
+      message.warning("没有可导出的数据");
+      return;
+    }
+
+    setExporting(true);
+    try {
+      await exportPurchaseExcel(
+        purchaseRows.map((row) => ({ ...row, purchaseQty: purchaseQtyOf(row) })),
+        planOrders
+      );
+      message.success("Excel 导出成功！");
+    } catch (error) {
+      console.error("导出失败:", error);
+      message.error("导出失败，请重试");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const orderColumns = [
+    {
+      title: "下单日期",
+      dataIndex: "order_date",
+      width: 120,
+      render: (text: string, record: IPlanOrder | IOrder) =>
+        "id" in record ? (
+          <a
+            className="font-medium text-blue-600 hover:text-blue-800 cursor-pointer"
+            onClick={() => navigate(`/orders/${record.id}`)}
+          >
+            {text}
+          </a>
+        ) : (
+          text
+        ),
+    },
+    {
+      title: "款号",
+      dataIndex: "style_no",
+      width: 120,
+      render: (text: string) => <Tag color="blue">{text}</Tag>,
+    },
+    {
+      title: "颜色",
+      key: "colors",
+      render: (_: unknown, record: IPlanOrder) => orderColorNames(record),
+    },
+    {
+      title: "件数",
+      dataIndex: "total_qty",
+      width: 90,
+    },
+  ];
+
+  const purchaseColumns = [
+    {
+      title: "供应商",
+      dataIndex: "supplier",
+      width: 120,
+      render: (text?: string) => text || "-",
+    },
+    {
+      title: "辅料名称",
+      dataIndex: "materialName",
+      width: 150,
+      render: (name: string) => <span className="font-medium">{name}</span>,
+    },
+    {
+      title: "规格",
+      key: "spec",
+      width: 100,
+      render: (_: unknown, record: IPurchaseRow) => (
+        <span>{record.specValue}{record.specUnit}</span>
+      ),
+    },
+    {
+      title: "辅料颜色",
+      dataIndex: "materialColor",
+      width: 100,
+    },
+    {
+      title: "实际用量",
+      dataIndex: "requiredQty",
+      width: 110,
+      render: (val: number, record: IPurchaseRow) => (
+        <span>{val.toFixed(2)} {record.unit}</span>
+      ),
+    },
+    {
+      title: "交货数量合计",
+      dataIndex: "deliveryQty",
+      width: 120,
+      render: (val: number, record: IPurchaseRow) => (
+        <span className="text-gray-500">{Number(val.toFixed(2))} {record.unit}</span>
+      ),
+    },
+    {
+      title: "采购数量",
+      key: "purchaseQty",
+      width: 150,
+      render: (_: unknown, record: IPurchaseRow) => (
+        <Space size={4}>
+          <InputNumber
+            min={0}
+            value={purchaseQtyOf(record)}
+            onChange={(val) => setPurchaseQtys((prev) => ({ ...prev, [record.key]: val || 0 }))}
+            size="small"
+            style={{ width: 90 }}
+          />
+          <span className="text-gray-500">{record.unit}</span>
+        </Space>
+      ),
+    },
+    {
+      title: "用到的款号",
+      dataIndex: "styleNos",
+      render: (styleNos: string[]) => styleNos.map((styleNo) => <Tag key={styleNo}>{styleNo}</Tag>),
+    },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-gray-800 m-0">🛒 采购计划</h2>
+        <span className="text-gray-500">合并多张订单的配料需求，生成一张采购单</span>
+      </div>
+
+      {/* 参与计划的订单 */}
+      <Card
+        title="订单"
+        className="shadow-sm"
+        extra={
+          <Space>
+            <DatePicker.RangePicker
+              value={range}
+              onChange={(dates) => {
+                if (dates?.[0] && dates[1]) {
+                  setRange([dates[0], dates[1]]);
+                  setExcludedIds([]);
+                }
+              }}
+              allowClear={false}
+            />
+            <Select
+              showSearch
+              placeholder="选择款号添加临时订单"
+              style={{ width: 220 }}
+              value={null}
+              optionFilterProp="label"
+              options={styles.map((s) => ({ label: s.style_no, value: s.id }))}
+              onChange={(styleId: number) => setAdHocStyle(styles.find((s) => s.id === styleId) || null)}
+            />
+          </Space>
+        }
+      >
+        <Table<IOrder>
+          dataSource={savedOrders}
+          columns={orderColumns}
+          rowKey="id"
+          loading={isLoading}
+          rowSelection={{
+            selectedRowKeys: savedOrders.filter((o) => !excludedIds.includes(o.id)).map((o) => o.id),
+            onChange: (keys) =>
+              setExcludedIds(savedOrders.filter((o) => !keys.includes(o.id)).map((o) => o.id)),
+          }}
+          pagination={false}
+          size="small"
+          locale={{ emptyText: "所选日期范围内没有订单" }}
+        />
+
+        {adHocOrders.length > 0 && (
+          <>
+            <div className="mt-4 mb-2 font-medium">临时订单（不保存）</div>
+            <Table<IAdHocOrder>
+              dataSource={adHocOrders}
+              columns={[
+                ...orderColumns,
+                {
+                  title: "操作",
+                  key: "actions",
+                  width: 90,
+                  render: (_: unknown, record: IAdHocOrder) => (
+                    <Button
+                      type="link"
+                      danger
+                      icon={<DeleteOutlined />}
+                      onClick={() => setAdHocOrders((prev) => prev.filter((o) => o.key !== record.key))}
+                    >
+                      移除
+                    </Button>
+                  ),
+                },
+              ]}
+              rowKey="key"
+              pagination={false}
+              size="small"
+            />
+          </>
+        )}
+      </Card>
+
+      {/* 采购清单 */}
+      <Card
+        title={
+          <Space>
+            <span>采购清单</span>
+            <Tag color="blue">订单: {planOrders.length}</Tag>
+            <Tag color="green">辅料: {purchaseRows.length}</Tag>
+          </Space>
+        }
+        extra={
+          <Button type="primary" icon={<DownloadOutlined />} loading={exporting} onClick={handleExport}>
+            导出采购单
+          </Button>
+        }
+        className="shadow-sm"
+      >
+        <div className="mb-3 text-gray-500 text-sm">
+          提示：辅料名称、辅料颜色、规格、供应商都相同的配料合并为一行，单位为长度或重量时换算为其中较大的单位；采购数量默认为实际用量向上取整，可手动调整。
+        </div>
+        <Table<IPurchaseRow>
+          dataSource={purchaseRows}
+          columns={purchaseColumns}
+          rowKey="key"
+          pagination={false}
+          scroll={{ x: 1100 }}
+          bordered
+          size="small"
+        />
+      </Card>
+
+      {/* 添加临时订单 */}
+      {adHocStyle && (
+        <OrderModal
+          open
+          onClose={() => setAdHocStyle(null)}
+          style={adHocStyle}
+          onAddToPlan={(order) =>
+            setAdHocOrders((prev) => [...prev, { ...order, key: `${order.style_no}-${Date.now()}` }])
+          }
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,255 @@
+/**
+ * 回收站页面
+ * 功能：
+ * 1. 按删除操作列出已删除的款号、颜色版本、配料（展开可查看同批删除的下级数据）
+ * 2. 一键恢复整棵子树
+ * 3. 彻底删除单条、清空回收站（超过保留天数的条目由本地数据库启动时或后端定期自动清除）
+ * 通过 Data Provider 的自定义操作读写，本地模式和 REST 模式共用
+ */
+
+import React, { useState } from "react";
+import { Table, Tag, Button, Popconfirm, Space, Typography, message } from "antd";
+import { RollbackOutlined, DeleteOutlined, ClearOutlined } from "@ant-design/icons";
+import { useCustom, useCustomMutation, useInvalidate } from "@refinedev/core";
+import dayjs from "dayjs";
+import { isLocalDataMode } from "../../providers/dataProvider";
+import { RECYCLE_BIN_RETENTION_DAYS } from "../../providers/recycleBin";
+import type { IRecycleBinEntry } from "../../types/models";
+
+const { Text } = Typography;
+
+const RESOURCE_LABELS: Record<IRecycleBinEntry["resource"], { label: string; color: string }> = {
+  styles: { label: "款号", color: "blue" },
+  variants: { label: "颜色版本", color: "purple" },
+  bom_items: { label: "配料", color: "green" },
+};
+
+/**
+ * 生成条目包含的下级数据说明
+ */
+function describeEntry(entry: IRecycleBinEntry): string {
+  const parts: string[] = [];
+  if (entry.resource === "styles" && entry.variant_ids.length > 0) {
+    parts.push(`${entry.variant_ids.length} 个颜色版本`);
+  }
+  if (entry.resource !== "bom_items" && entry.bom_item_ids.length > 0) {
+    parts.push(`${entry.bom_item_ids.length} 条配料`);
+  }
+  if (entry.spec_count > 0) {
+    parts.push(`${entry.spec_count} 条规格`);
+  }
+  return parts.join("、") || "-";
+}
+
+export const RecycleBinList: React.FC = () => {
+  const [busyBatch, setBusyBatch] = useState<string | null>(null);
+  const [emptying, setEmptying] = useState(false);
+  const invalidate = useInvalidate();
+  const { mutateAsync } = useCustomMutation();
+
+  // 回收站条目
+  const { data, isLoading: loading, refetch } = useCustom<IRecycleBinEntry[]>({
+    url: "/api/recycle-bin",
+    method: "get",
+    errorNotification: (error) => ({
+      message: "读取回收站失败",
+      description: error?.message,
+      type: "error",
+    }),
+  });
+  const entries = data?.data || [];
+
+  /**
+   * 调用回收站操作（错误由调用处提示）
+   */
+  const callRecycleBin = (action: "restore" | "purge" | "empty", values: Record<string, unknown> = {}) =>
+    mutateAsync({
+      url: `/api/recycle-bin/${action}`,
+      method: "post",
+      values,
+      successNotification: false,
+      errorNotification: false,
+    });
+
+  /**
+   * 恢复后刷新相关列表缓存
+   */
+  const refreshResources = () => {
+    ["styles", "variants", "bom_items"].forEach((resource) =>
+      invalidate({ resource, invalidates: ["list", "many", "detail"] })
+    );
+  };
+
+  /**
+   * 恢复整棵子树
+   */
+  const handleRestore = async (entry: IRecycleBinEntry) => {
+    setBusyBatch(entry.batch);
+    try {
+      await callRecycleBin("restore", { batch: entry.batch });
+      message.success(`已恢复：${entry.label}`);
+      refreshResources();
+      await refetch();
+    } catch (error) {
+      console.error("恢复失败:", error);
+      message.error(`恢复失败：${(error as Error).message}`);
+    } finally {
+      setBusyBatch(null);
+    }
+  };
+
+  /**
+   * 彻底删除单条
+   */
+  const handlePurge = async (entry: IRecycleBinEntry) => {
+    setBusyBatch(entry.batch);
+    try {
+      await callRecycleBin("purge", { batch: entry.batch });
+      message.success(`已彻底删除：${entry.label}`);
+      await refetch();
+    } catch (error) {
+      console.error("彻底删除失败:", error);
+      message.error(`彻底删除失败：${(error as Error).message}`);
+    } finally {
+      setBusyBatch(null);
+    }
+  };
+
+  /**
+   * 清空回收站
+   */
+  const handleEmpty = async () => {
+    setEmptying(true);
+    try {
+      const result = await callRecycleBin("empty");
+      message.success(`已清空回收站（${(result.data as { count: number }).count} 条）`);
+      await refetch();
+    } catch (error) {
+      console.error("清空回收站失败:", error);
+      message.error(`清空回收站失败：${(error as Error).message}`);
+    } finally {
+      setEmptying(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800 m-0">🗑️ 回收站</h2>
+          <Text type="secondary">
+            删除的款号、颜色版本和配料会在这里保留 {RECYCLE_BIN_RETENTION_DAYS} 天，之后自动彻底删除
+          </Text>
+        </div>
+        <Popconfirm
+          title="清空回收站？"
+          description={
+            isLocalDataMode
+              ? "回收站中的全部数据将被彻底删除（删除前会自动保存一份快照）"
+              : "回收站中的全部数据将被彻底删除，无法恢复"
+          }
+          onConfirm={handleEmpty}
+          okText="清空"
+          cancelText="取消"
+          okButtonProps={{ danger: true }}
+          disabled={entries.length === 0}
+        >
+          <Button danger icon={<ClearOutlined />} loading={emptying} disabled={entries.length === 0}>
+            清空回收站
+          </Button>
+        </Popconfirm>
+      </div>
+
+      <Table<IRecycleBinEntry>
+        dataSource={entries}
+        rowKey="batch"
+        loading={loading}
+        pagination={{ pageSize: 20, showTotal: (total) => `共 ${total} 条记录` }}
+        expandable={{
+          rowExpandable: (entry) => entry.resource !== "bom_items",
+          expandedRowRender: (entry) => (
+            <Text type="secondary">
+              同时移入回收站：{describeEntry(entry)}
+              {entry.resource === "styles" && entry.variant_ids.length > 0 && (
+                <>（颜色版本 ID：{entry.variant_ids.join("、")}）</>
+              )}
+            </Text>
+          ),
+        }}
+        columns={[
+          {
+            title: "类型",
+            dataIndex: "resource",
+            width: 100,
+            render: (resource: IRecycleBinEntry["resource"]) => (
+              <Tag color={RESOURCE_LABELS[resource].color}>{RESOURCE_LABELS[resource].label}</Tag>
+            ),
+          },
+          {
+            title: "名称",
+            dataIndex: "label",
+            render: (label: string) => <span className="font-medium">{label}</span>,
+          },
+          {
+            title: "包含",
+            key: "contents",
+            width: 260,
+            render: (_, entry) => describeEntry(entry),
+          },
+          {
+            title: "删除时间",
+            dataIndex: "deleted_at",
+            width: 170,
+            render: (value: string) => dayjs(value).format("YYYY-MM-DD HH:mm:ss"),
+          },
+          {
+            title: "剩余天数",
+            dataIndex: "expires_at",
+            width: 100,
+            render: (value: string) => {
+              const days = Math.max(0, dayjs(value).diff(dayjs(), "day"));
+              return <Tag color={days <= 3 ? "red" : "default"}>{days} 天</Tag>;
+            },
+          },
+          {
+            title: "操作",
+            key: "actions",
+            width: 200,
+            render: (_, entry) => (
+              <Space size="small">
+                <Button
+                  type="link"
+                  size="small"
+                  icon={<RollbackOutlined />}
+                  loading={busyBatch === entry.batch}
+                  disabled={busyBatch !== null}
+                  onClick={() => handleRestore(entry)}
+                >
+                  恢复
+                </Button>
+                <Popconfirm
+                  title="彻底删除？"
+                  description={isLocalDataMode ? "彻底删除后只能从本地快照中恢复" : "彻底删除后无法恢复"}
+                  onConfirm={() => handlePurge(entry)}
+                  okText="彻底删除"
+                  cancelText="取消"
+                  okButtonProps={{ danger: true }}
+                >
+                  <Button
+                    type="link"
+                    size="small"
+                    danger
+                    icon={<DeleteOutlined />}
+                    disabled={busyBatch !== null}
+                  >
+                    彻底删除
+                  </Button>
+                </Popconfirm>
+              </Space>
+            ),
+          },
+        ]}
+      />
+    </div>
+  );
+};
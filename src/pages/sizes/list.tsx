@@ -4,18 +4,18 @@
  */
 
 import React, { useState } from "react";
-import { useTable, useModalForm } from "@refinedev/antd";
+import { useTable, useModalForm, getDefaultSortOrder } from "@refinedev/antd";
 import { ProTable } from "@ant-design/pro-components";
 import { Button, Modal, Form, Input, InputNumber, Switch, message, Space, Tag } from "antd";
 import { PlusOutlined, EditOutlined, DeleteOutlined } from "@ant-design/icons";
-import { useDelete } from "@refinedev/core";
 import type { ISize } from "../../types/models";
+import { useReferenceDeleteConfirm } from "../../components/common/useReferenceDeleteConfirm";
 
 export const SizeList: React.FC = () => {
   const [createModalOpen, setCreateModalOpen] = useState(false);
   
   // 表格数据
-  const { tableProps } = useTable<ISize>({
+  const { tableProps, sorters } = useTable<ISize>({
     resource: "sizes",
     pagination: { pageSize: 20 },
     sorters: { initial: [{ field: "sort_order", order: "asc" }] },
@@ -32,27 +32,11 @@ export const SizeList: React.FC = () => {
     redirect: false,
   });
 
-  // 删除
-  const { mutate: deleteSize } = useDelete();
+  // 删除（先查询被款号、配料使用的情况）
+  const confirmDelete = useReferenceDeleteConfirm("sizes", "尺码");
 
   const handleDelete = (record: ISize) => {
-    Modal.confirm({
-      title: "确认删除",
-      content: `确定要删除尺码"${record.size_code}"吗？`,
-      okText: "确认删除",
-      okType: "danger",
-      cancelText: "取消",
-      onOk: () => {
-        deleteSize({
-          resource: "sizes",
-          id: record.id,
-          successNotification: {
-            message: "删除成功",
-            type: "success",
-          },
-        });
-      },
-    });
+    confirmDelete(record.id, record.size_code);
   };
 
   return (
@@ -77,6 +61,8 @@ export const SizeList: React.FC = () => {
           {
             title: "尺码代码",
             dataIndex: "size_code",
+            sorter: { multiple: 2 },
+            defaultSortOrder: getDefaultSortOrder("size_code", sorters),
             width: 150,
             render: (text) => (
               <Tag color="blue" className="text-base px-3 py-1">
@@ -87,18 +73,23 @@ export const SizeList: React.FC = () => {
           {
             title: "尺码名称",
             dataIndex: "size_name",
+            sorter: { multiple: 3 },
+            defaultSortOrder: getDefaultSortOrder("size_name", sorters),
             width: 150,
             render: (text) => <span className="font-medium">{text}</span>,
           },
           {
             title: "排序",
             dataIndex: "sort_order",
+            sorter: { multiple: 1 },
+            defaultSortOrder: getDefaultSortOrder("sort_order", sorters),
             width: 100,
-            sorter: true,
           },
           {
             title: "状态",
             dataIndex: "is_active",
+            sorter: { multiple: 4 },
+            defaultSortOrder: getDefaultSortOrder("is_active", sorters),
             width: 100,
             render: (active) => (
               <Tag color={active ? "green" : "red"}>
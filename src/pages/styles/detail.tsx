@@ -4,20 +4,24 @@
  * 布局：L1 头部信息 + L2 颜色版本 Tabs（内含 L3 配料表格 + L4 规格编辑）
  */
 
-import React from "react";
+import React, { useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { useOne } from "@refinedev/core";
-import { Button, Spin, Alert } from "antd";
-import { ArrowLeftOutlined } from "@ant-design/icons";
+import { Button, Spin, Alert, Space } from "antd";
+import { ArrowLeftOutlined, HistoryOutlined } from "@ant-design/icons";
 import type { IStyle } from "../../types/models";
 
 // 导入子组件
 import { StyleHeaderInfo } from "../../components/styles/StyleHeaderInfo";
 import { VariantTabs } from "../../components/styles/VariantTabs";
+import { AuditHistoryDrawer } from "../../components/styles/AuditHistoryDrawer";
+import { UndoRedoProvider, UndoRedoButtons } from "../../components/styles/UndoRedoProvider";
+import { isLocalDataMode } from "../../providers/dataProvider";
 
 export const StyleDetailPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const [historyOpen, setHistoryOpen] = useState(false);
 
   // 加载 L1 款号数据
   const { data, isLoading, isError } = useOne<IStyle>({
@@ -51,23 +55,41 @@ export const StyleDetailPage: React.FC = () => {
   }
 
   return (
-    <div className="space-y-6">
-      {/* 返回按钮 */}
-      <div>
-        <Button
-          icon={<ArrowLeftOutlined />}
-          onClick={() => navigate("/styles")}
-        >
-          返回列表
-        </Button>
-      </div>
+    <UndoRedoProvider>
+      <div className="space-y-6">
+        {/* 返回按钮 + 撤销重做 + 变更历史 */}
+        <div className="flex items-center justify-between">
+          <Button
+            icon={<ArrowLeftOutlined />}
+            onClick={() => navigate("/styles")}
+          >
+            返回列表
+          </Button>
+          <Space>
+            <UndoRedoButtons />
+            {isLocalDataMode && (
+              <Button icon={<HistoryOutlined />} onClick={() => setHistoryOpen(true)}>
+                变更历史
+              </Button>
+            )}
+          </Space>
+        </div>
+
+        {/* L1: 款号基础信息展示 */}
+        <StyleHeaderInfo style={styleData} />
 
-      {/* L1: 款号基础信息展示 */}
-      <StyleHeaderInfo style={styleData} />
+        {/* L2: 颜色版本 Tabs 区域（内部包含 L3 和 L4）*/}
+        <VariantTabs styleId={Number(id)} />
 
-      {/* L2: 颜色版本 Tabs 区域（内部包含 L3 和 L4）*/}
-      <VariantTabs styleId={Number(id)} />
-    </div>
+        {/* 款号及其颜色版本、配料的变更历史 */}
+        <AuditHistoryDrawer
+          open={historyOpen}
+          onClose={() => setHistoryOpen(false)}
+          title={`变更历史 - ${styleData.style_no}`}
+          styleId={Number(id)}
+        />
+      </div>
+    </UndoRedoProvider>
   );
 };
 
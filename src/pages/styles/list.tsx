@@ -1,35 +1,86 @@
 /**
  * L1 款号列表页
- * 功能：展示所有款号、支持搜索、跳转到详情页、新建款号
+ * 功能：展示所有款号、支持按关键词/客户/日期范围筛选、多列排序、跳转到详情页、新建款号、款号查重
  */
 
 import React, { useState } from "react";
-import { useTable } from "@refinedev/antd";
+import { useTable, getDefaultSortOrder } from "@refinedev/antd";
 import { ProTable } from "@ant-design/pro-components";
-import { Space, Button, Tag, Modal, message } from "antd";
-import { EyeOutlined, PlusOutlined, DeleteOutlined } from "@ant-design/icons";
+import { Space, Button, Tag, Modal, Select, DatePicker, message } from "antd";
+import { EyeOutlined, PlusOutlined, DeleteOutlined, MergeCellsOutlined } from "@ant-design/icons";
 import { useNavigate } from "react-router-dom";
-import { useDelete } from "@refinedev/core";
-import type { IStyle } from "../../types/models";
+import { useDelete, useList, type CrudFilters } from "@refinedev/core";
+import type { Dayjs } from "dayjs";
+import type { IStyle, ICustomer, ICascadeDeleteSummary } from "../../types/models";
+import { describeCascadeSummary } from "../../providers/cascade";
+import { RECYCLE_BIN_RETENTION_DAYS } from "../../providers/recycleBin";
 import { CreateStyleModal } from "../../components/styles/CreateStyleModal";
+import { DuplicateStylesModal } from "../../components/styles/DuplicateStylesModal";
 
 export const StyleList: React.FC = () => {
   const navigate = useNavigate();
   
   // 控制新建款号弹窗的显示状态
   const [createModalOpen, setCreateModalOpen] = useState(false);
+  // 控制款号查重弹窗的显示状态
+  const [duplicatesModalOpen, setDuplicatesModalOpen] = useState(false);
 
   // 删除款号的 Hook
   const { mutate: deleteStyle } = useDelete();
 
   // 使用 Refine 的 useTable Hook 自动处理数据加载、分页等
-  const { tableProps } = useTable<IStyle>({
+  const { tableProps, sorters, setFilters } = useTable<IStyle>({
     resource: "styles",
     pagination: {
       pageSize: 10,
     },
   });
 
+  // 筛选条件
+  const [keyword, setKeyword] = useState("");
+  const [customerIds, setCustomerIds] = useState<number[]>([]);
+  const [dateRange, setDateRange] = useState<[Dayjs | null, Dayjs | null] | null>(null);
+
+  // 加载客户列表（用于客户筛选）
+  const { data: customersData } = useList<ICustomer>({
+    resource: "customers",
+    pagination: {
+      pageSize: 1000, // 加载所有客户
+    },
+  });
+
+  /**
+   * 组合筛选条件并重新查询
+   * 关键词同时匹配款号和款式名称；客户可多选；创建日期按闭区间筛选
+   */
+  const applyFilters = (next: {
+    keyword?: string;
+    customerIds?: number[];
+    dateRange?: [Dayjs | null, Dayjs | null] | null;
+  }) => {
+    const k = next.keyword ?? keyword;
+    const ids = next.customerIds ?? customerIds;
+    const range = next.dateRange !== undefined ? next.dateRange : dateRange;
+
+    const filters: CrudFilters = [
+      {
+        operator: "or",
+        value: [
+          { field: "style_no", operator: "contains", value: k.trim() },
+          { field: "style_name", operator: "contains", value: k.trim() },
+        ],
+      },
+      { field: "customer_id", operator: "in", value: ids },
+      {
+        field: "create_date",
+        operator: "between",
+        value: [range?.[0]?.format("YYYY-MM-DD"), range?.[1]?.format("YYYY-MM-DD")],
+      },
+    ];
+
+    setFilters(filters, "replace");
+  };
+
   /**
    * 处理删除款号
    */
@@ -40,7 +91,7 @@ export const StyleList: React.FC = () => {
         <div>
           <p>确定要删除款号 <strong>{record.style_no}</strong> 吗？</p>
           <p className="text-red-500 text-sm">
-            ⚠️ 此操作将同时删除该款号下的所有颜色版本和配料数据，且无法恢复！
+            该款号下的所有颜色版本和配料将一起移入回收站，{RECYCLE_BIN_RETENTION_DAYS} 天内可在回收站中恢复
           </p>
         </div>
       ),
@@ -52,10 +103,15 @@ export const StyleList: React.FC = () => {
           {
             resource: "styles",
             id: record.id,
-            successNotification: {
-              message: "删除成功",
-              description: `款号"${record.style_no}"已删除`,
-              type: "success",
+            successNotification: (data) => {
+              // 数据层返回级联删除汇总
+              const summary: ICascadeDeleteSummary | undefined = (data as any)?.summary;
+              const detail = summary ? describeCascadeSummary(summary) : "";
+              return {
+                message: "删除成功",
+                description: `款号"${record.style_no}"已移入回收站${detail ? `（包含 ${detail}）` : ""}`,
+                type: "success",
+              };
             },
           },
           {
@@ -73,14 +129,23 @@ export const StyleList: React.FC = () => {
       {/* 页面标题 */}
       <div className="flex items-center justify-between">
         <h2 className="text-2xl font-bold text-gray-800 m-0">款号管理</h2>
-        <Button 
-          type="primary" 
-          icon={<PlusOutlined />} 
-          size="large"
-          onClick={() => setCreateModalOpen(true)}
-        >
-          新建款号
-        </Button>
+        <Space>
+          <Button
+            icon={<MergeCellsOutlined />}
+            size="large"
+            onClick={() => setDuplicatesModalOpen(true)}
+          >
+            款号查重
+          </Button>
+          <Button 
+            type="primary" 
+            icon={<PlusOutlined />} 
+            size="large"
+            onClick={() => setCreateModalOpen(true)}
+          >
+            新建款号
+          </Button>
+        </Space>
       </div>
 
       {/* 款号列表表格 */}
@@ -91,24 +156,65 @@ export const StyleList: React.FC = () => {
         toolbar={{
           search: {
             placeholder: "搜索款号或款式名称...",
-            onSearch: () => {},
+            allowClear: true,
+            onSearch: (value: string) => {
+              setKeyword(value);
+              applyFilters({ keyword: value });
+            },
           },
+          filter: (
+            <Space>
+              <Select
+                mode="multiple"
+                allowClear
+                placeholder="按客户筛选"
+                style={{ minWidth: 200 }}
+                maxTagCount="responsive"
+                optionFilterProp="label"
+                value={customerIds}
+                onChange={(ids: number[]) => {
+                  setCustomerIds(ids);
+                  applyFilters({ customerIds: ids });
+                }}
+                options={customersData?.data?.map((customer) => ({
+                  label: customer.customer_name,
+                  value: customer.id,
+                }))}
+              />
+              <DatePicker.RangePicker
+                allowEmpty={[true, true]}
+                placeholder={["创建日期起", "创建日期止"]}
+                value={dateRange}
+                onChange={(range) => {
+                  setDateRange(range);
+                  applyFilters({ dateRange: range });
+                }}
+              />
+            </Space>
+          ),
         }}
         columns={[
           {
             title: "款号",
             dataIndex: "style_no",
+            sorter: { multiple: 1 },
+            defaultSortOrder: getDefaultSortOrder("style_no", sorters),
             key: "style_no",
             width: 150,
-            render: (text) => (
-              <Tag color="blue" className="text-base px-3 py-1">
-                {text}
-              </Tag>
+            render: (text, record) => (
+              <Space size={4}>
+                <Tag color="blue" className="text-base px-3 py-1">
+                  {text}
+                </Tag>
+                {record.duplicate_of && <Tag color="orange">重复</Tag>}
+              </Space>
             ),
           },
           {
             title: "款式名称",
             dataIndex: "style_name",
+            sorter: { multiple: 2 },
+            defaultSortOrder: getDefaultSortOrder("style_name", sorters),
             key: "style_name",
             width: 200,
             render: (text) => (
@@ -118,6 +224,8 @@ export const StyleList: React.FC = () => {
           {
             title: "客户名称",
             dataIndex: "customer_name",
+            sorter: { multiple: 3 },
+            defaultSortOrder: getDefaultSortOrder("customer_name", sorters),
             key: "customer_name",
             width: 150,
             render: (text) => (
@@ -127,6 +235,8 @@ export const StyleList: React.FC = () => {
           {
             title: "创建日期",
             dataIndex: "create_date",
+            sorter: { multiple: 4 },
+            defaultSortOrder: getDefaultSortOrder("create_date", sorters),
             key: "create_date",
             width: 150,
             render: (text) => <span className="text-gray-600">{text}</span>,
@@ -177,6 +287,12 @@ export const StyleList: React.FC = () => {
         open={createModalOpen}
         onClose={() => setCreateModalOpen(false)}
       />
+
+      {/* 款号查重弹窗 */}
+      <DuplicateStylesModal
+        open={duplicatesModalOpen}
+        onClose={() => setDuplicatesModalOpen(false)}
+      />
     </div>
   );
 };
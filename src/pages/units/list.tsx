@@ -4,18 +4,18 @@
  */
 
 import React, { useState } from "react";
-import { useTable, useModalForm } from "@refinedev/antd";
+import { useTable, useModalForm, getDefaultSortOrder } from "@refinedev/antd";
 import { ProTable } from "@ant-design/pro-components";
 import { Button, Modal, Form, Input, Switch, message, Space, Tag } from "antd";
 import { PlusOutlined, EditOutlined, DeleteOutlined } from "@ant-design/icons";
-import { useDelete } from "@refinedev/core";
 import type { IUnit } from "../../types/models";
+import { useReferenceDeleteConfirm } from "../../components/common/useReferenceDeleteConfirm";
 
 export const UnitList: React.FC = () => {
   const [createModalOpen, setCreateModalOpen] = useState(false);
   
   // 表格数据
-  const { tableProps } = useTable<IUnit>({
+  const { tableProps, sorters } = useTable<IUnit>({
     resource: "units",
     pagination: { pageSize: 20 },
   });
@@ -31,27 +31,11 @@ export const UnitList: React.FC = () => {
     redirect: false,
   });
 
-  // 删除
-  const { mutate: deleteUnit } = useDelete();
+  // 删除（先查询被款号、配料使用的情况）
+  const confirmDelete = useReferenceDeleteConfirm("units", "单位");
 
   const handleDelete = (record: IUnit) => {
-    Modal.confirm({
-      title: "确认删除",
-      content: `确定要删除单位"${record.unit_name}"吗？`,
-      okText: "确认删除",
-      okType: "danger",
-      cancelText: "取消",
-      onOk: () => {
-        deleteUnit({
-          resource: "units",
-          id: record.id,
-          successNotification: {
-            message: "删除成功",
-            type: "success",
-          },
-        });
-      },
-    });
+    confirmDelete(record.id, record.unit_name);
   };
 
   return (
@@ -76,6 +60,8 @@ export const UnitList: React.FC = () => {
           {
             title: "单位代码",
             dataIndex: "unit_code",
+            sorter: { multiple: 1 },
+            defaultSortOrder: getDefaultSortOrder("unit_code", sorters),
             width: 120,
             render: (text) => (
               <Tag color="blue" className="text-base px-3 py-1">
@@ -86,12 +72,16 @@ export const UnitList: React.FC = () => {
           {
             title: "单位名称",
             dataIndex: "unit_name",
+            sorter: { multiple: 2 },
+            defaultSortOrder: getDefaultSortOrder("unit_name", sorters),
             width: 150,
             render: (text) => <span className="font-medium">{text}</span>,
           },
           {
             title: "单位类型",
             dataIndex: "unit_type",
+            sorter: { multiple: 3 },
+            defaultSortOrder: getDefaultSortOrder("unit_type", sorters),
             width: 120,
             render: (text) => (
               text ? <Tag color="cyan">{text}</Tag> : "-"
@@ -100,6 +90,8 @@ export const UnitList: React.FC = () => {
           {
             title: "状态",
             dataIndex: "is_active",
+            sorter: { multiple: 4 },
+            defaultSortOrder: getDefaultSortOrder("is_active", sorters),
             width: 100,
             render: (active) => (
               <Tag color={active ? "green" : "red"}>
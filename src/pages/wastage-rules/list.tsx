@@ -0,0 +1,281 @@
+/**
+ * 损耗规则列表页
+ * 功能：按辅料、供应商、单位类型或客户配置损耗百分比和最少加放数量，下单计算配料时自动加放
+ */
+
+import React, { useState } from "react";
+import { useTable, useModalForm, getDefaultSortOrder } from "@refinedev/antd";
+import { ProTable } from "@ant-design/pro-components";
+import { useCreate, useDelete, useInvalidate } from "@refinedev/core";
+import { Button, Modal, Form, Input, InputNumber, Select, Switch, message, Space, Tag } from "antd";
+import { PlusOutlined, EditOutlined, DeleteOutlined } from "@ant-design/icons";
+import type { IWastageRule, WastageScope } from "../../types/models";
+import { WASTAGE_SCOPE_LABELS } from "../../utils/wastage";
+
+const SCOPE_COLORS: Record<WastageScope, string> = {
+  material: "blue",
+  supplier: "purple",
+  unit_type: "cyan",
+  customer: "gold",
+};
+
+const SCOPE_OPTIONS = (Object.keys(WASTAGE_SCOPE_LABELS) as WastageScope[]).map((scope) => ({
+  label: WASTAGE_SCOPE_LABELS[scope],
+  value: scope,
+}));
+
+export const WastageRuleList: React.FC = () => {
+  const [createModalOpen, setCreateModalOpen] = useState(false);
+
+  // 表格数据
+  const { tableProps, sorters } = useTable<IWastageRule>({
+    resource: "wastage_rules",
+    pagination: { pageSize: 20 },
+  });
+
+  // 编辑表单
+  const {
+    modalProps: editModalProps,
+    formProps: editFormProps,
+    show: showEdit,
+  } = useModalForm<IWastageRule>({
+    resource: "wastage_rules",
+    action: "edit",
+    redirect: false,
+  });
+
+  // 删除（规则不被其他数据引用，直接删除）
+  const { mutate: deleteRule } = useDelete();
+
+  const handleDelete = (record: IWastageRule) => {
+    Modal.confirm({
+      title: "确认删除损耗规则",
+      content: `确定要删除${WASTAGE_SCOPE_LABELS[record.scope]}"${record.match_value}"的损耗规则吗？已保存的订单不受影响。`,
+      okText: "删除",
+      okType: "danger",
+      cancelText: "取消",
+      onOk: () => deleteRule({ resource: "wastage_rules", id: record.id }),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-gray-800 m-0">📐 损耗规则</h2>
+        <Button
+          type="primary"
+          icon={<PlusOutlined />}
+          size="large"
+          onClick={() => setCreateModalOpen(true)}
+        >
+          新建规则
+        </Button>
+      </div>
+
+      <div className="text-gray-500 text-sm">
+        下单计算配料时，损耗 = max(基础用量 × 损耗百分比, 最少加放数量)。一个配料符合多条规则时按 辅料 &gt; 供应商 &gt; 单位类型 &gt; 客户 的优先级取一条。
+      </div>
+
+      <ProTable<IWastageRule>
+        {...tableProps}
+        rowKey="id"
+        search={false}
+        columns={[
+          {
+            title: "适用范围",
+            dataIndex: "scope",
+            sorter: { multiple: 1 },
+            defaultSortOrder: getDefaultSortOrder("scope", sorters),
+            width: 120,
+            render: (_, record) => (
+              <Tag color={SCOPE_COLORS[record.scope]}>{WASTAGE_SCOPE_LABELS[record.scope]}</Tag>
+            ),
+          },
+          {
+            title: "匹配值",
+            dataIndex: "match_value",
+            sorter: { multiple: 2 },
+            defaultSortOrder: getDefaultSortOrder("match_value", sorters),
+            width: 180,
+            render: (text) => <span className="font-medium">{text}</span>,
+          },
+          {
+            title: "损耗百分比",
+            dataIndex: "percent",
+            sorter: { multiple: 3 },
+            defaultSortOrder: getDefaultSortOrder("percent", sorters),
+            width: 120,
+            render: (_, record) => `${record.percent}%`,
+          },
+          {
+            title: "最少加放数量",
+            dataIndex: "min_qty",
+            width: 120,
+            render: (_, record) => (record.min_qty ? record.min_qty : "-"),
+          },
+          {
+            title: "状态",
+            dataIndex: "is_active",
+            sorter: { multiple: 4 },
+            defaultSortOrder: getDefaultSortOrder("is_active", sorters),
+            width: 100,
+            render: (active) => (
+              <Tag color={active ? "green" : "red"}>
+                {active ? "启用" : "禁用"}
+              </Tag>
+            ),
+          },
+          {
+            title: "备注",
+            dataIndex: "note",
+            ellipsis: true,
+          },
+          {
+            title: "操作",
+            width: 150,
+            fixed: "right",
+            render: (_, record) => (
+              <Space>
+                <Button
+                  type="link"
+                  icon={<EditOutlined />}
+                  onClick={() => showEdit(record.id)}
+                >
+                  编辑
+                </Button>
+                <Button
+                  type="link"
+                  danger
+                  icon={<DeleteOutlined />}
+                  onClick={() => handleDelete(record)}
+                >
+                  删除
+                </Button>
+              </Space>
+            ),
+          },
+        ]}
+        pagination={{
+          ...tableProps.pagination,
+          showSizeChanger: true,
+          showTotal: (total) => `共 ${total} 条记录`,
+        }}
+      />
+
+      {/* 新建规则弹窗 */}
+      <CreateWastageRuleModal
+        open={createModalOpen}
+        onClose={() => setCreateModalOpen(false)}
+      />
+
+      {/* 编辑规则弹窗 */}
+      <Modal {...editModalProps} title="编辑损耗规则" width={600}>
+        <Form {...editFormProps} layout="vertical">
+          <WastageRuleFields />
+        </Form>
+      </Modal>
+    </div>
+  );
+};
+
+// 规则表单字段（新建、编辑共用）
+const WastageRuleFields: React.FC = () => (
+  <>
+    <Form.Item
+      label="适用范围"
+      name="scope"
+      rules={[{ required: true, message: "请选择适用范围" }]}
+    >
+      <Select options={SCOPE_OPTIONS} placeholder="请选择适用范围" />
+    </Form.Item>
+    <Form.Item
+      label="匹配值"
+      name="match_value"
+      rules={[{ required: true, message: "请输入匹配值" }]}
+      extra="辅料名称、供应商、单位类型（如：长度、数量）或客户名称，不区分大小写"
+    >
+      <Input placeholder="如：缝纫线" />
+    </Form.Item>
+    <Form.Item
+      label="损耗百分比"
+      name="percent"
+      rules={[{ required: true, message: "请输入损耗百分比" }]}
+    >
+      <InputNumber min={0} max={100} addonAfter="%" style={{ width: "100%" }} placeholder="如：3" />
+    </Form.Item>
+    <Form.Item
+      label="最少加放数量"
+      name="min_qty"
+      extra="按单耗单位计，每个配料所有尺码合计至少加放的数量，可不填"
+    >
+      <InputNumber min={0} style={{ width: "100%" }} placeholder="如：2" />
+    </Form.Item>
+    <Form.Item label="是否启用" name="is_active" valuePropName="checked">
+      <Switch />
+    </Form.Item>
+    <Form.Item label="备注" name="note">
+      <Input.TextArea placeholder="请输入备注" rows={3} />
+    </Form.Item>
+  </>
+);
+
+// 新建规则弹窗组件
+interface CreateWastageRuleModalProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const CreateWastageRuleModal: React.FC<CreateWastageRuleModalProps> = ({
+  open,
+  onClose,
+}) => {
+  const [form] = Form.useForm();
+  const { mutate: createRule, isLoading } = useCreate<IWastageRule>();
+  const invalidate = useInvalidate();
+
+  const handleSubmit = () => {
+    form.validateFields().then((values) => {
+      const newRule = {
+        ...values,
+        match_value: values.match_value.trim(),
+        is_active: values.is_active !== false, // 默认启用
+      };
+
+      createRule(
+        { resource: "wastage_rules", values: newRule },
+        {
+          onSuccess: () => {
+            message.success("创建成功");
+            form.resetFields();
+            onClose();
+            invalidate({
+              resource: "wastage_rules",
+              invalidates: ["list"],
+            });
+          },
+        }
+      );
+    });
+  };
+
+  return (
+    <Modal
+      title="新建损耗规则"
+      open={open}
+      onOk={handleSubmit}
+      onCancel={onClose}
+      confirmLoading={isLoading}
+      width={600}
+      okText="创建"
+      cancelText="取消"
+    >
+      <Form
+        form={form}
+        layout="vertical"
+        initialValues={{ scope: "material", is_active: true }}
+      >
+        <WastageRuleFields />
+      </Form>
+    </Modal>
+  );
+};
@@ -0,0 +1,432 @@
+/**
+ * 审计日志
+ * 数据层的每次写操作（新建、修改、删除、批量操作、克隆、回收站恢复与彻底删除）
+ * 按记录写入 audit_logs 表，保存字段级的变更前后值；
+ * 整体替换业务数据（覆盖导入、快照恢复、清除、重置）整批写一条，保存各表替换前后的记录数
+ *
+ * 写日志应与数据变更放在同一个读写事务中（事务范围包含 auditTables() 返回的表），
+ * 数据写入失败时日志一起回滚。启用离线同步时，同时把涉及的记录登记到同步变更队列；
+ * 事务提交后通知其他标签页刷新（见 tabChannel.ts）
+ */
+
+import { db } from "./database";
+import { enqueueSyncChanges } from "./syncOutbox";
+import { notifyOtherTabsAfterCommit } from "./tabChannel";
+import type {
+  AuditAction,
+  IAuditChange,
+  IAuditLog,
+  ICascadeDeleteSummary,
+  IOrderLine,
+  ISpecDetail,
+} from "../types/models";
+
+const ACTOR_STORAGE_KEY = "specmaster_audit_actor";
+const DEFAULT_ACTOR = "本机用户";
+
+// 不参与比较的字段（软删除标记单独记为删除 / 恢复操作，修订号由同步服务器维护，修改时间由数据层维护）
+const IGNORED_FIELDS = new Set(["id", "deleted_at", "deleted_batch", "revision", "updated_at"]);
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: "新建",
+  update: "修改",
+  delete: "删除",
+  restore: "恢复",
+  purge: "彻底删除",
+  replace: "整体替换",
+};
+
+export const AUDIT_RESOURCE_LABELS: Record<string, string> = {
+  styles: "款号",
+  variants: "颜色版本",
+  bom_items: "配料",
+  customers: "客户",
+  sizes: "尺码",
+  units: "单位",
+  orders: "订单",
+  wastage_rules: "损耗规则",
+  database: "全部数据",
+};
+
+export const AUDIT_FIELD_LABELS: Record<string, string> = {
+  style_no: "款号",
+  duplicate_of: "原款号",
+  style_name: "款式名称",
+  customer_id: "客户ID",
+  customer_name: "客户",
+  create_date: "创建日期",
+  public_note: "公共备注",
+  style_id: "所属款号",
+  color_name: "颜色",
+  sample_image_url: "样衣图片",
+  size_range: "尺码范围",
+  variant_id: "所属颜色版本",
+  material_name: "辅料名称",
+  material_image_url: "辅料图片",
+  material_color_text: "辅料颜色",
+  material_color_image_url: "辅料颜色图片",
+  usage: "单耗",
+  unit: "单位",
+  supplier: "供应商",
+  specDetails: "规格",
+  order_date: "下单日期",
+  lines: "各颜色尺码数量",
+  total_qty: "总件数",
+  scope: "适用范围",
+  match_value: "匹配值",
+  percent: "损耗百分比",
+  min_qty: "最少加放数量",
+  note: "备注",
+};
+
+/**
+ * 一条待写入的审计记录
+ */
+export interface IAuditInput {
+  action: AuditAction;
+  operation: string;        // 触发的数据操作（如 update、deleteMany、clone）
+  resource: string;
+  before?: any;             // 变更前的记录
+  after?: any;              // 变更后的记录
+  changes?: IAuditChange[]; // 不传时比较 before / after 得出
+  batch?: string;
+  note?: string;
+  scope?: { style_id?: number; variant_id?: number }; // 不传时按记录查找所属款号
+}
+
+// ========== 操作人 ==========
+
+/**
+ * 当前操作人（保存在本机，未设置时为"本机用户"）
+ */
+export function getAuditActor(): string {
+  try {
+    return localStorage.getItem(ACTOR_STORAGE_KEY) || DEFAULT_ACTOR;
+  } catch {
+    return DEFAULT_ACTOR;
+  }
+}
+
+/**
+ * 设置操作人，传入空字符串时恢复默认
+ */
+export function setAuditActor(name: string): void {
+  const trimmed = name.trim();
+  if (trimmed) {
+    localStorage.setItem(ACTOR_STORAGE_KEY, trimmed);
+  } else {
+    localStorage.removeItem(ACTOR_STORAGE_KEY);
+  }
+}
+
+// ========== 变更比较 ==========
+
+function isEmptyValue(value: unknown): boolean {
+  return value === undefined || value === null || value === "";
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (isEmptyValue(a) && isEmptyValue(b)) return true;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * 比较规格明细：按规格 ID 对应，分别记录新增、删除、修改的规格
+ */
+function diffSpecDetails(before: ISpecDetail[] = [], after: ISpecDetail[] = []): IAuditChange[] {
+  const keyOf = (spec: ISpecDetail, index: number) => String(spec.id ?? `#${index}`);
+  const beforeByKey = new Map(before.map((spec, i) => [keyOf(spec, i), spec]));
+  const afterByKey = new Map(after.map((spec, i) => [keyOf(spec, i), spec]));
+  const changes: IAuditChange[] = [];
+
+  beforeByKey.forEach((spec, key) => {
+    const next = afterByKey.get(key);
+    if (!next || !isSameValue(spec, next)) {
+      changes.push({ field: `specDetails.${key}`, before: spec, after: next });
+    }
+  });
+  afterByKey.forEach((spec, key) => {
+    if (!beforeByKey.has(key)) {
+      changes.push({ field: `specDetails.${key}`, after: spec });
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * 比较两条记录，返回字段级变更（新建时 before 为空，删除时 after 为空）
+ */
+export function diffRecords(before?: Record<string, any>, after?: Record<string, any>): IAuditChange[] {
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const changes: IAuditChange[] = [];
+
+  fields.forEach((field) => {
+    if (IGNORED_FIELDS.has(field)) return;
+    if (field === "specDetails") {
+      changes.push(...diffSpecDetails(before?.specDetails, after?.specDetails));
+      return;
+    }
+    if (!isSameValue(before?.[field], after?.[field])) {
+      changes.push({ field, before: before?.[field], after: after?.[field] });
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * 字段显示名称（规格明细按条显示）
+ */
+export function auditFieldLabel(field: string): string {
+  if (field.startsWith("specDetails.")) return "规格";
+  return AUDIT_FIELD_LABELS[field] || field;
+}
+
+/**
+ * 格式化字段值（规格明细字段 specDetails.<规格ID> 的值为整条规格）
+ */
+export function formatAuditValue(field: string, value: unknown): string {
+  if (value === undefined || value === null || value === "") return "（空）";
+  if (field.startsWith("specDetails.")) {
+    const spec = value as ISpecDetail;
+    return `${spec.size || "通码"} ${spec.spec_value}${spec.spec_unit || ""}`;
+  }
+  if (field.endsWith("_image_url")) return "图片";
+  if (field === "lines") {
+    return (value as IOrderLine[])
+      .map((line) => `${line.color_name} ${line.size_orders.map((item) => `${item.size}×${item.quantity}`).join("，")}`)
+      .join("；");
+  }
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+// ========== 写入 ==========
+
+/**
+ * 读写事务需要包含的表：调用方在事务中写审计日志时使用
+ * （查找配料所属款号需要读取颜色版本表，同时登记同步变更队列）
+ */
+export function auditTables(...tables: string[]): string[] {
+  return Array.from(new Set([...tables, "audit_logs", "variants", "sync_outbox"]));
+}
+
+/**
+ * 记录的显示名称
+ */
+export function recordLabel(resource: string, record: any): string {
+  const label =
+    {
+      styles: record.style_no,
+      variants: record.color_name,
+      bom_items: record.material_name,
+      customers: record.customer_name,
+      sizes: record.size_code,
+      units: record.unit_name,
+      orders: record.style_no && `${record.style_no} ${record.order_date || ""}`.trim(),
+      wastage_rules: record.match_value,
+    }[resource] || "";
+  return label || `#${record.id}`;
+}
+
+/**
+ * 查找记录所属的款号和颜色版本
+ */
+async function resolveScope(
+  resource: string,
+  record: any
+): Promise<{ style_id?: number; variant_id?: number }> {
+  if (resource === "styles") return { style_id: record.id };
+  if (resource === "variants") return { style_id: record.style_id, variant_id: record.id };
+  if (resource === "bom_items") {
+    const variant = await db.variants.get(record.variant_id);
+    return { style_id: variant?.style_id, variant_id: record.variant_id };
+  }
+  return {};
+}
+
+/**
+ * 写入审计日志（没有字段变化的修改不记录）
+ */
+export async function recordAudit(inputs: IAuditInput[]): Promise<void> {
+  const actor = getAuditActor();
+  const createdAt = new Date().toISOString();
+  const logs: IAuditLog[] = [];
+  const changed: { resource: string; record_id: number; base_revision?: number }[] = [];
+
+  for (const input of inputs) {
+    const record = input.after || input.before;
+    if (!record) continue;
+
+    const changes = input.changes ?? diffRecords(input.before, input.after);
+    if (input.action === "update" && changes.length === 0) continue;
+
+    logs.push({
+      action: input.action,
+      operation: input.operation,
+      resource: input.resource,
+      record_id: record.id,
+      record_label: recordLabel(input.resource, record),
+      ...(input.scope || (await resolveScope(input.resource, record))),
+      batch: input.batch,
+      changes,
+      note: input.note,
+      actor,
+      created_at: createdAt,
+    });
+    changed.push({
+      resource: input.resource,
+      record_id: record.id,
+      base_revision: (input.before || input.after).revision,
+    });
+  }
+
+  if (logs.length > 0) {
+    await db.audit_logs.bulkAdd(logs);
+  }
+
+  await enqueueSyncChanges(changed);
+  notifyOtherTabsAfterCommit(changed.map((change) => change.resource));
+}
+
+/**
+ * 写入整体替换业务数据的审计日志（resource 为 database，changes 为各表替换前后的记录数）
+ * 需在包含 audit_logs 表的事务中调用；不登记同步变更队列（替换后同步状态整体重置）
+ */
+export async function recordReplaceAudit(
+  operation: string,
+  label: string,
+  before: Record<string, number>,
+  after: Record<string, number>
+): Promise<void> {
+  const changes: IAuditChange[] = Object.keys(after)
+    .filter((table) => before[table] || after[table])
+    .map((table) => ({ field: table, before: before[table] || 0, after: after[table] }));
+
+  await db.audit_logs.add({
+    action: "replace",
+    operation,
+    resource: "database",
+    record_id: 0,
+    record_label: label,
+    batch: createAuditBatch(operation),
+    changes,
+    note: changes
+      .map((change) => `${AUDIT_RESOURCE_LABELS[change.field]} ${change.before} → ${change.after} 条`)
+      .join("，"),
+    actor: getAuditActor(),
+    created_at: new Date().toISOString(),
+  });
+}
+
+/**
+ * 生成同一次操作的日志批次
+ */
+export function createAuditBatch(operation: string): string {
+  return `${operation}:${Date.now()}:${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// ========== 级联操作 ==========
+
+/**
+ * 级联操作涉及的记录（按资源分组）
+ */
+export type CascadeRecords = Record<string, any[]>;
+
+/**
+ * 读取记录及其全部下级数据，在级联删除前调用，用于记录删除前的内容
+ */
+export async function readCascadeRecords(resource: string, id: number): Promise<CascadeRecords> {
+  const root = await db.table(resource).get(id);
+  if (!root) return {};
+
+  const records: CascadeRecords = { [resource]: [root] };
+  if (resource === "styles") {
+    records.variants = await db.variants.where("style_id").equals(id).toArray();
+  }
+  const variantIds = (records.variants || []).map((v) => v.id);
+  if (variantIds.length > 0) {
+    records.bom_items = await db.bom_items.where("variant_id").anyOf(variantIds).toArray();
+  }
+  return records;
+}
+
+/**
+ * 按级联结果生成审计记录：顶层记录一条，随之处理的下级记录各一条
+ */
+export function cascadeAuditInputs(
+  records: CascadeRecords,
+  summary: ICascadeDeleteSummary,
+  options: { action: AuditAction; operation: string; batch?: string; note?: string }
+): IAuditInput[] {
+  const affected: Record<string, Set<number>> = {
+    styles: new Set(summary.style_ids),
+    variants: new Set(summary.variant_ids),
+    bom_items: new Set(summary.bom_item_ids),
+  };
+  (affected[summary.resource] ||= new Set()).add(summary.id);
+
+  const root = records[summary.resource]?.find((r) => r.id === summary.id);
+  const rootLabel = root ? recordLabel(summary.resource, root) : `#${summary.id}`;
+  const styleIdByVariant = new Map((records.variants || []).map((v) => [v.id, v.style_id]));
+  const withChanges = options.action !== "purge";
+
+  const inputs: IAuditInput[] = [];
+  Object.entries(records).forEach(([resource, list]) => {
+    list
+      .filter((record) => affected[resource]?.has(record.id))
+      .forEach((record) => {
+        const isRoot = resource === summary.resource && record.id === summary.id;
+        inputs.push({
+          action: options.action,
+          operation: options.operation,
+          resource,
+          before: record,
+          changes: withChanges ? diffRecords(record, undefined) : [],
+          batch: options.batch,
+          note: isRoot
+            ? options.note
+            : `随${AUDIT_RESOURCE_LABELS[summary.resource] || summary.resource}"${rootLabel}"一起${AUDIT_ACTION_LABELS[options.action]}`,
+          scope:
+            resource === "bom_items" && styleIdByVariant.has(record.variant_id)
+              ? { style_id: styleIdByVariant.get(record.variant_id), variant_id: record.variant_id }
+              : undefined,
+        });
+      });
+  });
+
+  // 顶层记录排在最前
+  return inputs.sort((a, b) => Number(b.before === root) - Number(a.before === root));
+}
+
+// ========== 查询 ==========
+
+/**
+ * 变更历史按时间倒序排列，并插入最早一条记录之后的整体替换记录
+ * （覆盖导入、快照恢复后，之前的记录可能与当前数据对不上）
+ */
+async function withReplaceLogs(logs: IAuditLog[]): Promise<IAuditLog[]> {
+  if (logs.length === 0) return logs;
+  const firstId = Math.min(...logs.map((log) => log.id!));
+  const replaced = await db.audit_logs
+    .where("[resource+record_id]")
+    .equals(["database", 0])
+    .filter((log) => log.id! > firstId)
+    .toArray();
+  return [...logs, ...replaced].sort((a, b) => b.id! - a.id!);
+}
+
+/**
+ * 款号及其颜色版本、配料的变更历史（最近的在前）
+ */
+export async function listStyleHistory(styleId: number): Promise<IAuditLog[]> {
+  return withReplaceLogs(await db.audit_logs.where("style_id").equals(styleId).toArray());
+}
+
+/**
+ * 单条记录的变更历史（最近的在前）
+ */
+export async function listRecordHistory(resource: string, recordId: number): Promise<IAuditLog[]> {
+  return withReplaceLogs(await db.audit_logs.where("[resource+record_id]").equals([resource, recordId]).toArray());
+}
@@ -0,0 +1,235 @@
+/**
+ * 完整备份归档（.zip）
+ * 将 JSON 数据与所有引用的图片一起打包，避免存储空间或域名变更后备份中的图片失效
+ *
+ * 归档结构：
+ * - data.json      与 exportAllData() 输出相同的 JSON 备份
+ * - manifest.json  图片清单（原始 URL → 归档内路径及引用位置）
+ * - images/*       图片文件
+ *
+ * 导入时，位于当前七牛域名下的图片保留原 URL，其余图片按当前上传配置重新上传
+ * （七牛不可用时降级为 base64 内联），并改写数据中的 URL
+ */
+
+import JSZip from "jszip";
+import { exportAllData } from "./database";
+import { getQiniuConfig, uploadWithFallback } from "../utils/qiniuUpload";
+import type { IBackupData } from "../types/models";
+
+export const ARCHIVE_FORMAT = "specmaster-archive";
+export const ARCHIVE_VERSION = "1.0";
+
+/**
+ * 图片引用的位置
+ */
+type ImageField = "sample_image_url" | "material_image_url" | "material_color_image_url";
+
+interface IImageReference {
+  table: "variants" | "bom_items";
+  id: number;
+  field: ImageField;
+}
+
+/**
+ * 归档中的一张图片
+ */
+export interface IArchiveImage {
+  path: string;               // 归档内路径（images/0001.jpg）
+  original_url: string;       // 导出时的 URL（base64 图片记为 data: 前缀摘要）
+  mime_type: string;
+  size: number;               // 字节数
+  references: IImageReference[];
+}
+
+/**
+ * 图片清单
+ */
+export interface IArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: string;
+  exportDate: string;
+  images: IArchiveImage[];
+  missing: { url: string; references: IImageReference[]; reason: string }[];  // 导出时下载失败的图片
+}
+
+/**
+ * 已读取的归档
+ */
+export interface IBackupArchive {
+  text: string;               // data.json 原文
+  manifest: IArchiveManifest;
+  zip: JSZip;
+}
+
+export type ArchiveProgressListener = (done: number, total: number) => void;
+
+// 各图片字段对应的上传路径前缀（与各上传组件保持一致）
+const FIELD_PREFIX: Record<ImageField, string> = {
+  sample_image_url: "samples",
+  material_image_url: "materials",
+  material_color_image_url: "colors",
+};
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/svg+xml": "svg",
+};
+
+/**
+ * 收集备份数据中引用的所有图片 URL
+ */
+function collectImageReferences(data: IBackupData): Map<string, IImageReference[]> {
+  const refs = new Map<string, IImageReference[]>();
+  const add = (url: string | undefined, ref: IImageReference) => {
+    if (!url) return;
+    refs.set(url, [...(refs.get(url) || []), ref]);
+  };
+
+  data.variants.forEach((v) =>
+    add(v.sample_image_url, { table: "variants", id: v.id, field: "sample_image_url" })
+  );
+  data.bom_items.forEach((b) => {
+    add(b.material_image_url, { table: "bom_items", id: b.id, field: "material_image_url" });
+    add(b.material_color_image_url, {
+      table: "bom_items",
+      id: b.id,
+      field: "material_color_image_url",
+    });
+  });
+
+  return refs;
+}
+
+/**
+ * 下载图片（支持 http(s) 与 data: URL）
+ */
+async function fetchImage(url: string): Promise<Blob> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}`);
+  }
+  return response.blob();
+}
+
+/**
+ * 生成清单中记录的 URL（base64 图片只保留前缀，避免清单过大）
+ */
+function describeUrl(url: string): string {
+  return url.startsWith("data:") ? `${url.slice(0, 40)}...` : url;
+}
+
+/**
+ * 导出完整备份归档
+ */
+export async function exportBackupArchive(onProgress?: ArchiveProgressListener): Promise<Blob> {
+  const text = await exportAllData();
+  const data: IBackupData = JSON.parse(text);
+  const refs = collectImageReferences(data);
+
+  const zip = new JSZip();
+  const manifest: IArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportDate: data.exportDate,
+    images: [],
+    missing: [],
+  };
+
+  const entries = Array.from(refs.entries());
+  let done = 0;
+  onProgress?.(done, entries.length);
+
+  for (const [url, references] of entries) {
+    try {
+      const blob = await fetchImage(url);
+      const mimeType = blob.type || "image/jpeg";
+      const ext = MIME_EXTENSIONS[mimeType] || "bin";
+      const path = `images/${String(manifest.images.length + 1).padStart(4, "0")}.${ext}`;
+
+      zip.file(path, blob);
+      manifest.images.push({
+        path,
+        original_url: describeUrl(url),
+        mime_type: mimeType,
+        size: blob.size,
+        references,
+      });
+    } catch (error) {
+      console.warn(`图片下载失败，未打包：${describeUrl(url)}`, error);
+      manifest.missing.push({
+        url: describeUrl(url),
+        references,
+        reason: (error as Error).message,
+      });
+    }
+    onProgress?.(++done, entries.length);
+  }
+
+  zip.file("data.json", text);
+  zip.file("manifest.json", JSON.stringify(manifest, null, 2));
+
+  return zip.generateAsync({ type: "blob", compression: "DEFLATE" });
+}
+
+/**
+ * 读取归档（只解压 data.json 和清单，不处理图片）
+ */
+export async function readBackupArchive(file: Blob): Promise<IBackupArchive> {
+  const zip = await JSZip.loadAsync(file);
+
+  const dataFile = zip.file("data.json");
+  const manifestFile = zip.file("manifest.json");
+  if (!dataFile || !manifestFile) {
+    throw new Error("归档中缺少 data.json 或 manifest.json");
+  }
+
+  const manifest: IArchiveManifest = JSON.parse(await manifestFile.async("string"));
+  if (manifest.format !== ARCHIVE_FORMAT) {
+    throw new Error("不是 SpecMaster 备份归档");
+  }
+
+  return { text: await dataFile.async("string"), manifest, zip };
+}
+
+/**
+ * 按当前上传配置重新托管归档中的图片，返回改写 URL 后的 JSON 文本
+ * - 原 URL 位于当前七牛域名下：保留原 URL
+ * - 其他图片：重新上传（七牛不可用时降级为 base64）
+ */
+export async function rehostArchiveImages(
+  archive: IBackupArchive,
+  onProgress?: ArchiveProgressListener
+): Promise<string> {
+  const data: IBackupData = JSON.parse(archive.text);
+  const { domain } = getQiniuConfig();
+  const images = archive.manifest.images;
+
+  let done = 0;
+  onProgress?.(done, images.length);
+
+  for (const image of images) {
+    if (!image.original_url.startsWith(domain)) {
+      const entry = archive.zip.file(image.path);
+      if (entry) {
+        const blob = await entry.async("blob");
+        const fileName = image.path.split("/").pop() || "image";
+        const file = new File([blob], fileName, { type: image.mime_type });
+        const prefix = FIELD_PREFIX[image.references[0]?.field] || "uploads";
+        const url = await uploadWithFallback(file, { file, prefix });
+
+        // 按引用位置改写（base64 图片的原 URL 在清单中已截断，不能按 URL 匹配）
+        image.references.forEach((ref) => {
+          const record: any = data[ref.table].find((r) => r.id === ref.id);
+          if (record) record[ref.field] = url;
+        });
+      }
+    }
+
+    onProgress?.(++done, images.length);
+  }
+
+  return JSON.stringify(data, null, 2);
+}
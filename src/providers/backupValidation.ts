@@ -0,0 +1,402 @@
+/**
+ * JSON 备份校验
+ * 在写入数据库之前检查备份文件：格式版本、字段类型、主键重复、外键引用
+ * 校验只读取文件内容，不访问数据库，可用于导入前的预演（dry-run）
+ */
+
+import type { IBackupData } from "../types/models";
+import { toMultiColorOrder } from "./orders";
+
+// 当前支持的备份格式版本
+export const SUPPORTED_BACKUP_VERSIONS = ["1.0"];
+
+export type BackupTable = "styles" | "variants" | "bom_items" | "customers" | "sizes" | "units" | "orders" | "wastage_rules";
+
+export const BACKUP_TABLES: BackupTable[] = [
+  "customers",
+  "sizes",
+  "units",
+  "styles",
+  "variants",
+  "bom_items",
+  "orders",
+  "wastage_rules",
+];
+
+export const BACKUP_TABLE_LABELS: Record<BackupTable, string> = {
+  styles: "款号",
+  variants: "颜色版本",
+  bom_items: "配料明细",
+  customers: "客户",
+  sizes: "尺码",
+  units: "单位",
+  orders: "生产订单",
+  wastage_rules: "损耗规则",
+};
+
+/**
+ * 校验问题（字段错误、主键重复等）
+ */
+export interface IBackupIssue {
+  table?: BackupTable;
+  id?: number;
+  field?: string;
+  message: string;
+}
+
+/**
+ * 孤立记录：外键指向的父记录在备份中不存在
+ */
+export interface IBackupOrphan {
+  table: BackupTable;
+  id: number;
+  field: string;            // 外键字段
+  missingId: number;        // 缺失的父记录 ID
+}
+
+/**
+ * 校验报告
+ */
+export interface IBackupValidationReport {
+  valid: boolean;
+  version?: string;
+  exportDate?: string;
+  counts: Record<BackupTable, number>;
+  errors: IBackupIssue[];
+  orphans: IBackupOrphan[];
+  data?: IBackupData;       // 校验通过时的数据
+}
+
+/**
+ * 备份校验失败错误
+ */
+export class BackupValidationError extends Error {
+  readonly report: IBackupValidationReport;
+
+  constructor(report: IBackupValidationReport) {
+    const first = report.errors[0]?.message;
+    super(
+      first
+        ? `备份文件校验失败：${first}`
+        : `备份文件校验失败：存在 ${report.orphans.length} 条孤立记录`
+    );
+    this.name = "BackupValidationError";
+    this.report = report;
+  }
+}
+
+type FieldType = "number" | "string" | "boolean" | "string|number" | "array";
+
+interface IFieldRule {
+  type: FieldType;
+  required?: boolean;
+}
+
+/**
+ * 各表字段规则（对应 src/types/models.ts 中的接口）
+ */
+const TABLE_RULES: Record<BackupTable, Record<string, IFieldRule>> = {
+  styles: {
+    id: { type: "number", required: true },
+    style_no: { type: "string", required: true },
+    style_name: { type: "string" },
+    customer_id: { type: "number" },
+    customer_name: { type: "string" },
+    create_date: { type: "string", required: true },
+    public_note: { type: "string" },
+  },
+  variants: {
+    id: { type: "number", required: true },
+    style_id: { type: "number", required: true },
+    color_name: { type: "string", required: true },
+    sample_image_url: { type: "string", required: true },
+    size_range: { type: "string" },
+  },
+  bom_items: {
+    id: { type: "number", required: true },
+    variant_id: { type: "number", required: true },
+    material_name: { type: "string", required: true },
+    material_image_url: { type: "string", required: true },
+    material_color_text: { type: "string" },
+    material_color_image_url: { type: "string" },
+    usage: { type: "number", required: true },
+    unit: { type: "string", required: true },
+    supplier: { type: "string" },
+    specDetails: { type: "array", required: true },
+  },
+  customers: {
+    id: { type: "number", required: true },
+    customer_name: { type: "string", required: true },
+    contact_person: { type: "string" },
+    contact_phone: { type: "string" },
+    contact_email: { type: "string" },
+    address: { type: "string" },
+    note: { type: "string" },
+    create_date: { type: "string", required: true },
+  },
+  sizes: {
+    id: { type: "number", required: true },
+    size_code: { type: "string", required: true },
+    size_name: { type: "string", required: true },
+    sort_order: { type: "number" },
+    note: { type: "string" },
+    is_active: { type: "boolean", required: true },
+  },
+  units: {
+    id: { type: "number", required: true },
+    unit_code: { type: "string", required: true },
+    unit_name: { type: "string", required: true },
+    unit_type: { type: "string" },
+    note: { type: "string" },
+    is_active: { type: "boolean", required: true },
+  },
+  // 订单保存了下单时的款号、颜色，不检查款号、颜色版本是否仍存在
+  orders: {
+    id: { type: "number", required: true },
+    style_id: { type: "number", required: true },
+    style_no: { type: "string", required: true },
+    customer_name: { type: "string" },
+    order_date: { type: "string", required: true },
+    lines: { type: "array", required: true },
+    total_qty: { type: "number", required: true },
+    note: { type: "string" },
+    create_date: { type: "string", required: true },
+  },
+  wastage_rules: {
+    id: { type: "number", required: true },
+    scope: { type: "string", required: true },
+    match_value: { type: "string", required: true },
+    percent: { type: "number", required: true },
+    min_qty: { type: "number" },
+    note: { type: "string" },
+    is_active: { type: "boolean", required: true },
+  },
+};
+
+// L4 规格明细字段规则
+const SPEC_DETAIL_RULES: Record<string, IFieldRule> = {
+  id: { type: "number" },
+  size: { type: "string" },
+  spec_value: { type: "string|number", required: true },
+  spec_unit: { type: "string", required: true },
+};
+
+// 订单各颜色字段规则
+const ORDER_LINE_RULES: Record<string, IFieldRule> = {
+  variant_id: { type: "number", required: true },
+  color_name: { type: "string", required: true },
+  sample_image_url: { type: "string" },
+  size_orders: { type: "array", required: true },
+  total_qty: { type: "number", required: true },
+  rows: { type: "array", required: true },
+};
+
+/**
+ * 外键关系：子表字段 → 父表
+ */
+const FOREIGN_KEYS: { table: BackupTable; field: string; parent: BackupTable }[] = [
+  { table: "styles", field: "customer_id", parent: "customers" },
+  { table: "variants", field: "style_id", parent: "styles" },
+  { table: "bom_items", field: "variant_id", parent: "variants" },
+];
+
+function matchesType(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "string|number":
+      return typeof value === "string" || (typeof value === "number" && Number.isFinite(value));
+    case "array":
+      return Array.isArray(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * 按字段规则检查一条记录
+ */
+function checkRecord(
+  record: any,
+  rules: Record<string, IFieldRule>,
+  context: { table: BackupTable; id?: number; prefix?: string }
+): IBackupIssue[] {
+  const issues: IBackupIssue[] = [];
+  const label = BACKUP_TABLE_LABELS[context.table];
+  const where = `${label}${context.id !== undefined ? ` #${context.id}` : ""}`;
+
+  if (typeof record !== "object" || record === null || Array.isArray(record)) {
+    return [{ table: context.table, id: context.id, message: `${where}：记录不是对象` }];
+  }
+
+  Object.entries(rules).forEach(([field, rule]) => {
+    const value = record[field];
+    const fieldName = `${context.prefix || ""}${field}`;
+
+    if (value === undefined || value === null) {
+      if (rule.required) {
+        issues.push({
+          table: context.table,
+          id: context.id,
+          field: fieldName,
+          message: `${where}：缺少必填字段 ${fieldName}`,
+        });
+      }
+      return;
+    }
+
+    if (!matchesType(value, rule.type)) {
+      issues.push({
+        table: context.table,
+        id: context.id,
+        field: fieldName,
+        message: `${where}：字段 ${fieldName} 应为 ${rule.type}，实际为 ${JSON.stringify(value)}`,
+      });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * 校验已解析的备份对象
+ */
+export function validateBackupData(raw: unknown): IBackupValidationReport {
+  const counts = Object.fromEntries(BACKUP_TABLES.map((t) => [t, 0])) as Record<
+    BackupTable,
+    number
+  >;
+  const errors: IBackupIssue[] = [];
+  const orphans: IBackupOrphan[] = [];
+
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    errors.push({ message: "备份内容不是 JSON 对象" });
+    return { valid: false, counts, errors, orphans };
+  }
+
+  const data = { ...(raw as Record<string, unknown>) };
+
+  // 早期备份中的单颜色订单先转为多颜色订单
+  if (Array.isArray(data.orders)) {
+    data.orders = data.orders.map(toMultiColorOrder);
+  }
+
+  // ========== 格式版本 ==========
+  if (typeof data.version !== "string") {
+    errors.push({ message: "缺少备份格式版本（version 字段）" });
+  } else if (!SUPPORTED_BACKUP_VERSIONS.includes(data.version)) {
+    errors.push({
+      message: `不支持的备份格式版本 ${data.version}（支持：${SUPPORTED_BACKUP_VERSIONS.join("、")}）`,
+    });
+  }
+
+  // ========== 各表字段与主键 ==========
+  const idSets = {} as Record<BackupTable, Set<number>>;
+
+  BACKUP_TABLES.forEach((table) => {
+    idSets[table] = new Set();
+    const rows = data[table];
+
+    if (rows === undefined) {
+      // 业务数据表必须存在，基础数据表可缺省
+      if (table === "styles" || table === "variants" || table === "bom_items") {
+        errors.push({ table, message: `缺少数据表 ${table}` });
+      }
+      return;
+    }
+
+    if (!Array.isArray(rows)) {
+      errors.push({ table, message: `数据表 ${table} 应为数组` });
+      return;
+    }
+
+    counts[table] = rows.length;
+
+    rows.forEach((row: any) => {
+      const id = typeof row?.id === "number" ? row.id : undefined;
+      errors.push(...checkRecord(row, TABLE_RULES[table], { table, id }));
+
+      if (id !== undefined) {
+        if (idSets[table].has(id)) {
+          errors.push({
+            table,
+            id,
+            field: "id",
+            message: `${BACKUP_TABLE_LABELS[table]} #${id}：主键重复`,
+          });
+        }
+        idSets[table].add(id);
+      }
+
+      // L4 规格明细
+      if (table === "bom_items" && Array.isArray(row?.specDetails)) {
+        row.specDetails.forEach((spec: unknown, index: number) => {
+          errors.push(
+            ...checkRecord(spec, SPEC_DETAIL_RULES, {
+              table,
+              id,
+              prefix: `specDetails[${index}].`,
+            })
+          );
+        });
+      }
+
+      // 订单各颜色
+      if (table === "orders" && Array.isArray(row?.lines)) {
+        row.lines.forEach((line: unknown, index: number) => {
+          errors.push(
+            ...checkRecord(line, ORDER_LINE_RULES, {
+              table,
+              id,
+              prefix: `lines[${index}].`,
+            })
+          );
+        });
+      }
+    });
+  });
+
+  // ========== 外键引用 ==========
+  FOREIGN_KEYS.forEach(({ table, field, parent }) => {
+    const rows = data[table];
+    if (!Array.isArray(rows)) return;
+
+    rows.forEach((row: any) => {
+      const value = row?.[field];
+      if (typeof value !== "number" || typeof row?.id !== "number") return;
+      if (!idSets[parent].has(value)) {
+        orphans.push({ table, id: row.id, field, missingId: value });
+      }
+    });
+  });
+
+  const valid = errors.length === 0 && orphans.length === 0;
+
+  return {
+    valid,
+    version: typeof data.version === "string" ? data.version : undefined,
+    exportDate: typeof data.exportDate === "string" ? data.exportDate : undefined,
+    counts,
+    errors,
+    orphans,
+    data: valid ? (data as unknown as IBackupData) : undefined,
+  };
+}
+
+/**
+ * 校验 JSON 文本形式的备份
+ */
+export function validateBackupJson(jsonString: string): IBackupValidationReport {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonString);
+  } catch {
+    return {
+      valid: false,
+      counts: Object.fromEntries(BACKUP_TABLES.map((t) => [t, 0])) as Record<BackupTable, number>,
+      errors: [{ message: "文件不是有效的 JSON" }],
+      orphans: [],
+    };
+  }
+  return validateBackupData(parsed);
+}
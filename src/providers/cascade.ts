@@ -0,0 +1,214 @@
+/**
+ * 级联操作：删除与深度克隆
+ * 父记录与子记录在同一个 Dexie 读写事务中处理，中途失败时整体回滚，
+ * 不会留下孤立的配料或只复制了一半的颜色版本
+ *
+ * 款号、颜色版本、配料的删除为软删除（移入回收站），其余资源直接删除
+ */
+
+import { db } from "./database";
+import { allocateId, allocateIds, allocatorTables } from "./idAllocator";
+import type {
+  IColorVariant,
+  IBOMItem,
+  ICascadeDeleteSummary,
+  ICloneVariantResponse,
+} from "../types/models";
+
+// 支持软删除（回收站）的资源
+export const SOFT_DELETE_RESOURCES = ["styles", "variants", "bom_items"];
+
+/**
+ * 将记录及其下级数据移入回收站
+ * 同一次删除的记录标记相同的删除批次；之前已单独删除的下级数据保留原批次
+ */
+export async function cascadeSoftDelete(
+  resource: string,
+  id: number
+): Promise<ICascadeDeleteSummary> {
+  const table = db.table(resource);
+
+  return db.transaction("rw", [table, db.variants, db.bom_items], async () => {
+    const record = await table.get(id);
+    if (!record || record.deleted_at) {
+      throw new Error(`Record not found: ${resource}#${id}`);
+    }
+
+    const deletedAt = new Date().toISOString();
+    const marker = { deleted_at: deletedAt, deleted_batch: `${resource}:${id}:${deletedAt}` };
+
+    const summary: ICascadeDeleteSummary = {
+      resource,
+      id,
+      style_ids: [],
+      variant_ids: [],
+      bom_item_ids: [],
+      spec_count: 0,
+      batch: marker.deleted_batch,
+    };
+
+    // ========== 收集未删除的下级数据 ==========
+    if (resource === "styles") {
+      summary.style_ids = [id];
+      const variants = await db.variants.where("style_id").equals(id).toArray();
+      summary.variant_ids = variants.filter((v) => !v.deleted_at).map((v) => v.id);
+    } else if (resource === "variants") {
+      summary.variant_ids = [id];
+    } else if (resource === "bom_items") {
+      summary.bom_item_ids = [id];
+      summary.spec_count = record.specDetails?.length || 0;
+    }
+
+    if (summary.variant_ids.length > 0) {
+      const bomItems = (
+        await db.bom_items.where("variant_id").anyOf(summary.variant_ids).toArray()
+      ).filter((item) => !item.deleted_at);
+      summary.bom_item_ids = bomItems.map((item) => item.id);
+      summary.spec_count = bomItems.reduce((sum, item) => sum + (item.specDetails?.length || 0), 0);
+    }
+
+    // ========== 标记删除 ==========
+    await table.update(id, marker);
+    await Promise.all(summary.variant_ids.map((variantId) => db.variants.update(variantId, marker)));
+    await Promise.all(summary.bom_item_ids.map((itemId) => db.bom_items.update(itemId, marker)));
+
+    return summary;
+  });
+}
+
+/**
+ * 彻底删除记录及其下级数据（不进入回收站）
+ * - 款号：同时删除其下的颜色版本和配料
+ * - 颜色版本：同时删除其下的配料
+ * - 其他资源：只删除记录本身
+ */
+export async function cascadeDelete(resource: string, id: number): Promise<ICascadeDeleteSummary> {
+  const table = db.table(resource);
+
+  return db.transaction("rw", [table, db.variants, db.bom_items], async () => {
+    const record = await table.get(id);
+    if (!record) {
+      throw new Error(`Record not found: ${resource}#${id}`);
+    }
+
+    const summary: ICascadeDeleteSummary = {
+      resource,
+      id,
+      style_ids: [],
+      variant_ids: [],
+      bom_item_ids: [],
+      spec_count: 0,
+    };
+
+    // ========== 收集下级数据 ==========
+    if (resource === "styles") {
+      summary.style_ids = [id];
+      summary.variant_ids = (await db.variants.where("style_id").equals(id).primaryKeys()) as number[];
+    } else if (resource === "variants") {
+      summary.variant_ids = [id];
+    }
+
+    if (summary.variant_ids.length > 0) {
+      const bomItems = await db.bom_items.where("variant_id").anyOf(summary.variant_ids).toArray();
+      summary.bom_item_ids = bomItems.map((item) => item.id);
+      summary.spec_count = bomItems.reduce((sum, item) => sum + (item.specDetails?.length || 0), 0);
+    }
+
+    // ========== 自下而上删除 ==========
+    await db.bom_items.bulkDelete(summary.bom_item_ids);
+    await db.variants.bulkDelete(summary.variant_ids);
+    await table.delete(id);
+
+    return summary;
+  });
+}
+
+/**
+ * 生成级联删除的下级数据说明（如"2 个颜色版本、10 条配料"），没有下级数据时返回空字符串
+ */
+export function describeCascadeSummary(summary: ICascadeDeleteSummary): string {
+  const parts: string[] = [];
+  if (summary.resource === "styles" && summary.variant_ids.length > 0) {
+    parts.push(`${summary.variant_ids.length} 个颜色版本`);
+  }
+  if (summary.bom_item_ids.length > 0) {
+    parts.push(`${summary.bom_item_ids.length} 条配料`);
+  }
+  if (summary.spec_count > 0) {
+    parts.push(`${summary.spec_count} 条规格`);
+  }
+  return parts.join("、");
+}
+
+/**
+ * 深度克隆颜色版本（L2 → L3 → L4 三层复制）
+ */
+export async function cloneVariant(
+  sourceVariantId: number,
+  newColorName: string
+): Promise<ICloneVariantResponse> {
+  return db.transaction(
+    "rw",
+    allocatorTables("variants", "bom_items", "spec_details"),
+    async () => {
+      // 1. 查找源颜色版本（回收站中的颜色版本不能克隆）
+      const sourceVariant = await db.variants.get(sourceVariantId);
+      if (!sourceVariant || sourceVariant.deleted_at) {
+        throw new Error(`源颜色版本不存在：${sourceVariantId}`);
+      }
+
+      // 2. 创建新的颜色版本
+      const newVariantId = await allocateId("variants");
+      const updatedAt = new Date().toISOString();
+      const newVariant: IColorVariant = {
+        ...sourceVariant,
+        id: newVariantId,
+        color_name: newColorName,
+        revision: undefined, // 新记录尚未同步
+        deleted_at: undefined,
+        deleted_batch: undefined,
+        updated_at: updatedAt,
+      };
+      await db.variants.add(newVariant);
+
+      // 3. 查询源颜色版本下的所有配料明细（不含回收站中的配料）
+      const sourceBomItems = await db.bom_items
+        .where("variant_id")
+        .equals(sourceVariantId)
+        .filter((item) => !item.deleted_at)
+        .toArray();
+
+      const bomIds = await allocateIds("bom_items", sourceBomItems.length);
+      const specCount = sourceBomItems.reduce((sum, item) => sum + item.specDetails.length, 0);
+      const specIds = await allocateIds("spec_details", specCount);
+      let specIndex = 0;
+
+      // 4. 复制每条配料及其规格明细
+      const newBomItems: IBOMItem[] = sourceBomItems.map((bomItem, index) => ({
+        ...bomItem,
+        id: bomIds[index],
+        variant_id: newVariantId,
+        revision: undefined,
+        deleted_at: undefined,
+        deleted_batch: undefined,
+        updated_at: updatedAt,
+        // 深度复制 specDetails 数组
+        specDetails: bomItem.specDetails.map((spec) => ({
+          ...spec,
+          id: specIds[specIndex++],
+        })),
+      }));
+
+      await db.bom_items.bulkAdd(newBomItems);
+
+      return {
+        id: newVariantId,
+        color_name: newColorName,
+        source_variant_id: sourceVariantId,
+        bom_item_ids: bomIds,
+        cloned_bom_count: newBomItems.length,
+        cloned_spec_count: specCount,
+      };
+    }
+  );
+}
@@ -0,0 +1,154 @@
+/**
+ * 过期写入检测（乐观并发控制）
+ * 每条记录带有 updated_at，由数据层在内容变化时更新。编辑界面保存时通过 meta.baseUpdatedAt
+ * 传入开始编辑时记录的 updated_at；若记录在此期间已被其他页面修改（两者不一致），
+ * update 拒绝写入并抛出 RecordConflictError，由界面展示双方版本供用户合并（见 ConflictMergeModal）
+ *
+ * - update：meta.baseUpdatedAt 为记录的修改时间
+ * - updateMany：meta.baseUpdatedAt 为 { 记录ID: 修改时间 }，未列出的记录不检查，任一记录冲突时整批不写入
+ * - 未传 meta.baseUpdatedAt 的调用（如撤销 / 重做）不做检查
+ */
+
+import type { MetaQuery, OpenNotificationParams } from "@refinedev/core";
+import { diffRecords } from "./audit";
+
+/**
+ * 写入冲突：记录已被其他页面修改
+ */
+export class RecordConflictError extends Error {
+  readonly statusCode = 409;
+  readonly resource: string;
+  readonly id: number;
+  readonly current: any; // 数据库中的最新记录
+
+  constructor(resource: string, current: any) {
+    super(`记录已在其他页面被修改：${resource}#${current.id}`);
+    this.name = "RecordConflictError";
+    this.resource = resource;
+    this.id = current.id;
+    this.current = current;
+  }
+}
+
+/**
+ * 判断错误是否为写入冲突
+ */
+export function isRecordConflict(error: unknown): error is RecordConflictError {
+  return error instanceof RecordConflictError;
+}
+
+function assertSameUpdatedAt(resource: string, existing: any, baseUpdatedAt: string | null | undefined): void {
+  if ((existing.updated_at ?? null) !== (baseUpdatedAt ?? null)) {
+    throw new RecordConflictError(resource, existing);
+  }
+}
+
+/**
+ * 检查记录是否在开始编辑后被修改过（需在写入事务中调用）
+ * @param existing 数据库中的当前记录
+ * @param meta 调用方传入的 meta，含 baseUpdatedAt 时才检查
+ */
+export function assertNotStale(resource: string, existing: any, meta?: MetaQuery): void {
+  if (!meta || !("baseUpdatedAt" in meta)) return;
+  assertSameUpdatedAt(resource, existing, meta.baseUpdatedAt);
+}
+
+/**
+ * 批量修改时检查单条记录（meta.baseUpdatedAt 中列出该记录时才检查）
+ */
+export function assertNotStaleInBatch(resource: string, existing: any, meta?: MetaQuery): void {
+  const bases: Record<string, string | null | undefined> | undefined = meta?.baseUpdatedAt;
+  if (!bases || !(String(existing.id) in bases)) return;
+  assertSameUpdatedAt(resource, existing, bases[String(existing.id)]);
+}
+
+/**
+ * 保存失败通知：写入冲突交给合并弹窗处理，不再弹出通知
+ * @param notification 其他错误使用的通知，未指定时使用 Refine 默认通知
+ */
+export function conflictAwareErrorNotification(notification?: OpenNotificationParams) {
+  return (error?: unknown): OpenNotificationParams | false | undefined =>
+    isRecordConflict(error) ? false : notification;
+}
+
+// ========== 合并 ==========
+
+export type MergeChoice = "mine" | "theirs";
+
+/**
+ * 一次写入冲突（交给合并弹窗展示）
+ */
+export interface IWriteConflict {
+  resource: string;
+  mine: any;     // 本次要保存的记录
+  theirs: any;   // 数据库中的最新记录
+  base?: any;    // 开始编辑时的记录（用于判断哪一方修改了字段）
+}
+
+/**
+ * 双方取值不同的字段（规格明细按条比较，字段名为 specDetails.<规格ID>）
+ */
+export interface IMergeField {
+  field: string;
+  mine: unknown;             // 本次修改的值（规格明细为整条规格，没有这条规格时为空）
+  theirs: unknown;           // 数据库中的最新值
+  changedByMine: boolean;    // 相对开始编辑时的版本，本次是否修改了该字段
+  changedByTheirs: boolean;  // 相对开始编辑时的版本，其他页面是否修改了该字段
+}
+
+/**
+ * 列出需要合并的字段
+ * @param mine 本次要保存的记录
+ * @param theirs 数据库中的最新记录
+ * @param base 开始编辑时的记录（未知时双方都视为修改过）
+ */
+export function listMergeFields(mine: any, theirs: any, base?: any): IMergeField[] {
+  const changedByMine = new Set(base ? diffRecords(base, mine).map((change) => change.field) : []);
+  const changedByTheirs = new Set(base ? diffRecords(base, theirs).map((change) => change.field) : []);
+
+  return diffRecords(theirs, mine).map((change) => ({
+    field: change.field,
+    mine: change.after,
+    theirs: change.before,
+    changedByMine: !base || changedByMine.has(change.field),
+    changedByTheirs: !base || changedByTheirs.has(change.field),
+  }));
+}
+
+/**
+ * 默认选择：只有一方修改过的字段采用修改方的值，双方都修改过的字段默认保留本次修改
+ */
+export function defaultMergeChoice(field: IMergeField): MergeChoice {
+  return field.changedByMine || !field.changedByTheirs ? "mine" : "theirs";
+}
+
+/**
+ * 按逐字段的选择合并记录：以最新记录为底，替换选择"本次修改"的字段
+ */
+export function mergeRecords(theirs: any, fields: IMergeField[], choices: Record<string, MergeChoice>): any {
+  const merged = { ...theirs };
+  let specDetails: any[] | undefined = theirs.specDetails ? [...theirs.specDetails] : undefined;
+
+  for (const field of fields) {
+    if (choices[field.field] !== "mine") continue;
+
+    if (!field.field.startsWith("specDetails.")) {
+      merged[field.field] = field.mine;
+      continue;
+    }
+
+    // 规格明细：替换、补回或删除对应的那一条
+    specDetails = specDetails || [];
+    const index = field.theirs === undefined ? -1 : specDetails.indexOf(field.theirs);
+    if (field.mine === undefined) {
+      if (index >= 0) specDetails.splice(index, 1);
+    } else if (index >= 0) {
+      specDetails[index] = field.mine;
+    } else {
+      specDetails.push(field.mine);
+    }
+  }
+
+  if (specDetails) merged.specDetails = specDetails;
+  return merged;
+}
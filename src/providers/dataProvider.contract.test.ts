@@ -0,0 +1,381 @@
+/**
+ * Data Provider 契约测试
+ * 同一组用例分别运行在 IndexedDB Data Provider（fake-indexeddb）和 REST Data Provider
+ * （连接内存 SQLite 的参考后端）上，保证两种模式的资源、筛选排序、并发检查、级联删除、
+ * 回收站和深度克隆行为一致
+ */
+
+import "fake-indexeddb/auto";
+import type { AddressInfo } from "net";
+import type { DataProvider } from "@refinedev/core";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { clearAllData, db } from "./database";
+import { indexedDBDataProvider } from "./mockDataProvider";
+import { restDataProvider } from "./restDataProvider";
+import { RecordConflictError } from "./concurrency";
+import { DuplicateStyleNoError } from "./styleNo";
+import { createStore, type SpecMasterStore } from "../../server/store";
+import { createApiServer } from "../../server/app";
+import type {
+  IBOMItem,
+  ICascadeDeleteSummary,
+  IColorVariant,
+  ICustomer,
+  IRecycleBinEntry,
+  ISize,
+  IStyle,
+  IUnit,
+} from "../types/models";
+
+interface IContractTarget {
+  name: string;
+  setup: () => Promise<DataProvider>;
+  teardown: () => Promise<void>;
+}
+
+// ========== 两种 Data Provider ==========
+
+const indexedDBTarget: IContractTarget = {
+  name: "indexedDBDataProvider",
+  setup: async () => {
+    await db.open();
+    await clearAllData();
+    return indexedDBDataProvider;
+  },
+  teardown: async () => {},
+};
+
+const restTarget = (): IContractTarget => {
+  let store: SpecMasterStore;
+  let server: ReturnType<typeof createApiServer>;
+
+  return {
+    name: "restDataProvider",
+    setup: async () => {
+      store = createStore(":memory:");
+      server = createApiServer(store);
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      const { port } = server.address() as AddressInfo;
+      return restDataProvider(`http://127.0.0.1:${port}/api`);
+    },
+    teardown: async () => {
+      await new Promise((resolve) => server.close(resolve));
+      store.close();
+    },
+  };
+};
+
+// ========== 契约用例 ==========
+
+describe.each([indexedDBTarget, restTarget()])("$name", (target) => {
+  let provider: DataProvider;
+
+  beforeEach(async () => {
+    provider = await target.setup();
+  });
+
+  afterEach(async () => {
+    await target.teardown();
+  });
+
+  const create = async <T,>(resource: string, variables: Record<string, unknown>): Promise<T> =>
+    (await provider.create<any>({ resource, variables })).data as T;
+
+  /**
+   * 新建一个款号及其颜色版本、配料
+   */
+  const createStyleTree = async (styleNo = "A001") => {
+    const style = await create<IStyle>("styles", { style_no: styleNo, create_date: "2024-01-01" });
+    const variant = await create<IColorVariant>("variants", {
+      style_id: style.id,
+      color_name: "黑色",
+      sample_image_url: "",
+    });
+    const bomItem = await create<IBOMItem>("bom_items", {
+      variant_id: variant.id,
+      material_name: "拉链",
+      material_image_url: "",
+      usage: 1,
+      unit: "条",
+      specDetails: [
+        { size: "S", spec_value: 50, spec_unit: "cm" },
+        { size: "M", spec_value: 55, spec_unit: "cm" },
+      ],
+    });
+    return { style, variant, bomItem };
+  };
+
+  it("新建的记录分配 ID、修改时间和规格明细 ID，可按 ID 读取", async () => {
+    const { bomItem } = await createStyleTree();
+
+    expect(bomItem.id).toBeGreaterThan(0);
+    expect(typeof bomItem.updated_at).toBe("string");
+    expect(bomItem.specDetails.every((spec) => typeof spec.id === "number")).toBe(true);
+
+    const { data } = await provider.getOne<any>({ resource: "bom_items", id: bomItem.id });
+    expect(data.material_name).toBe("拉链");
+    expect(data.specDetails).toHaveLength(2);
+  });
+
+  it("忽略调用方传入的 ID", async () => {
+    const customer = await create<ICustomer>("customers", {
+      id: 999,
+      customer_name: "客户甲",
+      create_date: "2024-01-01",
+    });
+    expect(customer.id).not.toBe(999);
+  });
+
+  it("列表按筛选条件、多字段排序和分页返回", async () => {
+    for (const [name, date] of [
+      ["客户乙", "2024-01-02"],
+      ["客户甲", "2024-01-02"],
+      ["客户丙", "2024-01-01"],
+      ["其他", "2024-01-03"],
+    ]) {
+      await create("customers", { customer_name: name, create_date: date });
+    }
+
+    const { data, total } = await provider.getList<ICustomer>({
+      resource: "customers",
+      filters: [{ field: "customer_name", operator: "startswith", value: "客户" }],
+      sorters: [
+        { field: "create_date", order: "desc" },
+        { field: "customer_name", order: "asc" },
+      ],
+      pagination: { current: 1, pageSize: 2 },
+    });
+
+    expect(total).toBe(3);
+    expect(data.map((c) => c.create_date)).toEqual(["2024-01-02", "2024-01-02"]);
+    expect(data[0].customer_name.localeCompare(data[1].customer_name, "zh-CN")).toBeLessThan(0);
+
+    const { data: rest } = await provider.getList<ICustomer>({
+      resource: "customers",
+      filters: [{ field: "customer_name", operator: "startswith", value: "客户" }],
+      sorters: [{ field: "create_date", order: "desc" }],
+      pagination: { current: 2, pageSize: 2 },
+    });
+    expect(rest.map((c) => c.customer_name)).toEqual(["客户丙"]);
+  });
+
+  it("修改时按 baseUpdatedAt 拒绝过期写入", async () => {
+    const customer = await create<ICustomer>("customers", { customer_name: "客户甲", create_date: "2024-01-01" });
+
+    const { data: updated } = await provider.update<ICustomer>({
+      resource: "customers",
+      id: customer.id,
+      variables: { note: "第一次修改" },
+      meta: { baseUpdatedAt: customer.updated_at },
+    });
+    expect(updated.note).toBe("第一次修改");
+
+    await expect(
+      provider.update({
+        resource: "customers",
+        id: customer.id,
+        variables: { note: "基于旧版本的修改" },
+        meta: { baseUpdatedAt: customer.updated_at },
+      })
+    ).rejects.toBeInstanceOf(RecordConflictError);
+
+    const { data } = await provider.getOne<ICustomer>({ resource: "customers", id: customer.id });
+    expect(data.note).toBe("第一次修改");
+  });
+
+  it("批量修改时任一记录过期则整批不写入", async () => {
+    const a = await create<ICustomer>("customers", { customer_name: "客户甲", create_date: "2024-01-01" });
+    const b = await create<ICustomer>("customers", { customer_name: "客户乙", create_date: "2024-01-01" });
+
+    await expect(
+      provider.updateMany!({
+        resource: "customers",
+        ids: [a.id, b.id],
+        variables: { note: "批量" },
+        meta: { baseUpdatedAt: { [a.id]: a.updated_at, [b.id]: "1970-01-01T00:00:00.000Z" } },
+      })
+    ).rejects.toBeInstanceOf(RecordConflictError);
+
+    const { data } = await provider.getMany!<ICustomer>({ resource: "customers", ids: [a.id, b.id] });
+    expect(data.map((c) => c.note)).toEqual([undefined, undefined]);
+  });
+
+  it("款号重复时抛出 DuplicateStyleNoError", async () => {
+    await create("styles", { style_no: "A001", create_date: "2024-01-01" });
+    await expect(create("styles", { style_no: " A001 ", create_date: "2024-01-02" })).rejects.toBeInstanceOf(
+      DuplicateStyleNoError
+    );
+  });
+
+  it("删除款号时连同颜色版本、配料移入回收站并返回删除结果", async () => {
+    const { style, variant, bomItem } = await createStyleTree();
+
+    const result: any = await provider.deleteOne({ resource: "styles", id: style.id });
+    const summary: ICascadeDeleteSummary = result.summary;
+    expect(summary.style_ids).toEqual([style.id]);
+    expect(summary.variant_ids).toEqual([variant.id]);
+    expect(summary.bom_item_ids).toEqual([bomItem.id]);
+    expect(summary.spec_count).toBe(2);
+    expect(summary.batch).toMatch(/^styles:/);
+
+    await expect(provider.getOne({ resource: "styles", id: style.id })).rejects.toThrow();
+    const { total } = await provider.getList({
+      resource: "bom_items",
+      filters: [{ field: "variant_id", operator: "eq", value: variant.id }],
+    });
+    expect(total).toBe(0);
+    const { data } = await provider.getMany!({ resource: "variants", ids: [variant.id] });
+    expect(data).toEqual([]);
+  });
+
+  it("按删除批次从回收站恢复整棵数据", async () => {
+    const { style, variant, bomItem } = await createStyleTree();
+    const result: any = await provider.deleteOne({ resource: "styles", id: style.id });
+
+    await provider.custom!({
+      url: "/api/recycle-bin/restore",
+      method: "post",
+      payload: { batch: result.summary.batch },
+    });
+
+    const { data: restored } = await provider.getOne<IStyle>({ resource: "styles", id: style.id });
+    expect(restored.deleted_at).toBeUndefined();
+    const { data: items } = await provider.getList<IBOMItem>({
+      resource: "bom_items",
+      filters: [{ field: "variant_id", operator: "eq", value: variant.id }],
+    });
+    expect(items.map((item) => item.id)).toEqual([bomItem.id]);
+  });
+
+  it("列出回收站条目，彻底删除后款号可以重新使用", async () => {
+    const { style, variant, bomItem } = await createStyleTree();
+    await provider.deleteOne({ resource: "bom_items", id: bomItem.id });
+    const result: any = await provider.deleteOne({ resource: "styles", id: style.id });
+
+    const { data: entries } = await provider.custom!<IRecycleBinEntry[]>({ url: "/api/recycle-bin", method: "get" });
+    expect(entries).toHaveLength(2);
+    expect(entries.find((entry) => entry.resource === "styles")).toMatchObject({
+      batch: result.summary.batch,
+      label: "A001",
+      variant_ids: [variant.id],
+      bom_item_ids: [],
+    });
+    expect(entries.find((entry) => entry.resource === "bom_items")?.label).toBe("拉链（A001 · 黑色）");
+
+    await provider.custom!({ url: "/api/recycle-bin/purge", method: "post", payload: { batch: result.summary.batch } });
+
+    // 之前单独删除的配料随款号一起彻底删除
+    const { data: remaining } = await provider.custom!<IRecycleBinEntry[]>({ url: "/api/recycle-bin", method: "get" });
+    expect(remaining).toEqual([]);
+    await expect(
+      provider.custom!({ url: "/api/recycle-bin/restore", method: "post", payload: { batch: result.summary.batch } })
+    ).rejects.toThrow();
+    const recreated = await create<IStyle>("styles", { style_no: "A001", create_date: "2024-01-02" });
+    expect(recreated.id).not.toBe(style.id);
+  });
+
+  it("深度克隆颜色版本时复制配料和规格明细，并分配新 ID", async () => {
+    const { style, variant, bomItem } = await createStyleTree();
+
+    const { data: cloned } = await provider.custom!<any>({
+      url: `/api/styles/${style.id}/variants/${variant.id}/clone`,
+      method: "post",
+      payload: { new_color_name: "白色" },
+    });
+    expect(cloned.source_variant_id).toBe(variant.id);
+    expect(cloned.cloned_bom_count).toBe(1);
+    expect(cloned.cloned_spec_count).toBe(2);
+
+    const { data: newVariant } = await provider.getOne<IColorVariant>({ resource: "variants", id: cloned.id });
+    expect(newVariant).toMatchObject({ style_id: style.id, color_name: "白色" });
+
+    const { data: items } = await provider.getList<IBOMItem>({
+      resource: "bom_items",
+      filters: [{ field: "variant_id", operator: "eq", value: cloned.id }],
+    });
+    expect(items).toHaveLength(1);
+    expect(items[0].id).not.toBe(bomItem.id);
+    expect(items[0].material_name).toBe("拉链");
+    const sourceSpecIds = bomItem.specDetails.map((spec) => spec.id);
+    expect(items[0].specDetails.some((spec) => sourceSpecIds.includes(spec.id))).toBe(false);
+  });
+
+  it("回收站中的颜色版本不能克隆", async () => {
+    const { style, variant } = await createStyleTree();
+    await provider.deleteOne({ resource: "variants", id: variant.id });
+
+    await expect(
+      provider.custom!({
+        url: `/api/styles/${style.id}/variants/${variant.id}/clone`,
+        method: "post",
+        payload: { new_color_name: "白色" },
+      })
+    ).rejects.toThrow();
+    const { total } = await provider.getList({
+      resource: "variants",
+      filters: [{ field: "style_id", operator: "eq", value: style.id }],
+    });
+    expect(total).toBe(0);
+  });
+
+  it("删除客户时清空款号中的客户", async () => {
+    const customer = await create<ICustomer>("customers", { customer_name: "客户甲", create_date: "2024-01-01" });
+    const style = await create<IStyle>("styles", {
+      style_no: "A001",
+      customer_id: customer.id,
+      customer_name: customer.customer_name,
+      create_date: "2024-01-01",
+    });
+
+    const { data: usages } = await provider.custom!<any>({
+      url: `/api/references/customers/${customer.id}`,
+      method: "get",
+    });
+    expect(usages).toEqual([expect.objectContaining({ key: "style_customer", count: 1 })]);
+
+    await provider.deleteOne({ resource: "customers", id: customer.id });
+
+    const { data } = await provider.getOne<IStyle>({ resource: "styles", id: style.id });
+    expect(data.customer_id).toBeUndefined();
+    expect(data.customer_name).toBeUndefined();
+  });
+
+  it("被配料使用的单位不能删除", async () => {
+    const unit = await create<IUnit>("units", { unit_code: "pcs", unit_name: "条", is_active: true });
+    await createStyleTree();
+
+    await expect(provider.deleteOne({ resource: "units", id: unit.id })).rejects.toMatchObject({ statusCode: 409 });
+    const { total } = await provider.getList({ resource: "units" });
+    expect(total).toBe(1);
+  });
+
+  it("客户改名后同步款号中的客户名称", async () => {
+    const customer = await create<ICustomer>("customers", { customer_name: "客户甲", create_date: "2024-01-01" });
+    const style = await create<IStyle>("styles", {
+      style_no: "A001",
+      customer_id: customer.id,
+      customer_name: customer.customer_name,
+      create_date: "2024-01-01",
+    });
+
+    await provider.update({ resource: "customers", id: customer.id, variables: { customer_name: "客户甲（新）" } });
+
+    const { data } = await provider.getOne<IStyle>({ resource: "styles", id: style.id });
+    expect(data.customer_name).toBe("客户甲（新）");
+  });
+
+  it("单位、尺码改名后改写配料中的单位和规格明细", async () => {
+    const unit = await create<IUnit>("units", { unit_code: "pcs", unit_name: "条", is_active: true });
+    const size = await create<ISize>("sizes", { size_code: "S", size_name: "小码", sort_order: 1, is_active: true });
+    const { bomItem } = await createStyleTree();
+
+    await provider.update({ resource: "units", id: unit.id, variables: { unit_name: "根" } });
+    await provider.update({ resource: "sizes", id: size.id, variables: { size_code: "XS" } });
+
+    const { data } = await provider.getOne<IBOMItem>({ resource: "bom_items", id: bomItem.id });
+    expect(data.unit).toBe("根");
+    expect(data.specDetails.map((spec) => spec.size)).toEqual(["XS", "M"]);
+    // 改名后单位仍被引用，不能删除
+    await expect(provider.deleteOne({ resource: "units", id: unit.id })).rejects.toMatchObject({ statusCode: 409 });
+  });
+});
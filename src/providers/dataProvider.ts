@@ -0,0 +1,27 @@
+/**
+ * Data Provider 选择
+ * 由环境变量 VITE_APP_MODE 决定：
+ * - rest：通过 REST API 访问后端（地址为 VITE_API_BASE_URL）
+ * - 其他值（默认）：数据保存在浏览器 IndexedDB 中
+ *
+ * 变更历史、数据备份与自动快照直接读写本地数据库，只在本地模式下提供；
+ * 回收站页面通过 Data Provider 的自定义操作（/api/recycle-bin/...）读写，两种模式都提供
+ */
+
+import type { DataProvider } from "@refinedev/core";
+import { indexedDBDataProvider } from "./mockDataProvider";
+import { restDataProvider } from "./restDataProvider";
+
+const DEFAULT_API_BASE_URL = "http://localhost:3002/api";
+
+export const DATA_PROVIDER_MODE: "rest" | "local" =
+  import.meta.env.VITE_APP_MODE === "rest" ? "rest" : "local";
+
+/**
+ * 是否使用本地 IndexedDB 数据
+ */
+export const isLocalDataMode = DATA_PROVIDER_MODE === "local";
+
+export const dataProvider: DataProvider = isLocalDataMode
+  ? indexedDBDataProvider
+  : restDataProvider(import.meta.env.VITE_API_BASE_URL || DEFAULT_API_BASE_URL);
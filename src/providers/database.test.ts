@@ -0,0 +1,93 @@
+import "fake-indexeddb/auto";
+import { beforeEach, describe, expect, it } from "vitest";
+import { clearAllData, db, importAllData, restoreSnapshot } from "./database";
+import { saveSnapshot } from "./snapshots";
+
+describe("restoreSnapshot", () => {
+  beforeEach(async () => {
+    await db.open();
+    await clearAllData();
+    await db.audit_logs.clear();
+  });
+
+  it("旧版本结构的快照先执行迁移，只替换业务表", async () => {
+    await db.audit_logs.add({
+      action: "create",
+      operation: "create",
+      resource: "styles",
+      record_id: 1,
+      record_label: "A001",
+      changes: [],
+      actor: "本机用户",
+      created_at: "2024-01-01T00:00:00.000Z",
+    });
+    const auditCount = await db.audit_logs.count();
+
+    // v10 的订单只有一个颜色，v11 的迁移转换为多颜色结构
+    const snapshotId = await saveSnapshot("manual", 10, {
+      styles: [{ id: 1, style_no: "A001", create_date: "2024-01-01" }],
+      variants: [{ id: 1, style_id: 1, color_name: "黑色", sample_image_url: "" }],
+      bom_items: [],
+      customers: [],
+      sizes: [],
+      units: [],
+      orders: [
+        {
+          id: 1,
+          style_id: 1,
+          style_no: "A001",
+          variant_id: 1,
+          color_name: "黑色",
+          order_date: "2024-01-03",
+          create_date: "2024-01-03",
+          size_orders: [{ size: "S", quantity: 10 }],
+          materials: [],
+        },
+      ],
+    });
+
+    await restoreSnapshot(snapshotId);
+
+    expect((await db.styles.toArray()).map((style) => style.style_no)).toEqual(["A001"]);
+    const [order] = await db.orders.toArray();
+    expect(order.lines.map((line) => line.variant_id)).toEqual([1]);
+    // 审计日志不随快照恢复被清除，恢复本身整批记一条
+    expect(await db.audit_logs.count()).toBe(auditCount + 1);
+    const log = await db.audit_logs.orderBy("id").last();
+    expect(log).toMatchObject({ action: "replace", operation: "restoreSnapshot", resource: "database" });
+    expect(log?.changes).toContainEqual({ field: "orders", before: 0, after: 1 });
+  });
+});
+
+describe("importAllData", () => {
+  beforeEach(async () => {
+    await db.open();
+    await clearAllData();
+    await db.audit_logs.clear();
+  });
+
+  it("覆盖导入在同一事务中记一条整体替换的审计日志", async () => {
+    await db.styles.add({ id: 1, style_no: "A001", create_date: "2024-01-01" });
+
+    await importAllData(
+      JSON.stringify({
+        exportDate: "2024-01-01T00:00:00.000Z",
+        version: "1.0",
+        styles: [
+          { id: 1, style_no: "B001", create_date: "2024-01-01" },
+          { id: 2, style_no: "B002", create_date: "2024-01-01" },
+        ],
+        variants: [],
+        bom_items: [],
+        customers: [],
+        sizes: [],
+        units: [],
+      })
+    );
+
+    const logs = await db.audit_logs.toArray();
+    expect(logs).toHaveLength(1);
+    expect(logs[0]).toMatchObject({ action: "replace", operation: "importAll", record_label: "覆盖导入" });
+    expect(logs[0].changes).toEqual([{ field: "styles", before: 1, after: 2 }]);
+  });
+});
@@ -1,6 +1,7 @@
 /**
  * IndexedDB 数据库配置
  * 使用 Dexie.js 封装 IndexedDB 操作
+ * 表结构按版本登记在 migrations.ts 中，升级前自动保存快照
  */
 
 import Dexie, { Table } from "dexie";
@@ -11,6 +12,16 @@ import type {
   ICustomer,
   ISize,
   IUnit,
+  IOrder,
+  IWastageRule,
+  IMigrationRecord,
+  IIdCounter,
+  IAuditLog,
+  ISyncOutboxEntry,
+  ISyncState,
+  IBackupData,
+  SnapshotReason,
+  ISnapshot,
 } from "../types/models";
 import {
   mockStyles,
@@ -20,6 +31,50 @@ import {
   mockSizes,
   mockUnits,
 } from "../mock/data";
+import {
+  MIGRATIONS,
+  LATEST_DB_VERSION,
+  getSchemaAt,
+  getPendingMigrations,
+} from "./migrations";
+import { saveSnapshot, getSnapshot, getLatestSnapshot, computeChecksum } from "./snapshots";
+import { validateBackupJson, BackupValidationError } from "./backupValidation";
+import { notifyOtherTabs } from "./tabChannel";
+import { withUniqueStyleNos } from "./styleNo";
+import { recordReplaceAudit } from "./audit";
+
+const DB_NAME = "SpecMasterDB";
+
+/**
+ * 数据库初始化进度
+ */
+export interface IInitProgress {
+  stage: "checking" | "snapshot" | "migrating" | "seeding" | "done";
+  message: string;
+  current?: number;   // 当前迁移序号（仅 migrating 阶段）
+  total?: number;     // 待执行迁移总数（仅 migrating 阶段）
+}
+
+type InitProgressListener = (progress: IInitProgress) => void;
+
+/**
+ * 迁移失败错误
+ * 携带迁移前快照的 ID，便于界面提供恢复入口
+ */
+export class MigrationError extends Error {
+  readonly snapshotId: number | null;
+
+  constructor(message: string, snapshotId: number | null) {
+    super(message);
+    this.name = "MigrationError";
+    this.snapshotId = snapshotId;
+  }
+}
+
+// 当前初始化流程的进度监听器（upgrade 回调中使用）
+let progressListener: InitProgressListener | null = null;
+// 本次打开数据库时待执行的迁移数量
+let pendingMigrationCount = 0;
 
 /**
  * SpecMaster 数据库类
@@ -31,19 +86,33 @@ export class SpecMasterDB extends Dexie {
   customers!: Table<ICustomer, number>;
   sizes!: Table<ISize, number>;
   units!: Table<IUnit, number>;
+  orders!: Table<IOrder, number>;
+  wastage_rules!: Table<IWastageRule, number>;
+  migration_log!: Table<IMigrationRecord, number>;
+  id_counters!: Table<IIdCounter, string>;
+  audit_logs!: Table<IAuditLog, number>;
+  sync_outbox!: Table<ISyncOutboxEntry, number>;
+  sync_state!: Table<ISyncState, string>;
 
   constructor() {
-    super("SpecMasterDB");
-
-    // 定义数据库 schema
-    // 索引格式: ++id 表示自增主键, &field 表示唯一索引, field 表示普通索引
-    this.version(1).stores({
-      styles: "++id, style_no, customer_id",
-      variants: "++id, style_id, color_name",
-      bom_items: "++id, variant_id, material_name",
-      customers: "++id, customer_name",
-      sizes: "++id, size_code, sort_order",
-      units: "++id, unit_code",
+    super(DB_NAME);
+
+    // 按迁移注册表逐个声明版本
+    MIGRATIONS.forEach((migration, index) => {
+      const version = this.version(migration.version).stores(migration.stores);
+
+      if (migration.upgrade) {
+        version.upgrade(async (tx) => {
+          const current = index + 1 - (MIGRATIONS.length - pendingMigrationCount);
+          progressListener?.({
+            stage: "migrating",
+            message: `正在执行迁移 v${migration.version}：${migration.description}`,
+            current,
+            total: pendingMigrationCount,
+          });
+          await migration.upgrade!(tx);
+        });
+      }
     });
   }
 }
@@ -51,28 +120,342 @@ export class SpecMasterDB extends Dexie {
 // 创建数据库单例
 export const db = new SpecMasterDB();
 
+/**
+ * 读取本机已有数据库的版本号（不存在时为 0）
+ * 使用不声明版本的临时连接，避免触发升级
+ */
+async function detectInstalledVersion(): Promise<number> {
+  if (!(await Dexie.exists(DB_NAME))) {
+    return 0;
+  }
+
+  const probe = new Dexie(DB_NAME);
+  try {
+    await probe.open();
+    return probe.verno;
+  } finally {
+    probe.close();
+  }
+}
+
+/**
+ * 按旧版本结构导出全部数据，用作迁移前快照
+ */
+async function snapshotInstalledDatabase(version: number): Promise<number> {
+  const probe = new Dexie(DB_NAME);
+  try {
+    await probe.open();
+    const tables: Record<string, any[]> = {};
+    for (const table of probe.tables) {
+      tables[table.name] = await table.toArray();
+    }
+    return await saveSnapshot("pre-migration", version, tables);
+  } finally {
+    probe.close();
+  }
+}
+
+/**
+ * 补写迁移记录
+ * 本次升级执行的版本记为 upgrade，其余未记录的版本记为 baseline
+ */
+async function recordMigrations(fromVersion: number): Promise<void> {
+  const recorded = new Set((await db.migration_log.toArray()).map((r) => r.version));
+  const appliedAt = new Date().toISOString();
+
+  const records: IMigrationRecord[] = MIGRATIONS.filter((m) => !recorded.has(m.version)).map(
+    (m) => ({
+      version: m.version,
+      description: m.description,
+      mode: fromVersion > 0 && m.version > fromVersion ? "upgrade" : "baseline",
+      applied_at: appliedAt,
+    })
+  );
+
+  if (records.length > 0) {
+    await db.migration_log.bulkAdd(records);
+  }
+}
+
 /**
  * 初始化数据库
- * 如果数据库为空，则导入初始 mock 数据
+ * 1. 检测本机数据库版本，需要升级时先保存快照
+ * 2. 打开数据库并执行待处理的迁移
+ * 3. 如果数据库为空，则导入初始 mock 数据
  */
-export async function initializeDatabase(): Promise<void> {
+export async function initializeDatabase(onProgress?: InitProgressListener): Promise<void> {
+  progressListener = onProgress || null;
+  let snapshotId: number | null = null;
+
   try {
+    onProgress?.({ stage: "checking", message: "正在检查数据库版本..." });
+    const installedVersion = await detectInstalledVersion();
+    const pending = installedVersion > 0 ? getPendingMigrations(installedVersion) : [];
+    pendingMigrationCount = pending.length;
+
+    if (pending.length > 0) {
+      onProgress?.({
+        stage: "snapshot",
+        message: `数据库需要从 v${installedVersion} 升级到 v${LATEST_DB_VERSION}，正在备份现有数据...`,
+      });
+      snapshotId = await snapshotInstalledDatabase(installedVersion);
+      console.log(`迁移前快照已保存：#${snapshotId}`);
+
+      onProgress?.({
+        stage: "migrating",
+        message: `正在升级数据库（共 ${pending.length} 个迁移）...`,
+        current: 0,
+        total: pending.length,
+      });
+    }
+
+    try {
+      await db.open();
+    } catch (error) {
+      if (pending.length > 0) {
+        throw new MigrationError(
+          `数据库升级失败：${(error as Error).message}`,
+          snapshotId
+        );
+      }
+      throw error;
+    }
+
+    await recordMigrations(installedVersion);
+
     // 检查是否已有数据
     const styleCount = await db.styles.count();
 
     if (styleCount === 0) {
+      onProgress?.({ stage: "seeding", message: "正在导入初始数据..." });
       console.log("数据库为空，正在导入初始数据...");
       await importInitialData();
       console.log("初始数据导入完成！");
     } else {
       console.log(`数据库已有 ${styleCount} 条款号数据，跳过初始化`);
     }
+
+    onProgress?.({ stage: "done", message: "数据库已就绪" });
   } catch (error) {
     console.error("数据库初始化失败:", error);
     throw error;
+  } finally {
+    progressListener = null;
+  }
+}
+
+/**
+ * 从迁移前快照恢复数据库（仅用于升级失败后的恢复）
+ * 删除当前数据库（包括审计日志、同步队列等全部表），并按快照时的旧版本结构重建；下次启动时会重新尝试升级
+ */
+export async function restorePreMigrationSnapshot(snapshotId: number): Promise<void> {
+  const snapshot = await getSnapshot(snapshotId);
+  if (!snapshot) {
+    throw new Error(`快照不存在：${snapshotId}`);
+  }
+
+  db.close();
+  await Dexie.delete(DB_NAME);
+
+  const legacy = new Dexie(DB_NAME);
+  legacy.version(snapshot.schema_version).stores(getSchemaAt(snapshot.schema_version));
+
+  try {
+    await legacy.open();
+    await legacy.transaction("rw", legacy.tables, async () => {
+      for (const [tableName, rows] of Object.entries(snapshot.tables)) {
+        if (rows.length > 0) {
+          await legacy.table(tableName).bulkAdd(rows);
+        }
+      }
+    });
+  } finally {
+    legacy.close();
   }
 }
 
+// 业务数据表（导出、快照、清空时使用）
+const BUSINESS_TABLE_NAMES = ["styles", "variants", "bom_items", "customers", "sizes", "units", "orders", "wastage_rules"];
+
+// 离线同步使用的表（变更队列、同步状态）
+const SYNC_TABLE_NAMES = ["sync_outbox", "sync_state"];
+
+/**
+ * 整体替换本机数据后清除同步状态（需在包含同步表的事务中调用）
+ * 下次同步时重新从头拉取，并把本机全部记录与服务器比对（见 sync.ts）
+ */
+async function resetSyncState(): Promise<void> {
+  await db.sync_outbox.clear();
+  await db.sync_state.clear();
+}
+
+/**
+ * 统计各业务表的记录数
+ */
+async function countBusinessTables(): Promise<Record<string, number>> {
+  const counts: Record<string, number> = {};
+  for (const tableName of BUSINESS_TABLE_NAMES) {
+    counts[tableName] = await db.table(tableName).count();
+  }
+  return counts;
+}
+
+/**
+ * 整体替换业务数据：清空业务表、ID 序列（按写入后的数据重新计算）和同步状态后写入新数据，
+ * 在同一事务中写一条审计日志（各表替换前后的记录数）
+ * @param write 写入新数据（在同一事务中执行）
+ */
+async function replaceBusinessData(operation: string, label: string, write: () => Promise<void>): Promise<void> {
+  await db.transaction(
+    "rw",
+    [...BUSINESS_TABLE_NAMES, "id_counters", "audit_logs", ...SYNC_TABLE_NAMES],
+    async () => {
+      const before = await countBusinessTables();
+      for (const tableName of BUSINESS_TABLE_NAMES) {
+        await db.table(tableName).clear();
+      }
+      await db.id_counters.clear();
+      await resetSyncState();
+
+      await write();
+      await recordReplaceAudit(operation, label, before, await countBusinessTables());
+    }
+  );
+  notifyOtherTabs(BUSINESS_TABLE_NAMES);
+}
+
+/**
+ * 读取所有业务表数据
+ */
+async function readBusinessTables(): Promise<Record<string, any[]>> {
+  const tables: Record<string, any[]> = {};
+  for (const tableName of BUSINESS_TABLE_NAMES) {
+    tables[tableName] = await db.table(tableName).toArray();
+  }
+  return tables;
+}
+
+/**
+ * 为当前数据创建快照
+ * @param note 附加说明（如被删除的记录）
+ * @param options.skipIfUnchanged 数据与同类最新快照相同时不创建
+ * @returns 新快照的 ID；跳过时返回 null
+ */
+export async function takeSnapshot(
+  reason: SnapshotReason,
+  note?: string,
+  options: { skipIfUnchanged?: boolean } = {}
+): Promise<number | null> {
+  const tables = await readBusinessTables();
+
+  if (options.skipIfUnchanged) {
+    const latest = await getLatestSnapshot(reason);
+    if (latest && latest.checksum === computeChecksum(tables)) {
+      return null;
+    }
+  }
+
+  return saveSnapshot(reason, db.verno, tables, note);
+}
+
+/**
+ * 把旧版本结构的快照升级到当前版本，返回升级后的业务表数据
+ * 在临时数据库中按快照版本写入数据，再执行之后登记的迁移，不影响正在使用的数据库
+ */
+async function migrateSnapshotTables(snapshot: ISnapshot): Promise<Record<string, any[]>> {
+  const tempName = `${DB_NAME}-restore-${Date.now()}`;
+
+  const legacy = new Dexie(tempName);
+  legacy.version(snapshot.schema_version).stores(getSchemaAt(snapshot.schema_version));
+  try {
+    await legacy.open();
+    await legacy.transaction("rw", legacy.tables, async () => {
+      for (const table of legacy.tables) {
+        const rows = snapshot.tables[table.name] || [];
+        if (rows.length > 0) {
+          await table.bulkAdd(rows);
+        }
+      }
+    });
+  } finally {
+    legacy.close();
+  }
+
+  const upgraded = new Dexie(tempName);
+  MIGRATIONS.forEach((migration) => {
+    const version = upgraded.version(migration.version).stores(migration.stores);
+    if (migration.upgrade) {
+      version.upgrade(migration.upgrade);
+    }
+  });
+  try {
+    await upgraded.open();
+    const tables: Record<string, any[]> = {};
+    for (const tableName of BUSINESS_TABLE_NAMES) {
+      tables[tableName] = await upgraded.table(tableName).toArray();
+    }
+    return tables;
+  } finally {
+    upgraded.close();
+    await Dexie.delete(tempName);
+  }
+}
+
+/**
+ * 从快照恢复数据（恢复前会先为当前数据创建快照）
+ * 只替换业务表，审计日志、迁移记录保留；旧版本结构的快照先在临时数据库中执行迁移
+ */
+export async function restoreSnapshot(snapshotId: number): Promise<void> {
+  const snapshot = await getSnapshot(snapshotId);
+  if (!snapshot) {
+    throw new Error(`快照不存在：${snapshotId}`);
+  }
+  if (snapshot.schema_version > db.verno) {
+    throw new Error(`快照版本 v${snapshot.schema_version} 高于当前数据库版本 v${db.verno}`);
+  }
+
+  await takeSnapshot("before-restore", `恢复快照 #${snapshotId} 前`);
+
+  const tables =
+    snapshot.schema_version < db.verno ? await migrateSnapshotTables(snapshot) : snapshot.tables;
+
+  await replaceBusinessData("restoreSnapshot", `恢复快照 #${snapshotId}`, async () => {
+    for (const tableName of BUSINESS_TABLE_NAMES) {
+      const rows = tables[tableName] || [];
+      if (rows.length > 0) {
+        await db.table(tableName).bulkAdd(rows);
+      }
+    }
+  });
+}
+
+/**
+ * 将快照转换为 JSON 备份格式（可直接用于导入）
+ */
+export async function exportSnapshotData(snapshotId: number): Promise<string> {
+  const snapshot = await getSnapshot(snapshotId);
+  if (!snapshot) {
+    throw new Error(`快照不存在：${snapshotId}`);
+  }
+
+  const data = {
+    exportDate: snapshot.created_at,
+    version: "1.0",
+    ...Object.fromEntries(
+      BUSINESS_TABLE_NAMES.map((tableName) => [tableName, snapshot.tables[tableName] || []])
+    ),
+  };
+
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * 获取迁移执行记录（按版本升序）
+ */
+export async function getMigrationHistory(): Promise<IMigrationRecord[]> {
+  return db.migration_log.orderBy("version").toArray();
+}
+
 /**
  * 导入初始 mock 数据
  */
@@ -107,67 +490,59 @@ export async function exportAllData(): Promise<string> {
     customers: await db.customers.toArray(),
     sizes: await db.sizes.toArray(),
     units: await db.units.toArray(),
+    orders: await db.orders.toArray(),
+    wastage_rules: await db.wastage_rules.toArray(),
   };
 
   return JSON.stringify(data, null, 2);
 }
 
+/**
+ * 解析并校验 JSON 备份文件
+ * 校验不通过时抛出 BackupValidationError（附带完整校验报告）
+ */
+export function parseBackupData(jsonString: string): IBackupData {
+  const report = validateBackupJson(jsonString);
+
+  if (!report.valid || !report.data) {
+    throw new BackupValidationError(report);
+  }
+
+  return report.data;
+}
+
 /**
  * 从 JSON 导入数据（会清除现有数据）
  */
 export async function importAllData(jsonString: string): Promise<void> {
-  const data = JSON.parse(jsonString);
+  const data = parseBackupData(jsonString);
 
-  // 验证数据格式
-  if (!data.styles || !data.variants || !data.bom_items) {
-    throw new Error("无效的数据格式");
-  }
+  await takeSnapshot("before-import");
 
-  await db.transaction(
-    "rw",
-    [db.styles, db.variants, db.bom_items, db.customers, db.sizes, db.units],
-    async () => {
-      // 清除现有数据
-      await db.styles.clear();
-      await db.variants.clear();
-      await db.bom_items.clear();
-      await db.customers.clear();
-      await db.sizes.clear();
-      await db.units.clear();
-
-      // 导入新数据
-      if (data.customers?.length) await db.customers.bulkAdd(data.customers);
-      if (data.sizes?.length) await db.sizes.bulkAdd(data.sizes);
-      if (data.units?.length) await db.units.bulkAdd(data.units);
-      if (data.styles?.length) await db.styles.bulkAdd(data.styles);
-      if (data.variants?.length) await db.variants.bulkAdd(data.variants);
-      if (data.bom_items?.length) await db.bom_items.bulkAdd(data.bom_items);
-    }
-  );
+  await replaceBusinessData("importAll", "覆盖导入", async () => {
+    if (data.customers?.length) await db.customers.bulkAdd(data.customers);
+    if (data.sizes?.length) await db.sizes.bulkAdd(data.sizes);
+    if (data.units?.length) await db.units.bulkAdd(data.units);
+    // 备份中的重复款号让出款号（款号为唯一索引），之后可在款号查重工具中合并
+    if (data.styles?.length) await db.styles.bulkAdd(withUniqueStyleNos(data.styles));
+    if (data.variants?.length) await db.variants.bulkAdd(data.variants);
+    if (data.bom_items?.length) await db.bom_items.bulkAdd(data.bom_items);
+    if (data.orders?.length) await db.orders.bulkAdd(data.orders);
+    if (data.wastage_rules?.length) await db.wastage_rules.bulkAdd(data.wastage_rules);
+  });
 }
 
 /**
  * 清除所有数据
  */
 export async function clearAllData(): Promise<void> {
-  await db.transaction(
-    "rw",
-    [db.styles, db.variants, db.bom_items, db.customers, db.sizes, db.units],
-    async () => {
-      await db.styles.clear();
-      await db.variants.clear();
-      await db.bom_items.clear();
-      await db.customers.clear();
-      await db.sizes.clear();
-      await db.units.clear();
-    }
-  );
+  await replaceBusinessData("clearAll", "清除所有数据", async () => {});
 }
 
 /**
  * 重置数据库为初始状态
  */
 export async function resetDatabase(): Promise<void> {
-  await clearAllData();
-  await importInitialData();
+  await takeSnapshot("before-reset");
+  await replaceBusinessData("reset", "重置为初始数据", importInitialData);
 }
@@ -0,0 +1,244 @@
+/**
+ * 列表筛选
+ * 实现 Refine CrudFilters 的完整语义（含 or / and 组合条件）
+ *
+ * 查询时优先挑选一个可走 Dexie 索引的条件缩小扫描范围
+ * （如 style_id、variant_id、customer_id 的 eq / in），
+ * 其余条件在遍历游标时逐条判断，避免先 toArray() 再过滤整表
+ */
+
+import type { Collection, Table } from "dexie";
+import type { CrudFilter, CrudFilters, LogicalFilter } from "@refinedev/core";
+
+// ========== 条件判断 ==========
+
+function isEmptyValue(value: unknown): boolean {
+  return value === undefined || value === null || value === "";
+}
+
+/**
+ * 条件是否生效（值为空的条件视为未设置，与原先 eq / contains 的行为一致）
+ */
+export function isActive(filter: CrudFilter): boolean {
+  if (filter.operator === "or" || filter.operator === "and") {
+    return filter.value.some(isActive);
+  }
+  if (filter.operator === "null" || filter.operator === "nnull") return true;
+  if (Array.isArray(filter.value)) {
+    return filter.value.some((v) => !isEmptyValue(v));
+  }
+  return !isEmptyValue(filter.value);
+}
+
+/**
+ * 宽松相等（与原先 eq 的 == 行为一致，"12" 与 12 视为相等）
+ */
+function looseEquals(a: unknown, b: unknown): boolean {
+  return a == b;
+}
+
+/**
+ * 大小比较：记录值为数字且条件值可转为数字时按数值比较，否则按字符串比较
+ * （日期字段为 YYYY-MM-DD 格式，按字符串比较即为时间顺序）
+ */
+function compare(recordValue: unknown, filterValue: unknown): number {
+  if (typeof recordValue === "number" && !isEmptyValue(filterValue) && !isNaN(Number(filterValue))) {
+    return recordValue - Number(filterValue);
+  }
+  const a = String(recordValue);
+  const b = String(filterValue);
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function inRange(recordValue: unknown, range: unknown): boolean {
+  const [start, end] = Array.isArray(range) ? range : [];
+  if (!isEmptyValue(start) && compare(recordValue, start) < 0) return false;
+  if (!isEmptyValue(end) && compare(recordValue, end) > 0) return false;
+  return true;
+}
+
+/**
+ * 字符串匹配类操作符（contains / startswith / endswith 及其区分大小写、取反版本）
+ */
+function matchText(operator: string, recordValue: unknown, filterValue: unknown): boolean {
+  const caseSensitive = /(containss|startswiths|endswiths)$/.test(operator);
+  const negate = /^n(contains|startswith|endswith)/.test(operator);
+
+  const text = caseSensitive ? String(recordValue ?? "") : String(recordValue ?? "").toLowerCase();
+  const search = caseSensitive ? String(filterValue) : String(filterValue).toLowerCase();
+
+  let matched: boolean;
+  if (operator.includes("startswith")) {
+    matched = text.startsWith(search);
+  } else if (operator.includes("endswith")) {
+    matched = text.endsWith(search);
+  } else {
+    matched = text.includes(search);
+  }
+
+  return negate ? !matched : matched;
+}
+
+function toList(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+function matchLogical(record: any, filter: LogicalFilter): boolean {
+  const { field, operator, value } = filter;
+  const recordValue = record?.[field];
+
+  switch (operator) {
+    case "eq":
+      return looseEquals(recordValue, value);
+    case "ne":
+      return !looseEquals(recordValue, value);
+    case "lt":
+      return !isEmptyValue(recordValue) && compare(recordValue, value) < 0;
+    case "gt":
+      return !isEmptyValue(recordValue) && compare(recordValue, value) > 0;
+    case "lte":
+      return !isEmptyValue(recordValue) && compare(recordValue, value) <= 0;
+    case "gte":
+      return !isEmptyValue(recordValue) && compare(recordValue, value) >= 0;
+    case "in":
+      return toList(value).some((v) => looseEquals(recordValue, v));
+    case "nin":
+      return !toList(value).some((v) => looseEquals(recordValue, v));
+    case "ina":
+      // 数组字段包含条件中的每一项
+      return Array.isArray(recordValue) && toList(value).every((v) => recordValue.includes(v));
+    case "nina":
+      return !(Array.isArray(recordValue) && toList(value).every((v) => recordValue.includes(v)));
+    case "between":
+      return !isEmptyValue(recordValue) && inRange(recordValue, value);
+    case "nbetween":
+      return isEmptyValue(recordValue) || !inRange(recordValue, value);
+    case "null":
+      return isEmptyValue(recordValue);
+    case "nnull":
+      return !isEmptyValue(recordValue);
+    default:
+      return matchText(operator, recordValue, value);
+  }
+}
+
+/**
+ * 判断记录是否满足单个条件（未生效的条件视为满足）
+ */
+export function matchesFilter(record: any, filter: CrudFilter): boolean {
+  if (!isActive(filter)) return true;
+
+  if (filter.operator === "or") {
+    return filter.value.filter(isActive).some((f) => matchesFilter(record, f));
+  }
+  if (filter.operator === "and") {
+    return filter.value.every((f) => matchesFilter(record, f));
+  }
+  return matchLogical(record, filter as LogicalFilter);
+}
+
+/**
+ * 判断记录是否满足全部条件（顶层条件之间为 and 关系）
+ */
+export function matchesFilters(record: any, filters?: CrudFilters): boolean {
+  return (filters || []).every((f) => matchesFilter(record, f));
+}
+
+// ========== 索引查询 ==========
+
+// 可走索引的操作符（按优先级排列：等值最精确，范围次之）
+const INDEXED_OPERATORS = ["eq", "in", "between", "gte", "lte", "gt", "lt", "startswiths", "startswith"];
+
+/**
+ * 等值查询的索引键：数字字符串同时匹配数字键（与 == 的宽松比较一致）
+ */
+export function equalityKeys(value: unknown): (string | number)[] {
+  if (typeof value === "string" && value.trim() !== "" && !isNaN(Number(value))) {
+    return [value, Number(value)];
+  }
+  // 布尔值等不能作为 IndexedDB 键，不走索引
+  return typeof value === "string" || typeof value === "number" ? [value] : [];
+}
+
+/**
+ * 为条件构造索引查询，条件不适合走索引时返回 null
+ * 范围查询只处理数字条件值：IndexedDB 中数字与字符串分开排序，
+ * 字符串条件值无法与宽松比较的语义保持一致
+ */
+function indexedCollection<T>(table: Table<T, any>, filter: LogicalFilter): Collection<T, any> | null {
+  const { field, operator, value } = filter;
+  const clause = table.where(field);
+
+  switch (operator) {
+    case "eq": {
+      const keys = equalityKeys(value);
+      return keys.length > 0 ? clause.anyOf(keys) : null;
+    }
+    case "in": {
+      const keys = toList(value).filter((v) => !isEmptyValue(v)).flatMap(equalityKeys);
+      return keys.length > 0 ? clause.anyOf(keys) : null;
+    }
+    case "between": {
+      const [start, end] = Array.isArray(value) ? value : [];
+      const hasStart = typeof start === "number";
+      const hasEnd = typeof end === "number";
+      if (hasStart && hasEnd) return clause.between(start, end, true, true);
+      if (hasStart && isEmptyValue(end)) return clause.aboveOrEqual(start);
+      if (hasEnd && isEmptyValue(start)) return clause.belowOrEqual(end);
+      return null;
+    }
+    case "gte":
+      return typeof value === "number" ? clause.aboveOrEqual(value) : null;
+    case "lte":
+      return typeof value === "number" ? clause.belowOrEqual(value) : null;
+    case "gt":
+      return typeof value === "number" ? clause.above(value) : null;
+    case "lt":
+      return typeof value === "number" ? clause.below(value) : null;
+    case "startswiths":
+      return typeof value === "string" ? clause.startsWith(value) : null;
+    case "startswith":
+      return typeof value === "string" ? clause.startsWithIgnoreCase(value) : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * 表中已建索引的字段（含主键）
+ */
+export function indexedFields(table: Table<any, any>): Set<string> {
+  const fields = table.schema.indexes
+    .filter((index) => !index.compound && !index.multi)
+    .map((index) => index.name);
+  return new Set([table.schema.primKey.name, ...fields]);
+}
+
+/**
+ * 按条件查询表数据
+ * 挑选一个可走索引的顶层条件作为起点，其余条件在游标上逐条过滤
+ */
+export async function queryRecords<T>(table: Table<T, any>, filters?: CrudFilters): Promise<T[]> {
+  const active = (filters || []).filter(isActive);
+  if (active.length === 0) {
+    return table.toArray();
+  }
+
+  const fields = indexedFields(table);
+  let collection: Collection<T, any> | null = null;
+
+  for (const operator of INDEXED_OPERATORS) {
+    for (const filter of active) {
+      if (filter.operator !== operator) continue;
+      if (!fields.has((filter as LogicalFilter).field)) continue;
+      collection = indexedCollection(table, filter as LogicalFilter);
+      if (collection) break;
+    }
+    if (collection) break;
+  }
+
+  // 索引只用于缩小范围，所有条件仍完整判断一次，保证语义一致
+  return (collection || table.toCollection())
+    .filter((record) => matchesFilters(record, active))
+    .toArray();
+}
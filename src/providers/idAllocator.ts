@@ -0,0 +1,93 @@
+/**
+ * ID 分配器
+ * 每张表各自维护一个持久化的 ID 序列（保存在 id_counters 表中），L4 规格明细单独一个序列
+ *
+ * 分配在 IndexedDB 读写事务中完成：同一数据库的读写事务即使来自不同标签页也会排队执行，
+ * 因此多个标签页同时新建记录不会拿到相同的 ID。
+ * 调用方应在同一个事务中分配 ID 并写入记录（事务范围包含 id_counters 和目标表），
+ * 这样分配出的 ID 在写入前不会被其他写入方（如合并导入沿用导入 ID）占用。
+ */
+
+import { db } from "./database";
+import type { ISpecDetail } from "../types/models";
+
+export type IdSequence =
+  | "styles"
+  | "variants"
+  | "bom_items"
+  | "customers"
+  | "sizes"
+  | "units"
+  | "orders"
+  | "wastage_rules"
+  | "spec_details";
+
+/**
+ * 序列分配时需要读取的表（规格明细嵌套在配料中）
+ */
+function sourceTable(sequence: IdSequence): string {
+  return sequence === "spec_details" ? "bom_items" : sequence;
+}
+
+/**
+ * 计算表中数据允许的最小下一个 ID
+ * - 普通表：主键最大值 + 1（导入、恢复等直接写入的记录也会被考虑在内）
+ * - 规格明细：计数器不存在时扫描全部配料（之后以计数器为准）
+ */
+async function minimumNextId(sequence: IdSequence, hasCounter: boolean): Promise<number> {
+  if (sequence === "spec_details") {
+    if (hasCounter) return 1;
+    let max = 0;
+    await db.bom_items.each((item) => {
+      (item.specDetails || []).forEach((spec) => {
+        if (typeof spec.id === "number" && spec.id > max) max = spec.id;
+      });
+    });
+    return Math.floor(max) + 1;
+  }
+
+  const lastId = await db.table(sequence).orderBy(":id").lastKey();
+  return typeof lastId === "number" ? lastId + 1 : 1;
+}
+
+/**
+ * 分配一组连续的 ID
+ */
+export async function allocateIds(sequence: IdSequence, count: number): Promise<number[]> {
+  if (count <= 0) return [];
+
+  return db.transaction("rw", [db.id_counters, db.table(sourceTable(sequence))], async () => {
+    const counter = await db.id_counters.get(sequence);
+    const start = Math.max(counter?.next ?? 1, await minimumNextId(sequence, !!counter));
+
+    await db.id_counters.put({ sequence, next: start + count });
+
+    return Array.from({ length: count }, (_, i) => start + i);
+  });
+}
+
+/**
+ * 分配单个 ID
+ */
+export async function allocateId(sequence: IdSequence): Promise<number> {
+  const [id] = await allocateIds(sequence, 1);
+  return id;
+}
+
+/**
+ * 为缺少 ID 的规格明细分配 ID（已有 ID 的保持不变）
+ */
+export async function assignSpecDetailIds(specDetails: ISpecDetail[] = []): Promise<ISpecDetail[]> {
+  const missing = specDetails.filter((spec) => typeof spec.id !== "number").length;
+  const ids = await allocateIds("spec_details", missing);
+
+  let next = 0;
+  return specDetails.map((spec) => (typeof spec.id === "number" ? spec : { ...spec, id: ids[next++] }));
+}
+
+/**
+ * 读写事务需要包含的表：调用方在事务中分配 ID 时使用
+ */
+export function allocatorTables(...sequences: IdSequence[]): string[] {
+  return Array.from(new Set(["id_counters", ...sequences.map(sourceTable)]));
+}
@@ -0,0 +1,93 @@
+import "fake-indexeddb/auto";
+import { beforeEach, describe, expect, it } from "vitest";
+import { clearAllData, db } from "./database";
+import { analyzeMergeImport, applyMergeImport } from "./mergeImport";
+import type { IBackupData, IOrder } from "../types/models";
+
+const backup = (data: Partial<IBackupData>): IBackupData => ({
+  exportDate: "2024-01-01T00:00:00.000Z",
+  version: "1.0",
+  styles: [],
+  variants: [],
+  bom_items: [],
+  customers: [],
+  sizes: [],
+  units: [],
+  ...data,
+});
+
+const order = (id: number, styleId: number, variantId: number): IOrder => ({
+  id,
+  style_id: styleId,
+  style_no: "A001",
+  order_date: "2024-01-03",
+  create_date: "2024-01-03",
+  total_qty: 10,
+  lines: [
+    { variant_id: variantId, color_name: "黑色", size_orders: [{ size: "S", quantity: 10 }], total_qty: 10, rows: [] },
+  ],
+});
+
+describe("mergeImport", () => {
+  beforeEach(async () => {
+    await db.open();
+    await clearAllData();
+  });
+
+  it("款号去除首尾空格后与本地款号匹配", async () => {
+    await db.styles.add({ id: 1, style_no: "A001", create_date: "2024-01-01" });
+
+    const plan = await analyzeMergeImport(
+      backup({ styles: [{ id: 7, style_no: "A001 ", create_date: "2024-01-01" }] })
+    );
+    expect(plan.summary.styles).toEqual({ added: 0, identical: 1, conflicts: 0, unmatched: 0 });
+
+    await applyMergeImport(plan, {});
+    expect((await db.styles.toArray()).map((style) => style.style_no)).toEqual(["A001"]);
+  });
+
+  it("生产订单改写为合并后的款号和颜色版本ID，内容相同的订单跳过", async () => {
+    await db.styles.add({ id: 1, style_no: "A001", create_date: "2024-01-01" });
+    await db.variants.add({ id: 1, style_id: 1, color_name: "黑色", sample_image_url: "" });
+    await db.orders.add(order(1, 1, 1));
+
+    const incomingOrder = { ...order(5, 7, 9), order_date: "2024-02-01" };
+    const plan = await analyzeMergeImport(
+      backup({
+        styles: [{ id: 7, style_no: "A001", create_date: "2024-01-01" }],
+        variants: [{ id: 9, style_id: 7, color_name: "黑色", sample_image_url: "" }],
+        orders: [order(4, 7, 9), incomingOrder, order(6, 8, 9)],
+      })
+    );
+    expect(plan.summary.orders).toEqual({ added: 1, identical: 1, conflicts: 0, unmatched: 1 });
+
+    const result = await applyMergeImport(plan, {});
+    expect(result.added.orders).toBe(1);
+    expect(result.skipped.orders).toBe(2);
+    const merged = await db.orders.get(5);
+    expect(merged?.style_id).toBe(1);
+    expect(merged?.lines.map((line) => line.variant_id)).toEqual([1]);
+  });
+
+  it("损耗规则按适用范围和匹配值匹配，两者都保留时导入的规则停用", async () => {
+    await db.wastage_rules.add({ id: 1, scope: "material", match_value: "缝纫线", percent: 3, is_active: true });
+
+    const plan = await analyzeMergeImport(
+      backup({
+        wastage_rules: [
+          { id: 1, scope: "material", match_value: "缝纫线 ", percent: 5, is_active: true },
+          { id: 2, scope: "supplier", match_value: "华美线业", percent: 2, is_active: true },
+        ],
+      })
+    );
+    expect(plan.summary.wastage_rules).toEqual({ added: 1, identical: 0, conflicts: 1, unmatched: 0 });
+
+    await applyMergeImport(plan, { [plan.conflicts[0].key]: "both" });
+    const rules = await db.wastage_rules.toArray();
+    expect(rules.map((rule) => [rule.scope, rule.percent, rule.is_active])).toEqual([
+      ["material", 3, true],
+      ["material", 5, false],
+      ["supplier", 2, true],
+    ]);
+  });
+});
@@ -0,0 +1,667 @@
+/**
+ * 合并导入
+ * 将他人的备份合并进本地数据，而不是清空后覆盖
+ *
+ * 匹配规则（自然键）：
+ * - 客户：customer_name
+ * - 尺码：size_code
+ * - 单位：unit_code
+ * - 款号：style_no（去除首尾空格后比较）
+ * - 颜色版本：style_id + color_name（配料随颜色版本一起处理）
+ * - 损耗规则：scope + match_value（匹配值不区分大小写，与计算损耗时的匹配规则一致）
+ *
+ * 自然键相同但内容不同的记录视为冲突，由用户逐条选择：
+ * - mine：保留本地记录，忽略导入内容
+ * - theirs：用导入内容覆盖本地记录（保留本地 ID），颜色版本的本地配料移入回收站
+ * - both：两者都保留，导入记录的自然键加后缀以示区分（损耗规则不加后缀，导入的规则以停用状态保存）
+ *
+ * 生产订单没有自然键，内容（忽略 ID）与本地订单相同时跳过，否则作为新订单导入，
+ * 款号ID和各颜色的颜色版本ID改为合并后的本地 ID；所属款号或颜色版本不在导入数据中的订单无法挂载，不导入。
+ * 备份中回收站里的款号、颜色版本、配料不导入
+ *
+ * 每条写入的记录都写审计日志（同时登记同步变更队列）
+ */
+
+import type { Table } from "dexie";
+import { db, takeSnapshot } from "./database";
+import { allocateId as allocateSequenceId, type IdSequence } from "./idAllocator";
+import { cascadeSoftDelete } from "./cascade";
+import { normalizeStyleNo } from "./styleNo";
+import {
+  auditTables,
+  cascadeAuditInputs,
+  createAuditBatch,
+  readCascadeRecords,
+  recordAudit,
+  type IAuditInput,
+} from "./audit";
+import { remapOrderVariants } from "./orders";
+import { WASTAGE_SCOPE_LABELS } from "../utils/wastage";
+import type { IBackupData, IBOMItem, IColorVariant, IOrder, IWastageRule } from "../types/models";
+
+export type MergeResolution = "mine" | "theirs" | "both";
+
+export type MergeTable = "customers" | "sizes" | "units" | "styles" | "variants" | "wastage_rules";
+
+/**
+ * 合并预估与结果中统计的数据（生产订单不会冲突，只统计数量）
+ */
+export type MergeSummaryTable = MergeTable | "orders";
+
+/**
+ * 合并冲突
+ */
+export interface IMergeConflict {
+  key: string;              // 冲突唯一标识（table:incomingId）
+  table: MergeTable;
+  naturalKey: string;       // 自然键的显示文本
+  localId: number;
+  incomingId: number;
+  local: any;
+  incoming: any;
+  changedFields: string[];  // 内容不同的字段
+  parentKey?: string;       // 颜色版本冲突所属款号冲突的 key（款号选择 both 时该冲突不再生效）
+}
+
+/**
+ * 各表的合并预估
+ */
+export interface IMergeTableSummary {
+  added: number;            // 本地不存在，将新增
+  identical: number;        // 本地已存在且内容一致，将跳过
+  conflicts: number;        // 存在冲突
+  unmatched: number;        // 所属记录不在导入数据中，无法导入
+}
+
+/**
+ * 合并计划（analyzeMergeImport 的结果）
+ */
+export interface IMergePlan {
+  data: IBackupData;
+  conflicts: IMergeConflict[];
+  summary: Record<MergeSummaryTable, IMergeTableSummary>;
+}
+
+/**
+ * 合并结果
+ */
+export interface IMergeResult {
+  added: Record<MergeSummaryTable | "bom_items", number>;
+  updated: Record<MergeSummaryTable | "bom_items", number>;
+  skipped: Record<MergeSummaryTable | "bom_items", number>;
+}
+
+// 比较内容时忽略的字段（主键和外键会被重新映射）
+const IGNORED_FIELDS = ["id", "style_id", "variant_id", "customer_id"];
+
+// 各基础表的自然键字段
+const NATURAL_KEY_FIELDS = {
+  customers: "customer_name",
+  sizes: "size_code",
+  units: "unit_code",
+  styles: "style_no",
+} as const;
+
+/**
+ * 去除主键、外键后的可比较内容
+ */
+function comparable(record: any): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  Object.keys(record)
+    .filter((key) => !IGNORED_FIELDS.includes(key) && record[key] !== undefined)
+    .sort()
+    .forEach((key) => {
+      result[key] = record[key];
+    });
+  return result;
+}
+
+/**
+ * 找出两条记录中内容不同的字段
+ */
+function diffFields(local: any, incoming: any): string[] {
+  const a = comparable(local);
+  const b = comparable(incoming);
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return Array.from(keys).filter((key) => JSON.stringify(a[key]) !== JSON.stringify(b[key]));
+}
+
+/**
+ * 配料明细的可比较内容（忽略 ID 和 L4 规格行 ID）
+ */
+function comparableBomItems(items: IBOMItem[]): string[] {
+  return items
+    .map((item) =>
+      JSON.stringify({
+        ...comparable(item),
+        specDetails: (item.specDetails || []).map((spec) => ({ ...spec, id: undefined })),
+      })
+    )
+    .sort();
+}
+
+/**
+ * 损耗规则的自然键
+ */
+function wastageRuleKey(rule: Pick<IWastageRule, "scope" | "match_value">): string {
+  return `${rule.scope}:${(rule.match_value || "").trim().toLowerCase()}`;
+}
+
+/**
+ * 订单的可比较内容（忽略订单ID、款号ID、颜色版本ID和修订号）
+ */
+function comparableOrder(order: IOrder): string {
+  return JSON.stringify(
+    comparable({
+      ...order,
+      revision: undefined,
+      lines: order.lines.map((line) => ({ ...line, variant_id: undefined })),
+    })
+  );
+}
+
+/**
+ * 订单能否挂载到导入数据中的款号和颜色版本
+ */
+function canMountOrder(order: IOrder, data: IBackupData): boolean {
+  const variantIds = new Set(data.variants.filter((v) => v.style_id === order.style_id).map((v) => v.id));
+  return (
+    data.styles.some((s) => s.id === order.style_id) &&
+    order.lines.every((line) => variantIds.has(line.variant_id))
+  );
+}
+
+/**
+ * 导入记录写入本地前去掉回收站标记和修订号（修订号属于对方的同步服务器）
+ */
+function toLocalRecord<T>(raw: T): T {
+  return { ...raw, deleted_at: undefined, deleted_batch: undefined, revision: undefined };
+}
+
+/**
+ * 整理待合并的备份数据：去掉回收站里的款号、颜色版本、配料，款号去除首尾空格（与本地款号按相同规则匹配）
+ */
+function toMergeData(data: IBackupData): IBackupData {
+  const live = <T extends { deleted_at?: string }>(records: T[]) => (records || []).filter((r) => !r.deleted_at);
+  return {
+    ...data,
+    styles: live(data.styles).map((style) => ({ ...style, style_no: normalizeStyleNo(style.style_no) })),
+    variants: live(data.variants),
+    bom_items: live(data.bom_items),
+  };
+}
+
+/**
+ * 为"两者都保留"的记录生成不重复的自然键
+ */
+function makeUniqueKey(base: string, taken: Set<string>): string {
+  let index = 2;
+  while (taken.has(`${base}-${index}`)) {
+    index++;
+  }
+  const key = `${base}-${index}`;
+  taken.add(key);
+  return key;
+}
+
+function emptySummary(): Record<MergeSummaryTable, IMergeTableSummary> {
+  const tables: MergeSummaryTable[] = ["customers", "sizes", "units", "styles", "variants", "wastage_rules", "orders"];
+  return Object.fromEntries(
+    tables.map((t) => [t, { added: 0, identical: 0, conflicts: 0, unmatched: 0 }])
+  ) as Record<MergeSummaryTable, IMergeTableSummary>;
+}
+
+function emptyCounter(): Record<MergeSummaryTable | "bom_items", number> {
+  return { customers: 0, sizes: 0, units: 0, styles: 0, variants: 0, bom_items: 0, wastage_rules: 0, orders: 0 };
+}
+
+function conflictKey(table: MergeTable, incomingId: number): string {
+  return `${table}:${incomingId}`;
+}
+
+/**
+ * 分析合并导入：找出新增、重复和冲突的记录
+ * 只读操作，不修改本地数据
+ */
+export async function analyzeMergeImport(backup: IBackupData): Promise<IMergePlan> {
+  const data = toMergeData(backup);
+  const summary = emptySummary();
+  const conflicts: IMergeConflict[] = [];
+
+  const localData = {
+    customers: await db.customers.toArray(),
+    sizes: await db.sizes.toArray(),
+    units: await db.units.toArray(),
+    // 回收站中的款号不参与匹配
+    styles: (await db.styles.toArray()).filter((s) => !s.deleted_at),
+    wastage_rules: await db.wastage_rules.toArray(),
+    orders: await db.orders.toArray(),
+  };
+
+  // ========== 基础数据与款号：按自然键匹配 ==========
+  (Object.keys(NATURAL_KEY_FIELDS) as (keyof typeof NATURAL_KEY_FIELDS)[]).forEach((table) => {
+    const field = NATURAL_KEY_FIELDS[table];
+    const localByKey = new Map<string, any>(
+      localData[table].map((record: any) => [String(record[field]), record])
+    );
+
+    ((data[table] || []) as any[]).forEach((incoming) => {
+      const local = localByKey.get(String(incoming[field]));
+      if (!local) {
+        summary[table].added++;
+        return;
+      }
+
+      const changedFields = diffFields(local, incoming);
+      if (changedFields.length === 0) {
+        summary[table].identical++;
+        return;
+      }
+
+      summary[table].conflicts++;
+      conflicts.push({
+        key: conflictKey(table, incoming.id),
+        table,
+        naturalKey: String(incoming[field]),
+        localId: local.id,
+        incomingId: incoming.id,
+        local,
+        incoming,
+        changedFields,
+      });
+    });
+  });
+
+  // ========== 颜色版本：仅当所属款号在本地已存在时才可能冲突 ==========
+  const localStyleByNo = new Map(localData.styles.map((s) => [s.style_no, s]));
+  const incomingStyleById = new Map((data.styles || []).map((s) => [s.id, s]));
+
+  for (const incoming of data.variants || []) {
+    const incomingStyle = incomingStyleById.get(incoming.style_id);
+    const localStyle = incomingStyle ? localStyleByNo.get(incomingStyle.style_no) : undefined;
+
+    if (!localStyle) {
+      summary.variants.added++;
+      continue;
+    }
+
+    const local = await db.variants
+      .where("style_id")
+      .equals(localStyle.id)
+      .filter((v) => v.color_name === incoming.color_name && !v.deleted_at)
+      .first();
+
+    if (!local) {
+      summary.variants.added++;
+      continue;
+    }
+
+    const localBoms = (await db.bom_items.where("variant_id").equals(local.id).toArray()).filter(
+      (b) => !b.deleted_at
+    );
+    const incomingBoms = (data.bom_items || []).filter((b) => b.variant_id === incoming.id);
+
+    const changedFields = diffFields(local, incoming);
+    if (
+      JSON.stringify(comparableBomItems(localBoms)) !==
+      JSON.stringify(comparableBomItems(incomingBoms))
+    ) {
+      changedFields.push("bom_items");
+    }
+
+    if (changedFields.length === 0) {
+      summary.variants.identical++;
+      continue;
+    }
+
+    summary.variants.conflicts++;
+    conflicts.push({
+      key: conflictKey("variants", incoming.id),
+      table: "variants",
+      naturalKey: `${localStyle.style_no} / ${incoming.color_name}`,
+      localId: local.id,
+      incomingId: incoming.id,
+      local: { ...local, bom_count: localBoms.length },
+      incoming: { ...incoming, bom_count: incomingBoms.length },
+      changedFields,
+      parentKey: conflictKey("styles", incomingStyle!.id),
+    });
+  }
+
+  // ========== 损耗规则：按适用范围 + 匹配值匹配 ==========
+  const localRuleByKey = new Map(localData.wastage_rules.map((r) => [wastageRuleKey(r), r]));
+
+  for (const incoming of data.wastage_rules || []) {
+    const local = localRuleByKey.get(wastageRuleKey(incoming));
+    if (!local) {
+      summary.wastage_rules.added++;
+      continue;
+    }
+
+    const changedFields = diffFields(local, incoming);
+    if (changedFields.length === 0) {
+      summary.wastage_rules.identical++;
+      continue;
+    }
+
+    summary.wastage_rules.conflicts++;
+    conflicts.push({
+      key: conflictKey("wastage_rules", incoming.id),
+      table: "wastage_rules",
+      naturalKey: `${WASTAGE_SCOPE_LABELS[incoming.scope] ?? incoming.scope}「${incoming.match_value}」`,
+      localId: local.id,
+      incomingId: incoming.id,
+      local,
+      incoming,
+      changedFields,
+    });
+  }
+
+  // ========== 生产订单：内容相同的跳过，其余作为新订单导入 ==========
+  const localOrders = new Set(localData.orders.map(comparableOrder));
+
+  for (const incoming of data.orders || []) {
+    if (!canMountOrder(incoming, data)) {
+      summary.orders.unmatched++;
+    } else if (localOrders.has(comparableOrder(incoming))) {
+      summary.orders.identical++;
+    } else {
+      summary.orders.added++;
+    }
+  }
+
+  return { data, conflicts, summary };
+}
+
+/**
+ * 执行合并导入
+ * 在单个事务中完成，任何一步失败都会整体回滚
+ * @param resolutions 冲突 key → 处理方式，未指定的冲突默认保留本地记录
+ */
+export async function applyMergeImport(
+  plan: IMergePlan,
+  resolutions: Record<string, MergeResolution>
+): Promise<IMergeResult> {
+  const { data } = plan;
+  const result: IMergeResult = {
+    added: emptyCounter(),
+    updated: emptyCounter(),
+    skipped: emptyCounter(),
+  };
+  const conflictByKey = new Map(plan.conflicts.map((c) => [c.key, c]));
+
+  await takeSnapshot("before-import", "合并导入前");
+
+  await db.transaction(
+    "rw",
+    auditTables(
+      "styles",
+      "variants",
+      "bom_items",
+      "customers",
+      "sizes",
+      "units",
+      "orders",
+      "wastage_rules",
+      "id_counters"
+    ),
+    async () => {
+      const operation = "mergeImport";
+      const auditBatch = createAuditBatch(operation);
+      const audits: IAuditInput[] = [];
+      const audit = (action: "create" | "update", resource: string, after: any, before?: any) =>
+        audits.push({ action, operation, resource, before, after, batch: auditBatch });
+
+      // ========== ID 分配 ==========
+      // 导入记录的 ID 在本地未被占用时沿用，否则从该表的 ID 序列中分配
+      const allocateId = async (table: Table<any, any>, incomingId: number) => {
+        const taken = await table.get(incomingId);
+        return taken ? allocateSequenceId(table.name as IdSequence) : incomingId;
+      };
+
+      // 导入配料中的规格明细沿用原 ID，规格序列在下次分配时重新计算
+      await db.id_counters.delete("spec_details");
+
+      // ========== 基础数据与款号 ==========
+      const idMaps: Record<keyof typeof NATURAL_KEY_FIELDS, Map<number, number>> = {
+        customers: new Map(),
+        sizes: new Map(),
+        units: new Map(),
+        styles: new Map(),
+      };
+      // 款号选择 both 时，其下的颜色版本全部作为新记录导入
+      const forcedNewStyleIds = new Set<number>();
+
+      const tableOrder: (keyof typeof NATURAL_KEY_FIELDS)[] = [
+        "customers",
+        "sizes",
+        "units",
+        "styles",
+      ];
+
+      for (const tableName of tableOrder) {
+        const table = db.table(tableName);
+        const field = NATURAL_KEY_FIELDS[tableName];
+        const allRecords: any[] = await table.toArray();
+        const localRecords = allRecords.filter((r: any) => !r.deleted_at);
+        const localByKey = new Map(localRecords.map((r) => [String(r[field]), r]));
+        // 回收站中的款号不参与匹配，但仍占用款号（唯一索引）
+        const takenKeys = new Set(allRecords.map((r) => String(r[field])));
+
+        for (const raw of (data[tableName] || []) as any[]) {
+          let incoming: any = toLocalRecord(raw);
+
+          // 款号需要重新映射客户外键，并同步冗余的客户名称
+          if (tableName === "styles" && incoming.customer_id !== undefined) {
+            const customerId = idMaps.customers.get(incoming.customer_id);
+            if (customerId !== undefined) {
+              const customer = await db.customers.get(customerId);
+              incoming = {
+                ...incoming,
+                customer_id: customerId,
+                customer_name: customer?.customer_name ?? incoming.customer_name,
+              };
+            }
+          }
+
+          const local = localByKey.get(String(incoming[field]));
+
+          if (!local) {
+            const newId = await allocateId(table, raw.id);
+            // 款号已被回收站中的款号或前面导入的款号占用时加后缀
+            if (tableName === "styles" && takenKeys.has(String(incoming[field]))) {
+              incoming = { ...incoming, [field]: makeUniqueKey(String(incoming[field]), takenKeys) };
+            }
+            const record = { ...incoming, id: newId };
+            await table.add(record);
+            audit("create", tableName, record);
+            idMaps[tableName].set(raw.id, newId);
+            takenKeys.add(String(incoming[field]));
+            result.added[tableName]++;
+            continue;
+          }
+
+          const conflict = conflictByKey.get(conflictKey(tableName, raw.id));
+          const resolution: MergeResolution = conflict ? resolutions[conflict.key] || "mine" : "mine";
+
+          if (resolution === "theirs") {
+            const record = { ...incoming, id: local.id, revision: local.revision };
+            await table.put(record);
+            audit("update", tableName, record, local);
+            idMaps[tableName].set(raw.id, local.id);
+            result.updated[tableName]++;
+          } else if (resolution === "both") {
+            const newId = await allocateId(table, raw.id);
+            const record = {
+              ...incoming,
+              id: newId,
+              [field]: makeUniqueKey(String(incoming[field]), takenKeys),
+            };
+            await table.add(record);
+            audit("create", tableName, record);
+            idMaps[tableName].set(raw.id, newId);
+            if (tableName === "styles") forcedNewStyleIds.add(newId);
+            result.added[tableName]++;
+          } else {
+            idMaps[tableName].set(raw.id, local.id);
+            result.skipped[tableName]++;
+          }
+        }
+      }
+
+      // ========== 颜色版本及其配料 ==========
+      // 导入颜色版本ID → 本地颜色版本ID（用于改写订单）
+      const variantIdMap = new Map<number, number>();
+
+      const addBomItems = async (items: IBOMItem[], variantId: number) => {
+        for (const item of items) {
+          const newId = await allocateId(db.bom_items, item.id);
+          const record = { ...toLocalRecord(item), id: newId, variant_id: variantId };
+          await db.bom_items.add(record);
+          audit("create", "bom_items", record);
+          result.added.bom_items++;
+        }
+      };
+
+      for (const raw of data.variants || []) {
+        const styleId = idMaps.styles.get(raw.style_id);
+        const incomingBoms = (data.bom_items || []).filter((b) => b.variant_id === raw.id);
+
+        // 所属款号不在导入数据中，无法挂载
+        if (styleId === undefined) {
+          result.skipped.variants++;
+          result.skipped.bom_items += incomingBoms.length;
+          continue;
+        }
+
+        const incoming: IColorVariant = { ...toLocalRecord(raw), style_id: styleId };
+        const local = forcedNewStyleIds.has(styleId)
+          ? undefined
+          : await db.variants
+              .where("style_id")
+              .equals(styleId)
+              .filter((v) => v.color_name === raw.color_name && !v.deleted_at)
+              .first();
+
+        if (!local) {
+          const newId = await allocateId(db.variants, raw.id);
+          const record = { ...incoming, id: newId };
+          await db.variants.add(record);
+          audit("create", "variants", record);
+          variantIdMap.set(raw.id, newId);
+          result.added.variants++;
+          await addBomItems(incomingBoms, newId);
+          continue;
+        }
+
+        const conflict = conflictByKey.get(conflictKey("variants", raw.id));
+        const resolution: MergeResolution = conflict ? resolutions[conflict.key] || "mine" : "mine";
+
+        if (resolution === "theirs") {
+          const record = { ...incoming, id: local.id, revision: local.revision };
+          await db.variants.put(record);
+          audit("update", "variants", record, local);
+          variantIdMap.set(raw.id, local.id);
+
+          // 本地配料移入回收站，由导入的配料替换
+          const localBoms = await db.bom_items.where("variant_id").equals(local.id).toArray();
+          for (const item of localBoms.filter((b) => !b.deleted_at)) {
+            const records = await readCascadeRecords("bom_items", item.id);
+            const summary = await cascadeSoftDelete("bom_items", item.id);
+            audits.push(
+              ...cascadeAuditInputs(records, summary, {
+                action: "delete",
+                operation,
+                batch: auditBatch,
+                note: "合并导入时由导入的配料替换",
+              })
+            );
+          }
+          result.updated.variants++;
+          await addBomItems(incomingBoms, local.id);
+        } else if (resolution === "both") {
+          const takenColors = new Set(
+            (await db.variants.where("style_id").equals(styleId).toArray()).map((v) => v.color_name)
+          );
+          const newId = await allocateId(db.variants, raw.id);
+          const record = { ...incoming, id: newId, color_name: makeUniqueKey(raw.color_name, takenColors) };
+          await db.variants.add(record);
+          audit("create", "variants", record);
+          variantIdMap.set(raw.id, newId);
+          result.added.variants++;
+          await addBomItems(incomingBoms, newId);
+        } else {
+          variantIdMap.set(raw.id, local.id);
+          result.skipped.variants++;
+          result.skipped.bom_items += incomingBoms.length;
+        }
+      }
+
+      // ========== 损耗规则 ==========
+      const localRuleByKey = new Map((await db.wastage_rules.toArray()).map((r) => [wastageRuleKey(r), r]));
+
+      for (const raw of data.wastage_rules || []) {
+        const incoming = toLocalRecord(raw);
+        const local = localRuleByKey.get(wastageRuleKey(incoming));
+        const conflict = conflictByKey.get(conflictKey("wastage_rules", raw.id));
+        const resolution: MergeResolution = conflict ? resolutions[conflict.key] || "mine" : "mine";
+
+        if (!local || resolution === "both") {
+          // 两者都保留时导入的规则停用，计算损耗仍使用本地规则
+          const newId = await allocateId(db.wastage_rules, raw.id);
+          const record = { ...incoming, id: newId, is_active: local ? false : incoming.is_active };
+          await db.wastage_rules.add(record);
+          audit("create", "wastage_rules", record);
+          if (!local) localRuleByKey.set(wastageRuleKey(record), record);
+          result.added.wastage_rules++;
+        } else if (resolution === "theirs") {
+          const record = { ...incoming, id: local.id, revision: local.revision };
+          await db.wastage_rules.put(record);
+          audit("update", "wastage_rules", record, local);
+          result.updated.wastage_rules++;
+        } else {
+          result.skipped.wastage_rules++;
+        }
+      }
+
+      // ========== 生产订单 ==========
+      const localOrders = new Set((await db.orders.toArray()).map(comparableOrder));
+
+      for (const raw of data.orders || []) {
+        const styleId = idMaps.styles.get(raw.style_id);
+        if (
+          styleId === undefined ||
+          !raw.lines.every((line) => variantIdMap.has(line.variant_id)) ||
+          localOrders.has(comparableOrder(raw))
+        ) {
+          result.skipped.orders++;
+          continue;
+        }
+
+        const newId = await allocateId(db.orders, raw.id);
+        const record = remapOrderVariants({ ...toLocalRecord(raw), id: newId, style_id: styleId }, variantIdMap);
+        await db.orders.add(record);
+        audit("create", "orders", record);
+        localOrders.add(comparableOrder(record));
+        result.added.orders++;
+      }
+
+      await recordAudit(audits);
+    }
+  );
+
+  return result;
+}
+
+/**
+ * 冲突记录的显示名称
+ */
+export const MERGE_TABLE_LABELS: Record<MergeSummaryTable, string> = {
+  customers: "客户",
+  sizes: "尺码",
+  units: "单位",
+  styles: "款号",
+  variants: "颜色版本",
+  wastage_rules: "损耗规则",
+  orders: "生产订单",
+};
@@ -0,0 +1,164 @@
+/**
+ * 数据库迁移注册表
+ * 每个版本对应一次 schema 变更，可选 upgrade 函数用于转换已有数据
+ *
+ * 新增版本的步骤：
+ * 1. 在 MIGRATIONS 末尾追加一项，version 必须递增
+ * 2. stores 中只需写出本次新增或变更的表（置为 null 表示删除该表）
+ * 3. 需要转换旧数据时提供 upgrade，函数内只能通过 tx.table() 访问数据
+ */
+
+import type { Transaction } from "dexie";
+import { withUniqueStyleNos } from "./styleNo";
+import { toMultiColorOrder } from "./orders";
+
+/**
+ * 单个迁移定义
+ */
+export interface IMigration {
+  version: number;                           // 数据库版本号（递增）
+  description: string;                       // 迁移说明（用于进度提示和迁移记录）
+  stores: Record<string, string | null>;     // 本版本新增/变更的表结构
+  upgrade?: (tx: Transaction) => Promise<void>; // 数据转换函数（可选）
+}
+
+/**
+ * 迁移注册表（按版本号升序排列）
+ * 索引格式: ++id 表示自增主键, &field 表示唯一索引, field 表示普通索引
+ */
+export const MIGRATIONS: IMigration[] = [
+  {
+    version: 1,
+    description: "初始数据结构",
+    stores: {
+      styles: "++id, style_no, customer_id",
+      variants: "++id, style_id, color_name",
+      bom_items: "++id, variant_id, material_name",
+      customers: "++id, customer_name",
+      sizes: "++id, size_code, sort_order",
+      units: "++id, unit_code",
+    },
+  },
+  {
+    version: 2,
+    description: "新增迁移记录表",
+    stores: {
+      migration_log: "++id, &version",
+    },
+  },
+  {
+    version: 3,
+    description: "新增日期索引与复合索引（列表分页查询走索引）",
+    stores: {
+      styles: "++id, style_no, customer_id, create_date, [customer_id+create_date]",
+      customers: "++id, customer_name, create_date",
+    },
+  },
+  {
+    version: 4,
+    description: "新增 ID 序列计数器表",
+    stores: {
+      id_counters: "sequence",
+    },
+  },
+  {
+    version: 5,
+    description: "新增软删除索引（回收站）",
+    stores: {
+      styles:
+        "++id, style_no, customer_id, create_date, [customer_id+create_date], deleted_at, deleted_batch",
+      variants: "++id, style_id, color_name, deleted_at, deleted_batch",
+      bom_items: "++id, variant_id, material_name, deleted_at, deleted_batch",
+    },
+  },
+  {
+    version: 6,
+    description: "新增审计日志表",
+    stores: {
+      audit_logs: "++id, [resource+record_id], style_id, batch, created_at",
+    },
+  },
+  {
+    version: 7,
+    description: "新增离线同步变更队列与同步状态表",
+    stores: {
+      sync_outbox: "++id, &[resource+record_id]",
+      sync_state: "key",
+    },
+  },
+  {
+    version: 8,
+    description: "处理重复款号（为款号唯一索引做准备）",
+    stores: {},
+    // 唯一索引在升级函数之前创建，重复数据需在前一个版本中处理
+    upgrade: async (tx) => {
+      const styles = tx.table("styles");
+      await styles.bulkPut(withUniqueStyleNos(await styles.toArray()));
+    },
+  },
+  {
+    version: 9,
+    description: "款号改为唯一索引",
+    stores: {
+      styles:
+        "++id, &style_no, customer_id, create_date, [customer_id+create_date], deleted_at, deleted_batch",
+    },
+  },
+  {
+    version: 10,
+    description: "新增生产订单表",
+    stores: {
+      orders: "++id, style_id, variant_id, order_date, create_date",
+    },
+  },
+  {
+    version: 11,
+    description: "生产订单支持多个颜色",
+    stores: {
+      orders: "++id, style_id, order_date, create_date",
+    },
+    upgrade: async (tx) => {
+      const orders = tx.table("orders");
+      await orders.bulkPut((await orders.toArray()).map(toMultiColorOrder));
+    },
+  },
+  {
+    version: 12,
+    description: "新增损耗规则表",
+    stores: {
+      wastage_rules: "++id, scope, match_value",
+    },
+  },
+];
+
+/**
+ * 当前代码对应的最新数据库版本
+ */
+export const LATEST_DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * 计算指定版本时的完整表结构（累加各版本的变更）
+ * 用于按旧版本结构恢复迁移前快照
+ */
+export function getSchemaAt(version: number): Record<string, string> {
+  const schema: Record<string, string> = {};
+
+  MIGRATIONS.filter((m) => m.version <= version).forEach((m) => {
+    Object.entries(m.stores).forEach(([table, definition]) => {
+      if (definition === null) {
+        delete schema[table];
+      } else {
+        schema[table] = definition;
+      }
+    });
+  });
+
+  return schema;
+}
+
+/**
+ * 获取需要从指定版本升级执行的迁移列表
+ */
+export function getPendingMigrations(fromVersion: number): IMigration[] {
+  return MIGRATIONS.filter((m) => m.version > fromVersion);
+}
@@ -6,27 +6,52 @@
 
 import { DataProvider } from "@refinedev/core";
 import { db } from "./database";
-import type { IColorVariant, IBOMItem, ICloneVariantResponse } from "../types/models";
-
-// 用于生成新记录的 ID（从 IndexedDB 中获取最大 ID 后递增）
-let nextId = 10000;
-
-/**
- * 初始化 nextId（从数据库获取当前最大 ID）
- */
-async function initNextId(): Promise<void> {
-  const tables = [db.styles, db.variants, db.bom_items, db.customers, db.sizes, db.units];
-
-  for (const table of tables) {
-    const lastRecord = await table.orderBy("id").last();
-    if (lastRecord && lastRecord.id >= nextId) {
-      nextId = lastRecord.id + 1;
-    }
-  }
-}
-
-// 初始化 nextId
-initNextId();
+import { queryList } from "./query";
+import { allocateId, allocatorTables, assignSpecDetailIds, type IdSequence } from "./idAllocator";
+import {
+  cascadeDelete,
+  cascadeSoftDelete,
+  cloneVariant,
+  describeCascadeSummary,
+  SOFT_DELETE_RESOURCES,
+} from "./cascade";
+import {
+  AUDIT_RESOURCE_LABELS,
+  auditTables,
+  cascadeAuditInputs,
+  createAuditBatch,
+  diffRecords,
+  readCascadeRecords,
+  recordAudit,
+  recordLabel,
+} from "./audit";
+import { assertNotStale, assertNotStaleInBatch } from "./concurrency";
+import {
+  DENORMALIZED_FIELDS,
+  detachReference,
+  isReferencing,
+  referenceParentLabel,
+  referenceRulesFor,
+  ReferenceInUseError,
+  renameReference,
+  toReferenceUsage,
+  type IReferenceRule,
+} from "./references";
+import { emptyRecycleBin, listRecycleBin, purgeRecycleBinEntry, restoreRecycleBinEntry } from "./recycleBin";
+import {
+  displacedStyleNo,
+  DuplicateStyleNoError,
+  mergedColorName,
+  normalizeStyleNo,
+  styleNoKey,
+} from "./styleNo";
+import type {
+  ICascadeDeleteSummary,
+  IColorVariant,
+  IMergeStylesResponse,
+  IStyle,
+  IStyleNoCheckResult,
+} from "../types/models";
 
 /**
  * 获取表对象
@@ -39,58 +64,361 @@ function getTable(resource: string) {
     customers: db.customers,
     sizes: db.sizes,
     units: db.units,
+    orders: db.orders,
+    wastage_rules: db.wastage_rules,
   };
   return tableMap[resource];
 }
 
+/**
+ * 记录是否在回收站中
+ */
+function isDeleted(record: any): boolean {
+  return !!record?.deleted_at;
+}
+
+/**
+ * 合并修改后的记录（修订号只由同步维护，内容有变化时更新修改时间）
+ */
+function mergeRecord(existingRecord: any, variables: any): any {
+  const record = {
+    ...existingRecord,
+    ...variables,
+    id: existingRecord.id,
+    revision: existingRecord.revision,
+    updated_at: existingRecord.updated_at,
+  };
+  if (diffRecords(existingRecord, record).length > 0) {
+    record.updated_at = new Date().toISOString();
+  }
+  return record;
+}
+
+/**
+ * 删除记录（款号、颜色版本、配料为软删除）并写入审计日志
+ * 客户、尺码、单位先按引用关系处理引用方（见 enforceReferences）
+ * 需在包含 auditTables(resource, "styles", "variants", "bom_items") 的事务中调用
+ */
+async function deleteWithAudit(
+  resource: string,
+  id: number,
+  operation: string,
+  batch?: string
+): Promise<ICascadeDeleteSummary> {
+  if (referenceRulesFor(resource).length > 0) {
+    // 被处理的引用方与本记录共用一个批次
+    batch = batch || createAuditBatch(operation);
+    await enforceReferences(resource, await getTable(resource).get(id), operation, batch);
+  }
+
+  const records = await readCascadeRecords(resource, id);
+  const summary = SOFT_DELETE_RESOURCES.includes(resource)
+    ? await cascadeSoftDelete(resource, id)
+    : await cascadeDelete(resource, id);
+
+  const detail = describeCascadeSummary(summary);
+  await recordAudit(
+    cascadeAuditInputs(records, summary, {
+      action: "delete",
+      operation,
+      batch,
+      note: detail ? `同时删除 ${detail}` : undefined,
+    })
+  );
+
+  return summary;
+}
+
+/**
+ * 读取引用了某条基础数据的记录（回收站中的记录不计入）
+ */
+async function readReferencingRecords(rule: IReferenceRule, parent: any): Promise<any[]> {
+  return getTable(rule.child)
+    .filter((child: any) => !isDeleted(child) && isReferencing(rule, parent, child))
+    .toArray();
+}
+
+/**
+ * 统计基础数据（客户、尺码、单位）被引用的情况
+ */
+async function readReferences(resource: string, parent: any) {
+  return Promise.all(
+    referenceRulesFor(resource).map(async (rule) => ({
+      rule,
+      children: await readReferencingRecords(rule, parent),
+    }))
+  );
+}
+
+/**
+ * 删除基础数据前按引用关系处理引用方（见 references.ts）：
+ * block 关系仍被使用时拒绝删除，cascade / nullify 关系逐条处理并写入审计日志
+ * 需在包含 auditTables(resource, "styles", "variants", "bom_items") 的事务中调用
+ */
+async function enforceReferences(resource: string, parent: any, operation: string, batch?: string): Promise<void> {
+  const references = await readReferences(resource, parent);
+  const blocking = references.filter(({ rule, children }) => rule.action === "block" && children.length > 0);
+  if (blocking.length > 0) {
+    throw new ReferenceInUseError(
+      referenceParentLabel(resource, parent),
+      blocking.map(({ rule, children }) => toReferenceUsage(rule, children.length))
+    );
+  }
+
+  const label = `${AUDIT_RESOURCE_LABELS[resource]}"${recordLabel(resource, parent)}"`;
+  for (const { rule, children } of references) {
+    for (const child of children) {
+      // 同一条记录可能已被前一条关系处理过，重新读取
+      const current = await getTable(rule.child).get(child.id);
+      if (!current || isDeleted(current)) continue;
+
+      const { remove, record } = detachReference(rule, parent, current);
+      if (remove) {
+        await deleteWithAudit(rule.child, current.id, operation, batch);
+        continue;
+      }
+
+      const updated = mergeRecord(current, record);
+      await getTable(rule.child).put(updated);
+      await recordAudit([
+        {
+          action: "update",
+          operation,
+          resource: rule.child,
+          before: current,
+          after: updated,
+          batch,
+          note: `随${label}删除${rule.action === "cascade" ? "移除" : "清空"}${rule.label}`,
+        },
+      ]);
+    }
+  }
+}
+
+/**
+ * 同步引用方中的冗余字段（如客户改名后更新款号中的客户名称，含回收站中的款号）
+ * 需在包含 auditTables(resource, "styles") 的事务中调用
+ */
+async function syncDenormalizedFields(
+  resource: string,
+  before: any,
+  after: any,
+  operation: string,
+  batch?: string
+): Promise<void> {
+  for (const relation of DENORMALIZED_FIELDS) {
+    const value = after[relation.parentField];
+    if (relation.parent !== resource || before[relation.parentField] === value) continue;
+
+    const children = await getTable(relation.child).where(relation.foreignKey).equals(after.id).toArray();
+    for (const child of children) {
+      if (child[relation.field] === value) continue;
+      const updated = mergeRecord(child, { [relation.field]: value });
+      await getTable(relation.child).put(updated);
+      await recordAudit([
+        {
+          action: "update",
+          operation,
+          resource: relation.child,
+          before: child,
+          after: updated,
+          batch,
+          note: `随${AUDIT_RESOURCE_LABELS[resource]}"${value}"改名同步`,
+        },
+      ]);
+    }
+  }
+}
+
+// ========== 款号唯一性 ==========
+
+/**
+ * 检查款号是否可用（见 styleNo.ts）
+ * @param excludeId 正在修改的款号ID（不与自身比较）
+ */
+async function checkStyleNo(value: unknown, excludeId?: number): Promise<IStyleNoCheckResult> {
+  const styleNo = normalizeStyleNo(value);
+  const existing = await db.styles.where("style_no").equals(styleNo).first();
+  const key = styleNoKey(styleNo);
+  const similar = await db.styles
+    .filter((style) => !isDeleted(style) && style.id !== excludeId && style.style_no !== styleNo && styleNoKey(style.style_no) === key)
+    .toArray();
+
+  const taken = existing && existing.id !== excludeId;
+  return {
+    style_no: styleNo,
+    available: !taken,
+    existing_id: taken ? existing.id : undefined,
+    in_recycle_bin: taken ? isDeleted(existing) : undefined,
+    similar: similar.map((style) => style.style_no),
+  };
+}
+
+/**
+ * 保存款号前去除首尾空格并检查是否重复，重复时抛出 DuplicateStyleNoError
+ * 改用新款号后清除 duplicate_of（需在包含 styles 表的事务中调用）
+ * @returns 处理后的修改内容
+ */
+async function prepareStyleNo(resource: string, variables: any, existing?: IStyle): Promise<any> {
+  if (resource !== "styles" || !variables || variables.style_no === undefined) return variables;
+
+  const styleNo = normalizeStyleNo(variables.style_no);
+  if (existing?.style_no === styleNo) {
+    return { ...variables, style_no: styleNo };
+  }
+
+  const check = await checkStyleNo(styleNo, existing?.id);
+  if (!check.available) {
+    throw new DuplicateStyleNoError(styleNo, check.existing_id!, !!check.in_recycle_bin);
+  }
+  return existing?.duplicate_of
+    ? { ...variables, style_no: styleNo, duplicate_of: undefined }
+    : { ...variables, style_no: styleNo };
+}
+
+/**
+ * 合并重复款号：来源款号的颜色版本移到保留款号下（颜色重名时改名），来源款号移入回收站
+ * 来源款号先让出款号；保留款号若是让出过款号的记录且原款号已空出，改回原款号
+ * 需在包含 auditTables("styles", "variants", "bom_items") 的事务中调用
+ */
+async function mergeStyles(targetId: number, sourceIds: number[], operation: string): Promise<IMergeStylesResponse> {
+  const target = await db.styles.get(targetId);
+  if (!target || isDeleted(target)) {
+    throw new Error(`Record not found: styles#${targetId}`);
+  }
+
+  const batch = createAuditBatch(operation);
+  const liveVariants = (styleId: number) =>
+    db.variants.where("style_id").equals(styleId).filter((variant) => !isDeleted(variant)).toArray();
+  const colorNames = new Set((await liveVariants(targetId)).map((variant) => variant.color_name));
+  const response: IMergeStylesResponse = {
+    target_id: targetId,
+    style_no: target.style_no,
+    merged_style_ids: [],
+    moved_variant_ids: [],
+    renamed_color_count: 0,
+  };
+
+  for (const sourceId of sourceIds.filter((id) => id !== targetId)) {
+    const source = await db.styles.get(sourceId);
+    if (!source || isDeleted(source)) {
+      throw new Error(`Record not found: styles#${sourceId}`);
+    }
+    const sourceStyleNo = source.duplicate_of || source.style_no;
+
+    for (const variant of await liveVariants(sourceId)) {
+      const colorName = colorNames.has(variant.color_name)
+        ? mergedColorName(variant.color_name, sourceStyleNo, colorNames)
+        : variant.color_name;
+      colorNames.add(colorName);
+      if (colorName !== variant.color_name) response.renamed_color_count++;
+
+      const moved: IColorVariant = mergeRecord(variant, { style_id: targetId, color_name: colorName });
+      await db.variants.put(moved);
+      await recordAudit([
+        {
+          action: "update",
+          operation,
+          resource: "variants",
+          before: variant,
+          after: moved,
+          batch,
+          note: `随款号"${sourceStyleNo}"合并到"${target.style_no}"`,
+        },
+      ]);
+      response.moved_variant_ids.push(variant.id);
+    }
+
+    // 颜色版本已移走，来源款号让出款号后移入回收站
+    if (!source.duplicate_of) {
+      const released = mergeRecord(source, {
+        style_no: displacedStyleNo(source.style_no, source.id),
+        duplicate_of: source.style_no,
+      });
+      await db.styles.put(released);
+      await recordAudit([
+        { action: "update", operation, resource: "styles", before: source, after: released, batch },
+      ]);
+    }
+    await deleteWithAudit("styles", sourceId, operation, batch);
+    response.merged_style_ids.push(sourceId);
+  }
+
+  if (target.duplicate_of && (await checkStyleNo(target.duplicate_of, targetId)).available) {
+    const restored = mergeRecord(target, { style_no: target.duplicate_of, duplicate_of: undefined });
+    await db.styles.put(restored);
+    await recordAudit([
+      { action: "update", operation, resource: "styles", before: target, after: restored, batch },
+    ]);
+    response.style_no = restored.style_no;
+  }
+
+  return response;
+}
+
+/**
+ * 尺码代码、单位代码或单位名称改变后改写引用方中的值（见 references.ts，含回收站中的配料）
+ * 需在包含 auditTables(resource, "bom_items") 的事务中调用
+ */
+async function renameReferences(
+  resource: string,
+  before: any,
+  after: any,
+  operation: string,
+  batch?: string
+): Promise<void> {
+  const label = `${AUDIT_RESOURCE_LABELS[resource]}"${recordLabel(resource, after)}"`;
+  for (const rule of referenceRulesFor(resource)) {
+    const children = await getTable(rule.child).toArray();
+    for (const child of children) {
+      // 同一条记录可能已被前一条关系改写过，重新读取
+      const current = await getTable(rule.child).get(child.id);
+      const record = renameReference(rule, before, after, current);
+      if (!record) continue;
+
+      const updated = mergeRecord(current, record);
+      await getTable(rule.child).put(updated);
+      await recordAudit([
+        {
+          action: "update",
+          operation,
+          resource: rule.child,
+          before: current,
+          after: updated,
+          batch,
+          note: `随${label}改名同步${rule.label}`,
+        },
+      ]);
+    }
+  }
+}
+
 /**
  * IndexedDB Data Provider 实现
+ * 所有写操作都会在同一事务中写入审计日志（见 audit.ts）
+ * 调用方可通过 meta.auditOperation 指定日志中记录的操作名（如撤销、重做），
+ * 通过 meta.baseUpdatedAt 传入开始编辑时记录的修改时间以检测过期写入（见 concurrency.ts）
  */
 export const indexedDBDataProvider: DataProvider = {
   /**
    * 获取资源列表
-   * 支持：分页、筛选（filters）
+   * 支持：分页、筛选（filters，含 or / and 组合条件）、多字段排序（sorters）
+   * 回收站中的记录不返回
    */
-  getList: async ({ resource, filters, pagination }) => {
-    console.log(`[IndexedDB] getList: ${resource}`, { filters, pagination });
+  getList: async ({ resource, filters, sorters, pagination }) => {
+    console.log(`[IndexedDB] getList: ${resource}`, { filters, sorters, pagination });
 
     const table = getTable(resource);
     if (!table) {
       return { data: [], total: 0 };
     }
 
-    // 获取所有数据
-    let data = await table.toArray();
-
-    // ========== 实现筛选逻辑 ==========
-    if (filters && filters.length > 0) {
-      filters.forEach((filter: any) => {
-        const { field, operator, value } = filter;
-
-        if (operator === "eq" && value !== undefined && value !== null) {
-          data = data.filter((item: any) => item[field] == value);
-        } else if (operator === "contains" && value) {
-          data = data.filter((item: any) =>
-            String(item[field]).toLowerCase().includes(String(value).toLowerCase())
-          );
-        }
-      });
-    }
-
-    // ========== 实现分页逻辑 ==========
-    const { current = 1, pageSize = 10 } = pagination || {};
-    const start = (current - 1) * pageSize;
-    const end = start + pageSize;
-    const pageData = data.slice(start, end);
-
-    return {
-      data: pageData,
-      total: data.length,
-    };
+    // ========== 筛选、排序、分页（可走索引时只读取当前页） ==========
+    return queryList<any>(resource, table, { filters, sorters, pagination });
   },
 
   /**
-   * 获取单条记录
+   * 获取单条记录（回收站中的记录视为不存在）
    */
   getOne: async ({ resource, id }) => {
     console.log(`[IndexedDB] getOne: ${resource}#${id}`);
@@ -98,7 +426,7 @@ export const indexedDBDataProvider: DataProvider = {
     const table = getTable(resource);
     const data = await table?.get(Number(id));
 
-    if (!data) {
+    if (!data || isDeleted(data)) {
       throw new Error(`Record not found: ${resource}#${id}`);
     }
 
@@ -116,15 +444,26 @@ export const indexedDBDataProvider: DataProvider = {
       throw new Error(`Unknown resource: ${resource}`);
     }
 
-    // 生成新 ID
-    const newId = nextId++;
-    const newRecord = {
-      id: newId,
-      ...variables,
-    };
-
-    // 添加到 IndexedDB
-    await table.add(newRecord);
+    // 在同一事务中分配 ID 并写入，避免多个标签页拿到相同的 ID
+    // 调用方传入的 id（如表格中的临时行 ID）一律忽略，修订号由同步服务器分配
+    const newRecord = await db.transaction(
+      "rw",
+      auditTables(...allocatorTables(resource as IdSequence, "spec_details")),
+      async () => {
+        const record = {
+          ...(await prepareStyleNo(resource, variables)),
+          id: await allocateId(resource as IdSequence),
+          revision: undefined,
+          updated_at: new Date().toISOString(),
+        } as any;
+        if (resource === "bom_items") {
+          record.specDetails = await assignSpecDetailIds(record.specDetails);
+        }
+        await table.add(record);
+        await recordAudit([{ action: "create", operation: "create", resource, after: record }]);
+        return record;
+      }
+    );
 
     return { data: newRecord as any };
   },
@@ -132,65 +471,88 @@ export const indexedDBDataProvider: DataProvider = {
   /**
    * 更新记录
    */
-  update: async ({ resource, id, variables }) => {
+  update: async ({ resource, id, variables, meta }) => {
     console.log(`[IndexedDB] update: ${resource}#${id}`, variables);
 
     const table = getTable(resource);
-    const existingRecord = await table?.get(Number(id));
-
-    if (!existingRecord) {
-      throw new Error(`Record not found: ${resource}#${id}`);
+    if (!table) {
+      throw new Error(`Unknown resource: ${resource}`);
     }
 
-    // 合并更新
-    const updatedRecord = {
-      ...existingRecord,
-      ...variables,
-      id: Number(id),
-    };
+    const updatedRecord = await db.transaction(
+      "rw",
+      auditTables(resource, "styles", "bom_items", ...allocatorTables("spec_details")),
+      async () => {
+        const existingRecord = await table.get(Number(id));
+        if (!existingRecord || isDeleted(existingRecord)) {
+          throw new Error(`Record not found: ${resource}#${id}`);
+        }
+
+        // 记录在开始编辑后已被其他标签页修改时拒绝写入
+        assertNotStale(resource, existingRecord, meta);
+
+        const record = mergeRecord(existingRecord, await prepareStyleNo(resource, variables, existingRecord));
+
+        // 新增的 L4 规格明细在这里分配 ID
+        if (resource === "bom_items") {
+          record.specDetails = await assignSpecDetailIds(record.specDetails);
+        }
 
-    await table.put(updatedRecord);
+        await table.put(record);
+        await recordAudit([
+          {
+            action: "update",
+            operation: meta?.auditOperation || "update",
+            resource,
+            before: existingRecord,
+            after: record,
+          },
+        ]);
+        await syncDenormalizedFields(resource, existingRecord, record, meta?.auditOperation || "update");
+        await renameReferences(resource, existingRecord, record, meta?.auditOperation || "update");
+        return record;
+      }
+    );
 
     return { data: updatedRecord };
   },
 
   /**
    * 删除记录
+   * 款号、颜色版本、配料连同下级数据移入回收站，其余资源直接删除
    */
-  deleteOne: async ({ resource, id }) => {
+  deleteOne: async ({ resource, id, meta }) => {
     console.log(`[IndexedDB] deleteOne: ${resource}#${id}`);
 
     const table = getTable(resource);
-    const record = await table?.get(Number(id));
-
-    if (!record) {
-      throw new Error(`Record not found: ${resource}#${id}`);
+    if (!table) {
+      throw new Error(`Unknown resource: ${resource}`);
     }
 
-    // 删除记录
-    await table.delete(Number(id));
-
-    // ========== 级联删除逻辑 ==========
-    if (resource === "styles") {
-      // 删除款号时，同时删除其下的颜色版本和配料
-      const variants = await db.variants.where("style_id").equals(Number(id)).toArray();
-      for (const variant of variants) {
-        await db.bom_items.where("variant_id").equals(variant.id).delete();
+    // 在同一事务中处理记录及其下级数据
+    const { record, summary } = await db.transaction(
+      "rw",
+      auditTables(resource, "styles", "variants", "bom_items"),
+      async () => {
+        const existing = await table.get(Number(id));
+        if (!existing || isDeleted(existing)) {
+          throw new Error(`Record not found: ${resource}#${id}`);
+        }
+        const summary = await deleteWithAudit(resource, Number(id), meta?.auditOperation || "delete");
+        return { record: existing, summary };
       }
-      await db.variants.where("style_id").equals(Number(id)).delete();
-    } else if (resource === "variants") {
-      // 删除颜色版本时，同时删除其下的配料
-      await db.bom_items.where("variant_id").equals(Number(id)).delete();
-    }
+    );
+    console.log(`[IndexedDB] 级联删除完成:`, summary);
 
-    return { data: record };
+    // summary 随响应一起返回，页面可据此提示删除了多少下级数据
+    return { data: record, summary };
   },
 
   /**
    * 自定义操作（RPC 风格 API）
-   * 核心用途：实现深度克隆功能
+   * 核心用途：实现深度克隆功能、从回收站恢复、查询基础数据的使用情况、款号检查与合并
    */
-  custom: async ({ url, method, payload }) => {
+  custom: async ({ url, method, payload, query, meta }) => {
     console.log(`[IndexedDB] custom: ${method} ${url}`, payload);
 
     // ========== 深度克隆颜色版本 ==========
@@ -205,65 +567,117 @@ export const indexedDBDataProvider: DataProvider = {
         throw new Error("缺少必填参数：new_color_name");
       }
 
-      // 1. 查找源颜色版本
-      const sourceVariant = await db.variants.get(sourceVariantId);
-      if (!sourceVariant) {
-        throw new Error(`源颜色版本不存在：${sourceVariantId}`);
+      // 在同一事务中复制颜色版本、配料及规格明细，并为新记录写入审计日志
+      const result = await db.transaction(
+        "rw",
+        auditTables(...allocatorTables("variants", "bom_items", "spec_details")),
+        async () => {
+          const cloned = await cloneVariant(sourceVariantId, new_color_name);
+          const source = await db.variants.get(sourceVariantId);
+          const variant = await db.variants.get(cloned.id);
+          const bomItems = await db.bom_items.bulkGet(cloned.bom_item_ids);
+          const batch = createAuditBatch("clone");
+
+          await recordAudit([
+            {
+              action: "create",
+              operation: "clone",
+              resource: "variants",
+              after: variant,
+              batch,
+              note: `从颜色"${source?.color_name}"复制，含 ${cloned.cloned_bom_count} 条配料`,
+            },
+            ...bomItems.map((item) => ({
+              action: "create" as const,
+              operation: "clone",
+              resource: "bom_items",
+              after: item,
+              batch,
+              note: `随颜色版本"${new_color_name}"从"${source?.color_name}"复制`,
+            })),
+          ]);
+          return cloned;
+        }
+      );
+
+      console.log(`[IndexedDB] 克隆成功:`, result);
+
+      return { data: result as any };
+    }
+
+    // ========== 款号检查与合并 ==========
+    if (url === "/api/styles/style-no-check" && method === "get") {
+      const { style_no, exclude_id } = (query as any) || {};
+      return { data: (await checkStyleNo(style_no, exclude_id ? Number(exclude_id) : undefined)) as any };
+    }
+
+    if (url === "/api/styles/merge" && method === "post") {
+      const { target_id, source_ids } = (payload as any) || {};
+
+      if (!target_id || !Array.isArray(source_ids) || source_ids.length === 0) {
+        throw new Error("缺少必填参数：target_id、source_ids");
       }
 
-      // 2. 创建新的颜色版本
-      const newVariantId = nextId++;
-      const newVariant: IColorVariant = {
-        ...sourceVariant,
-        id: newVariantId,
-        color_name: new_color_name,
-      };
-      await db.variants.add(newVariant);
-
-      // 3. 查询源颜色版本下的所有配料明细
-      const sourceBomItems = await db.bom_items
-        .where("variant_id")
-        .equals(sourceVariantId)
-        .toArray();
-
-      let clonedBomCount = 0;
-      let clonedSpecCount = 0;
-
-      // 4. 遍历复制每条配料及其规格明细
-      for (const bomItem of sourceBomItems) {
-        const newBomId = nextId++;
-
-        // 深度复制 specDetails 数组
-        const clonedSpecDetails = bomItem.specDetails.map((spec) => ({
-          ...spec,
-          id: nextId++,
-        }));
-
-        clonedSpecCount += clonedSpecDetails.length;
-
-        // 创建新的配料记录
-        const newBomItem: IBOMItem = {
-          ...bomItem,
-          id: newBomId,
-          variant_id: newVariantId,
-          specDetails: clonedSpecDetails,
-        };
-
-        await db.bom_items.add(newBomItem);
-        clonedBomCount++;
+      const result = await db.transaction("rw", auditTables("styles", "variants", "bom_items"), async () =>
+        mergeStyles(Number(target_id), source_ids.map(Number), meta?.auditOperation || "merge")
+      );
+
+      return { data: result as any };
+    }
+
+    // ========== 基础数据的使用情况 ==========
+    const referencesMatch = url.match(/^\/api\/references\/(\w+)\/(\d+)$/);
+
+    if (referencesMatch && method === "get") {
+      const [, parentResource, parentId] = referencesMatch;
+      const parent = await getTable(parentResource)?.get(Number(parentId));
+      if (!parent) {
+        throw new Error(`Record not found: ${parentResource}#${parentId}`);
       }
 
-      // 5. 返回克隆结果
-      const result: ICloneVariantResponse = {
-        id: newVariantId,
-        color_name: new_color_name,
-        cloned_bom_count: clonedBomCount,
-        cloned_spec_count: clonedSpecCount,
-      };
+      const references = await readReferences(parentResource, parent);
+      const usages = references
+        .map(({ rule, children }) => toReferenceUsage(rule, children.length))
+        .filter((usage) => usage.count > 0);
 
-      console.log(`[IndexedDB] 克隆成功:`, result);
+      return { data: usages as any };
+    }
 
-      return { data: result as any };
+    // ========== 回收站 ==========
+    if (url === "/api/recycle-bin" && method === "get") {
+      return { data: (await listRecycleBin()) as any };
+    }
+
+    if (url === "/api/recycle-bin/restore" && method === "post") {
+      const { batch } = (payload as any) || {};
+
+      if (!batch) {
+        throw new Error("缺少必填参数：batch");
+      }
+
+      await restoreRecycleBinEntry(batch, meta?.auditOperation || "restore");
+
+      return { data: { batch } as any };
+    }
+
+    if (url === "/api/recycle-bin/purge" && method === "post") {
+      const { batch } = (payload as any) || {};
+
+      if (!batch) {
+        throw new Error("缺少必填参数：batch");
+      }
+
+      const entry = (await listRecycleBin()).find((e) => e.batch === batch);
+      if (!entry) {
+        throw new Error("回收站中没有这条记录");
+      }
+      await purgeRecycleBinEntry(entry);
+
+      return { data: { batch } as any };
+    }
+
+    if (url === "/api/recycle-bin/empty" && method === "post") {
+      return { data: { count: await emptyRecycleBin() } as any };
     }
 
     throw new Error(`未实现的自定义 API: ${method} ${url}`);
@@ -286,30 +700,48 @@ export const indexedDBDataProvider: DataProvider = {
     const numericIds = ids.map((id) => Number(id));
     const data = await table?.bulkGet(numericIds);
 
-    return { data: data?.filter(Boolean) || [] };
+    return { data: data?.filter((record: any) => record && !isDeleted(record)) || [] };
   },
 
   /**
    * 批量更新
    */
-  updateMany: async ({ resource, ids, variables }) => {
+  updateMany: async ({ resource, ids, variables, meta }) => {
     console.log(`[IndexedDB] updateMany: ${resource}`, ids, variables);
 
     const table = getTable(resource);
-    const updatedIds: any[] = [];
-
-    for (const id of ids) {
-      const existingRecord = await table?.get(Number(id));
-      if (existingRecord) {
-        const updatedRecord = {
-          ...existingRecord,
-          ...variables,
-        };
-        await table.put(updatedRecord);
-        updatedIds.push(id);
-      }
+    if (!table) {
+      throw new Error(`Unknown resource: ${resource}`);
     }
 
+    // 全部记录在同一事务中更新，审计日志共用一个批次；任一记录已被其他页面修改时整批回滚
+    const updatedIds = await db.transaction("rw", auditTables(resource, "styles", "bom_items"), async () => {
+      const batch = createAuditBatch("updateMany");
+      const updated: any[] = [];
+      for (const id of ids) {
+        const existingRecord = await table.get(Number(id));
+        if (existingRecord && !isDeleted(existingRecord)) {
+          assertNotStaleInBatch(resource, existingRecord, meta);
+          const updatedRecord = mergeRecord(existingRecord, await prepareStyleNo(resource, variables, existingRecord));
+          await table.put(updatedRecord);
+          await recordAudit([
+            {
+              action: "update",
+              operation: "updateMany",
+              resource,
+              before: existingRecord,
+              after: updatedRecord,
+              batch,
+            },
+          ]);
+          await syncDenormalizedFields(resource, existingRecord, updatedRecord, "updateMany", batch);
+          await renameReferences(resource, existingRecord, updatedRecord, "updateMany", batch);
+          updated.push(id);
+        }
+      }
+      return updated;
+    });
+
     return { data: updatedIds };
   },
 
@@ -320,10 +752,30 @@ export const indexedDBDataProvider: DataProvider = {
     console.log(`[IndexedDB] deleteMany: ${resource}`, ids);
 
     const table = getTable(resource);
+    if (!table) {
+      throw new Error(`Unknown resource: ${resource}`);
+    }
+
     const numericIds = ids.map((id) => Number(id));
-    await table?.bulkDelete(numericIds);
 
-    return { data: ids as any };
+    // 与 deleteOne 相同的级联规则，全部记录在同一事务中处理
+    const summaries = await db.transaction(
+      "rw",
+      auditTables(resource, "styles", "variants", "bom_items"),
+      async () => {
+        const batch = createAuditBatch("deleteMany");
+        const existing = (await table.bulkGet(numericIds)).filter(
+          (record: any) => record && !isDeleted(record)
+        );
+        const results = [];
+        for (const record of existing) {
+          results.push(await deleteWithAudit(resource, record.id, "deleteMany", batch));
+        }
+        return results;
+      }
+    );
+
+    return { data: ids as any, summaries };
   },
 };
 
@@ -0,0 +1,57 @@
+/**
+ * 生产订单记录
+ * 订单按颜色分行保存（lines），一张订单可包含同一款号的多个颜色。
+ * 早期的订单只有一个颜色（variant_id、color_name、size_orders、rows 直接保存在订单上），
+ * 数据库升级、导入备份和参考后端启动时转换为只有一行的多颜色订单
+ *
+ * 本模块只包含纯函数，IndexedDB Data Provider、同步与参考后端（server/store.ts）共用
+ */
+
+import type { IOrder } from "../types/models";
+
+/**
+ * 是否为早期的单颜色订单
+ */
+export function isLegacyOrder(record: unknown): boolean {
+  return typeof record === "object" && record !== null && !("lines" in record) && "variant_id" in record;
+}
+
+/**
+ * 单颜色订单转为多颜色订单（其他记录原样返回）
+ */
+export function toMultiColorOrder(record: any): any {
+  if (!isLegacyOrder(record)) return record;
+
+  const { variant_id, color_name, sample_image_url, size_orders, rows, ...order } = record;
+  return {
+    ...order,
+    lines: [{ variant_id, color_name, sample_image_url, size_orders, total_qty: order.total_qty, rows }],
+  };
+}
+
+/**
+ * 订单是否包含指定的颜色版本
+ */
+export function orderHasVariant(order: Pick<IOrder, "lines">, variantId: number): boolean {
+  return order.lines.some((line) => line.variant_id === variantId);
+}
+
+/**
+ * 颜色版本改 ID 后改写订单中的颜色版本ID（同步时本机新建的颜色版本与服务器冲突，改用服务器分配的 ID）
+ */
+export function remapOrderVariants<T extends Pick<IOrder, "lines">>(order: T, idMap: Map<number, number>): T {
+  if (!order.lines.some((line) => idMap.has(line.variant_id))) return order;
+  return {
+    ...order,
+    lines: order.lines.map((line) =>
+      idMap.has(line.variant_id) ? { ...line, variant_id: idMap.get(line.variant_id)! } : line
+    ),
+  };
+}
+
+/**
+ * 订单中的颜色（用于列表、标题、确认提示）
+ */
+export function orderColorNames(order: Pick<IOrder, "lines">): string {
+  return order.lines.map((line) => line.color_name).join("、");
+}
@@ -0,0 +1,173 @@
+/**
+ * 列表分页查询
+ * 将 Refine 的 filters / sorters / pagination 转换为 Dexie 查询
+ *
+ * 能由索引直接给出顺序的查询（常见的"按父记录 ID 查子表"、"按日期排序翻页"）
+ * 使用 where() / orderBy() + offset() / limit()，只读取当前页数据；
+ * 其余查询（多字段排序、中文名称排序、组合条件等）退回到筛选后在内存中排序分页
+ *
+ * 可走索引的情形：
+ * - 无筛选或只有一个等值条件（字段已建索引）
+ * - 无排序或只按一个"索引顺序与排序规则一致"的字段排序（ID、日期）
+ * - 等值条件 + 排序字段需要对应的复合索引，如 styles 的 [customer_id+create_date]
+ *
+ * 建有 deleted_at 索引的表（款号、颜色版本、配料）不返回回收站中的记录
+ */
+
+import Dexie, { type Collection, type Table } from "dexie";
+import type { CrudFilters, CrudSorting, LogicalFilter, Pagination } from "@refinedev/core";
+import { equalityKeys, indexedFields, isActive, matchesFilters, queryRecords } from "./filtering";
+import { DEFAULT_SORTERS, sortRecords } from "./sorting";
+
+/**
+ * 各资源中索引顺序与 sortRecords 排序结果一致的字段
+ * 字符串名称按拼音排序、款号按数值排序，与 IndexedDB 的码点顺序不同，不能走索引
+ * 日期为 YYYY-MM-DD 格式，码点顺序即时间顺序
+ */
+const INDEX_ORDERED_FIELDS: Record<string, string[]> = {
+  styles: ["id", "create_date"],
+  customers: ["id", "create_date"],
+};
+
+export interface IListQuery {
+  filters?: CrudFilters;
+  sorters?: CrudSorting;
+  pagination?: Pagination;
+}
+
+export interface IListResult<T> {
+  data: T[];
+  total: number;
+}
+
+/**
+ * 计算分页范围（pagination.mode 为 off / client 时返回全部数据）
+ */
+function getPageRange(pagination?: Pagination): { offset: number; limit: number } | null {
+  if (pagination?.mode === "off" || pagination?.mode === "client") return null;
+  const { current = 1, pageSize = 10 } = pagination || {};
+  return { offset: (current - 1) * pageSize, limit: pageSize };
+}
+
+/**
+ * 读取回收站中的记录（表没有 deleted_at 索引时返回空数组）
+ * 回收站中的记录通常很少，单独读出后从查询结果中排除
+ */
+async function loadDeletedRecords<T>(table: Table<T, any>): Promise<T[]> {
+  if (!table.schema.idxByName.deleted_at) return [];
+  return table.where("deleted_at").above("").toArray();
+}
+
+/**
+ * 尝试用索引完成查询，条件不满足时返回 null
+ */
+async function queryByIndex<T>(
+  resource: string,
+  table: Table<T, any>,
+  { filters, sorters, pagination }: IListQuery,
+  deleted: T[]
+): Promise<IListResult<T> | null> {
+  const active = (filters || []).filter(isActive);
+  const effectiveSorters = sorters && sorters.length > 0 ? sorters : DEFAULT_SORTERS[resource] || [];
+
+  if (active.length > 1 || effectiveSorters.length > 1) return null;
+
+  const fields = indexedFields(table);
+  const primaryKey = table.schema.primKey.name;
+
+  // 等值条件
+  const filter = active[0] as LogicalFilter | undefined;
+  let key: string | number | undefined;
+  if (filter) {
+    if (filter.operator !== "eq" || !fields.has(filter.field)) return null;
+    const keys = equalityKeys(filter.value);
+    // 数字字符串需要同时匹配两种键，无法用单个复合索引区间表达
+    if (keys.length !== 1) return null;
+    key = keys[0];
+  }
+
+  // 排序字段
+  const sorter = effectiveSorters[0];
+  const sortField = sorter?.field || primaryKey;
+  if (sortField !== primaryKey && !INDEX_ORDERED_FIELDS[resource]?.includes(sortField)) return null;
+  const descending = sorter?.order === "desc";
+
+  // 每次调用都新建集合（offset / limit 会修改集合本身）
+  let ordered: () => Collection<T, any>;
+  let matched: () => Collection<T, any>;
+
+  if (!filter) {
+    if (sortField !== primaryKey && !fields.has(sortField)) return null;
+    ordered = () => table.orderBy(sortField);
+    matched = () => table.toCollection();
+  } else if (sortField === primaryKey) {
+    // 同一索引值内按主键排列
+    ordered = () => table.where(filter.field).equals(key!);
+    matched = ordered;
+  } else {
+    const compound = `[${filter.field}+${sortField}]`;
+    if (!table.schema.idxByName[compound]) return null;
+    ordered = () => table.where(compound).between([key, Dexie.minKey], [key, Dexie.maxKey]);
+    matched = () => table.where(filter.field).equals(key!);
+  }
+
+  const matchedCount = await matched().count();
+
+  // 排序字段为空的记录不在索引中，数量对不上时退回内存排序（空值排在最后）
+  if (ordered !== matched && (await ordered().count()) !== matchedCount) return null;
+
+  // 符合条件但在回收站中的记录
+  const excluded = new Set(
+    deleted.filter((record) => matchesFilters(record, active)).map((record) => (record as any)[primaryKey])
+  );
+  const total = matchedCount - excluded.size;
+
+  let collection = ordered();
+  if (descending) collection = collection.reverse();
+
+  const range = getPageRange(pagination);
+  if (!range) {
+    const records = await collection.toArray();
+    return { data: records.filter((record) => !excluded.has((record as any)[primaryKey])), total };
+  }
+
+  // 首页直接按游标读取（多读回收站记录数量的余量）；翻页时先一次取出有序的主键（不读取记录内容），
+  // 再按主键批量读取当前页，避免游标逐条跳过前面的记录
+  const keys =
+    range.offset === 0
+      ? await collection.limit(range.limit + excluded.size).primaryKeys()
+      : await collection.primaryKeys();
+  const ids = keys
+    .filter((id) => !excluded.has(id))
+    .slice(range.offset, range.offset + range.limit);
+  const data = (await table.bulkGet(ids)).filter((record): record is T => record !== undefined);
+
+  return { data, total };
+}
+
+/**
+ * 查询列表数据（筛选、排序、分页）
+ */
+export async function queryList<T extends { id?: number }>(
+  resource: string,
+  table: Table<T, any>,
+  query: IListQuery
+): Promise<IListResult<T>> {
+  const deleted = await loadDeletedRecords(table);
+
+  const indexed = await queryByIndex(resource, table, query, deleted);
+  if (indexed) return indexed;
+
+  // ========== 内存排序分页 ==========
+  const visible =
+    deleted.length > 0
+      ? (await queryRecords(table, query.filters)).filter((record) => !(record as any).deleted_at)
+      : await queryRecords(table, query.filters);
+  const records = sortRecords(resource, visible, query.sorters);
+  const range = getPageRange(query.pagination);
+
+  return {
+    data: range ? records.slice(range.offset, range.offset + range.limit) : records,
+    total: records.length,
+  };
+}
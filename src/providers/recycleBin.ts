@@ -0,0 +1,190 @@
+/**
+ * 回收站
+ * 款号、颜色版本、配料删除后保留在原表中（带 deleted_at 标记），
+ * 可按删除批次整体恢复；超过保留天数后自动彻底删除
+ */
+
+import { db, takeSnapshot } from "./database";
+import { cascadeDelete } from "./cascade";
+import {
+  auditTables,
+  cascadeAuditInputs,
+  createAuditBatch,
+  readCascadeRecords,
+  recordAudit,
+  AUDIT_RESOURCE_LABELS,
+  type IAuditInput,
+} from "./audit";
+import {
+  parseRecycleBatch,
+  recycleBinVariantIds,
+  toRecycleBinEntries,
+  RECYCLE_BIN_RETENTION_DAYS,
+  type IDeletedRecords,
+} from "./recycleBinEntries";
+import type { IRecycleBinEntry, IStyle, IColorVariant } from "../types/models";
+
+export { RECYCLE_BIN_RETENTION_DAYS };
+
+/**
+ * 读取回收站中的全部记录
+ */
+async function readDeletedRecords(): Promise<IDeletedRecords> {
+  const [styles, variants, bomItems] = await Promise.all([
+    db.styles.where("deleted_at").above("").toArray(),
+    db.variants.where("deleted_at").above("").toArray(),
+    db.bom_items.where("deleted_at").above("").toArray(),
+  ]);
+  return { styles, variants, bom_items: bomItems };
+}
+
+/**
+ * 列出回收站条目（每次删除操作一个条目，最近删除的在前）
+ */
+export async function listRecycleBin(
+  retentionDays: number = RECYCLE_BIN_RETENTION_DAYS
+): Promise<IRecycleBinEntry[]> {
+  const deleted = await readDeletedRecords();
+
+  const variants = (await db.variants.bulkGet(recycleBinVariantIds(deleted))).filter(
+    (v): v is IColorVariant => !!v
+  );
+  const styles = (
+    await db.styles.bulkGet([...deleted.styles.map((s) => s.id), ...variants.map((v) => v.style_id)])
+  ).filter((s): s is IStyle => !!s);
+
+  return toRecycleBinEntries(
+    deleted,
+    { styles: new Map(styles.map((s) => [s.id, s])), variants: new Map(variants.map((v) => [v.id, v])) },
+    retentionDays
+  );
+}
+
+/**
+ * 恢复一个删除批次（整棵子树一起恢复）
+ * 上级记录仍在回收站中时不允许单独恢复，避免恢复出看不到的数据
+ */
+export async function restoreRecycleBinEntry(batch: string, operation = "restore"): Promise<void> {
+  await db.transaction("rw", auditTables("styles", "variants", "bom_items"), async () => {
+    const [styles, variants, bomItems] = await Promise.all([
+      db.styles.where("deleted_batch").equals(batch).toArray(),
+      db.variants.where("deleted_batch").equals(batch).toArray(),
+      db.bom_items.where("deleted_batch").equals(batch).toArray(),
+    ]);
+
+    if (styles.length + variants.length + bomItems.length === 0) {
+      throw new Error("回收站中没有这条记录");
+    }
+
+    // ========== 检查上级记录 ==========
+    const { resource, id } = parseRecycleBatch(batch);
+    if (resource === "variants") {
+      const variant = variants.find((v) => v.id === id);
+      const style = variant && (await db.styles.get(variant.style_id));
+      if (style?.deleted_at) {
+        throw new Error(`所属款号 ${style.style_no} 在回收站中，请先恢复款号`);
+      }
+    } else if (resource === "bom_items") {
+      const item = bomItems.find((b) => b.id === id);
+      const variant = item && (await db.variants.get(item.variant_id));
+      if (variant?.deleted_at) {
+        throw new Error(`所属颜色版本 ${variant.color_name} 在回收站中，请先恢复颜色版本`);
+      }
+    }
+
+    const clear = { deleted_at: undefined, deleted_batch: undefined };
+    await Promise.all([
+      ...styles.map((s) => db.styles.update(s.id, clear)),
+      ...variants.map((v) => db.variants.update(v.id, clear)),
+      ...bomItems.map((b) => db.bom_items.update(b.id, clear)),
+    ]);
+
+    // ========== 审计日志 ==========
+    const auditBatch = createAuditBatch(operation);
+    const restored: [string, any[]][] = [
+      ["styles", styles],
+      ["variants", variants],
+      ["bom_items", bomItems],
+    ];
+    const inputs: IAuditInput[] = restored.flatMap(([table, records]) =>
+      records.map((record) => ({
+        action: "restore" as const,
+        operation,
+        resource: table,
+        after: record,
+        changes: [],
+        batch: auditBatch,
+        note:
+          table === resource && record.id === id
+            ? undefined
+            : `随${AUDIT_RESOURCE_LABELS[resource]}一起从回收站恢复`,
+      }))
+    );
+    await recordAudit(inputs);
+  });
+}
+
+/**
+ * 彻底删除若干批次（连同其下级数据，包括之前单独删除的下级记录）
+ * @returns 删除的批次数
+ */
+async function purgeBatches(batches: string[], operation: string): Promise<number> {
+  if (batches.length === 0) return 0;
+
+  await db.transaction("rw", auditTables("styles", "variants", "bom_items"), async () => {
+    const auditBatch = createAuditBatch(operation);
+    for (const batch of batches) {
+      // 先删上级（级联带走下级），已被带走的记录跳过
+      for (const table of [db.styles, db.variants, db.bom_items]) {
+        const ids = (await table.where("deleted_batch").equals(batch).primaryKeys()) as number[];
+        for (const id of ids) {
+          const records = await readCascadeRecords(table.name, id);
+          if (!records[table.name]) continue;
+
+          const summary = await cascadeDelete(table.name, id);
+          await recordAudit(
+            cascadeAuditInputs(records, summary, { action: "purge", operation, batch: auditBatch })
+          );
+        }
+      }
+    }
+  });
+
+  return batches.length;
+}
+
+/**
+ * 彻底删除回收站中的一个条目
+ */
+export async function purgeRecycleBinEntry(entry: IRecycleBinEntry): Promise<void> {
+  await takeSnapshot("before-delete", `彻底删除回收站：${entry.label}`);
+  await purgeBatches([entry.batch], "purge");
+}
+
+/**
+ * 清空回收站
+ */
+export async function emptyRecycleBin(): Promise<number> {
+  const entries = await listRecycleBin();
+  if (entries.length === 0) return 0;
+
+  await takeSnapshot("before-delete", `清空回收站（${entries.length} 条）`);
+  return purgeBatches(entries.map((e) => e.batch), "emptyRecycleBin");
+}
+
+/**
+ * 清除超过保留天数的回收站条目
+ * @returns 清除的条目数
+ */
+export async function purgeExpiredRecycleBin(
+  retentionDays: number = RECYCLE_BIN_RETENTION_DAYS
+): Promise<number> {
+  const now = Date.now();
+  const expired = (await listRecycleBin(retentionDays)).filter(
+    (entry) => new Date(entry.expires_at).getTime() <= now
+  );
+  if (expired.length === 0) return 0;
+
+  await takeSnapshot("before-delete", `自动清除回收站过期条目（${expired.length} 条）`);
+  return purgeBatches(expired.map((e) => e.batch), "autoPurge");
+}
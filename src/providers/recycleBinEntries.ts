@@ -0,0 +1,110 @@
+/**
+ * 回收站条目
+ * 按删除批次把软删除的款号、颜色版本、配料整理成回收站条目，
+ * 本地回收站和参考后端（server/store.ts）共用，两种模式列出的条目保持一致
+ */
+
+import type { IBOMItem, IColorVariant, IRecycleBinEntry, IStyle } from "../types/models";
+
+// 回收站保留天数，超过后自动彻底删除
+export const RECYCLE_BIN_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 回收站中的全部记录
+ */
+export interface IDeletedRecords {
+  styles: IStyle[];
+  variants: IColorVariant[];
+  bom_items: IBOMItem[];
+}
+
+/**
+ * 生成显示名称时用到的款号、颜色版本（包括仍在使用中的上级记录）
+ */
+export interface IRecycleBinParents {
+  styles: Map<number, IStyle>;
+  variants: Map<number, IColorVariant>;
+}
+
+/**
+ * 解析删除批次（格式：resource:id:deleted_at）
+ */
+export function parseRecycleBatch(batch: string): { resource: IRecycleBinEntry["resource"]; id: number } {
+  const [resource, id] = batch.split(":");
+  return { resource: resource as IRecycleBinEntry["resource"], id: Number(id) };
+}
+
+/**
+ * 生成显示名称需要读取的颜色版本ID（读取后再按颜色版本的 style_id 读取款号）
+ */
+export function recycleBinVariantIds(deleted: IDeletedRecords): number[] {
+  return Array.from(
+    new Set([...deleted.variants.map((variant) => variant.id), ...deleted.bom_items.map((item) => item.variant_id)])
+  );
+}
+
+/**
+ * 按删除批次整理回收站条目（每次删除操作一个条目，最近删除的在前）
+ * @param parents recycleBinVariantIds 对应的颜色版本，以及被删除的款号和这些颜色版本所属的款号
+ */
+export function toRecycleBinEntries(
+  deleted: IDeletedRecords,
+  parents: IRecycleBinParents,
+  retentionDays: number = RECYCLE_BIN_RETENTION_DAYS
+): IRecycleBinEntry[] {
+  const entries = new Map<string, IRecycleBinEntry>();
+
+  const entryOf = (batch: string, deletedAt: string): IRecycleBinEntry => {
+    let entry = entries.get(batch);
+    if (!entry) {
+      const { resource, id } = parseRecycleBatch(batch);
+      entry = {
+        batch,
+        resource,
+        id,
+        label: "",
+        deleted_at: deletedAt,
+        expires_at: new Date(new Date(deletedAt).getTime() + retentionDays * DAY_MS).toISOString(),
+        variant_ids: [],
+        bom_item_ids: [],
+        spec_count: 0,
+      };
+      entries.set(batch, entry);
+    }
+    return entry;
+  };
+
+  deleted.styles.forEach((style) => entryOf(style.deleted_batch!, style.deleted_at!));
+  deleted.variants.forEach((variant) =>
+    entryOf(variant.deleted_batch!, variant.deleted_at!).variant_ids.push(variant.id)
+  );
+  deleted.bom_items.forEach((item) => {
+    const entry = entryOf(item.deleted_batch!, item.deleted_at!);
+    entry.bom_item_ids.push(item.id);
+    entry.spec_count += item.specDetails?.length || 0;
+  });
+
+  // ========== 生成显示名称 ==========
+  const bomItemsById = new Map(deleted.bom_items.map((item) => [item.id, item]));
+
+  entries.forEach((entry) => {
+    if (entry.resource === "styles") {
+      entry.label = parents.styles.get(entry.id)?.style_no || `款号 #${entry.id}`;
+    } else if (entry.resource === "variants") {
+      const variant = parents.variants.get(entry.id);
+      const style = variant && parents.styles.get(variant.style_id);
+      entry.label = variant ? `${style?.style_no || "-"} · ${variant.color_name}` : `颜色版本 #${entry.id}`;
+    } else {
+      const item = bomItemsById.get(entry.id);
+      const variant = item && parents.variants.get(item.variant_id);
+      const style = variant && parents.styles.get(variant.style_id);
+      entry.label = item
+        ? `${item.material_name}（${style?.style_no || "-"} · ${variant?.color_name || "-"}）`
+        : `配料 #${entry.id}`;
+    }
+  });
+
+  return Array.from(entries.values()).sort((a, b) => b.deleted_at.localeCompare(a.deleted_at));
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { detachReference, isReferencing, REFERENCE_RULES, renameReference, type IReferenceRule } from "./references";
+import type { IBOMItem, IUnit } from "../types/models";
+
+const rule = (key: string): IReferenceRule => REFERENCE_RULES.find((r) => r.key === key)!;
+
+const meter: IUnit = { id: 1, unit_code: "m", unit_name: "米", unit_type: "长度", is_active: true };
+
+const bomItem = (unit: string, specUnits: string[]): IBOMItem => ({
+  id: 1,
+  variant_id: 1,
+  material_name: "织带",
+  material_image_url: "",
+  usage: 1,
+  unit,
+  specDetails: specUnits.map((spec_unit, index) => ({ id: index + 1, size: "S", spec_value: 1, spec_unit })),
+});
+
+describe("isReferencing", () => {
+  it("规格单位按单位名称或单位代码匹配", () => {
+    expect(isReferencing(rule("spec_unit"), meter, bomItem("条", ["米"]))).toBe(true);
+    expect(isReferencing(rule("spec_unit"), meter, bomItem("条", ["m"]))).toBe(true);
+    expect(isReferencing(rule("spec_unit"), meter, bomItem("条", ["cm"]))).toBe(false);
+  });
+
+  it("单耗单位只按单位名称匹配", () => {
+    expect(isReferencing(rule("bom_unit"), meter, bomItem("米", []))).toBe(true);
+    expect(isReferencing(rule("bom_unit"), meter, bomItem("m", []))).toBe(false);
+  });
+
+  it("被引用字段为空时不视为引用", () => {
+    const unnamed = { ...meter, unit_code: "", unit_name: "" };
+    expect(isReferencing(rule("spec_unit"), unnamed, bomItem("", [""]))).toBe(false);
+  });
+});
+
+describe("detachReference", () => {
+  it("清空规格明细中按名称或代码引用的规格单位", () => {
+    const specRule: IReferenceRule = { ...rule("spec_unit"), action: "nullify" };
+    const { remove, record } = detachReference(specRule, meter, bomItem("条", ["米", "m", "cm"]));
+
+    expect(remove).toBe(false);
+    expect(record.specDetails.map((spec: any) => spec.spec_unit)).toEqual([undefined, undefined, "cm"]);
+  });
+});
+
+describe("renameReference", () => {
+  it("按改名前的名称或代码改写规格单位", () => {
+    const renamed = { ...meter, unit_code: "M", unit_name: "公尺" };
+    const record = renameReference(rule("spec_unit"), meter, renamed, bomItem("条", ["米", "m", "cm"]));
+
+    expect(record.specDetails.map((spec: any) => spec.spec_unit)).toEqual(["公尺", "M", "cm"]);
+  });
+
+  it("未引用改名前的值时返回 null", () => {
+    const renamed = { ...meter, unit_name: "公尺" };
+    expect(renameReference(rule("bom_unit"), meter, renamed, bomItem("条", []))).toBeNull();
+    expect(renameReference(rule("bom_unit"), meter, meter, bomItem("米", []))).toBeNull();
+  });
+});
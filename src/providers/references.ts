@@ -0,0 +1,260 @@
+/**
+ * 基础数据的引用关系（参照完整性）
+ * 款号引用客户（customer_id），配料的单耗单位引用单位名称，规格明细的尺码引用尺码代码，
+ * 规格单位为手工填写，单位代码或单位名称（如 cm、米）都视为引用。
+ * 删除被引用的客户、尺码、单位时，按每条引用关系配置的方式处理：
+ * - block：仍被使用时拒绝删除（抛出 ReferenceInUseError）
+ * - cascade：一并删除引用它的记录（款号、配料移入回收站；规格明细从配料中移除）
+ * - nullify：清空引用字段（及对应的冗余字段）
+ * 回收站中的记录不计入使用数，也不做处理
+ *
+ * 客户改名时，款号中冗余的 customer_name 随之更新（见 DENORMALIZED_FIELDS）；
+ * 尺码代码、单位代码或单位名称改变时，引用方中的值随之改写（见 renameReference，含回收站中的记录）
+ *
+ * 本模块只包含规则和纯函数，IndexedDB Data Provider 与参考后端（server/store.ts）共用
+ */
+
+import type { ISpecDetail } from "../types/models";
+
+export type ReferenceAction = "block" | "cascade" | "nullify";
+
+/**
+ * 一条引用关系
+ */
+export interface IReferenceRule {
+  key: string;                                 // 关系标识
+  parent: "customers" | "sizes" | "units";     // 被引用的资源
+  parentField: string | string[];              // 被引用的字段（id 或名称、代码），多个字段时任一字段相同即为引用
+  child: "styles" | "bom_items";               // 引用方资源
+  field: string;                               // 引用字段，规格明细中的字段写作 specDetails.<字段>
+  clearFields?: string[];                      // nullify 时一并清空的冗余字段
+  action: ReferenceAction;                     // 删除被引用记录时的处理方式
+  label: string;                               // 关系说明
+}
+
+/**
+ * 引用关系及删除时的处理方式（按需修改 action）
+ */
+export const REFERENCE_RULES: IReferenceRule[] = [
+  {
+    key: "style_customer",
+    parent: "customers",
+    parentField: "id",
+    child: "styles",
+    field: "customer_id",
+    clearFields: ["customer_name"],
+    action: "nullify",
+    label: "款号的客户",
+  },
+  {
+    key: "bom_unit",
+    parent: "units",
+    parentField: "unit_name",
+    child: "bom_items",
+    field: "unit",
+    action: "block",
+    label: "配料的单耗单位",
+  },
+  {
+    key: "spec_unit",
+    parent: "units",
+    parentField: ["unit_code", "unit_name"],
+    child: "bom_items",
+    field: "specDetails.spec_unit",
+    action: "block",
+    label: "规格明细的规格单位",
+  },
+  {
+    key: "spec_size",
+    parent: "sizes",
+    parentField: "size_code",
+    child: "bom_items",
+    field: "specDetails.size",
+    action: "block",
+    label: "规格明细的尺码",
+  },
+];
+
+/**
+ * 冗余字段：被引用记录的字段改变时，同步更新引用方中的副本
+ */
+export const DENORMALIZED_FIELDS = [
+  {
+    parent: "customers",
+    parentField: "customer_name",
+    child: "styles",
+    foreignKey: "customer_id",
+    field: "customer_name",
+  },
+];
+
+/**
+ * 一条引用关系的使用情况
+ */
+export interface IReferenceUsage {
+  key: string;
+  label: string;
+  child: string;
+  action: ReferenceAction;
+  count: number;      // 引用方记录数（款号数或配料数）
+}
+
+const CHILD_UNITS: Record<string, string> = {
+  styles: "个款号",
+  bom_items: "条配料",
+};
+
+const ACTION_HINTS: Record<ReferenceAction, string> = {
+  block: "需先修改这些记录才能删除",
+  cascade: "删除时一并删除",
+  nullify: "删除时清空引用",
+};
+
+/**
+ * 规格明细中的字段名（非规格明细字段返回 null）
+ */
+function specField(rule: IReferenceRule): keyof ISpecDetail | null {
+  return rule.field.startsWith("specDetails.")
+    ? (rule.field.slice("specDetails.".length) as keyof ISpecDetail)
+    : null;
+}
+
+/**
+ * 被引用记录中用于匹配的值（忽略空值）
+ */
+function parentValues(rule: IReferenceRule, parent: any): unknown[] {
+  return ([] as string[])
+    .concat(rule.parentField)
+    .map((field) => parent[field])
+    .filter((value) => value !== undefined && value !== null && value !== "");
+}
+
+/**
+ * 某资源被哪些关系引用
+ */
+export function referenceRulesFor(resource: string): IReferenceRule[] {
+  return REFERENCE_RULES.filter((rule) => rule.parent === resource);
+}
+
+/**
+ * 引用方记录是否引用了该记录
+ */
+export function isReferencing(rule: IReferenceRule, parent: any, child: any): boolean {
+  const values = parentValues(rule, parent);
+  if (values.length === 0) return false;
+
+  const sub = specField(rule);
+  if (sub) {
+    return (child.specDetails || []).some((spec: ISpecDetail) => values.includes(spec[sub]));
+  }
+  return values.includes(child[rule.field]);
+}
+
+/**
+ * 被引用字段改变后改写一条引用方记录（如单位"米"改名为"公尺"后更新配料的单耗单位）
+ * @returns 改写后的记录；没有引用改变前的值时返回 null
+ */
+export function renameReference(rule: IReferenceRule, before: any, after: any, child: any): any | null {
+  const renames = new Map<unknown, unknown>();
+  ([] as string[]).concat(rule.parentField).forEach((field) => {
+    const value = before[field];
+    if (value !== undefined && value !== null && value !== "" && value !== after[field]) {
+      renames.set(value, after[field]);
+    }
+  });
+  if (renames.size === 0) return null;
+
+  const sub = specField(rule);
+  if (sub) {
+    const specDetails: ISpecDetail[] = child.specDetails || [];
+    if (!specDetails.some((spec) => renames.has(spec[sub]))) return null;
+    return {
+      ...child,
+      specDetails: specDetails.map((spec) => (renames.has(spec[sub]) ? { ...spec, [sub]: renames.get(spec[sub]) } : spec)),
+    };
+  }
+
+  if (!renames.has(child[rule.field])) return null;
+  return { ...child, [rule.field]: renames.get(child[rule.field]) };
+}
+
+/**
+ * 按 cascade / nullify 处理一条引用方记录
+ * @returns remove 为 true 时整条记录需要删除；否则 record 为处理后的记录
+ */
+export function detachReference(
+  rule: IReferenceRule,
+  parent: any,
+  child: any
+): { remove: boolean; record?: any } {
+  const values = parentValues(rule, parent);
+  const sub = specField(rule);
+
+  if (sub) {
+    const specDetails: ISpecDetail[] = child.specDetails || [];
+    return {
+      remove: false,
+      record: {
+        ...child,
+        specDetails:
+          rule.action === "cascade"
+            ? specDetails.filter((spec) => !values.includes(spec[sub]))
+            : specDetails.map((spec) => (values.includes(spec[sub]) ? { ...spec, [sub]: undefined } : spec)),
+      },
+    };
+  }
+
+  if (rule.action === "cascade") {
+    return { remove: true };
+  }
+
+  const record = { ...child, [rule.field]: undefined };
+  for (const field of rule.clearFields || []) {
+    record[field] = undefined;
+  }
+  return { remove: false, record };
+}
+
+const PARENT_LABEL_FIELDS: Record<string, string> = {
+  customers: "customer_name",
+  sizes: "size_code",
+  units: "unit_name",
+};
+
+/**
+ * 被引用记录的显示名称（客户名称、尺码代码、单位名称）
+ */
+export function referenceParentLabel(resource: string, parent: any): string {
+  return parent[PARENT_LABEL_FIELDS[resource]] || `#${parent.id}`;
+}
+
+/**
+ * 生成使用情况
+ */
+export function toReferenceUsage(rule: IReferenceRule, count: number): IReferenceUsage {
+  return { key: rule.key, label: rule.label, child: rule.child, action: rule.action, count };
+}
+
+/**
+ * 使用情况说明（如"款号的客户：3 个款号（删除时清空引用）"）
+ */
+export function describeReferenceUsages(usages: IReferenceUsage[]): string {
+  return usages
+    .filter((usage) => usage.count > 0)
+    .map((usage) => `${usage.label}：${usage.count} ${CHILD_UNITS[usage.child] || "条记录"}（${ACTION_HINTS[usage.action]}）`)
+    .join("；");
+}
+
+/**
+ * 删除被拒绝：记录仍被使用
+ */
+export class ReferenceInUseError extends Error {
+  readonly statusCode = 409;
+  readonly usages: IReferenceUsage[];
+
+  constructor(label: string, usages: IReferenceUsage[]) {
+    super(`"${label}"仍被使用，不能删除。${describeReferenceUsages(usages)}`);
+    this.name = "ReferenceInUseError";
+    this.usages = usages;
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * REST Data Provider
+ * 通过 HTTP 访问 SpecMaster 后端（参考实现见 server/index.ts），
+ * 资源、筛选排序规则与返回结构与 IndexedDB Data Provider 保持一致
+ *
+ * 自定义操作（深度克隆、回收站）沿用 /api/... 路径，转发到后端对应的路由
+ * 修改时的 meta.baseUpdatedAt 以 base_updated_at 传给后端，后端返回 409 时抛出 RecordConflictError
+ * 款号重复时后端同样返回 409，转换为 DuplicateStyleNoError
+ */
+
+import type { DataProvider } from "@refinedev/core";
+import { RecordConflictError } from "./concurrency";
+import { DuplicateStyleNoError } from "./styleNo";
+
+/**
+ * 带 HTTP 状态码的请求错误（Refine 通过 statusCode 识别）
+ */
+interface IHttpError extends Error {
+  statusCode?: number;
+  body?: any; // 后端返回的响应内容
+}
+
+/**
+ * 发送请求并解析 JSON 响应，非 2xx 响应抛出错误（错误信息取自后端返回的 message）
+ */
+async function request<T = any>(url: string, method: string, body?: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    const error: IHttpError = new Error(result.message || `请求失败：${method} ${url}（${response.status}）`);
+    error.statusCode = response.status;
+    error.body = result;
+    throw error;
+  }
+
+  return result as T;
+}
+
+/**
+ * 写入冲突（409，响应中的 current 为后端的最新记录）转换为 RecordConflictError，
+ * 款号重复（409，响应中带 duplicate_style_no）转换为 DuplicateStyleNoError
+ */
+function rethrowConflict(resource: string) {
+  return (error: IHttpError): never => {
+    if (error.statusCode === 409 && error.body?.current) {
+      throw new RecordConflictError(resource, error.body.current);
+    }
+    if (error.statusCode === 409 && error.body?.duplicate_style_no) {
+      const { style_no, existing_id, in_recycle_bin } = error.body.duplicate_style_no;
+      throw new DuplicateStyleNoError(style_no, existing_id, in_recycle_bin);
+    }
+    throw error;
+  };
+}
+
+/**
+ * 生成查询字符串（值为 undefined 的参数忽略）
+ */
+function toQueryString(params: Record<string, unknown>): string {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value === undefined) return;
+    search.set(key, typeof value === "string" ? value : JSON.stringify(value));
+  });
+  const query = search.toString();
+  return query ? `?${query}` : "";
+}
+
+/**
+ * 创建 REST Data Provider
+ * @param apiUrl 后端 API 基础地址（如 http://localhost:3002/api）
+ */
+export function restDataProvider(apiUrl: string): DataProvider {
+  const resourceUrl = (resource: string, id?: string | number) =>
+    id === undefined ? `${apiUrl}/${resource}` : `${apiUrl}/${resource}/${id}`;
+
+  return {
+    getList: async ({ resource, filters, sorters, pagination }) => {
+      const query = toQueryString({
+        filters: filters && filters.length > 0 ? filters : undefined,
+        sorters: sorters && sorters.length > 0 ? sorters : undefined,
+        current: pagination?.current !== undefined ? String(pagination.current) : undefined,
+        pageSize: pagination?.pageSize !== undefined ? String(pagination.pageSize) : undefined,
+        mode: pagination?.mode,
+      });
+      return request(`${resourceUrl(resource)}${query}`, "GET");
+    },
+
+    getOne: async ({ resource, id }) => {
+      return request(resourceUrl(resource, id), "GET");
+    },
+
+    getMany: async ({ resource, ids }) => {
+      return request(`${resourceUrl(resource)}${toQueryString({ ids: ids.join(",") })}`, "GET");
+    },
+
+    create: async ({ resource, variables }) => {
+      return request(resourceUrl(resource), "POST", variables).catch(rethrowConflict(resource));
+    },
+
+    /**
+     * 修改（base_updated_at 为 JSON，记录没有修改时间时为 null）
+     */
+    update: async ({ resource, id, variables, meta }) => {
+      const query =
+        meta && "baseUpdatedAt" in meta
+          ? toQueryString({ base_updated_at: JSON.stringify(meta.baseUpdatedAt ?? null) })
+          : "";
+      return request(`${resourceUrl(resource, id)}${query}`, "PATCH", variables).catch(rethrowConflict(resource));
+    },
+
+    updateMany: async ({ resource, ids, variables, meta }) => {
+      return request(resourceUrl(resource), "PATCH", {
+        ids,
+        variables,
+        base_updated_at: meta?.baseUpdatedAt,
+      }).catch(rethrowConflict(resource));
+    },
+
+    /**
+     * 删除（返回 { data, summary }，summary 为级联删除结果）
+     */
+    deleteOne: async ({ resource, id }) => {
+      return request(resourceUrl(resource, id), "DELETE");
+    },
+
+    deleteMany: async ({ resource, ids }) => {
+      return request(resourceUrl(resource), "DELETE", { ids });
+    },
+
+    /**
+     * 自定义操作：/api/... 路径转发到 apiUrl 下的同名路由
+     */
+    custom: async ({ url, method, payload, query }) => {
+      const path = url.startsWith("/api/") ? `${apiUrl}${url.slice(4)}` : url;
+      return request(`${path}${query ? toQueryString(query) : ""}`, method.toUpperCase(), payload);
+    },
+
+    getApiUrl: () => apiUrl,
+  };
+}
@@ -0,0 +1,45 @@
+/**
+ * 定时自动快照
+ * 应用运行期间按固定间隔为业务数据创建快照，数据未变化时跳过
+ */
+
+import { takeSnapshot } from "./database";
+import { getLatestSnapshot } from "./snapshots";
+
+// 定时快照间隔（毫秒）
+export const SNAPSHOT_INTERVAL_MS = 30 * 60 * 1000;
+
+/**
+ * 执行一次定时快照（数据与上一份定时快照相同时跳过）
+ */
+async function runScheduledSnapshot(): Promise<void> {
+  try {
+    const id = await takeSnapshot("scheduled", undefined, { skipIfUnchanged: true });
+    if (id !== null) {
+      console.log(`定时快照已保存：#${id}`);
+    }
+  } catch (error) {
+    console.error("定时快照失败:", error);
+  }
+}
+
+/**
+ * 启动定时快照
+ * 启动时如果距上一份定时快照已超过间隔，立即补做一次
+ * @returns 停止函数
+ */
+export function startSnapshotScheduler(intervalMs: number = SNAPSHOT_INTERVAL_MS): () => void {
+  getLatestSnapshot("scheduled")
+    .then((latest) => {
+      const elapsed = latest ? Date.now() - new Date(latest.created_at).getTime() : Infinity;
+      if (elapsed >= intervalMs) {
+        runScheduledSnapshot();
+      }
+    })
+    .catch((error) => {
+      console.error("读取快照记录失败:", error);
+    });
+
+  const timer = window.setInterval(runScheduledSnapshot, intervalMs);
+  return () => window.clearInterval(timer);
+}
@@ -0,0 +1,154 @@
+/**
+ * 本地快照存储
+ * 使用独立的 IndexedDB 数据库保存业务数据的完整副本
+ * 业务库升级失败、被误删或被清空时，仍可从这里恢复
+ */
+
+import Dexie, { Table } from "dexie";
+import type { ISnapshot, SnapshotReason } from "../types/models";
+
+/**
+ * 快照数据库类
+ */
+class SpecMasterSnapshotDB extends Dexie {
+  snapshots!: Table<ISnapshot, number>;
+
+  constructor() {
+    super("SpecMasterSnapshotDB");
+
+    this.version(1).stores({
+      snapshots: "++id, reason, created_at",
+    });
+  }
+}
+
+// 创建快照数据库单例
+export const snapshotDb = new SpecMasterSnapshotDB();
+
+/**
+ * 快照保留策略：每种原因最多保留的份数，以及最长保留天数
+ * 手动快照不自动清理
+ */
+export const SNAPSHOT_RETENTION: Record<SnapshotReason, { maxCount?: number; maxAgeDays?: number }> = {
+  "pre-migration": { maxCount: 3 },
+  scheduled: { maxCount: 24, maxAgeDays: 7 },
+  manual: {},
+  "before-reset": { maxCount: 5, maxAgeDays: 30 },
+  "before-import": { maxCount: 5, maxAgeDays: 30 },
+  "before-delete": { maxCount: 20, maxAgeDays: 14 },
+  "before-restore": { maxCount: 5, maxAgeDays: 30 },
+};
+
+export const SNAPSHOT_REASON_LABELS: Record<SnapshotReason, string> = {
+  "pre-migration": "升级前",
+  scheduled: "定时",
+  manual: "手动",
+  "before-reset": "重置前",
+  "before-import": "导入前",
+  "before-delete": "删除前",
+  "before-restore": "恢复前",
+};
+
+/**
+ * 计算数据摘要（FNV-1a），用于判断数据是否发生变化
+ */
+export function computeChecksum(tables: Record<string, any[]>): string {
+  const text = JSON.stringify(tables);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${text.length.toString(16)}-${(hash >>> 0).toString(16)}`;
+}
+
+/**
+ * 保存一份快照，并按保留策略清理同类旧快照
+ * @returns 新快照的 ID
+ */
+export async function saveSnapshot(
+  reason: SnapshotReason,
+  schemaVersion: number,
+  tables: Record<string, any[]>,
+  note?: string
+): Promise<number> {
+  const recordCount = Object.values(tables).reduce((sum, rows) => sum + rows.length, 0);
+
+  const id = await snapshotDb.snapshots.add({
+    reason,
+    created_at: new Date().toISOString(),
+    schema_version: schemaVersion,
+    record_count: recordCount,
+    checksum: computeChecksum(tables),
+    note,
+    tables,
+  });
+
+  await applyRetention(reason);
+
+  return id;
+}
+
+/**
+ * 按保留策略清理指定原因的旧快照
+ */
+export async function applyRetention(reason: SnapshotReason): Promise<number> {
+  const { maxCount, maxAgeDays } = SNAPSHOT_RETENTION[reason];
+  if (maxCount === undefined && maxAgeDays === undefined) return 0;
+
+  // 最新的在前
+  const snapshots = (await snapshotDb.snapshots.where("reason").equals(reason).toArray()).sort(
+    (a, b) => b.created_at.localeCompare(a.created_at)
+  );
+
+  const cutoff = maxAgeDays !== undefined ? Date.now() - maxAgeDays * 24 * 60 * 60 * 1000 : null;
+
+  const expiredIds = snapshots
+    .filter(
+      (snapshot, index) =>
+        (maxCount !== undefined && index >= maxCount) ||
+        // 至少保留最新一份，避免长期未使用后全部过期
+        (cutoff !== null && index > 0 && new Date(snapshot.created_at).getTime() < cutoff)
+    )
+    .map((snapshot) => snapshot.id!);
+
+  if (expiredIds.length > 0) {
+    await snapshotDb.snapshots.bulkDelete(expiredIds);
+  }
+
+  return expiredIds.length;
+}
+
+/**
+ * 获取单个快照
+ */
+export async function getSnapshot(id: number): Promise<ISnapshot | undefined> {
+  return snapshotDb.snapshots.get(id);
+}
+
+/**
+ * 获取最近一份指定原因的快照
+ */
+export async function getLatestSnapshot(reason: SnapshotReason): Promise<ISnapshot | undefined> {
+  const snapshots = await snapshotDb.snapshots.where("reason").equals(reason).toArray();
+  return snapshots.sort((a, b) => b.created_at.localeCompare(a.created_at))[0];
+}
+
+/**
+ * 列出所有快照（不含数据，最新的在前）
+ */
+export async function listSnapshots(): Promise<Omit<ISnapshot, "tables">[]> {
+  const snapshots = await snapshotDb.snapshots.orderBy("created_at").reverse().toArray();
+  return snapshots.map((snapshot) => {
+    const meta: Partial<ISnapshot> = { ...snapshot };
+    delete meta.tables;
+    return meta as Omit<ISnapshot, "tables">;
+  });
+}
+
+/**
+ * 删除快照
+ */
+export async function deleteSnapshot(id: number): Promise<void> {
+  await snapshotDb.snapshots.delete(id);
+}
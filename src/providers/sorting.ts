@@ -0,0 +1,83 @@
+/**
+ * 列表排序
+ * 将 Refine 的 sorters 应用到查询结果上，支持多字段排序
+ * - 字符串按中文拼音顺序比较（数字部分按数值比较，如 "款2" < "款10"）
+ * - 空值始终排在最后
+ * - 尺码按 sort_order 排序（尺码编码本身的字母顺序没有意义）
+ */
+
+import type { CrudSorting } from "@refinedev/core";
+
+// 中文按拼音排序，数字按数值比较，忽略大小写
+const collator = new Intl.Collator("zh-CN-u-co-pinyin", { numeric: true, sensitivity: "base" });
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === "";
+}
+
+/**
+ * 比较两个字段值（不含方向，空值由调用方处理）
+ */
+export function compareValues(a: unknown, b: unknown): number {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (typeof a === "boolean" && typeof b === "boolean") return Number(a) - Number(b);
+  return collator.compare(String(a), String(b));
+}
+
+/**
+ * 排序字段展开：按某字段排序时实际依次比较的字段
+ * 尺码按 sort_order 排序，未设置排序号的再按尺码编码比较
+ */
+const FIELD_EXPANSIONS: Record<string, Record<string, string[]>> = {
+  sizes: {
+    sort_order: ["sort_order", "size_code"],
+    size_code: ["sort_order", "size_code"],
+  },
+};
+
+/**
+ * 各资源未指定排序时的默认顺序
+ */
+export const DEFAULT_SORTERS: Record<string, CrudSorting> = {
+  sizes: [{ field: "sort_order", order: "asc" }],
+};
+
+/**
+ * 对记录排序（返回新数组，原数组不变）
+ * 排序字段全部相同时按 ID 排序（方向与最后一个排序字段相同，和索引倒序遍历的顺序一致），
+ * 保证分页结果稳定
+ */
+export function sortRecords<T extends { id?: number }>(
+  resource: string,
+  records: T[],
+  sorters?: CrudSorting
+): T[] {
+  const effective = sorters && sorters.length > 0 ? sorters : DEFAULT_SORTERS[resource] || [];
+
+  const keys = effective.flatMap(({ field, order }) =>
+    (FIELD_EXPANSIONS[resource]?.[field] || [field]).map((key) => ({
+      key,
+      direction: order === "desc" ? -1 : 1,
+    }))
+  );
+
+  const comparators = keys.map(({ key, direction }) => (a: T, b: T) => {
+    const valueA = (a as any)[key];
+    const valueB = (b as any)[key];
+    // 空值不参与方向翻转，始终排在最后
+    const emptyA = isEmpty(valueA);
+    const emptyB = isEmpty(valueB);
+    if (emptyA || emptyB) return Number(emptyA) - Number(emptyB);
+    return compareValues(valueA, valueB) * direction;
+  });
+
+  const idDirection = keys.length > 0 ? keys[keys.length - 1].direction : 1;
+
+  return [...records].sort((a, b) => {
+    for (const compare of comparators) {
+      const result = compare(a, b);
+      if (result !== 0) return result;
+    }
+    return ((a.id ?? 0) - (b.id ?? 0)) * idDirection;
+  });
+}
@@ -0,0 +1,141 @@
+/**
+ * 款号唯一性
+ * 款号（style_no）去除首尾空格后保存，在数据库中为唯一索引（回收站中的款号同样占用）。
+ * 新建、修改时由数据层检查，重复时抛出 DuplicateStyleNoError
+ *
+ * 启用唯一索引前已存在的重复款号，以及导入、同步带来的重复，按以下方式让出款号：
+ * 每组保留一条（优先不在回收站中、ID 最小的），其余改为"原款号~ID"，并在 duplicate_of 中记下原款号，
+ * 之后在款号查重工具（DuplicateStylesModal）中合并或改号
+ *
+ * 本模块只包含纯函数，IndexedDB Data Provider 与参考后端（server/store.ts）共用
+ */
+
+import type { IStyle } from "../types/models";
+
+/**
+ * 款号重复
+ */
+export class DuplicateStyleNoError extends Error {
+  readonly statusCode = 409;
+  readonly styleNo: string;
+  readonly existingId: number;      // 已使用该款号的记录
+  readonly inRecycleBin: boolean;   // 已使用该款号的记录在回收站中
+
+  constructor(styleNo: string, existingId: number, inRecycleBin: boolean) {
+    super(
+      inRecycleBin
+        ? `款号"${styleNo}"已被回收站中的款号使用，请恢复该款号或彻底删除后再使用`
+        : `款号"${styleNo}"已存在`
+    );
+    this.name = "DuplicateStyleNoError";
+    this.styleNo = styleNo;
+    this.existingId = existingId;
+    this.inRecycleBin = inRecycleBin;
+  }
+}
+
+/**
+ * 判断错误是否为款号重复
+ */
+export function isDuplicateStyleNo(error: unknown): error is DuplicateStyleNoError {
+  return error instanceof DuplicateStyleNoError;
+}
+
+/**
+ * 保存前的款号（去除首尾空格）
+ */
+export function normalizeStyleNo(value: unknown): string {
+  return String(value ?? "").trim();
+}
+
+/**
+ * 查重用的款号（忽略大小写与空白，用于发现"9128"与"9128 "、"st-01"与"ST-01"这类疑似重复）
+ */
+export function styleNoKey(value: unknown): string {
+  return normalizeStyleNo(value).replace(/\s+/g, "").toUpperCase();
+}
+
+/**
+ * 让出款号后的临时款号（由原款号和记录 ID 确定，各端处理同一重复时结果一致）
+ */
+export function displacedStyleNo(styleNo: string, id: number): string {
+  return `${styleNo}~${id}`;
+}
+
+/**
+ * 为重复的款号让出款号
+ * @returns 需要改写的记录（已改为临时款号，并记下 duplicate_of）
+ */
+export function displaceDuplicateStyleNos<T extends Pick<IStyle, "id" | "style_no" | "deleted_at" | "duplicate_of">>(
+  styles: T[]
+): T[] {
+  const groups = new Map<string, T[]>();
+  for (const style of styles) {
+    const styleNo = normalizeStyleNo(style.style_no);
+    groups.set(styleNo, [...(groups.get(styleNo) || []), style]);
+  }
+
+  const displaced: T[] = [];
+  groups.forEach((group, styleNo) => {
+    if (group.length < 2) return;
+    const [, ...others] = [...group].sort(
+      (a, b) => Number(!!a.deleted_at) - Number(!!b.deleted_at) || a.id - b.id
+    );
+    others.forEach((style) => {
+      displaced.push({ ...style, style_no: displacedStyleNo(styleNo, style.id), duplicate_of: styleNo });
+    });
+  });
+  return displaced;
+}
+
+/**
+ * 去除款号首尾空格并为重复的款号让出款号，返回处理后的全部记录（数据库升级、整体导入时使用）
+ */
+export function withUniqueStyleNos<T extends Pick<IStyle, "id" | "style_no" | "deleted_at" | "duplicate_of">>(
+  styles: T[]
+): T[] {
+  const normalized = styles.map((style) => ({ ...style, style_no: normalizeStyleNo(style.style_no) }));
+  const displaced = new Map(displaceDuplicateStyleNos(normalized).map((style) => [style.id, style]));
+  return normalized.map((style) => displaced.get(style.id) || style);
+}
+
+// ========== 查重 ==========
+
+/**
+ * 一组重复（或疑似重复）的款号
+ */
+export interface IDuplicateStyleGroup {
+  key: string;          // 查重用的款号
+  styles: IStyle[];     // 组内款号（按 ID 升序）
+}
+
+/**
+ * 查找重复款号：让出过款号的记录按原款号归组，其余按忽略大小写与空白后的款号归组
+ * 只统计不在回收站中的款号；组内只剩一条但仍带有 duplicate_of 的记录也列出，便于改号
+ */
+export function findDuplicateStyleGroups(styles: IStyle[]): IDuplicateStyleGroup[] {
+  const groups = new Map<string, IStyle[]>();
+  styles
+    .filter((style) => !style.deleted_at)
+    .forEach((style) => {
+      const key = styleNoKey(style.duplicate_of || style.style_no);
+      groups.set(key, [...(groups.get(key) || []), style]);
+    });
+
+  return Array.from(groups.entries())
+    .filter(([, group]) => group.length > 1 || group.some((style) => !!style.duplicate_of))
+    .map(([key, group]) => ({ key, styles: [...group].sort((a, b) => a.id - b.id) }))
+    .sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/**
+ * 合并时与目标款号的颜色重名的颜色版本改用的名称
+ */
+export function mergedColorName(colorName: string, sourceStyleNo: string, taken: Set<string>): string {
+  let name = `${colorName}（${sourceStyleNo}）`;
+  let index = 2;
+  while (taken.has(name)) {
+    name = `${colorName}（${sourceStyleNo}-${index++}）`;
+  }
+  return name;
+}
@@ -0,0 +1,484 @@
+/**
+ * 离线同步
+ * 本机 IndexedDB 仍是页面读写的数据来源，联网时与同步服务器（参考实现见 server/）交换变更：
+ * 1. 拉取：按游标取回服务器上的新变更写入本机；本机有未推送修改的记录跳过，由推送时判断是否冲突
+ * 2. 推送：把变更队列（syncOutbox.ts）中的记录连同修改前的修订号发给服务器，
+ *    修订号与服务器一致时写入并返回新修订号，不一致时记为冲突，由用户选择保留哪个版本
+ *
+ * 不同设备离线新建的记录可能使用相同的 ID：
+ * - 拉取时本机未推送的新记录让出 ID（内容相同或本机从未修改过时直接采用服务器记录）
+ * - 推送时服务器发现 ID 已被占用会分配新 ID
+ * 记录 ID 改变时，本机同时改写下级记录的外键、审计日志和变更队列
+ *
+ * 不同设备离线新建的款号也可能使用相同的款号：写入服务器版本时本机款号让出款号（见 styleNo.ts）
+ */
+
+import { db } from "./database";
+import { allocateId, type IdSequence } from "./idAllocator";
+import { diffRecords } from "./audit";
+import { enqueueSyncChanges, SYNC_API_URL, SYNC_RESOURCES } from "./syncOutbox";
+import { notifyOtherTabs } from "./tabChannel";
+import { displacedStyleNo } from "./styleNo";
+import { orderHasVariant, remapOrderVariants } from "./orders";
+import type { ISyncChange, ISyncOutboxEntry, ISyncPushResult } from "../types/models";
+
+// 自动同步间隔（毫秒）
+export const SYNC_INTERVAL_MS = 60 * 1000;
+// 本机修改后延迟多久推送（合并连续的修改）
+const SYNC_DEBOUNCE_MS = 3000;
+// 每次拉取的变更条数
+const PULL_PAGE_SIZE = 500;
+// 多个标签页之间的同步互斥锁
+const SYNC_LOCK_NAME = "specmaster-sync";
+
+// 指向上级记录的外键（上级记录 ID 改变时一起改写）
+const FOREIGN_KEYS: Record<string, { resource: string; field: string }[]> = {
+  customers: [{ resource: "styles", field: "customer_id" }],
+  styles: [
+    { resource: "variants", field: "style_id" },
+    { resource: "orders", field: "style_id" },
+  ],
+  variants: [{ resource: "bom_items", field: "variant_id" }],
+};
+
+// 同步写入本机时的事务范围
+const SYNC_TABLES = [...SYNC_RESOURCES, "sync_outbox", "sync_state", "audit_logs", "id_counters"];
+
+export type SyncPhase = "idle" | "syncing" | "offline" | "error";
+
+/**
+ * 同步状态（待推送、冲突数量由界面直接查询变更队列）
+ */
+export interface ISyncStatus {
+  phase: SyncPhase;
+  last_synced_at?: string;  // 上次成功同步的时间
+  error?: string;           // 上次同步失败的原因
+}
+
+/**
+ * 一次同步的结果
+ */
+export interface ISyncResult {
+  pulled: number;           // 写入本机的服务器变更数
+  pushed: number;           // 推送成功的记录数
+  conflicts: number;        // 新发现的冲突数
+  resources: string[];      // 本机数据有变化的资源（用于刷新页面）
+}
+
+// ========== 状态通知 ==========
+
+let status: ISyncStatus = { phase: "idle" };
+const statusListeners = new Set<() => void>();
+const appliedListeners = new Set<(resources: string[]) => void>();
+
+function setStatus(patch: Partial<ISyncStatus>): void {
+  status = { ...status, ...patch };
+  statusListeners.forEach((listener) => listener());
+}
+
+export function getSyncStatus(): ISyncStatus {
+  return status;
+}
+
+/**
+ * 订阅同步状态变化
+ * @returns 取消订阅函数
+ */
+export function subscribeSyncStatus(listener: () => void): () => void {
+  statusListeners.add(listener);
+  return () => statusListeners.delete(listener);
+}
+
+/**
+ * 订阅"同步改变了本机数据"事件（参数为有变化的资源）
+ * @returns 取消订阅函数
+ */
+export function subscribeSyncApplied(listener: (resources: string[]) => void): () => void {
+  appliedListeners.add(listener);
+  return () => appliedListeners.delete(listener);
+}
+
+/**
+ * 同步改变了本机数据：通知本标签页及其他标签页刷新
+ */
+function emitApplied(resources: string[]): void {
+  appliedListeners.forEach((listener) => listener(resources));
+  notifyOtherTabs(resources);
+}
+
+// ========== 服务器请求 ==========
+
+async function request<T>(path: string, body?: unknown): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(`${SYNC_API_URL}${path}`, {
+      method: body === undefined ? "GET" : "POST",
+      headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  } catch {
+    throw new Error("无法连接同步服务器");
+  }
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(result.message || `同步请求失败（${response.status}）`);
+  }
+  return result as T;
+}
+
+async function readState<T>(key: string): Promise<T | undefined> {
+  return (await db.sync_state.get(key))?.value as T | undefined;
+}
+
+// ========== 本机记录改写 ==========
+
+/**
+ * 把记录移到新 ID，并改写下级记录的外键、审计日志与变更队列（需在 SYNC_TABLES 事务中调用）
+ */
+async function moveRecord(
+  resource: string,
+  fromId: number,
+  toId: number,
+  patch: Record<string, unknown> = {}
+): Promise<void> {
+  const table = db.table(resource);
+  const record = await table.get(fromId);
+  if (!record) return;
+
+  await table.delete(fromId);
+  await table.put({ ...record, ...patch, id: toId });
+
+  for (const { resource: child, field } of FOREIGN_KEYS[resource] || []) {
+    await db.table(child).where(field).equals(fromId).modify({ [field]: toId });
+  }
+  // 订单按颜色分行保存颜色版本ID，没有索引可查
+  if (resource === "variants") {
+    const idMap = new Map([[fromId, toId]]);
+    await db.orders
+      .filter((order) => orderHasVariant(order, fromId))
+      .modify((order) => {
+        order.lines = remapOrderVariants(order, idMap).lines;
+      });
+  }
+  await db.audit_logs.where("[resource+record_id]").equals([resource, fromId]).modify({ record_id: toId });
+  if (resource === "styles") {
+    await db.audit_logs.where("style_id").equals(fromId).modify({ style_id: toId });
+  }
+  await db.sync_outbox.where("[resource+record_id]").equals([resource, fromId]).modify({ record_id: toId });
+}
+
+/**
+ * 写入服务器上的款号前，本机使用相同款号的其他款号（如本机新建、尚未推送的款号）让出款号
+ * 让出后随变更队列推送；本机已同步的款号在服务器上有相同的处理结果，之后拉取时覆盖
+ */
+async function releaseStyleNo(incoming: any): Promise<void> {
+  const holder = await db.styles.where("style_no").equals(incoming.style_no).first();
+  if (!holder || holder.id === incoming.id) return;
+  await db.styles.put({
+    ...holder,
+    style_no: displacedStyleNo(holder.style_no, holder.id),
+    duplicate_of: holder.style_no,
+  });
+}
+
+function findOutboxEntry(resource: string, id: number): Promise<ISyncOutboxEntry | undefined> {
+  return db.sync_outbox.where("[resource+record_id]").equals([resource, id]).first();
+}
+
+// ========== 首次同步 ==========
+
+/**
+ * 首次同步（或整体替换本机数据后）：本机全部记录登记到变更队列
+ * 与服务器内容相同的记录在拉取时直接采用服务器版本，不会重复上传
+ */
+async function bootstrap(): Promise<void> {
+  if (await readState<boolean>("initialized")) return;
+
+  await db.transaction("rw", SYNC_TABLES, async () => {
+    for (const resource of SYNC_RESOURCES) {
+      const records = await db.table(resource).toArray();
+      await enqueueSyncChanges(
+        records.map((record) => ({ resource, record_id: record.id, base_revision: record.revision }))
+      );
+    }
+    await db.sync_state.put({ key: "initialized", value: true });
+  });
+}
+
+// ========== 拉取 ==========
+
+/**
+ * 把一条服务器变更写入本机，返回本机数据是否有变化
+ */
+async function applyPulledChange(change: ISyncChange): Promise<boolean> {
+  if (!SYNC_RESOURCES.includes(change.resource)) return false;
+
+  const table = db.table(change.resource);
+  const local = await table.get(change.id);
+  const pending = await findOutboxEntry(change.resource, change.id);
+
+  if (pending) {
+    // 本机修改过服务器上的这条记录：保留本机修改，推送时由服务器判断是否冲突
+    if (pending.base_revision !== undefined) return false;
+
+    // 本机新建的记录与服务器记录 ID 相同
+    if (!local) {
+      await db.sync_outbox.delete(pending.id!);
+    } else if (!change.data) {
+      return false;
+    } else if (
+      diffRecords(local, change.data).length === 0 ||
+      (await db.audit_logs.where("[resource+record_id]").equals([change.resource, change.id]).count()) === 0
+    ) {
+      // 内容相同，或本机从未修改过（如各设备相同的初始数据、导入的数据）：直接采用服务器记录
+      await db.sync_outbox.delete(pending.id!);
+    } else {
+      // 本机记录让出 ID，之后作为新记录推送
+      await moveRecord(change.resource, change.id, await allocateId(change.resource as IdSequence));
+    }
+  } else if (change.data && local && (local.revision ?? 0) >= (change.revision ?? 0)) {
+    // 本机已是该版本（如本机刚推送的变更）
+    return false;
+  } else if (!change.data && !local) {
+    return false;
+  }
+
+  if (change.data) {
+    if (change.resource === "styles") await releaseStyleNo(change.data);
+    await table.put(change.data);
+  } else {
+    await table.delete(change.id);
+  }
+  return true;
+}
+
+/**
+ * 拉取服务器上游标之后的全部变更
+ */
+async function pull(resources: Set<string>): Promise<number> {
+  let cursor = (await readState<number>("cursor")) ?? 0;
+  let count = 0;
+
+  for (;;) {
+    const page = await request<{ changes: ISyncChange[]; cursor: number; has_more: boolean }>(
+      `/sync/pull?since=${cursor}&limit=${PULL_PAGE_SIZE}`
+    );
+
+    await db.transaction("rw", SYNC_TABLES, async () => {
+      for (const change of page.changes) {
+        if (await applyPulledChange(change)) {
+          resources.add(change.resource);
+          count++;
+        }
+      }
+      await db.sync_state.put({ key: "cursor", value: page.cursor });
+    });
+
+    cursor = page.cursor;
+    if (!page.has_more) break;
+  }
+
+  return count;
+}
+
+// ========== 推送 ==========
+
+/**
+ * 推送变更队列中未冲突的记录，返回推送成功数与新冲突数
+ */
+async function push(resources: Set<string>): Promise<{ pushed: number; conflicts: number }> {
+  const entries = (await db.sync_outbox.toArray()).filter((entry) => !entry.conflict);
+  if (entries.length === 0) return { pushed: 0, conflicts: 0 };
+
+  // 读取记录的最新内容，以及本机各表的最大 ID（服务器分配新 ID 时避开）
+  const changes: ISyncChange[] = [];
+  const maxIds: Record<string, number> = {};
+  await db.transaction("r", SYNC_TABLES, async () => {
+    for (const entry of entries) {
+      const record = await db.table(entry.resource).get(entry.record_id);
+      changes.push({
+        resource: entry.resource,
+        id: entry.record_id,
+        base_revision: entry.base_revision,
+        data: record ?? null,
+      });
+    }
+    for (const resource of SYNC_RESOURCES) {
+      const lastKey = await db.table(resource).orderBy(":id").lastKey();
+      maxIds[resource] = typeof lastKey === "number" ? lastKey : 0;
+    }
+  });
+
+  const { results } = await request<{ results: ISyncPushResult[] }>("/sync/push", {
+    changes,
+    max_ids: maxIds,
+  });
+
+  let pushed = 0;
+  let conflicts = 0;
+  const detectedAt = new Date().toISOString();
+
+  await db.transaction("rw", SYNC_TABLES, async () => {
+    for (const [index, result] of results.entries()) {
+      const entry = entries[index];
+
+      if (result.status === "conflict") {
+        await db.sync_outbox.update(entry.id!, {
+          conflict: {
+            server_record: result.server_record ?? null,
+            server_revision: result.server_revision,
+            detected_at: detectedAt,
+          },
+        });
+        conflicts++;
+        continue;
+      }
+
+      const table = db.table(result.resource);
+      if (await table.get(result.id)) {
+        await table.update(result.id, { revision: result.revision });
+      }
+      if (result.new_id !== undefined && result.new_id !== result.id) {
+        await moveRecord(result.resource, result.id, result.new_id);
+        resources.add(result.resource);
+      }
+
+      // 推送期间记录又被修改：保留条目，下次基于新修订号推送
+      const current = await db.sync_outbox.get(entry.id!);
+      if (current?.updated_at === entry.updated_at) {
+        await db.sync_outbox.delete(entry.id!);
+      } else if (current) {
+        await db.sync_outbox.update(entry.id!, { base_revision: result.revision });
+      }
+      pushed++;
+    }
+  });
+
+  return { pushed, conflicts };
+}
+
+// ========== 同步入口 ==========
+
+/**
+ * 执行一次完整同步（先拉取、后推送）
+ */
+async function runSync(): Promise<ISyncResult> {
+  if (!navigator.onLine) {
+    setStatus({ phase: "offline" });
+    throw new Error("当前处于离线状态");
+  }
+
+  setStatus({ phase: "syncing", error: undefined });
+  try {
+    const resources = new Set<string>();
+    await bootstrap();
+    const pulled = await pull(resources);
+    const { pushed, conflicts } = await push(resources);
+
+    const lastSyncedAt = new Date().toISOString();
+    await db.sync_state.put({ key: "last_synced_at", value: lastSyncedAt });
+    setStatus({ phase: "idle", last_synced_at: lastSyncedAt });
+
+    if (resources.size > 0) {
+      emitApplied(Array.from(resources));
+    }
+    return { pulled, pushed, conflicts, resources: Array.from(resources) };
+  } catch (error) {
+    setStatus({ phase: navigator.onLine ? "error" : "offline", error: (error as Error).message });
+    throw error;
+  }
+}
+
+let running: Promise<ISyncResult> | null = null;
+
+/**
+ * 立即同步（同一时间只执行一次，多个标签页之间通过 Web Locks 互斥）
+ */
+export function syncNow(): Promise<ISyncResult> {
+  if (!running) {
+    // 锁回调返回的 Promise 会被展开，这里按实际结果类型标注
+    const task: Promise<ISyncResult> = navigator.locks
+      ? (navigator.locks.request(SYNC_LOCK_NAME, runSync) as unknown as Promise<ISyncResult>)
+      : runSync();
+    running = task.finally(() => {
+      running = null;
+    });
+  }
+  return running;
+}
+
+// ========== 冲突处理 ==========
+
+/**
+ * 解决一条冲突
+ * - local：保留本机版本，下次同步时覆盖服务器
+ * - server：采用服务器版本（服务器已删除时删除本机记录）
+ */
+export async function resolveSyncConflict(entryId: number, choice: "local" | "server"): Promise<void> {
+  const resource = await db.transaction("rw", SYNC_TABLES, async () => {
+    const entry = await db.sync_outbox.get(entryId);
+    if (!entry?.conflict) {
+      throw new Error("冲突已处理");
+    }
+
+    if (choice === "local") {
+      await db.sync_outbox.update(entryId, {
+        base_revision: entry.conflict.server_revision,
+        conflict: undefined,
+      });
+      return entry.resource;
+    }
+
+    const table = db.table(entry.resource);
+    if (entry.conflict.server_record) {
+      if (entry.resource === "styles") await releaseStyleNo(entry.conflict.server_record);
+      await table.put(entry.conflict.server_record);
+    } else {
+      await table.delete(entry.record_id);
+    }
+    await db.sync_outbox.delete(entryId);
+    return entry.resource;
+  });
+
+  if (choice === "server") {
+    emitApplied([resource]);
+  }
+}
+
+// ========== 自动同步 ==========
+
+/**
+ * 启动自动同步：启动时、恢复联网时、定时，以及本机修改后稍作延迟各同步一次
+ * @returns 停止函数
+ */
+export function startSyncScheduler(intervalMs: number = SYNC_INTERVAL_MS): () => void {
+  let debounceTimer: number | undefined;
+
+  const run = () => {
+    syncNow().catch((error) => console.warn("[同步] 同步失败:", error.message));
+  };
+  const schedule = () => {
+    window.clearTimeout(debounceTimer);
+    debounceTimer = window.setTimeout(run, SYNC_DEBOUNCE_MS);
+  };
+  const handleOffline = () => setStatus({ phase: "offline" });
+
+  readState<string>("last_synced_at").then((lastSyncedAt) => setStatus({ last_synced_at: lastSyncedAt }));
+  run();
+
+  const timer = window.setInterval(run, intervalMs);
+  window.addEventListener("online", run);
+  window.addEventListener("offline", handleOffline);
+  db.sync_outbox.hook("creating", schedule);
+  db.sync_outbox.hook("updating", schedule);
+
+  return () => {
+    window.clearInterval(timer);
+    window.clearTimeout(debounceTimer);
+    window.removeEventListener("online", run);
+    window.removeEventListener("offline", handleOffline);
+    db.sync_outbox.hook("creating").unsubscribe(schedule);
+    db.sync_outbox.hook("updating").unsubscribe(schedule);
+  };
+}
@@ -0,0 +1,49 @@
+/**
+ * 离线同步：本机变更队列
+ * 配置了同步服务器（VITE_SYNC_API_URL）时，数据层的每次写操作把涉及的记录登记到 sync_outbox 表，
+ * 联网后由 sync.ts 推送到服务器
+ *
+ * 每条记录只登记一次：推送时读取记录的最新内容，记录已不存在时推送删除。
+ * 登记随审计日志一起写入（见 audit.ts 的 recordAudit），与数据变更在同一事务中
+ */
+
+import { db } from "./database";
+
+/**
+ * 同步服务器地址（如 http://localhost:3002/api），未配置时不启用同步
+ */
+export const SYNC_API_URL: string = import.meta.env.VITE_SYNC_API_URL || "";
+
+export const isSyncEnabled = SYNC_API_URL !== "";
+
+/**
+ * 参与同步的资源
+ */
+export const SYNC_RESOURCES = ["customers", "sizes", "units", "styles", "variants", "bom_items", "orders", "wastage_rules"];
+
+/**
+ * 登记一批本机修改过的记录（需在包含 sync_outbox 表的事务中调用）
+ * @param changes 资源、记录 ID 及修改前的服务器修订号
+ */
+export async function enqueueSyncChanges(
+  changes: { resource: string; record_id: number; base_revision?: number }[]
+): Promise<void> {
+  if (!isSyncEnabled) return;
+
+  const updatedAt = new Date().toISOString();
+  for (const change of changes) {
+    if (!SYNC_RESOURCES.includes(change.resource)) continue;
+
+    const existing = await db.sync_outbox
+      .where("[resource+record_id]")
+      .equals([change.resource, change.record_id])
+      .first();
+
+    // 已登记的记录保留最初的修订号（推送时据此判断服务器上是否已被他人修改）
+    if (existing) {
+      await db.sync_outbox.update(existing.id!, { updated_at: updatedAt });
+    } else {
+      await db.sync_outbox.add({ ...change, updated_at: updatedAt });
+    }
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * 多标签页一致性：标签页之间的数据变更通知
+ * 同一浏览器的多个标签页共用一个 IndexedDB 数据库，但各自缓存 Refine 的查询结果。
+ * 写事务提交后通过 BroadcastChannel 通知其他标签页，由布局组件刷新涉及的资源
+ * （消息不会发回发送方，本标签页的刷新仍由 Refine 在数据操作后完成）
+ *
+ * 逐条记录的写操作都会调用 recordAudit，由它登记通知（见 audit.ts）；
+ * 整库替换的操作（导入、恢复快照、清空）及同步拉取在完成后单独通知
+ *
+ * 通道在第一次通知或订阅时才打开；在 Node.js 中（脚本、测试）打开的通道不会让进程保持运行，
+ * 也可调用 closeTabChannel() 关闭
+ */
+
+import Dexie, { type Transaction } from "dexie";
+
+const CHANNEL_NAME = "specmaster-data-changes";
+
+interface ITabMessage {
+  resources: string[];
+}
+
+let channel: BroadcastChannel | null = null;
+
+/**
+ * 获取通道（第一次使用时打开，不支持 BroadcastChannel 的环境下返回 null，不通知）
+ */
+function getChannel(): BroadcastChannel | null {
+  if (typeof BroadcastChannel === "undefined") return null;
+  if (!channel) {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    // Node.js 的 BroadcastChannel 默认保持进程运行
+    (channel as BroadcastChannel & { unref?: () => void }).unref?.();
+  }
+  return channel;
+}
+
+/**
+ * 关闭通道（之后的通知或订阅会重新打开，已有的订阅不再收到消息）
+ */
+export function closeTabChannel(): void {
+  channel?.close();
+  channel = null;
+}
+
+// 各事务待通知的资源（最外层事务提交后统一发送，事务回滚则不发送）
+const pendingByTransaction = new WeakMap<Transaction, Set<string>>();
+
+/**
+ * 立即通知其他标签页刷新资源
+ */
+export function notifyOtherTabs(resources: string[]): void {
+  if (resources.length === 0) return;
+  const target = getChannel();
+  if (!target) return;
+  const message: ITabMessage = { resources: Array.from(new Set(resources)) };
+  target.postMessage(message);
+}
+
+/**
+ * 当前事务提交后通知其他标签页（不在事务中时立即通知）
+ * 嵌套事务等最外层事务提交，避免其他标签页读到尚未提交的数据
+ */
+export function notifyOtherTabsAfterCommit(resources: string[]): void {
+  let trans = Dexie.currentTransaction;
+  if (!trans) {
+    notifyOtherTabs(resources);
+    return;
+  }
+  while (trans.parent) trans = trans.parent;
+
+  let pending = pendingByTransaction.get(trans);
+  if (!pending) {
+    const collected = new Set<string>();
+    pendingByTransaction.set(trans, collected);
+    trans.on("complete", () => notifyOtherTabs(Array.from(collected)));
+    pending = collected;
+  }
+  for (const resource of resources) {
+    pending.add(resource);
+  }
+}
+
+/**
+ * 订阅其他标签页的数据变更
+ * @returns 取消订阅函数
+ */
+export function subscribeOtherTabs(listener: (resources: string[]) => void): () => void {
+  const target = getChannel();
+  if (!target) return () => {};
+  const handler = (event: MessageEvent<ITabMessage>) => listener(event.data.resources);
+  target.addEventListener("message", handler);
+  return () => target.removeEventListener("message", handler);
+}
@@ -0,0 +1,132 @@
+/**
+ * 撤销 / 重做命令
+ * 每个命令记录一次已完成的数据操作，撤销和重做都通过 Data Provider 执行，
+ * 因此会真实修改 IndexedDB，并在审计日志中记为 undo / redo
+ *
+ * - 修改：撤销时把变化的字段改回原值，重做时再改为新值
+ * - 新建 / 克隆：撤销时移入回收站，重做时从回收站恢复（记录 ID 保持不变，后续命令仍然有效）
+ * - 删除：撤销时从回收站恢复，重做时再次移入回收站
+ */
+
+import type { DataProvider } from "@refinedev/core";
+import type { ICascadeDeleteSummary } from "../types/models";
+
+export interface IUndoCommand {
+  label: string;                  // 操作说明（如"修改配料 拉链"）
+  resources: string[];            // 撤销 / 重做后需要刷新的资源
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+}
+
+const RESTORE_URL = "/api/recycle-bin/restore";
+
+// 会随颜色版本一起删除 / 恢复的资源
+const CASCADE_RESOURCES: Record<string, string[]> = {
+  styles: ["styles", "variants", "bom_items"],
+  variants: ["variants", "bom_items"],
+  bom_items: ["bom_items"],
+};
+
+/**
+ * 找出两条记录中值不同的字段
+ */
+function changedFields(before: Record<string, any>, after: Record<string, any>): string[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  fields.delete("id");
+  fields.delete("updated_at"); // 修改时间由数据层维护
+  return Array.from(fields).filter(
+    (field) => JSON.stringify(before[field]) !== JSON.stringify(after[field])
+  );
+}
+
+/**
+ * 取出记录中指定字段的值（记录中没有的字段置为 undefined）
+ */
+function pickFields(record: Record<string, any>, fields: string[]): Record<string, any> {
+  return Object.fromEntries(fields.map((field) => [field, record[field]]));
+}
+
+/**
+ * 创建命令工厂（绑定到一个 Data Provider）
+ */
+export function createUndoCommands(dataProvider: DataProvider) {
+  const softDelete = async (resource: string, id: number, operation: string): Promise<string> => {
+    const response = (await dataProvider.deleteOne({
+      resource,
+      id,
+      meta: { auditOperation: operation },
+    })) as { summary?: ICascadeDeleteSummary };
+    if (!response.summary?.batch) {
+      throw new Error("删除结果中缺少回收站批次，无法再次恢复");
+    }
+    return response.summary.batch;
+  };
+
+  const restore = async (batch: string | undefined, operation: string): Promise<void> => {
+    if (!batch) {
+      throw new Error("找不到回收站中的记录，无法恢复");
+    }
+    await dataProvider.custom!({
+      url: RESTORE_URL,
+      method: "post",
+      payload: { batch },
+      meta: { auditOperation: operation },
+    });
+  };
+
+  /**
+   * 记录在"存在"和"在回收站中"之间切换的命令
+   */
+  const presence = (
+    resource: string,
+    id: number,
+    label: string,
+    presentAfterAction: boolean,
+    initialBatch?: string
+  ): IUndoCommand => {
+    let batch = initialBatch;
+    const remove = async (operation: string) => {
+      batch = await softDelete(resource, id, operation);
+    };
+    return {
+      label,
+      resources: CASCADE_RESOURCES[resource] || [resource],
+      undo: () => (presentAfterAction ? remove("undo") : restore(batch, "undo")),
+      redo: () => (presentAfterAction ? restore(batch, "redo") : remove("redo")),
+    };
+  };
+
+  return {
+    /**
+     * 修改记录
+     */
+    updated(resource: string, before: Record<string, any>, after: Record<string, any>, label: string): IUndoCommand {
+      const fields = changedFields(before, after);
+      const id = after.id ?? before.id;
+      const apply = (values: Record<string, any>, operation: string) =>
+        dataProvider
+          .update({ resource, id, variables: values, meta: { auditOperation: operation } })
+          .then(() => undefined);
+      return {
+        label,
+        resources: [resource],
+        undo: () => apply(pickFields(before, fields), "undo"),
+        redo: () => apply(pickFields(after, fields), "redo"),
+      };
+    },
+
+    /**
+     * 新建记录（包括深度克隆出的颜色版本）
+     */
+    created(resource: string, id: number, label: string): IUndoCommand {
+      return presence(resource, id, label, true);
+    },
+
+    /**
+     * 删除记录（移入回收站）
+     */
+    deleted(resource: string, id: number, batch: string | undefined, label: string): IUndoCommand {
+      return presence(resource, id, label, false, batch);
+    },
+  };
+}
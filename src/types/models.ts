@@ -43,6 +43,10 @@ export interface IBOMItem {
    * 用于存储不同尺码对应的规格参数
    */
   specDetails: ISpecDetail[];
+  deleted_at?: string;      // 删除时间（软删除标记，有值表示在回收站中）
+  deleted_batch?: string;   // 删除批次（同一次级联删除的记录相同，用于整体恢复）
+  revision?: number;        // 服务器修订号（离线同步时由服务器分配，本机未同步的记录为空）
+  updated_at?: string;      // 最近修改时间（ISO 8601格式，由数据层维护，用于检测过期写入）
 }
 
 // ==========================================
@@ -59,6 +63,10 @@ export interface IColorVariant {
   color_name: string;       // 款式颜色（如：灰色, 粉色）
   sample_image_url: string; // 核心展示：样衣图片URL
   size_range?: string;      // 尺码范围说明（如：S/M/L/XL）
+  deleted_at?: string;      // 删除时间（软删除标记，有值表示在回收站中）
+  deleted_batch?: string;   // 删除批次（同一次级联删除的记录相同，用于整体恢复）
+  revision?: number;        // 服务器修订号（离线同步时由服务器分配，本机未同步的记录为空）
+  updated_at?: string;      // 最近修改时间（ISO 8601格式，由数据层维护，用于检测过期写入）
 }
 
 // ==========================================
@@ -77,6 +85,11 @@ export interface IStyle {
   customer_name?: string;   // 客户名称（冗余字段，方便显示）
   create_date: string;      // 创建日期（ISO 8601格式）
   public_note?: string;     // 公共备注（所有颜色共用的备注信息）
+  deleted_at?: string;      // 删除时间（软删除标记，有值表示在回收站中）
+  deleted_batch?: string;   // 删除批次（同一次级联删除的记录相同，用于整体恢复）
+  duplicate_of?: string;    // 让出款号前的原款号（款号重复时由数据层改为临时款号，合并或改号后清除）
+  revision?: number;        // 服务器修订号（离线同步时由服务器分配，本机未同步的记录为空）
+  updated_at?: string;      // 最近修改时间（ISO 8601格式，由数据层维护，用于检测过期写入）
 }
 
 // ==========================================
@@ -97,10 +110,63 @@ export interface ICloneVariantRequest {
 export interface ICloneVariantResponse {
   id: number;               // 新创建的颜色版本ID
   color_name: string;       // 新颜色名称
+  source_variant_id: number;// 源颜色版本ID
+  bom_item_ids: number[];   // 新创建的配料ID
   cloned_bom_count: number; // 复制的配料数量
   cloned_spec_count: number;// 复制的规格数量
 }
 
+/**
+ * 款号检查结果（新建、修改款号时的异步校验）
+ */
+export interface IStyleNoCheckResult {
+  style_no: string;         // 去除首尾空格后的款号
+  available: boolean;       // 是否可以使用
+  existing_id?: number;     // 已使用该款号的记录ID
+  in_recycle_bin?: boolean; // 已使用该款号的记录在回收站中
+  similar: string[];        // 忽略大小写与空白后相同的其他款号（疑似重复）
+}
+
+/**
+ * 合并重复款号的结果
+ */
+export interface IMergeStylesResponse {
+  target_id: number;        // 保留的款号ID
+  style_no: string;         // 合并后的款号
+  merged_style_ids: number[];   // 已合并并移入回收站的款号ID
+  moved_variant_ids: number[];  // 移到保留款号下的颜色版本ID
+  renamed_color_count: number;  // 因与保留款号的颜色重名而改名的颜色版本数
+}
+
+/**
+ * 回收站条目（一次删除操作对应一个条目）
+ */
+export interface IRecycleBinEntry {
+  batch: string;            // 删除批次
+  resource: "styles" | "variants" | "bom_items";  // 被删除的顶层记录类型
+  id: number;               // 被删除的顶层记录ID
+  label: string;            // 显示名称（款号 / 款号·颜色 / 辅料名称）
+  deleted_at: string;       // 删除时间
+  expires_at: string;       // 自动清除时间
+  variant_ids: number[];    // 同批删除的颜色版本ID
+  bom_item_ids: number[];   // 同批删除的配料ID
+  spec_count: number;       // 同批删除的规格数量
+}
+
+/**
+ * 级联删除的结果汇总
+ * 删除款号时包含其下所有颜色版本和配料，删除颜色版本时包含其下所有配料
+ */
+export interface ICascadeDeleteSummary {
+  resource: string;         // 被删除的资源类型
+  id: number;               // 被删除的记录ID
+  style_ids: number[];      // 删除的款号ID
+  variant_ids: number[];    // 删除的颜色版本ID
+  bom_item_ids: number[];   // 删除的配料ID
+  spec_count: number;       // 随配料删除的规格数量
+  batch?: string;           // 回收站删除批次（软删除时有值，可用于恢复）
+}
+
 // ==========================================
 // 基础数据模块：客户管理
 // ==========================================
@@ -116,6 +182,8 @@ export interface ICustomer {
   address?: string;         // 地址
   note?: string;            // 备注
   create_date: string;      // 创建日期
+  revision?: number;        // 服务器修订号（离线同步时由服务器分配，本机未同步的记录为空）
+  updated_at?: string;      // 最近修改时间（ISO 8601格式，由数据层维护，用于检测过期写入）
 }
 
 // ==========================================
@@ -131,6 +199,8 @@ export interface ISize {
   sort_order?: number;      // 排序序号（用于显示顺序）
   note?: string;            // 备注
   is_active: boolean;       // 是否启用
+  revision?: number;        // 服务器修订号（离线同步时由服务器分配，本机未同步的记录为空）
+  updated_at?: string;      // 最近修改时间（ISO 8601格式，由数据层维护，用于检测过期写入）
 }
 
 // ==========================================
@@ -146,6 +216,34 @@ export interface IUnit {
   unit_type?: string;       // 单位类型（长度、数量、重量等）
   note?: string;            // 备注
   is_active: boolean;       // 是否启用
+  revision?: number;        // 服务器修订号（离线同步时由服务器分配，本机未同步的记录为空）
+  updated_at?: string;      // 最近修改时间（ISO 8601格式，由数据层维护，用于检测过期写入）
+}
+
+// ==========================================
+// 基础数据模块：损耗规则
+// ==========================================
+/**
+ * 损耗规则适用范围
+ * material：按辅料名称；unit_type：按单耗单位的单位类型（如数量、长度）；
+ * supplier：按供应商；customer：按款号的客户
+ */
+export type WastageScope = "material" | "unit_type" | "supplier" | "customer";
+
+/**
+ * 损耗规则接口
+ * 计算配料时在用量上加放：损耗 = max(用量 × 百分比, 最少加放数量)
+ */
+export interface IWastageRule {
+  id: number;               // 规则ID
+  scope: WastageScope;      // 适用范围
+  match_value: string;      // 匹配值（辅料名称、单位类型、供应商或客户名称）
+  percent: number;          // 损耗百分比（如 3 表示加放 3%）
+  min_qty?: number;         // 最少加放数量（按单耗单位，如每个配料所有尺码合计至少 +2 粒）
+  note?: string;            // 备注
+  is_active: boolean;       // 是否启用
+  revision?: number;        // 服务器修订号（离线同步时由服务器分配，本机未同步的记录为空）
+  updated_at?: string;      // 最近修改时间（ISO 8601格式，由数据层维护，用于检测过期写入）
 }
 
 // ==========================================
@@ -171,9 +269,11 @@ export interface IOrderConfig {
 }
 
 /**
- * 配料计算结果行
+ * 单个配料的计算结果（计算模块 utils/orderCalculation 的输出）
+ * 不区分尺码的配料只有一项 sizeCalculations（尺码为"通码"，下单数量为所有尺码加总）
  */
 export interface IOrderMaterialRow {
+  type: "sized" | "universal";    // 区分尺码 / 不区分尺码（通码）
   materialName: string;           // 辅料名称
   materialImageUrl: string;       // 辅料图片
   materialColor: string;          // 辅料颜色
@@ -182,13 +282,261 @@ export interface IOrderMaterialRow {
   usage: number;                  // 单耗
   supplier?: string;              // 供应商
   specDetails: ISpecDetail[];     // 规格明细
+  wastageRule?: string;           // 适用的损耗规则（说明文字）
   sizeCalculations: {             // 各尺码计算结果
     size: string;
     specValue: string | number;   // 规格值
     specUnit: string;             // 规格单位
     orderQty: number;             // 下单数量（件数）
-    materialQty: number;          // 配料需求量 = 单耗 × 下单数量
+    materialQty: number;          // 基础用量 = 单耗 × 下单数量
+    wastageQty: number;           // 损耗
+    totalQty: number;             // 配料需求量 = 基础用量 + 损耗
   }[];
-  totalMaterialQty: number;       // 配料总需求量
+  totalMaterialQty: number;       // 配料总需求量（含损耗）
+}
+
+/**
+ * 配料计算结果行 - 区分尺码的配料
+ */
+export interface ISizedMaterialRow {
+  type: "sized";
+  materialName: string;
+  materialImageUrl: string;
+  materialColor: string;
+  materialColorImageUrl?: string;
+  unit: string;
+  usage: number;
+  supplier?: string;
+  size: string;
+  specValue: string | number;
+  specUnit: string;
+  orderQty: number;        // 该尺码下单数量
+  baseUsage?: number;      // 基础用量 = 单耗 × 下单数量（早期订单没有，等于实际用量）
+  wastageQty?: number;     // 损耗（早期订单没有，为 0）
+  wastageRule?: string;    // 适用的损耗规则（说明文字）
+  actualUsage: number;     // 实际用量 = 基础用量 + 损耗
+  deliveryQty: number;     // 交货数量（用户可调整，默认=实际用量）
+  difference: number;      // 差数 = 交货数量 - 实际用量
+}
+
+/**
+ * 配料计算结果行 - 不区分尺码的配料
+ */
+export interface IUniversalMaterialRow {
+  type: "universal";
+  materialName: string;
+  materialImageUrl: string;
+  materialColor: string;
+  materialColorImageUrl?: string;
+  unit: string;
+  usage: number;
+  supplier?: string;
+  specValue: string | number;
+  specUnit: string;
+  totalOrderQty: number;   // 总下单数量（所有尺码加总）
+  baseUsage?: number;      // 基础用量 = 单耗 × 总下单数量（早期订单没有，等于实际用量）
+  wastageQty?: number;     // 损耗（早期订单没有，为 0）
+  wastageRule?: string;    // 适用的损耗规则（说明文字）
+  actualUsage: number;     // 实际用量 = 基础用量 + 损耗
+  deliveryQty: number;     // 交货数量
+  difference: number;      // 差数
+}
+
+export type IMaterialRow = ISizedMaterialRow | IUniversalMaterialRow;
+
+/**
+ * 订单中一个颜色的下单内容
+ * 颜色、样衣图片按下单时的内容保存一份，颜色版本改名或删除后订单仍可查看和导出
+ */
+export interface IOrderLine {
+  variant_id: number;       // 颜色版本ID
+  color_name: string;       // 颜色（下单时）
+  sample_image_url?: string;// 样衣图片（下单时）
+  size_orders: ISizeOrderQty[];  // 各尺码下单数量
+  total_qty: number;        // 该颜色下单件数
+  rows: IMaterialRow[];     // 该颜色的配料计算结果（含调整后的交货数量）
+}
+
+/**
+ * 生产订单（保存的下单记录）
+ * 一张订单对应同一款号的一个或多个颜色（客户订单常包含多个颜色），每个颜色的尺码数量和配料计算结果分别保存，
+ * 可重新打开、修改、复制和再次导出。款号按下单时的内容保存一份，款号改名或删除后订单仍可查看和导出
+ */
+export interface IOrder {
+  id: number;               // 订单ID
+  style_id: number;         // 款号ID
+  style_no: string;         // 款号（下单时）
+  customer_name?: string;   // 客户名称（下单时）
+  order_date: string;       // 下单日期（YYYY-MM-DD）
+  lines: IOrderLine[];      // 各颜色的下单内容
+  total_qty: number;        // 下单总件数（所有颜色）
+  note?: string;            // 备注
+  create_date: string;      // 创建日期
+  revision?: number;        // 服务器修订号（离线同步时由服务器分配，本机未同步的记录为空）
+  updated_at?: string;      // 最近修改时间（ISO 8601格式，由数据层维护，用于检测过期写入）
+}
+
+
+// ==========================================
+// 系统模块：数据库迁移与快照
+// ==========================================
+/**
+ * 迁移执行记录
+ * 记录每个数据库版本是如何到达的
+ */
+export interface IMigrationRecord {
+  id?: number;              // 记录ID
+  version: number;          // 数据库版本号
+  description: string;      // 迁移说明
+  mode: 'upgrade' | 'baseline';  // upgrade=本机执行了升级，baseline=新建库或记录表创建前已存在
+  applied_at: string;       // 记录时间（ISO 8601格式）
+}
+
+/**
+ * ID 序列计数器
+ * 每张表（以及嵌套在配料中的 L4 规格明细）各有一个序列，记录下一个可分配的 ID
+ */
+export interface IIdCounter {
+  sequence: string;         // 序列名（表名，或 spec_details）
+  next: number;             // 下一个可分配的 ID
+}
+
+/**
+ * 审计日志操作类型
+ */
+export type AuditAction =
+  | 'create'    // 新建
+  | 'update'    // 修改
+  | 'delete'    // 删除（移入回收站）
+  | 'restore'   // 从回收站恢复
+  | 'purge'     // 彻底删除
+  | 'replace';  // 整体替换全部业务数据（覆盖导入、快照恢复、清除、重置），整批一条记录
+
+/**
+ * 审计日志中的字段变更
+ * 规格明细按规格 ID 记录，field 为 specDetails.<规格ID>，before / after 为整条规格
+ */
+export interface IAuditChange {
+  field: string;            // 字段名
+  before?: unknown;         // 变更前的值（新建时为空）
+  after?: unknown;          // 变更后的值（删除时为空）
+}
+
+/**
+ * 审计日志（每条记录的每次变更一条）
+ */
+export interface IAuditLog {
+  id?: number;              // 日志ID
+  action: AuditAction;      // 操作类型
+  operation: string;        // 触发的数据操作（如 update、deleteMany、clone）
+  resource: string;         // 资源类型
+  record_id: number;        // 记录ID
+  record_label: string;     // 记录名称（款号 / 颜色 / 辅料名称等，记录删除后仍可显示）
+  style_id?: number;        // 所属款号ID（用于款号详情页的变更历史）
+  variant_id?: number;      // 所属颜色版本ID
+  batch?: string;           // 同一次操作产生的日志批次（批量操作、级联删除、克隆）
+  changes: IAuditChange[];  // 字段变更
+  note?: string;            // 附加说明（如级联删除、克隆来源）
+  actor: string;            // 操作人
+  created_at: string;       // 记录时间（ISO 8601格式）
+}
+
+/**
+ * 同步冲突：推送时服务器上的记录已被其他设备修改或删除
+ */
+export interface ISyncConflict {
+  server_record: any | null;  // 服务器上的当前记录（已删除时为 null）
+  server_revision?: number;   // 服务器上的当前修订号
+  detected_at: string;        // 发现时间（ISO 8601格式）
+}
+
+/**
+ * 同步变更队列条目（离线同步）
+ * 本机每条修改过、尚未推送到服务器的记录一条，推送时读取记录的最新内容
+ */
+export interface ISyncOutboxEntry {
+  id?: number;              // 条目ID
+  resource: string;         // 资源类型
+  record_id: number;        // 记录ID
+  base_revision?: number;   // 本机修改所基于的服务器修订号（本机新建的记录为空）
+  updated_at: string;       // 最近一次修改时间（ISO 8601格式）
+  conflict?: ISyncConflict; // 推送时发现的冲突（解决前不再推送）
+}
+
+/**
+ * 同步接口中的一条记录变更
+ */
+export interface ISyncChange {
+  resource: string;         // 资源类型
+  id: number;               // 记录ID
+  revision?: number;        // 服务器修订号（拉取时）
+  base_revision?: number;   // 修改所基于的修订号（推送时）
+  data: any | null;         // 记录内容，null 表示记录已删除
+}
+
+/**
+ * 推送一条变更的结果
+ */
+export interface ISyncPushResult {
+  resource: string;         // 资源类型
+  id: number;               // 推送时的记录ID
+  status: 'applied' | 'conflict';
+  revision?: number;        // 写入后的服务器修订号（applied）
+  new_id?: number;          // ID 已被其他设备占用时服务器分配的新 ID（applied）
+  server_record?: any | null;  // 服务器上的当前记录（conflict）
+  server_revision?: number;    // 服务器上的当前修订号（conflict）
+}
+
+/**
+ * 同步状态键值（拉取游标、上次同步时间等）
+ */
+export interface ISyncState {
+  key: string;
+  value: unknown;
 }
 
+/**
+ * 快照触发原因
+ */
+export type SnapshotReason =
+  | 'pre-migration'   // 数据库升级前
+  | 'scheduled'       // 定时自动快照
+  | 'manual'          // 手动创建
+  | 'before-reset'    // 重置数据库前
+  | 'before-import'   // 导入数据前
+  | 'before-delete'   // 彻底删除（清除回收站）前
+  | 'before-restore'; // 恢复其他快照前
+
+/**
+ * 本地数据快照
+ * 保存在独立的 IndexedDB 数据库中，与业务库互不影响
+ */
+export interface ISnapshot {
+  id?: number;              // 快照ID
+  reason: SnapshotReason;   // 触发原因
+  created_at: string;       // 创建时间（ISO 8601格式）
+  schema_version: number;   // 快照时业务库的版本号
+  record_count: number;     // 记录总数
+  checksum?: string;        // 数据摘要（用于跳过内容未变化的定时快照）
+  note?: string;            // 附加说明（如被删除的记录）
+  tables: Record<string, any[]>;  // 各表数据
+}
+
+// ==========================================
+// 系统模块：数据备份
+// ==========================================
+/**
+ * JSON 备份文件格式（exportAllData 的输出）
+ */
+export interface IBackupData {
+  exportDate: string;       // 导出时间（ISO 8601格式）
+  version: string;          // 备份格式版本
+  styles: IStyle[];
+  variants: IColorVariant[];
+  bom_items: IBOMItem[];
+  customers: ICustomer[];
+  sizes: ISize[];
+  units: IUnit[];
+  orders?: IOrder[];        // 生产订单（旧版本备份中没有）
+  wastage_rules?: IWastageRule[];  // 损耗规则（旧版本备份中没有）
+}
@@ -0,0 +1,95 @@
+/**
+ * 物料需求计划（MRP）：多张订单的配料合并为采购清单
+ * 按辅料名称 + 辅料颜色 + 规格 + 供应商合并（不区分款号、颜色、尺码），
+ * 长度、重量单位不同的同一辅料换算到较大的单位后相加（如 150 厘米 + 2 米 = 3.5 米）
+ *
+ * 使用方式：
+ * const rows = planMaterialPurchases(orders);
+ */
+
+import type { IOrder } from "../types/models";
+import { convertQuantity, largerUnit, specKey, unitDimension } from "./unitConversion";
+
+/**
+ * 参与计划的订单（已保存的订单或未保存的临时订单）
+ */
+export type IPlanOrder = Pick<IOrder, "style_no" | "order_date" | "total_qty" | "lines">;
+
+/**
+ * 采购清单行
+ */
+export interface IPurchaseRow {
+  key: string;                  // 合并依据（表格行 key）
+  materialName: string;
+  materialImageUrl: string;
+  materialColor: string;
+  specValue: string | number;   // 规格（首次出现的写法）
+  specUnit: string;
+  supplier?: string;
+  unit: string;                 // 采购单位
+  requiredQty: number;          // 实际用量合计（采购单位）
+  deliveryQty: number;          // 各订单交货数量合计（采购单位）
+  styleNos: string[];           // 用到该辅料的款号
+}
+
+/**
+ * 合并多张订单的配料，按供应商、辅料名称排序
+ */
+export function planMaterialPurchases(orders: IPlanOrder[]): IPurchaseRow[] {
+  const groups = new Map<string, { row: IPurchaseRow; amounts: { unit: string; required: number; delivery: number }[] }>();
+
+  orders.forEach((order) => {
+    order.lines.forEach((line) => {
+      line.rows.forEach((row) => {
+        const key = [
+          row.materialName,
+          row.materialColor,
+          specKey(row.specValue, row.specUnit),
+          row.supplier ?? "",
+          // 不能换算的单位分开统计
+          unitDimension(row.unit) ?? row.unit,
+        ].join("\u0001");
+
+        let group = groups.get(key);
+        if (!group) {
+          group = {
+            row: {
+              key,
+              materialName: row.materialName,
+              materialImageUrl: row.materialImageUrl,
+              materialColor: row.materialColor,
+              specValue: row.specValue,
+              specUnit: row.specUnit,
+              supplier: row.supplier,
+              unit: row.unit,
+              requiredQty: 0,
+              deliveryQty: 0,
+              styleNos: [],
+            },
+            amounts: [],
+          };
+          groups.set(key, group);
+        }
+
+        group.row.unit = largerUnit(group.row.unit, row.unit);
+        group.amounts.push({ unit: row.unit, required: row.actualUsage, delivery: row.deliveryQty });
+        if (!group.row.styleNos.includes(order.style_no)) group.row.styleNos.push(order.style_no);
+      });
+    });
+  });
+
+  return Array.from(groups.values())
+    .map(({ row, amounts }) => {
+      amounts.forEach(({ unit, required, delivery }) => {
+        // 同一组内的单位相同或可以换算
+        row.requiredQty += convertQuantity(required, unit, row.unit) ?? required;
+        row.deliveryQty += convertQuantity(delivery, unit, row.unit) ?? delivery;
+      });
+      return row;
+    })
+    .sort(
+      (a, b) =>
+        (a.supplier || "").localeCompare(b.supplier || "", "zh-CN") ||
+        a.materialName.localeCompare(b.materialName, "zh-CN")
+    );
+}
@@ -0,0 +1,183 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateMaterialRequirements,
+  defaultDeliveryQty,
+  isUniversalItem,
+  type ICalculationBOMItem,
+} from "./orderCalculation";
+import type { ISizedMaterialRow, IUniversalMaterialRow, IWastageRule } from "../types/models";
+
+const zipper: ICalculationBOMItem = {
+  material_name: "拉链",
+  material_image_url: "zipper.png",
+  material_color_text: "黑色",
+  unit: "条",
+  usage: 1,
+  supplier: "华美",
+  specDetails: [
+    { size: "S", spec_value: 50, spec_unit: "cm" },
+    { size: "M", spec_value: 55, spec_unit: "cm" },
+  ],
+};
+
+const thread: ICalculationBOMItem = {
+  material_name: "缝纫线",
+  material_image_url: "thread.png",
+  unit: "米",
+  usage: 0.1,
+  specDetails: [],
+};
+
+const label: ICalculationBOMItem = {
+  material_name: "主标",
+  material_image_url: "label.png",
+  unit: "个",
+  usage: 1,
+  specDetails: [{ size: "通码", spec_value: "3x5", spec_unit: "cm" }],
+};
+
+describe("isUniversalItem", () => {
+  it("规格明细为空或只有通码时不区分尺码", () => {
+    expect(isUniversalItem(thread)).toBe(true);
+    expect(isUniversalItem(label)).toBe(true);
+    expect(isUniversalItem({ specDetails: undefined as any })).toBe(true);
+    expect(isUniversalItem(zipper)).toBe(false);
+  });
+});
+
+describe("defaultDeliveryQty", () => {
+  it("实际用量向上取整", () => {
+    expect(defaultDeliveryQty(2.01)).toBe(3);
+    expect(defaultDeliveryQty(4)).toBe(4);
+    expect(defaultDeliveryQty(0)).toBe(0);
+  });
+
+  it("忽略浮点误差，不多取一个单位", () => {
+    expect(1.1 * 100).not.toBe(110);
+    expect(defaultDeliveryQty(1.1 * 100)).toBe(110);
+    expect(defaultDeliveryQty(0.07 * 100)).toBe(7);
+  });
+});
+
+describe("calculateMaterialRequirements", () => {
+  it("区分尺码的配料按尺码分别计算", () => {
+    const result = calculateMaterialRequirements(
+      [{ ...zipper, usage: 2 }],
+      [
+        { size: "S", quantity: 10 },
+        { size: "M", quantity: 20 },
+      ]
+    );
+
+    expect(result.totalOrderQty).toBe(30);
+    expect(result.missingSpecs).toEqual([]);
+    expect(result.materials).toHaveLength(1);
+    expect(result.materials[0].type).toBe("sized");
+    expect(result.materials[0].totalMaterialQty).toBe(60);
+
+    const rows = result.rows as ISizedMaterialRow[];
+    expect(rows.map((row) => [row.size, row.specValue, row.orderQty, row.actualUsage])).toEqual([
+      ["S", 50, 10, 20],
+      ["M", 55, 20, 40],
+    ]);
+    expect(rows[0]).toMatchObject({
+      type: "sized",
+      materialName: "拉链",
+      materialColor: "黑色",
+      specUnit: "cm",
+      unit: "条",
+      supplier: "华美",
+      deliveryQty: 20,
+      difference: 0,
+    });
+  });
+
+  it("不区分尺码的配料合并所有尺码的数量计算", () => {
+    const result = calculateMaterialRequirements(
+      [thread, label],
+      [
+        { size: "S", quantity: 10 },
+        { size: "M", quantity: 25 },
+      ]
+    );
+
+    const rows = result.rows as IUniversalMaterialRow[];
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({
+      type: "universal",
+      materialName: "缝纫线",
+      materialColor: "-",
+      specValue: "-",
+      specUnit: "米",
+      totalOrderQty: 35,
+      deliveryQty: 4,
+    });
+    expect(rows[0].actualUsage).toBeCloseTo(3.5);
+    expect(rows[0].difference).toBeCloseTo(-0.5);
+    expect(rows[1]).toMatchObject({ specValue: "3x5", specUnit: "cm", totalOrderQty: 35, actualUsage: 35 });
+  });
+
+  it("缺少下单尺码规格的配料跳过该尺码并记入 missingSpecs", () => {
+    const result = calculateMaterialRequirements(
+      [zipper],
+      [
+        { size: "S", quantity: 10 },
+        { size: "XL", quantity: 5 },
+      ]
+    );
+
+    expect(result.missingSpecs).toEqual([{ materialName: "拉链", size: "XL" }]);
+    expect((result.rows as ISizedMaterialRow[]).map((row) => row.size)).toEqual(["S"]);
+    expect(result.materials[0].totalMaterialQty).toBe(10);
+    // 下单总件数仍包含缺少规格的尺码
+    expect(result.totalOrderQty).toBe(15);
+  });
+
+  it("数量为 0 或负数的尺码不参与计算", () => {
+    const result = calculateMaterialRequirements(
+      [zipper, thread],
+      [
+        { size: "S", quantity: 0 },
+        { size: "M", quantity: 4 },
+        { size: "XL", quantity: -1 },
+      ]
+    );
+
+    expect(result.totalOrderQty).toBe(4);
+    // 数量为 0 的尺码即使缺少规格也不提示
+    expect(result.missingSpecs).toEqual([]);
+    expect(result.rows.map((row) => (row.type === "sized" ? row.size : "通码"))).toEqual(["M", "通码"]);
+    expect((result.rows[1] as IUniversalMaterialRow).totalOrderQty).toBe(4);
+  });
+
+  it("最少加放数量按整个配料计算一次，再按用量分摊到各尺码", () => {
+    const rule: IWastageRule = {
+      id: 1,
+      scope: "material",
+      match_value: "拉链",
+      percent: 1,
+      min_qty: 2,
+      is_active: true,
+    };
+    const result = calculateMaterialRequirements(
+      [zipper],
+      [
+        { size: "S", quantity: 10 },
+        { size: "M", quantity: 30 },
+      ],
+      { rules: [rule] }
+    );
+
+    // 40 × 1% = 0.4 不足 2，整个配料只加放 2，而不是每个尺码各加放 2
+    expect(result.materials[0].totalMaterialQty).toBeCloseTo(42);
+    const rows = result.rows as ISizedMaterialRow[];
+    expect(rows.map((row) => row.wastageQty)).toEqual([0.5, 1.5]);
+    expect(rows.map((row) => row.actualUsage)).toEqual([10.5, 31.5]);
+  });
+
+  it("所有尺码数量为 0 时没有计算结果", () => {
+    const result = calculateMaterialRequirements([zipper, thread], [{ size: "S", quantity: 0 }]);
+
+    expect(result).toEqual({ totalOrderQty: 0, materials: [], rows: [], missingSpecs: [] });
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * 配料需求计算
+ * 按一个颜色版本的配料和各尺码下单数量计算配料需求量：
+ * - 区分尺码的配料：每个下单尺码按该尺码的规格单独计算，需求量 = 单耗 × 该尺码下单数量
+ * - 不区分尺码的配料（规格明细为空或只有"通码"）：需求量 = 单耗 × 所有尺码的下单数量之和
+ * 下单数量为 0（或不是正数）的尺码不参与计算；区分尺码的配料缺少某个下单尺码的规格时，
+ * 该尺码不计算，记入 missingSpecs 由界面提示
+ * 传入损耗规则时，按配料适用的规则在基础用量上加放损耗（区分尺码的配料按尺码分别加放），
+ * 实际用量 = 基础用量 + 损耗
+ *
+ * 本模块只包含纯函数，不依赖界面（下单弹窗、采购计划的临时订单共用）
+ *
+ * 使用方式：
+ * const { rows, missingSpecs } = calculateMaterialRequirements(bomItems, sizeOrders, { rules, unitTypes, customerName });
+ */
+
+import type { IBOMItem, IMaterialRow, IOrderMaterialRow, ISizeOrderQty } from "../types/models";
+import { calculateWastage, describeWastageRule, findWastageRule, type IWastageContext } from "./wastage";
+
+/**
+ * 计算用到的配料字段
+ */
+export type ICalculationBOMItem = Pick<
+  IBOMItem,
+  | "material_name"
+  | "material_image_url"
+  | "material_color_text"
+  | "material_color_image_url"
+  | "unit"
+  | "usage"
+  | "supplier"
+  | "specDetails"
+>;
+
+/**
+ * 区分尺码的配料缺少下单尺码的规格
+ */
+export interface IMissingSpec {
+  materialName: string;
+  size: string;
+}
+
+/**
+ * 计算结果
+ */
+export interface IMaterialCalculationResult {
+  totalOrderQty: number;            // 下单总件数
+  materials: IOrderMaterialRow[];   // 各配料的计算结果（按配料顺序）
+  rows: IMaterialRow[];             // 预览、导出用的计算结果行（含默认交货数量）
+  missingSpecs: IMissingSpec[];     // 缺少规格、未计算的尺码
+}
+
+/**
+ * 是否为不区分尺码的配料（规格明细为空或只有"通码"）
+ */
+export function isUniversalItem(item: Pick<IBOMItem, "specDetails">): boolean {
+  return (
+    !item.specDetails ||
+    item.specDetails.length === 0 ||
+    (item.specDetails.length === 1 && item.specDetails[0].size === "通码")
+  );
+}
+
+/**
+ * 默认交货数量：实际用量向上取整
+ * 先按 6 位小数舍入，避免 0.1 × 30 = 3.0000000000000004 这类浮点误差多取一个单位
+ */
+export function defaultDeliveryQty(actualUsage: number): number {
+  return Math.ceil(Number(actualUsage.toFixed(6)));
+}
+
+/**
+ * 计算各配料的需求量
+ */
+export function calculateMaterials(
+  bomItems: ICalculationBOMItem[],
+  sizeOrders: ISizeOrderQty[],
+  wastage?: IWastageContext
+): { materials: IOrderMaterialRow[]; missingSpecs: IMissingSpec[] } {
+  const activeSizeOrders = sizeOrders.filter((so) => so.quantity > 0);
+  const totalOrderQty = activeSizeOrders.reduce((sum, s) => sum + s.quantity, 0);
+  const materials: IOrderMaterialRow[] = [];
+  const missingSpecs: IMissingSpec[] = [];
+
+  if (totalOrderQty === 0) return { materials, missingSpecs };
+
+  bomItems.forEach((item) => {
+    const rule = wastage ? findWastageRule(item, wastage) : undefined;
+    const base = {
+      materialName: item.material_name,
+      materialImageUrl: item.material_image_url,
+      materialColor: item.material_color_text || "-",
+      materialColorImageUrl: item.material_color_image_url,
+      unit: item.unit,
+      usage: item.usage,
+      supplier: item.supplier,
+      specDetails: item.specDetails || [],
+      wastageRule: rule && describeWastageRule(rule),
+    };
+
+    if (isUniversalItem(item)) {
+      // 不区分尺码的配料：所有尺码数量加总
+      const universalSpec = item.specDetails?.[0];
+      const materialQty = item.usage * totalOrderQty;
+      const wastageQty = calculateWastage(materialQty, rule);
+      const amounts = { materialQty, wastageQty, totalQty: materialQty + wastageQty };
+      materials.push({
+        ...base,
+        type: "universal",
+        sizeCalculations: [
+          {
+            size: "通码",
+            specValue: universalSpec?.spec_value ?? "-",
+            specUnit: universalSpec?.spec_unit ?? item.unit,
+            orderQty: totalOrderQty,
+            ...amounts,
+          },
+        ],
+        totalMaterialQty: amounts.totalQty,
+      });
+      return;
+    }
+
+    // 区分尺码的配料：每个尺码单独计算
+    const sizeCalculations: IOrderMaterialRow["sizeCalculations"] = [];
+    activeSizeOrders.forEach((so) => {
+      const specDetail = item.specDetails.find((spec) => spec.size === so.size);
+      if (!specDetail) {
+        missingSpecs.push({ materialName: item.material_name, size: so.size });
+        return;
+      }
+      sizeCalculations.push({
+        size: so.size,
+        specValue: specDetail.spec_value,
+        specUnit: specDetail.spec_unit,
+        orderQty: so.quantity,
+        materialQty: item.usage * so.quantity,
+        wastageQty: 0,
+        totalQty: item.usage * so.quantity,
+      });
+    });
+
+    // 损耗按整个配料的基础用量计算一次（最少加放数量不随尺码数翻倍），再按基础用量分摊到各尺码
+    const materialQty = sizeCalculations.reduce((sum, calc) => sum + calc.materialQty, 0);
+    const wastageQty = calculateWastage(materialQty, rule);
+    if (wastageQty > 0) {
+      sizeCalculations.forEach((calc) => {
+        calc.wastageQty = (wastageQty * calc.materialQty) / materialQty;
+        calc.totalQty = calc.materialQty + calc.wastageQty;
+      });
+    }
+
+    materials.push({
+      ...base,
+      type: "sized",
+      sizeCalculations,
+      totalMaterialQty: materialQty + wastageQty,
+    });
+  });
+
+  return { materials, missingSpecs };
+}
+
+/**
+ * 各配料的计算结果展开为预览、导出用的行（区分尺码的配料每个尺码一行），交货数量取默认值
+ */
+export function toMaterialRows(materials: IOrderMaterialRow[]): IMaterialRow[] {
+  return materials.flatMap((material): IMaterialRow[] => {
+    const common = {
+      materialName: material.materialName,
+      materialImageUrl: material.materialImageUrl,
+      materialColor: material.materialColor,
+      materialColorImageUrl: material.materialColorImageUrl,
+      unit: material.unit,
+      usage: material.usage,
+      supplier: material.supplier,
+      wastageRule: material.wastageRule,
+    };
+
+    return material.sizeCalculations.map((calc) => {
+      const deliveryQty = defaultDeliveryQty(calc.totalQty);
+      const amounts = {
+        specValue: calc.specValue,
+        specUnit: calc.specUnit,
+        baseUsage: calc.materialQty,
+        wastageQty: calc.wastageQty,
+        actualUsage: calc.totalQty,
+        deliveryQty,
+        difference: calc.totalQty - deliveryQty, // 差数 = 实际用量 - 交货数量
+      };
+
+      return material.type === "universal"
+        ? { ...common, ...amounts, type: "universal", totalOrderQty: calc.orderQty }
+        : { ...common, ...amounts, type: "sized", size: calc.size, orderQty: calc.orderQty };
+    });
+  });
+}
+
+/**
+ * 计算配料需求（一个颜色版本，不传损耗规则时不加放损耗）
+ */
+export function calculateMaterialRequirements(
+  bomItems: ICalculationBOMItem[],
+  sizeOrders: ISizeOrderQty[],
+  wastage?: IWastageContext
+): IMaterialCalculationResult {
+  const { materials, missingSpecs } = calculateMaterials(bomItems, sizeOrders, wastage);
+  return {
+    totalOrderQty: sizeOrders.filter((so) => so.quantity > 0).reduce((sum, s) => sum + s.quantity, 0),
+    materials,
+    rows: toMaterialRows(materials),
+    missingSpecs,
+  };
+}
@@ -0,0 +1,386 @@
+/**
+ * 配料下单表 Excel 导出（含图片）
+ * 下单弹窗导出计算结果、订单页面再次导出已保存的订单共用
+ * "配料下单表"工作表中每个颜色一段（日期、款号、样衣图片、颜色、件数按段合并），
+ * 多个颜色时另加"配料汇总"工作表，合并各颜色中相同的配料
+ * 用量分为基础用量、损耗、实际用量（含损耗）三列
+ *
+ * 使用方式：
+ * import { exportOrderExcel } from '@/utils/orderExport';
+ *
+ * await exportOrderExcel(order);
+ */
+
+import ExcelJS from "exceljs";
+import { saveAs } from "file-saver";
+import type { IOrder } from "../types/models";
+import { orderColorNames } from "../providers/orders";
+import { summarizeOrderMaterials } from "./orderSummary";
+
+/**
+ * 导出所需的订单内容（未保存的计算结果也可导出）
+ */
+export type IOrderExportData = Pick<
+  IOrder,
+  "style_no" | "order_date" | "total_qty" | "lines"
+>;
+
+/**
+ * 将图片 URL 转换为 Base64
+ */
+const fetchImageAsBase64 = async (url: string): Promise<string | null> => {
+  try {
+    const response = await fetch(url);
+    const blob = await response.blob();
+    return new Promise((resolve) => {
+      const reader = new FileReader();
+      reader.onloadend = () => {
+        const base64 = reader.result as string;
+        const base64Data = base64.split(",")[1];
+        resolve(base64Data);
+      };
+      reader.onerror = () => resolve(null);
+      reader.readAsDataURL(blob);
+    });
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * 根据 URL 获取图片扩展名
+ */
+const getImageExtension = (url: string): "jpeg" | "png" | "gif" => {
+  const lowerUrl = url.toLowerCase();
+  if (lowerUrl.includes(".png")) return "png";
+  if (lowerUrl.includes(".gif")) return "gif";
+  return "jpeg";
+};
+
+// ========== 图片尺寸配置 ==========
+const sampleImageColWidth = 15;   // 样衣图片列宽（字符数）
+const materialImageColWidth = 12; // 辅料图片列宽
+const rowHeight = 60;             // 行高（点）
+
+// Excel列宽转像素（约7.5像素/字符）
+const sampleImageWidth = sampleImageColWidth * 7.5;
+const materialImageWidth = materialImageColWidth * 7.5;
+// Excel行高转像素（约1.33像素/点）
+const imageHeight = rowHeight * 1.33;
+
+const thinBorder: Partial<ExcelJS.Borders> = {
+  top: { style: "thin" },
+  left: { style: "thin" },
+  bottom: { style: "thin" },
+  right: { style: "thin" },
+};
+
+/**
+ * 写入表头行
+ */
+const writeHeaderRow = (worksheet: ExcelJS.Worksheet, headers: string[]) => {
+  const headerRow = worksheet.getRow(1);
+  headers.forEach((header, index) => {
+    const cell = headerRow.getCell(index + 1);
+    cell.value = header;
+    cell.font = { bold: true, size: 10 };
+    cell.fill = {
+      type: "pattern",
+      pattern: "solid",
+      fgColor: { argb: "FFD9EAD3" }, // 浅绿色背景
+    };
+    cell.border = thinBorder;
+    cell.alignment = { horizontal: "center", vertical: "middle", wrapText: true };
+  });
+  headerRow.height = 25;
+};
+
+/**
+ * 设置一行的边框和对齐
+ */
+const styleDataRow = (dataRow: ExcelJS.Row, columnCount: number) => {
+  for (let c = 1; c <= columnCount; c++) {
+    const cell = dataRow.getCell(c);
+    cell.border = thinBorder;
+    cell.alignment = { horizontal: "center", vertical: "middle", wrapText: true };
+  }
+};
+
+/**
+ * 添加辅料图片（居中显示在单元格内）
+ * @param col 图片所在列（从 0 开始）
+ */
+const addMaterialImage = async (
+  workbook: ExcelJS.Workbook,
+  worksheet: ExcelJS.Worksheet,
+  url: string,
+  col: number,
+  rowNum: number
+) => {
+  const imageBase64 = await fetchImageAsBase64(url);
+  if (!imageBase64) return;
+
+  const imageId = workbook.addImage({
+    base64: imageBase64,
+    extension: getImageExtension(url),
+  });
+  // 计算图片尺寸，保持正方形且适应单元格
+  const imgSize = Math.min(materialImageWidth - 8, imageHeight - 8);
+  // 计算居中偏移（使用单元格内的相对位置 0-1）
+  const colOffset = (materialImageWidth - imgSize) / 2 / materialImageWidth;
+  const rowOffset = (imageHeight - imgSize) / 2 / imageHeight;
+
+  worksheet.addImage(imageId, {
+    tl: { col: col + colOffset, row: (rowNum - 1) + rowOffset },
+    ext: { width: imgSize, height: imgSize },
+  });
+};
+
+/**
+ * 导出配料下单表并下载
+ */
+export async function exportOrderExcel(order: IOrderExportData): Promise<void> {
+  // 创建工作簿
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = "SpecMaster";
+  workbook.created = new Date();
+
+  const worksheet = workbook.addWorksheet("配料下单表");
+
+  // ========== 表头行 ==========
+  const headers = [
+    "日期",
+    "款号",
+    "样衣图片",
+    "颜色",
+    "件数",
+    "辅料名称",
+    "辅料图片",
+    "规格",
+    "单位",
+    "颜色",
+    "下单数量",
+    "单耗",
+    "单位",
+    "基础用量",
+    "损耗",
+    "实际用量",
+    "交货数量",
+    "差数",
+    "供应商",
+  ];
+  writeHeaderRow(worksheet, headers);
+
+  // ========== 设置列宽（先设置，图片才能正确适应）==========
+  worksheet.getColumn(1).width = 12;   // 日期
+  worksheet.getColumn(2).width = 10;   // 款号
+  worksheet.getColumn(3).width = sampleImageColWidth;   // 样衣图片
+  worksheet.getColumn(4).width = 10;   // 颜色
+  worksheet.getColumn(5).width = 10;   // 件数
+  worksheet.getColumn(6).width = 18;   // 辅料名称
+  worksheet.getColumn(7).width = materialImageColWidth; // 辅料图片
+  worksheet.getColumn(8).width = 12;   // 规格
+  worksheet.getColumn(9).width = 8;    // 单位
+  worksheet.getColumn(10).width = 10;  // 颜色
+  worksheet.getColumn(11).width = 10;  // 下单数量
+  worksheet.getColumn(12).width = 8;   // 单耗
+  worksheet.getColumn(13).width = 8;   // 单位
+  worksheet.getColumn(14).width = 12;  // 基础用量
+  worksheet.getColumn(15).width = 10;  // 损耗
+  worksheet.getColumn(16).width = 12;  // 实际用量
+  worksheet.getColumn(17).width = 12;  // 交货数量
+  worksheet.getColumn(18).width = 10;  // 差数
+  worksheet.getColumn(19).width = 16;  // 供应商
+
+  // ========== 数据行（每个颜色一段）==========
+  let sectionStartRow = 2;
+
+  for (const line of order.lines) {
+    const calculatedData = line.rows;
+    // 没有配料的颜色也占一行，显示颜色和件数
+    const sectionRowCount = Math.max(calculatedData.length, 1);
+
+    for (let i = 0; i < sectionRowCount; i++) {
+      const rowNum = sectionStartRow + i;
+      const dataRow = worksheet.getRow(rowNum);
+      dataRow.height = rowHeight;
+
+      // 每段第一行显示日期、款号、样衣图片、颜色、件数
+      if (i === 0) {
+        dataRow.getCell(1).value = order.order_date;
+        dataRow.getCell(2).value = order.style_no;
+        dataRow.getCell(3).value = ""; // 样衣图片列
+        dataRow.getCell(4).value = line.color_name || "";
+        dataRow.getCell(5).value = line.total_qty;
+      }
+
+      const row = calculatedData[i];
+      if (row) {
+        // 辅料名称（区分尺码的配料添加尺码标识）
+        if (row.type === "sized") {
+          dataRow.getCell(6).value = `${row.materialName}\n（${row.size}）`;
+        } else {
+          dataRow.getCell(6).value = row.materialName;
+        }
+        // 辅料图片列
+        dataRow.getCell(7).value = "";
+        // 规格
+        dataRow.getCell(8).value = `${row.specValue}${row.specUnit}`;
+        // 单位（规格单位）
+        dataRow.getCell(9).value = row.specUnit;
+        // 颜色
+        dataRow.getCell(10).value = row.materialColor;
+        // 下单数量
+        dataRow.getCell(11).value = row.type === "sized" ? row.orderQty : row.totalOrderQty;
+        // 单耗
+        dataRow.getCell(12).value = row.usage;
+        // 单位（单耗单位）
+        dataRow.getCell(13).value = row.unit;
+        // 基础用量、损耗（早期订单没有单独保存，实际用量即基础用量）
+        dataRow.getCell(14).value = Number((row.baseUsage ?? row.actualUsage).toFixed(2));
+        dataRow.getCell(15).value = Number((row.wastageQty ?? 0).toFixed(2));
+        // 实际用量（含损耗）
+        dataRow.getCell(16).value = Number(row.actualUsage.toFixed(2));
+        // 交货数量 - 高亮显示
+        const deliveryCell = dataRow.getCell(17);
+        deliveryCell.value = row.deliveryQty;
+        deliveryCell.fill = {
+          type: "pattern",
+          pattern: "solid",
+          fgColor: { argb: "FFFFFF00" }, // 黄色高亮
+        };
+        // 差数
+        const diffCell = dataRow.getCell(18);
+        diffCell.value = Number(row.difference.toFixed(2));
+        if (row.difference < 0) {
+          diffCell.font = { color: { argb: "FFFF0000" } }; // 负数红色
+        }
+        // 供应商
+        dataRow.getCell(19).value = row.supplier || "";
+      }
+
+      // 设置边框和对齐
+      styleDataRow(dataRow, headers.length);
+
+      // 添加辅料图片
+      if (row?.materialImageUrl) {
+        await addMaterialImage(workbook, worksheet, row.materialImageUrl, 6, rowNum);
+      }
+    }
+
+    // 合并本段的日期、款号、样衣图片、颜色、件数列
+    const lastDataRow = sectionStartRow + sectionRowCount - 1;
+    if (sectionRowCount > 1) {
+      ["A", "B", "C", "D", "E"].forEach((col) => {
+        worksheet.mergeCells(`${col}${sectionStartRow}:${col}${lastDataRow}`);
+      });
+    }
+
+    // 添加样衣图片（合并后的单元格居中显示）
+    if (line.sample_image_url) {
+      const sampleImageBase64 = await fetchImageAsBase64(line.sample_image_url);
+      if (sampleImageBase64) {
+        const sampleImageId = workbook.addImage({
+          base64: sampleImageBase64,
+          extension: getImageExtension(line.sample_image_url),
+        });
+
+        // 计算合并单元格的总高度（像素）
+        const mergedHeightPx = sectionRowCount * imageHeight;
+
+        // 样衣图片保持2:3的比例（宽:高）
+        const targetWidth = sampleImageWidth - 10;
+        const targetHeight = targetWidth * 1.5;
+        // 如果高度超出合并区域，则按高度缩放
+        const finalHeight = Math.min(targetHeight, mergedHeightPx - 10);
+        const finalWidth = finalHeight / 1.5;
+
+        // 计算水平居中偏移（在单个列内的相对位置）
+        const colOffset = (sampleImageWidth - finalWidth) / 2 / sampleImageWidth;
+
+        // 计算垂直居中偏移（跨多行的情况）
+        // 需要计算图片应该从第几行开始，以及在那一行内的偏移
+        const topMarginPx = (mergedHeightPx - finalHeight) / 2;
+        const startRowIndex = Math.floor(topMarginPx / imageHeight);
+        const rowOffsetWithinCell = (topMarginPx - startRowIndex * imageHeight) / imageHeight;
+
+        worksheet.addImage(sampleImageId, {
+          tl: { col: 2 + colOffset, row: (sectionStartRow - 1) + startRowIndex + rowOffsetWithinCell },
+          ext: { width: finalWidth, height: finalHeight },
+        });
+      }
+    }
+
+    sectionStartRow = lastDataRow + 1;
+  }
+
+  // ========== 配料汇总（多个颜色时）==========
+  if (order.lines.length > 1) {
+    const summarySheet = workbook.addWorksheet("配料汇总");
+    const summaryHeaders = [
+      "辅料名称",
+      "辅料图片",
+      "规格",
+      "颜色",
+      "用到的颜色",
+      "下单数量",
+      "单位",
+      "基础用量",
+      "损耗",
+      "实际用量",
+      "交货数量",
+      "差数",
+      "供应商",
+    ];
+    writeHeaderRow(summarySheet, summaryHeaders);
+
+    [18, materialImageColWidth, 12, 10, 20, 10, 8, 12, 10, 12, 12, 10, 16].forEach((width, index) => {
+      summarySheet.getColumn(index + 1).width = width;
+    });
+
+    const summary = summarizeOrderMaterials(order.lines);
+    for (let i = 0; i < summary.length; i++) {
+      const row = summary[i];
+      const rowNum = 2 + i;
+      const dataRow = summarySheet.getRow(rowNum);
+      dataRow.height = rowHeight;
+
+      dataRow.getCell(1).value = row.type === "sized" ? `${row.materialName}\n（${row.size}）` : row.materialName;
+      dataRow.getCell(2).value = "";
+      dataRow.getCell(3).value = `${row.specValue}${row.specUnit}`;
+      dataRow.getCell(4).value = row.materialColor;
+      dataRow.getCell(5).value = row.colorNames.join("、");
+      dataRow.getCell(6).value = row.orderQty;
+      dataRow.getCell(7).value = row.unit;
+      dataRow.getCell(8).value = Number(row.baseUsage.toFixed(2));
+      dataRow.getCell(9).value = Number(row.wastageQty.toFixed(2));
+      dataRow.getCell(10).value = Number(row.actualUsage.toFixed(2));
+      const deliveryCell = dataRow.getCell(11);
+      deliveryCell.value = row.deliveryQty;
+      deliveryCell.fill = {
+        type: "pattern",
+        pattern: "solid",
+        fgColor: { argb: "FFFFFF00" }, // 黄色高亮
+      };
+      const diffCell = dataRow.getCell(12);
+      diffCell.value = Number(row.difference.toFixed(2));
+      if (row.difference < 0) {
+        diffCell.font = { color: { argb: "FFFF0000" } }; // 负数红色
+      }
+      dataRow.getCell(13).value = row.supplier || "";
+
+      styleDataRow(dataRow, summaryHeaders.length);
+
+      if (row.materialImageUrl) {
+        await addMaterialImage(workbook, summarySheet, row.materialImageUrl, 1, rowNum);
+      }
+    }
+  }
+
+  // ========== 导出文件 ==========
+  const buffer = await workbook.xlsx.writeBuffer();
+  const blob = new Blob([buffer], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+  saveAs(blob, `配料下单表_${order.style_no}_${orderColorNames(order)}_${order.order_date}.xlsx`);
+}
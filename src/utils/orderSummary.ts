@@ -0,0 +1,94 @@
+/**
+ * 多颜色订单的配料汇总
+ * 把各颜色中相同的配料（辅料名称、辅料颜色、尺码、规格、单位、供应商都相同）合并为一行，
+ * 下单件数、基础用量、损耗、实际用量、交货数量、差数相加，并记下用到该配料的颜色
+ *
+ * 使用方式：
+ * const summary = summarizeOrderMaterials(order.lines);
+ */
+
+import type { IOrderLine } from "../types/models";
+
+/**
+ * 汇总后的配料行
+ */
+export interface IMaterialSummaryRow {
+  key: string;                    // 合并依据（表格行 key）
+  type: "sized" | "universal";
+  materialName: string;
+  materialImageUrl: string;
+  materialColor: string;
+  size?: string;                  // 尺码（区分尺码的配料）
+  specValue: string | number;
+  specUnit: string;
+  unit: string;
+  supplier?: string;
+  orderQty: number;               // 下单件数合计
+  baseUsage: number;              // 基础用量合计
+  wastageQty: number;             // 损耗合计
+  actualUsage: number;            // 实际用量合计
+  deliveryQty: number;            // 交货数量合计
+  difference: number;             // 差数合计
+  colorNames: string[];           // 用到该配料的颜色
+}
+
+/**
+ * 合并各颜色的配料计算结果（按首次出现的顺序）
+ */
+export function summarizeOrderMaterials(lines: IOrderLine[]): IMaterialSummaryRow[] {
+  const summary = new Map<string, IMaterialSummaryRow>();
+
+  lines.forEach((line) => {
+    line.rows.forEach((row) => {
+      const size = row.type === "sized" ? row.size : undefined;
+      const orderQty = row.type === "sized" ? row.orderQty : row.totalOrderQty;
+      // 早期订单没有单独保存基础用量和损耗
+      const baseUsage = row.baseUsage ?? row.actualUsage;
+      const wastageQty = row.wastageQty ?? 0;
+      const key = [
+        row.type,
+        row.materialName,
+        row.materialColor,
+        size ?? "",
+        row.specValue,
+        row.specUnit,
+        row.unit,
+        row.supplier ?? "",
+      ].join("\u0001");
+
+      const existing = summary.get(key);
+      if (existing) {
+        existing.orderQty += orderQty;
+        existing.baseUsage += baseUsage;
+        existing.wastageQty += wastageQty;
+        existing.actualUsage += row.actualUsage;
+        existing.deliveryQty += row.deliveryQty;
+        existing.difference += row.difference;
+        if (!existing.colorNames.includes(line.color_name)) existing.colorNames.push(line.color_name);
+        return;
+      }
+
+      summary.set(key, {
+        key,
+        type: row.type,
+        materialName: row.materialName,
+        materialImageUrl: row.materialImageUrl,
+        materialColor: row.materialColor,
+        size,
+        specValue: row.specValue,
+        specUnit: row.specUnit,
+        unit: row.unit,
+        supplier: row.supplier,
+        orderQty,
+        baseUsage,
+        wastageQty,
+        actualUsage: row.actualUsage,
+        deliveryQty: row.deliveryQty,
+        difference: row.difference,
+        colorNames: [line.color_name],
+      });
+    });
+  });
+
+  return Array.from(summary.values());
+}
@@ -0,0 +1,130 @@
+/**
+ * 采购单 Excel 导出
+ * "采购单"工作表按供应商列出合并后的配料和采购数量，"订单明细"工作表列出计划包含的订单
+ *
+ * 使用方式：
+ * import { exportPurchaseExcel } from '@/utils/purchaseExport';
+ *
+ * await exportPurchaseExcel(rows, orders);
+ */
+
+import ExcelJS from "exceljs";
+import { saveAs } from "file-saver";
+import dayjs from "dayjs";
+import type { IPlanOrder, IPurchaseRow } from "./materialPlan";
+import { orderColorNames } from "../providers/orders";
+
+/**
+ * 导出的采购清单行（含确认后的采购数量）
+ */
+export interface IPurchaseExportRow extends IPurchaseRow {
+  purchaseQty: number;
+}
+
+const thinBorder: Partial<ExcelJS.Borders> = {
+  top: { style: "thin" },
+  left: { style: "thin" },
+  bottom: { style: "thin" },
+  right: { style: "thin" },
+};
+
+/**
+ * 写入一个表格（表头 + 数据行），返回各数据行
+ */
+const writeTable = (
+  worksheet: ExcelJS.Worksheet,
+  columns: { header: string; width: number }[],
+  rows: (string | number)[][]
+): ExcelJS.Row[] => {
+  const headerRow = worksheet.getRow(1);
+  columns.forEach(({ header, width }, index) => {
+    worksheet.getColumn(index + 1).width = width;
+    const cell = headerRow.getCell(index + 1);
+    cell.value = header;
+    cell.font = { bold: true, size: 10 };
+    cell.fill = {
+      type: "pattern",
+      pattern: "solid",
+      fgColor: { argb: "FFD9EAD3" }, // 浅绿色背景
+    };
+    cell.border = thinBorder;
+    cell.alignment = { horizontal: "center", vertical: "middle", wrapText: true };
+  });
+  headerRow.height = 25;
+
+  return rows.map((values, rowIndex) => {
+    const dataRow = worksheet.getRow(rowIndex + 2);
+    values.forEach((value, index) => {
+      const cell = dataRow.getCell(index + 1);
+      cell.value = value;
+      cell.border = thinBorder;
+      cell.alignment = { horizontal: "center", vertical: "middle", wrapText: true };
+    });
+    return dataRow;
+  });
+};
+
+/**
+ * 导出采购单并下载
+ */
+export async function exportPurchaseExcel(rows: IPurchaseExportRow[], orders: IPlanOrder[]): Promise<void> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = "SpecMaster";
+  workbook.created = new Date();
+
+  // ========== 采购单 ==========
+  const purchaseSheet = workbook.addWorksheet("采购单");
+  const purchaseRows = writeTable(
+    purchaseSheet,
+    [
+      { header: "供应商", width: 16 },
+      { header: "辅料名称", width: 18 },
+      { header: "规格", width: 12 },
+      { header: "辅料颜色", width: 10 },
+      { header: "实际用量", width: 12 },
+      { header: "交货数量合计", width: 12 },
+      { header: "采购数量", width: 12 },
+      { header: "单位", width: 8 },
+      { header: "用到的款号", width: 24 },
+    ],
+    rows.map((row) => [
+      row.supplier || "",
+      row.materialName,
+      `${row.specValue}${row.specUnit}`,
+      row.materialColor,
+      Number(row.requiredQty.toFixed(2)),
+      Number(row.deliveryQty.toFixed(2)),
+      row.purchaseQty,
+      row.unit,
+      row.styleNos.join("、"),
+    ])
+  );
+  // 采购数量 - 高亮显示
+  purchaseRows.forEach((dataRow) => {
+    dataRow.getCell(7).fill = {
+      type: "pattern",
+      pattern: "solid",
+      fgColor: { argb: "FFFFFF00" }, // 黄色高亮
+    };
+  });
+
+  // ========== 订单明细 ==========
+  const orderSheet = workbook.addWorksheet("订单明细");
+  writeTable(
+    orderSheet,
+    [
+      { header: "下单日期", width: 12 },
+      { header: "款号", width: 12 },
+      { header: "颜色", width: 20 },
+      { header: "件数", width: 10 },
+    ],
+    orders.map((order) => [order.order_date, order.style_no, orderColorNames(order), order.total_qty])
+  );
+
+  // ========== 导出文件 ==========
+  const buffer = await workbook.xlsx.writeBuffer();
+  const blob = new Blob([buffer], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+  saveAs(blob, `采购单_${dayjs().format("YYYY-MM-DD")}.xlsx`);
+}
@@ -0,0 +1,270 @@
+/**
+ * 全局搜索的本地全文索引
+ * 索引款号、颜色版本、配料、客户的文字字段（款号、款式名称、颜色、辅料名称、辅料颜色、供应商、客户名称），
+ * 中文字段同时索引全拼和首字母，输入"lalian"、"ll"也能找到"拉链"
+ *
+ * 匹配规则：查询按空白拆成多个词，每个词都要命中记录的某个字段（原文、全拼或首字母）；
+ * 原文命中优先于拼音，完全相同优先于开头相同、开头相同优先于包含
+ *
+ * 使用方式：
+ * const index = buildSearchIndex({ styles, variants, bomItems, customers });
+ * const groups = searchIndex(index, "5号树脂拉链");
+ */
+
+import { pinyin } from "pinyin-pro";
+import type { IBOMItem, IColorVariant, ICustomer, IStyle } from "../types/models";
+
+export type SearchResultType = "style" | "variant" | "bom_item" | "customer";
+
+/**
+ * 搜索结果的分组名称（按显示顺序）
+ */
+export const SEARCH_RESULT_LABELS: Record<SearchResultType, string> = {
+  style: "款号",
+  variant: "颜色版本",
+  bom_item: "配料",
+  customer: "客户",
+};
+
+/**
+ * 索引中的一个字段
+ */
+interface IIndexedField {
+  field: string;        // 字段名
+  label: string;        // 字段名称
+  value: string;        // 原文
+  text: string;         // 查找用的原文（小写、去除空白）
+  pinyin: string;       // 全拼（不含声调）
+  initials: string;     // 拼音首字母
+}
+
+/**
+ * 索引中的一条记录
+ */
+interface ISearchDocument {
+  type: SearchResultType;
+  id: number;
+  title: string;
+  description: string;
+  path: string;
+  fields: IIndexedField[];
+}
+
+export interface ISearchIndex {
+  documents: ISearchDocument[];
+}
+
+/**
+ * 一条搜索结果
+ */
+export interface ISearchResult {
+  type: SearchResultType;
+  id: number;
+  title: string;         // 主标题（款号、颜色、辅料名称、客户名称）
+  description: string;   // 所属款号、颜色等说明
+  path: string;          // 跳转地址
+  matchedLabel: string;  // 命中的字段名称
+  matchedValue: string;  // 命中的字段原文
+  score: number;
+}
+
+/**
+ * 一组搜索结果
+ */
+export interface ISearchGroup {
+  type: SearchResultType;
+  label: string;
+  total: number;              // 该组命中的总数
+  results: ISearchResult[];   // 按相关度排序，最多 limit 条
+}
+
+/**
+ * 参与索引的数据（均不含回收站中的记录）
+ */
+export interface ISearchSource {
+  styles: IStyle[];
+  variants: IColorVariant[];
+  bomItems: IBOMItem[];
+  customers: ICustomer[];
+}
+
+const CHINESE_PATTERN = /[一-龥]/;
+
+/**
+ * 查找用的文字（小写、去除空白）
+ */
+function normalizeText(value: string): string {
+  return value.replace(/\s+/g, "").toLowerCase();
+}
+
+function indexField(field: string, label: string, value: unknown): IIndexedField | null {
+  const raw = String(value ?? "").trim();
+  if (!raw) return null;
+
+  const text = normalizeText(raw);
+  if (!CHINESE_PATTERN.test(raw)) {
+    return { field, label, value: raw, text, pinyin: text, initials: text };
+  }
+
+  // 非中文字符按单个字符保留，首字母即字符本身
+  const syllables = pinyin(text, { toneType: "none", type: "array" }).map((syllable) => syllable.toLowerCase());
+  return {
+    field,
+    label,
+    value: raw,
+    text,
+    pinyin: syllables.join(""),
+    initials: syllables.map((syllable) => syllable.charAt(0)).join(""),
+  };
+}
+
+function indexFields(entries: [string, string, unknown][]): IIndexedField[] {
+  return entries
+    .map(([field, label, value]) => indexField(field, label, value))
+    .filter((field): field is IIndexedField => field !== null);
+}
+
+/**
+ * 款号详情页地址（可定位到颜色版本 Tab 和配料行）
+ */
+export function styleDetailPath(styleId: number, variantId?: number, bomItemId?: number): string {
+  const params = new URLSearchParams();
+  if (variantId) params.set("variant", String(variantId));
+  if (bomItemId) params.set("bom", String(bomItemId));
+  const query = params.toString();
+  return `/styles/${styleId}${query ? `?${query}` : ""}`;
+}
+
+/**
+ * 建立索引（颜色版本、配料的上级记录不存在时不收录）
+ */
+export function buildSearchIndex({ styles, variants, bomItems, customers }: ISearchSource): ISearchIndex {
+  const stylesById = new Map(styles.map((style) => [style.id, style]));
+  const variantsById = new Map(variants.map((variant) => [variant.id, variant]));
+  const documents: ISearchDocument[] = [];
+
+  styles.forEach((style) => {
+    documents.push({
+      type: "style",
+      id: style.id,
+      title: style.style_no,
+      description: [style.style_name, style.customer_name].filter(Boolean).join(" · "),
+      path: styleDetailPath(style.id),
+      fields: indexFields([
+        ["style_no", "款号", style.style_no],
+        ["style_name", "款式名称", style.style_name],
+        ["customer_name", "客户", style.customer_name],
+      ]),
+    });
+  });
+
+  variants.forEach((variant) => {
+    const style = stylesById.get(variant.style_id);
+    if (!style) return;
+    documents.push({
+      type: "variant",
+      id: variant.id,
+      title: variant.color_name,
+      description: `款号 ${style.style_no}${style.style_name ? ` · ${style.style_name}` : ""}`,
+      path: styleDetailPath(style.id, variant.id),
+      fields: indexFields([["color_name", "颜色", variant.color_name]]),
+    });
+  });
+
+  bomItems.forEach((item) => {
+    const variant = variantsById.get(item.variant_id);
+    const style = variant && stylesById.get(variant.style_id);
+    if (!variant || !style) return;
+    documents.push({
+      type: "bom_item",
+      id: item.id,
+      title: item.material_name,
+      description: [`款号 ${style.style_no} / ${variant.color_name}`, item.material_color_text, item.supplier]
+        .filter(Boolean)
+        .join(" · "),
+      path: styleDetailPath(style.id, variant.id, item.id),
+      fields: indexFields([
+        ["material_name", "辅料名称", item.material_name],
+        ["material_color_text", "辅料颜色", item.material_color_text],
+        ["supplier", "供应商", item.supplier],
+      ]),
+    });
+  });
+
+  customers.forEach((customer) => {
+    documents.push({
+      type: "customer",
+      id: customer.id,
+      title: customer.customer_name,
+      description: customer.contact_person ? `联系人 ${customer.contact_person}` : "",
+      path: `/customers/${customer.id}`,
+      fields: indexFields([["customer_name", "客户名称", customer.customer_name]]),
+    });
+  });
+
+  return { documents };
+}
+
+/**
+ * 一个词在字段中的得分（未命中为 0）
+ */
+function scoreTerm(field: IIndexedField, term: string): number {
+  const rank = (value: string, base: number) => {
+    if (value === term) return base + 3;
+    if (value.startsWith(term)) return base + 2;
+    if (value.includes(term)) return base + 1;
+    return 0;
+  };
+  return rank(field.text, 6) || rank(field.pinyin, 3) || rank(field.initials, 0);
+}
+
+/**
+ * 搜索，按类型分组返回
+ * @param limit 每组最多返回的条数
+ */
+export function searchIndex(index: ISearchIndex, query: string, limit = 8): ISearchGroup[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  const groups = new Map<SearchResultType, ISearchResult[]>();
+
+  index.documents.forEach((document) => {
+    let score = 0;
+    let matched: IIndexedField | undefined;
+    let matchedScore = 0;
+
+    for (const term of terms) {
+      let best = 0;
+      for (const field of document.fields) {
+        const fieldScore = scoreTerm(field, term);
+        if (fieldScore > best) best = fieldScore;
+        if (fieldScore > matchedScore) {
+          matched = field;
+          matchedScore = fieldScore;
+        }
+      }
+      if (best === 0) return;
+      score += best;
+    }
+
+    const results = groups.get(document.type) || [];
+    results.push({
+      type: document.type,
+      id: document.id,
+      title: document.title,
+      description: document.description,
+      path: document.path,
+      matchedLabel: matched!.label,
+      matchedValue: matched!.value,
+      score,
+    });
+    groups.set(document.type, results);
+  });
+
+  return (Object.keys(SEARCH_RESULT_LABELS) as SearchResultType[])
+    .filter((type) => groups.has(type))
+    .map((type) => {
+      const results = groups.get(type)!.sort((a, b) => b.score - a.score || a.title.localeCompare(b.title));
+      return { type, label: SEARCH_RESULT_LABELS[type], total: results.length, results: results.slice(0, limit) };
+    });
+}
@@ -0,0 +1,72 @@
+/**
+ * 单位换算
+ * 常用的长度、重量单位（按单位名称或单位代码识别）可以互相换算；
+ * 数量单位（条、粒、套等）之间不能换算
+ *
+ * 使用方式：
+ * convertQuantity(150, "厘米", "米");  // 1.5
+ */
+
+type UnitDimension = "长度" | "重量";
+
+/**
+ * 可换算的单位：所属类型和换算到基准单位（米、千克）的系数
+ */
+const CONVERTIBLE_UNITS: Record<string, { dimension: UnitDimension; factor: number }> = {
+  毫米: { dimension: "长度", factor: 0.001 },
+  mm: { dimension: "长度", factor: 0.001 },
+  厘米: { dimension: "长度", factor: 0.01 },
+  cm: { dimension: "长度", factor: 0.01 },
+  米: { dimension: "长度", factor: 1 },
+  m: { dimension: "长度", factor: 1 },
+  码: { dimension: "长度", factor: 0.9144 },
+  yd: { dimension: "长度", factor: 0.9144 },
+  克: { dimension: "重量", factor: 0.001 },
+  g: { dimension: "重量", factor: 0.001 },
+  斤: { dimension: "重量", factor: 0.5 },
+  千克: { dimension: "重量", factor: 1 },
+  公斤: { dimension: "重量", factor: 1 },
+  kg: { dimension: "重量", factor: 1 },
+};
+
+const lookup = (unit: string) => CONVERTIBLE_UNITS[unit.trim()];
+
+/**
+ * 单位所属的可换算类型（不可换算的单位返回 undefined）
+ */
+export function unitDimension(unit: string): UnitDimension | undefined {
+  return lookup(unit)?.dimension;
+}
+
+/**
+ * 数量换算到另一个单位（单位相同时原样返回，不能换算时返回 undefined）
+ */
+export function convertQuantity(quantity: number, from: string, to: string): number | undefined {
+  if (from.trim() === to.trim()) return quantity;
+  const source = lookup(from);
+  const target = lookup(to);
+  if (!source || !target || source.dimension !== target.dimension) return undefined;
+  return (quantity * source.factor) / target.factor;
+}
+
+/**
+ * 两个同类型单位中较大的一个（采购时使用较大的单位，如厘米、米取米）
+ */
+export function largerUnit(a: string, b: string): string {
+  const unitA = lookup(a);
+  const unitB = lookup(b);
+  if (!unitA || !unitB || unitA.dimension !== unitB.dimension) return a;
+  return unitB.factor > unitA.factor ? b : a;
+}
+
+/**
+ * 规格的比较用值：可换算的规格换算到基准单位，"58.5cm"和"585mm"视为相同规格；
+ * 没有规格（"-"，单位为配料的用量单位）时不比较单位
+ */
+export function specKey(specValue: string | number, specUnit: string): string {
+  if (specValue === "-" || specValue === "") return "-";
+  const unit = lookup(specUnit);
+  const value = Number(specValue);
+  if (!unit || !Number.isFinite(value)) return `${specValue}${specUnit}`;
+  return `${Number((value * unit.factor).toFixed(6))}@${unit.dimension}`;
+}
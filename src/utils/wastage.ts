@@ -0,0 +1,74 @@
+/**
+ * 损耗规则
+ * 计算配料时按规则在基础用量上加放损耗：损耗 = max(基础用量 × 百分比, 最少加放数量)
+ * 区分尺码的配料按所有尺码的基础用量合计计算一次损耗，再按用量分摊到各尺码
+ * 一个配料同时符合多条规则时只取一条，越具体的范围越优先：
+ * 辅料 > 供应商 > 单位类型 > 客户
+ *
+ * 使用方式：
+ * const rule = findWastageRule(item, { rules, unitTypes, customerName });
+ * const wastageQty = calculateWastage(baseQty, rule);
+ */
+
+import type { IBOMItem, IWastageRule, WastageScope } from "../types/models";
+
+export const WASTAGE_SCOPE_LABELS: Record<WastageScope, string> = {
+  material: "辅料",
+  supplier: "供应商",
+  unit_type: "单位类型",
+  customer: "客户",
+};
+
+// 规则优先级（越具体越靠前）
+const SCOPE_PRIORITY: WastageScope[] = ["material", "supplier", "unit_type", "customer"];
+
+/**
+ * 匹配损耗规则需要的信息
+ */
+export interface IWastageContext {
+  rules: IWastageRule[];
+  unitTypes?: Record<string, string | undefined>;  // 单位名称 → 单位类型
+  customerName?: string;                           // 款号的客户
+}
+
+const normalize = (value?: string) => (value || "").trim().toLowerCase();
+
+/**
+ * 查找配料适用的损耗规则（只看启用的规则，没有适用的规则时返回 undefined）
+ */
+export function findWastageRule(
+  item: Pick<IBOMItem, "material_name" | "unit" | "supplier">,
+  context: IWastageContext
+): IWastageRule | undefined {
+  const values: Record<WastageScope, string> = {
+    material: normalize(item.material_name),
+    supplier: normalize(item.supplier),
+    unit_type: normalize(context.unitTypes?.[item.unit]),
+    customer: normalize(context.customerName),
+  };
+
+  for (const scope of SCOPE_PRIORITY) {
+    if (!values[scope]) continue;
+    const rule = context.rules.find(
+      (r) => r.is_active && r.scope === scope && normalize(r.match_value) === values[scope]
+    );
+    if (rule) return rule;
+  }
+  return undefined;
+}
+
+/**
+ * 按规则计算损耗（没有规则或基础用量为 0 时不加放）
+ */
+export function calculateWastage(baseQty: number, rule?: IWastageRule): number {
+  if (!rule || baseQty <= 0) return 0;
+  return Math.max((baseQty * (rule.percent || 0)) / 100, rule.min_qty || 0);
+}
+
+/**
+ * 规则的说明文字，如"供应商「华美线业」+3%，至少 2"
+ */
+export function describeWastageRule(rule: IWastageRule): string {
+  const minText = rule.min_qty ? `，至少 ${rule.min_qty}` : "";
+  return `${WASTAGE_SCOPE_LABELS[rule.scope]}「${rule.match_value}」+${rule.percent}%${minText}`;
+}
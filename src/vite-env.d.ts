@@ -3,6 +3,7 @@
 interface ImportMetaEnv {
   readonly VITE_APP_MODE: string;
   readonly VITE_API_BASE_URL?: string;
+  readonly VITE_SYNC_API_URL?: string;
 }
 
 interface ImportMeta {
@@ -0,0 +1,11 @@
+import { defineConfig } from "vitest/config";
+
+// 单元测试与数据层契约测试（运行在 Node.js 中，IndexedDB 由 fake-indexeddb 模拟）
+export default defineConfig({
+  test: {
+    environment: "node",
+    include: ["src/**/*.test.ts", "server/**/*.test.ts"],
+    // IndexedDB Data Provider 的调试日志不输出到测试结果中
+    onConsoleLog: (log) => !log.startsWith("[IndexedDB]"),
+  },
+});